@@ -0,0 +1,205 @@
+'use client'
+
+import { Crown, MapPin, Plus, Trash } from '@phosphor-icons/react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Separator } from '@/components/ui/separator'
+import { FACTION_COLORS, type Faction, type FactionColor } from '@/lib/game/Faction'
+
+const ALL_FACTIONS = '__all'
+const NO_OWNER = '__none'
+
+interface FactionPanelProps {
+  factions: Faction[]
+  filter: string | null
+  onFilterChange: (factionId: string | null) => void
+  onAddFaction: () => void
+  onUpdateFaction: (id: string, patch: { name?: string; color?: FactionColor }) => void
+  onRemoveFaction: (id: string) => void
+  onSetStartHex: (id: string) => void
+  canSetStartHex: boolean
+  // Owner of the selected hexes: faction id, null (unowned) or 'mixed'
+  selectionOwner: string | null | 'mixed'
+  hasSelection: boolean
+  onAssignOwner: (factionId: string | null) => void
+}
+
+export function FactionPanel({
+  factions,
+  filter,
+  onFilterChange,
+  onAddFaction,
+  onUpdateFaction,
+  onRemoveFaction,
+  onSetStartHex,
+  canSetStartHex,
+  selectionOwner,
+  hasSelection,
+  onAssignOwner,
+}: FactionPanelProps) {
+  const usedColors = new Set(factions.map((f) => f.color))
+  const canAddFaction = usedColors.size < Object.keys(FACTION_COLORS).length
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="absolute top-40 left-4 z-30 p-1 bg-card/80 backdrop-blur-xl border border-border/50 rounded-full flex items-center gap-3 px-4 py-2 shadow-2xl cursor-pointer hover:bg-card/90 transition-colors"
+        >
+          <Crown size={18} className="text-primary" weight="bold" />
+          <span className="text-xs font-bold tracking-tight uppercase text-primary">
+            Factions{filter ? `: ${factions.find((f) => f.id === filter)?.name ?? filter}` : ''}
+          </span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-80 bg-card/95 backdrop-blur-xl border border-border/50 shadow-2xl"
+      >
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-bold text-sm uppercase tracking-wider text-primary">Factions</h4>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7"
+              onClick={onAddFaction}
+              disabled={!canAddFaction}
+            >
+              <Plus size={14} className="mr-1" />
+              Add
+            </Button>
+          </div>
+
+          {factions.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              No factions yet. Add player slots to assign buildings, units and cities.
+            </p>
+          )}
+
+          {factions.map((faction) => (
+            <div key={faction.id} className="space-y-1 rounded-md border border-border/40 p-2">
+              <div className="flex items-center gap-2">
+                <span
+                  className="h-4 w-4 shrink-0 rounded-full border border-border/60"
+                  style={{ backgroundColor: FACTION_COLORS[faction.color].hex }}
+                />
+                <Input
+                  key={`${faction.id}_${faction.name}`}
+                  className="h-7 text-xs"
+                  defaultValue={faction.name}
+                  onBlur={(e) => {
+                    const name = e.target.value.trim()
+                    if (name && name !== faction.name) onUpdateFaction(faction.id, { name })
+                  }}
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => onRemoveFaction(faction.id)}
+                >
+                  <Trash size={14} />
+                </Button>
+              </div>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={faction.color}
+                  onValueChange={(color) =>
+                    onUpdateFaction(faction.id, { color: color as FactionColor })
+                  }
+                >
+                  <SelectTrigger className="h-7 w-28 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FACTION_COLORS) as FactionColor[]).map((color) => (
+                      <SelectItem
+                        key={color}
+                        value={color}
+                        disabled={color !== faction.color && usedColors.has(color)}
+                      >
+                        {FACTION_COLORS[color].name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7 flex-1 text-xs"
+                  disabled={!canSetStartHex}
+                  onClick={() => onSetStartHex(faction.id)}
+                >
+                  <MapPin size={12} className="mr-1" />
+                  {faction.startHex
+                    ? `Start ${faction.startHex.q}, ${faction.startHex.r}`
+                    : 'Set start'}
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {factions.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Show only</Label>
+                <Select
+                  value={filter ?? ALL_FACTIONS}
+                  onValueChange={(value) => onFilterChange(value === ALL_FACTIONS ? null : value)}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_FACTIONS}>All factions</SelectItem>
+                    {factions.map((faction) => (
+                      <SelectItem key={faction.id} value={faction.id}>
+                        {faction.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Owner of selected hexes</Label>
+                <Select
+                  value={selectionOwner === 'mixed' ? undefined : (selectionOwner ?? NO_OWNER)}
+                  onValueChange={(value) => onAssignOwner(value === NO_OWNER ? null : value)}
+                  disabled={!hasSelection}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue placeholder={hasSelection ? 'Mixed' : 'Select hexes first'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_OWNER}>No owner</SelectItem>
+                    {factions.map((faction) => (
+                      <SelectItem key={faction.id} value={faction.id}>
+                        {faction.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-[11px] text-muted-foreground">
+                  Colored buildings switch to the owner&apos;s color set.
+                </p>
+              </div>
+            </>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
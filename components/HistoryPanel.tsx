@@ -0,0 +1,180 @@
+'use client'
+
+import { ClockCounterClockwise, Flag, GitBranch, Trash } from '@phosphor-icons/react'
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Separator } from '@/components/ui/separator'
+import type { HistoryCheckpoint, HistoryEntry } from '@/lib/game/MapHistory'
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[]
+  checkpoints: HistoryCheckpoint[]
+  onJump: (entryId: number) => void
+  onAddCheckpoint: (name: string) => void
+  onRemoveCheckpoint: (id: number) => void
+}
+
+const formatTime = (timestamp: number) =>
+  timestamp ? new Date(timestamp).toLocaleTimeString() : ''
+
+/**
+ * Entries in display order: the undo/redo line top to bottom, each abandoned branch
+ * indented under the state it forked from
+ */
+function layoutEntries(entries: HistoryEntry[]): Array<{ entry: HistoryEntry; depth: number }> {
+  const children = new Map<number, HistoryEntry[]>()
+  for (const entry of entries) {
+    if (entry.parentId === null) continue
+    children.set(entry.parentId, [...(children.get(entry.parentId) ?? []), entry])
+  }
+
+  const rows: Array<{ entry: HistoryEntry; depth: number }> = []
+  const stack = entries
+    .filter((entry) => entry.parentId === null)
+    .map((entry) => ({ entry, depth: 0 }))
+  while (stack.length > 0) {
+    const { entry, depth } = stack.pop() as { entry: HistoryEntry; depth: number }
+    rows.push({ entry, depth })
+
+    // The line (or the newest child inside a branch) continues at the same depth after the
+    // other branches, which are pushed last so they come out first
+    const next = children.get(entry.id) ?? []
+    const main = next.find((child) => child.active) ?? (entry.active ? undefined : next.at(-1))
+    if (main) stack.push({ entry: main, depth })
+    for (const branch of next.filter((child) => child !== main).reverse()) {
+      stack.push({ entry: branch, depth: depth + 1 })
+    }
+  }
+  return rows
+}
+
+export function HistoryPanel({
+  entries,
+  checkpoints,
+  onJump,
+  onAddCheckpoint,
+  onRemoveCheckpoint,
+}: HistoryPanelProps) {
+  const [checkpointName, setCheckpointName] = useState('')
+
+  const checkpointNames = new Map<number, string[]>()
+  for (const checkpoint of checkpoints) {
+    checkpointNames.set(checkpoint.entryId, [
+      ...(checkpointNames.get(checkpoint.entryId) ?? []),
+      checkpoint.name,
+    ])
+  }
+
+  const handleAddCheckpoint = () => {
+    const name = checkpointName.trim() || `Checkpoint ${checkpoints.length + 1}`
+    onAddCheckpoint(name)
+    setCheckpointName('')
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="absolute top-[25rem] left-4 z-30 p-1 bg-card/80 backdrop-blur-xl border border-border/50 rounded-full flex items-center gap-3 px-4 py-2 shadow-2xl cursor-pointer hover:bg-card/90 transition-colors"
+        >
+          <ClockCounterClockwise size={18} className="text-primary" weight="bold" />
+          <span className="text-xs font-bold tracking-tight uppercase text-primary">History</span>
+          <span className="text-[10px] font-mono text-muted-foreground">{entries.length - 1}</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-96 bg-card/95 backdrop-blur-xl border border-border/50 shadow-2xl"
+      >
+        <div className="space-y-3">
+          <h4 className="font-bold text-sm uppercase tracking-wider text-primary">History</h4>
+
+          <ScrollArea className="h-72 pr-3">
+            <div className="space-y-0.5">
+              {layoutEntries(entries).map(({ entry, depth }) => (
+                <button
+                  key={entry.id}
+                  type="button"
+                  onClick={() => onJump(entry.id)}
+                  className={`w-full flex items-center gap-2 rounded px-2 py-1 text-left text-xs transition-colors hover:bg-muted ${
+                    entry.current ? 'bg-primary/15 font-bold text-primary' : ''
+                  } ${entry.applied || entry.current ? '' : 'text-muted-foreground'} ${
+                    entry.active ? '' : 'italic'
+                  }`}
+                  style={{ paddingLeft: `${0.5 + depth * 1}rem` }}
+                >
+                  {!entry.active && <GitBranch size={12} className="shrink-0" />}
+                  <span className="flex-1 truncate">{entry.label}</span>
+                  {checkpointNames.get(entry.id)?.map((name) => (
+                    <span
+                      key={name}
+                      className="flex items-center gap-1 rounded bg-amber-500/15 px-1 text-amber-600"
+                    >
+                      <Flag size={10} weight="fill" />
+                      {name}
+                    </span>
+                  ))}
+                  <span className="font-mono text-[10px] text-muted-foreground">
+                    {formatTime(entry.timestamp)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+
+          <Separator />
+          <div className="space-y-2">
+            <h5 className="text-xs font-bold uppercase text-muted-foreground">Checkpoints</h5>
+            <div className="flex gap-2">
+              <Input
+                value={checkpointName}
+                onChange={(e) => setCheckpointName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddCheckpoint()}
+                placeholder="Checkpoint name"
+                className="h-8 text-xs"
+                maxLength={60}
+              />
+              <Button size="sm" variant="outline" className="h-8" onClick={handleAddCheckpoint}>
+                <Flag size={14} className="mr-1" />
+                Save
+              </Button>
+            </div>
+
+            {checkpoints.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Name the current state to come back to it later.
+              </p>
+            )}
+            {checkpoints.map((checkpoint) => (
+              <div key={checkpoint.id} className="flex items-center gap-2 text-xs">
+                <button
+                  type="button"
+                  className="flex flex-1 items-center gap-2 truncate text-left hover:text-primary"
+                  onClick={() => onJump(checkpoint.entryId)}
+                >
+                  <Flag size={12} weight="fill" className="text-amber-500" />
+                  <span className="truncate">{checkpoint.name}</span>
+                </button>
+                <span className="font-mono text-[10px] text-muted-foreground">
+                  {formatTime(checkpoint.createdAt)}
+                </span>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  onClick={() => onRemoveCheckpoint(checkpoint.id)}
+                >
+                  <Trash size={12} />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
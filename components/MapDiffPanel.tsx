@@ -0,0 +1,168 @@
+'use client'
+
+import { FileMagnifyingGlass, GitDiff, X } from '@phosphor-icons/react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Separator } from '@/components/ui/separator'
+import { CHANGE_TYPES, type ChangeType, type MapDiff } from '@/lib/game/MapDiff'
+
+// Tint of changed positions on the map
+export const DIFF_COLORS: Record<ChangeType, string> = {
+  [CHANGE_TYPES.ADDED]: '#22c55e',
+  [CHANGE_TYPES.REMOVED]: '#ef4444',
+  [CHANGE_TYPES.MODIFIED]: '#f59e0b',
+}
+
+const MAX_LISTED_CHANGES = 100
+
+interface MapDiffPanelProps {
+  baseName: string | null // File the map is compared with
+  diff: MapDiff | null
+  showTint: boolean
+  onShowTintChange: (show: boolean) => void
+  onCompare: () => void
+  onClear: () => void
+}
+
+function ChangeCount({ type, count }: { type: ChangeType; count: number }) {
+  return (
+    <div className="flex items-center justify-between text-xs">
+      <span className="flex items-center gap-2 text-muted-foreground">
+        <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: DIFF_COLORS[type] }} />
+        {type}
+      </span>
+      <span className="font-mono">{count}</span>
+    </div>
+  )
+}
+
+export function MapDiffPanel({
+  baseName,
+  diff,
+  showTint,
+  onShowTintChange,
+  onCompare,
+  onClear,
+}: MapDiffPanelProps) {
+  const count = (changes: Array<{ type: ChangeType }>, type: ChangeType) =>
+    changes.filter((change) => change.type === type).length
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="absolute top-[22rem] left-4 z-30 p-1 bg-card/80 backdrop-blur-xl border border-border/50 rounded-full flex items-center gap-3 px-4 py-2 shadow-2xl cursor-pointer hover:bg-card/90 transition-colors"
+        >
+          <GitDiff size={18} className="text-primary" weight="bold" />
+          <span className="text-xs font-bold tracking-tight uppercase text-primary">Diff</span>
+          {diff && (
+            <span className="text-[10px] font-mono text-muted-foreground">
+              {diff.hexes.length + diff.buildings.length + diff.map.length}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-80 bg-card/95 backdrop-blur-xl border border-border/50 shadow-2xl"
+      >
+        <div className="space-y-3">
+          <h4 className="font-bold text-sm uppercase tracking-wider text-primary">Compare</h4>
+
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" className="flex-1" onClick={onCompare}>
+              <FileMagnifyingGlass size={14} className="mr-2" />
+              Compare with file...
+            </Button>
+            {baseName && (
+              <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onClear}>
+                <X size={14} />
+              </Button>
+            )}
+          </div>
+
+          {!diff || !baseName ? (
+            <p className="text-xs text-muted-foreground">
+              Pick a saved version of the map to see what changed since.
+            </p>
+          ) : (
+            <>
+              <p className="text-xs text-muted-foreground truncate">
+                Changes since <span className="font-mono text-foreground">{baseName}</span>
+              </p>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="diff-tint"
+                  checked={showTint}
+                  onCheckedChange={(checked) => onShowTintChange(checked === true)}
+                />
+                <Label htmlFor="diff-tint" className="text-sm">
+                  Tint changed hexes
+                </Label>
+              </div>
+
+              <Separator />
+              <div className="space-y-1">
+                <h5 className="text-xs font-bold uppercase text-muted-foreground">Hexes</h5>
+                {Object.values(CHANGE_TYPES).map((type) => (
+                  <ChangeCount key={type} type={type} count={count(diff.hexes, type)} />
+                ))}
+              </div>
+
+              <div className="space-y-1">
+                <h5 className="text-xs font-bold uppercase text-muted-foreground">Buildings</h5>
+                {Object.values(CHANGE_TYPES).map((type) => (
+                  <ChangeCount key={type} type={type} count={count(diff.buildings, type)} />
+                ))}
+              </div>
+
+              {diff.map.length > 0 && (
+                <div className="space-y-1">
+                  <h5 className="text-xs font-bold uppercase text-muted-foreground">Map</h5>
+                  <p className="text-xs font-mono">
+                    {diff.map.map((change) => change.field).join(', ')}
+                  </p>
+                </div>
+              )}
+
+              {diff.hexes.length > 0 && (
+                <>
+                  <Separator />
+                  <ScrollArea className="h-40 pr-3">
+                    <div className="space-y-0.5">
+                      {diff.hexes.slice(0, MAX_LISTED_CHANGES).map((change) => (
+                        <div
+                          key={`${change.q},${change.r}_${change.height}`}
+                          className="flex justify-between gap-2 text-xs"
+                        >
+                          <span className="font-mono" style={{ color: DIFF_COLORS[change.type] }}>
+                            {change.q},{change.r} L{change.height}
+                          </span>
+                          <span className="truncate text-muted-foreground">
+                            {change.fields.length > 0
+                              ? change.fields.map((field) => field.field).join(', ')
+                              : change.type}
+                          </span>
+                        </div>
+                      ))}
+                      {diff.hexes.length > MAX_LISTED_CHANGES && (
+                        <p className="text-xs text-muted-foreground">
+                          …and {diff.hexes.length - MAX_LISTED_CHANGES} more
+                        </p>
+                      )}
+                    </div>
+                  </ScrollArea>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -40,16 +40,109 @@ import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { SaveMapDialog, type SaveMapData } from '@/components/SaveMapDialog'
 import { NewMapDialog } from '@/components/NewMapDialog'
+import { ResizeMapDialog } from '@/components/ResizeMapDialog'
+import { TerrainReconcileDialog } from '@/components/TerrainReconcileDialog'
+import { MapValidationDialog } from '@/components/MapValidationDialog'
+import { MapRepairDialog } from '@/components/MapRepairDialog'
 import { UnsavedDataDialog } from '@/components/UnsavedDataDialog'
-import { Hex, TERRAIN_CONFIG, TERRAIN_TYPES, type TerrainType } from '@/lib/game/Hex'
-import { Map as GameMap } from '@/lib/game/Map'
-import { MapSerializer, type BuildingData } from '@/lib/game/MapSerializer'
-import { axialToWorld, worldToAxial, offsetToAxial } from '@/lib/game/HexCoordinateConverter'
+import { RecoveryDialog } from '@/components/RecoveryDialog'
+import { MapLibraryDialog } from '@/components/MapLibraryDialog'
+import { DEFAULT_OVERLAY_SETTINGS, OverlayPanel, type OverlaySettings } from '@/components/OverlayPanel'
+import { DEFAULT_REGION_SETTINGS, RegionPanel, type RegionSettings } from '@/components/RegionPanel'
+import { FactionPanel } from '@/components/FactionPanel'
+import { MapReportPanel, type ReportFormat } from '@/components/MapReportPanel'
+import { PropertyInspector } from '@/components/PropertyInspector'
+import { DIFF_COLORS, MapDiffPanel } from '@/components/MapDiffPanel'
+import { HistoryPanel } from '@/components/HistoryPanel'
+import { DEFAULT_SELECTION_SETTINGS, SelectionPanel, type SelectionSettings } from '@/components/SelectionPanel'
+import { DEFAULT_PAINT_SETTINGS, PaintPanel, type PaintSettings } from '@/components/PaintPanel'
+import {
+  DEFAULT_PLACEMENT_SETTINGS,
+  NEUTRAL_FACTION,
+  PlacementPanel,
+  type PlacementMode,
+  type PlacementSettings,
+} from '@/components/PlacementPanel'
+import { Hex, TERRAIN_TYPES, type TerrainType } from '@/lib/game/Hex'
+import {
+  type CustomProperties,
+  PROPERTY_TARGETS,
+  type PropertyDefinition,
+  type PropertyTarget,
+  type PropertyValue,
+  withPropertyValue,
+} from '@/lib/game/CustomProperties'
+import { Map as GameMap, createMapShape, type MapShapeType, type ResizeAnchor } from '@/lib/game/Map'
+import { MapSerializer, type BuildingData, type MapMetadata } from '@/lib/game/MapSerializer'
+import { MapHistory, type HistoryChange, type HistoryRecording } from '@/lib/game/MapHistory'
+import { diffMaps, getChangedPositions, type MapContent, type MapDiff } from '@/lib/game/MapDiff'
+import {
+  AUTOSAVE_INTERVAL,
+  MapAutosaveStore,
+  createSessionId,
+  planRecovery,
+  type AutosaveRecord,
+} from '@/lib/game/MapAutosave'
+import { MapLibraryStore, collectMapFiles, type LibraryEntry } from '@/lib/game/MapLibrary'
+import {
+  combineSelection,
+  getSelectionMode,
+  selectConnected,
+  selectInPolygon,
+  selectInRadius,
+  type GroundPoint,
+  type SelectionLevel,
+  type SelectionMode,
+} from '@/lib/game/MapSelection'
+import { getBrushArea, getFillArea, getLineArea, getRingArea, planPaint } from '@/lib/game/MapPaint'
+import {
+  MINIMAP_COLOR_MODES,
+  MINIMAP_EXPORT_SIZE,
+  MINIMAP_THUMBNAIL_SIZE,
+  renderMinimapSVG,
+} from '@/lib/game/MapMinimap'
+import type { SchemaIssue } from '@/lib/game/MapSchema'
+import type { MapRepair } from '@/lib/game/MapRepair'
+import {
+  BINARY_MAP_EXTENSION,
+  convertBinaryToJson,
+  decodeMap,
+  encodeMap,
+  isBinaryMapFile,
+} from '@/lib/game/MapBinaryCodec'
+import { axialDistance, axialRange, axialToWorld, worldToAxial } from '@/lib/game/HexCoordinateConverter'
+import { findPath, getReachableHexes, type PathResult } from '@/lib/game/Pathfinding'
+import { computeFieldOfView } from '@/lib/game/Visibility'
+import { analyzeMap, reportToCSV, reportToJSON, type MapReport } from '@/lib/game/MapAnalysis'
+import { terrainRegistry } from '@/lib/game/TerrainRegistry'
+import { findTerrainMismatches, getTerrainForModel, applyModelTerrain, reconcileTerrain, type TerrainMismatch } from '@/lib/game/TerrainMapping'
+import { City } from '@/lib/game/City'
+import {
+  FACTION_COLORS,
+  Faction,
+  type FactionColor,
+  isBuildingHex,
+  isFactionColor,
+  setHexOwner,
+} from '@/lib/game/Faction'
+import { Unit, normalizeFacing } from '@/lib/game/Unit'
+import { REGION_KINDS, REGION_PALETTE, Region, type RegionKind } from '@/lib/game/RegionLayer'
 import { modelLoader } from '@/lib/three/ModelLoader'
+import { exportMapToGLB, GLB_EXTENSION } from '@/lib/three/MapGLBExporter'
+import {
+  addHexEdgeLines,
+  createHexOverlayGroup,
+  disposeHexOverlayGroup,
+  type OverlayCell,
+  type OverlayEdge,
+} from '@/lib/three/HexOverlay'
+import { createCityMarker, createUnitMarker, disposeEntityMarker } from '@/lib/three/EntityMarkers'
 import { tileRegistry } from '@/lib/llm/tile-registry'
 import { cn } from '@/lib/utils'
+import { downloadFile } from '@/lib/utils/download'
+import { canvasToPngBlob, rasterizeSvg } from '@/lib/utils/rasterize'
 
-type EditMode = 'terrain' | 'building'
+type EditMode = 'terrain' | 'building' | 'unit' | 'city'
 
 type MapSize = 'tiny' | 'small' | 'medium' | 'large' | 'very-large'
 
@@ -86,6 +179,8 @@ interface ClipboardData {
     rotation?: number
     modelData?: { obj: string; mtl: string; name: string }
     hasRiver?: boolean
+    owner?: string | null
+    properties?: CustomProperties
   }>
   sourceHeight: number
   globalLevel: number
@@ -101,11 +196,6 @@ interface ClipboardData {
   }
 }
 
-interface HistoryState {
-  map: string // JSON сериализация карты
-  timestamp: number
-}
-
 // Глобальный рендерер и сцена для превью (чтобы не превышать лимит WebGL контекстов)
 let sharedPreviewRenderer: THREE.WebGLRenderer | null = null
 let sharedPreviewScene: THREE.Scene | null = null
@@ -430,10 +520,10 @@ export default function MapEditor() {
   const draggedModelRef = useRef<{ obj: string; mtl: string; name: string } | null>(null)
   const tileHeightRef = useRef<number>(1.0) // Will be updated from first loaded model
   const clipboardDataRef = useRef<ClipboardData | null>(null)
-  const historyRef = useRef<HistoryState[]>([])
-  const historyIndexRef = useRef<number>(-1)
-  const maxHistorySize = 50
-  const isUndoRedoInProgressRef = useRef<boolean>(false)
+  const historyRef = useRef<MapHistory>(new MapHistory())
+  const recordingRef = useRef<HistoryRecording | null>(null) // Step of the edit running synchronously
+  // Re-renders the history panel for changes that do not touch the map (checkpoints)
+  const [, setHistoryVersion] = useState(0)
 
   const [isLoading, setIsLoading] = useState(true)
   const [loadingText, setLoadingText] = useState('Initializing...')
@@ -463,7 +553,18 @@ export default function MapEditor() {
   const [selectedCategory, setSelectedCategory] = useState<string>('')
   const [selectedFolder, setSelectedFolder] = useState<string>('')
   const [saveDialogOpen, setSaveDialogOpen] = useState(false)
+  const [saveThumbnail, setSaveThumbnail] = useState<string | null>(null)
   const [newMapDialogOpen, setNewMapDialogOpen] = useState(false)
+  const [resizeDialogOpen, setResizeDialogOpen] = useState(false)
+  const [terrainMismatches, setTerrainMismatches] = useState<TerrainMismatch[] | null>(null)
+  const [loadIssues, setLoadIssues] = useState<{
+    fileName: string
+    text: string // Kept for "Load with repairs"
+    issues: SchemaIssue[]
+  } | null>(null)
+  const [loadRepairs, setLoadRepairs] = useState<{ fileName: string; repairs: MapRepair[] } | null>(
+    null
+  )
   const [unsavedDataDialogOpen, setUnsavedDataDialogOpen] = useState(false)
   const [pendingAction, setPendingAction] = useState<'new' | 'load' | null>(null)
   const [generateDialogOpen, setGenerateDialogOpen] = useState(false)
@@ -483,8 +584,61 @@ export default function MapEditor() {
 
   // Map state tracking
   const [mapName, setMapName] = useState<string>('')
+  // Metadata of the loaded or last saved file: keeps createdAt and the revision history
+  const [mapMetadata, setMapMetadata] = useState<MapMetadata | null>(null)
   const [mapPath, setMapPath] = useState<string>('')
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
+  // Incremented on every map edit so derived views (overlays) can refresh
+  const [mapRevision, setMapRevision] = useState(0)
+
+  // Serialized box + shape the level grids were built for
+  const gridKeyRef = useRef<string | null>(null)
+
+  // Analysis overlays
+  const overlayGroupsRef = useRef<Map<string, THREE.Group>>(new Map())
+  const [overlaySettings, setOverlaySettings] = useState<OverlaySettings>(DEFAULT_OVERLAY_SETTINGS)
+  const [reachableCount, setReachableCount] = useState(0)
+  const [pathResult, setPathResult] = useState<PathResult | null>(null)
+  const [visibleCount, setVisibleCount] = useState(0)
+
+  // Units & cities
+  const entityMarkersRef = useRef<THREE.Group[]>([])
+  const [placementSettings, setPlacementSettings] = useState<PlacementSettings>(DEFAULT_PLACEMENT_SETTINGS)
+
+  // Factions (player slots live on the map, the filter is editor-only)
+  const [factionFilter, setFactionFilter] = useState<string | null>(null)
+
+  // Regions (painted with click-and-drag; one undo step per stroke)
+  const [regionSettings, setRegionSettings] = useState<RegionSettings>(DEFAULT_REGION_SETTINGS)
+  const regionStrokeRef = useRef<{ saved: boolean } | null>(null)
+  // Area selection tools; a box or lasso drag keeps its screen points until mouse up
+  const [selectionSettings, setSelectionSettings] = useState<SelectionSettings>(DEFAULT_SELECTION_SETTINGS)
+  const selectionDragRef = useRef<{ points: Array<{ x: number; y: number }>; mode: SelectionMode } | null>(null)
+  const [selectionShape, setSelectionShape] = useState<Array<{ x: number; y: number }> | null>(null) // Canvas pixels
+  // Tile painting; a stroke is one undo step, line and ring strokes paint on mouse up
+  const [paintSettings, setPaintSettings] = useState<PaintSettings>(DEFAULT_PAINT_SETTINGS)
+  const paintStrokeRef = useRef<{
+    saved: boolean
+    start: { q: number; r: number }
+    end: { q: number; r: number }
+    painted: Set<string> // Positions already painted, so dragging back over them does not stack again
+  } | null>(null)
+  // Saved version of the map the current one is compared with (diff panel)
+  const diffBaseRef = useRef<MapContent | null>(null)
+  const [diffBaseName, setDiffBaseName] = useState<string | null>(null)
+  const [mapDiff, setMapDiff] = useState<MapDiff | null>(null)
+  const [showDiffTint, setShowDiffTint] = useState(true)
+  // Crash recovery: autosaves of this session and the unsaved session offered on startup
+  const autosaveStoreRef = useRef(new MapAutosaveStore())
+  const [sessionId] = useState(createSessionId)
+  const autosavedRevisionRef = useRef<number | null>(null)
+  const restoredSessionRef = useRef<string | null>(null) // Kept until this session autosaves
+  const [recoveryRecords, setRecoveryRecords] = useState<AutosaveRecord[]>([])
+  // Map library (IndexedDB); libraryId is the entry the edited map was opened from or saved to
+  const libraryStoreRef = useRef(new MapLibraryStore())
+  const [libraryOpen, setLibraryOpen] = useState(false)
+  const [libraryEntries, setLibraryEntries] = useState<LibraryEntry[]>([])
+  const [libraryId, setLibraryId] = useState<string | null>(null)
 
   // Локальные модели для генерации
   const [useLocalModel, setUseLocalModel] = useState(false)
@@ -620,6 +774,16 @@ export default function MapEditor() {
     }
   }, [selectedCategory])
 
+  const placementMode: PlacementMode = editMode === 'unit' || editMode === 'city' ? editMode : 'off'
+
+  const handlePlacementModeChange = (mode: PlacementMode) => {
+    if (mode === 'off') {
+      setEditMode(selectedCategory === 'tiles' ? 'terrain' : 'building')
+    } else {
+      setEditMode(mode)
+    }
+  }
+
   const currentCategory = assetCategories.find(c => c.name === selectedCategory)
   const currentFolder = currentCategory?.folders.find(f => f.name === selectedFolder)
   const availableModels = currentFolder?.models || []
@@ -644,7 +808,7 @@ export default function MapEditor() {
     return axialToWorld(q, r, width, height, hexSize)
   }
 
-  const createHexagonalGrid = (width: number, height: number, level: number): THREE.Group => {
+  const createHexagonalGrid = (map: GameMap, level: number): THREE.Group => {
     const getHexPoints = (cx: number, cy: number, radius: number, rotation: number): THREE.Vector3[] => {
       const points: THREE.Vector3[] = []
       for (let i = 0; i < 6; i++) {
@@ -663,31 +827,50 @@ export default function MapEditor() {
     const LEVEL_HEIGHT = tileHeightRef.current || 0.7
     const gridY = level * LEVEL_HEIGHT + 0.001
 
-    // Create grid using offset coordinates for rectangular initialization, then convert to axial
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        // Convert offset to axial for grid creation
-        const { q, r } = offsetToAxial(x, y)
-        if (mapRef.current && mapRef.current.isValidCoordinate(q, r)) {
-          const [worldX, worldZ] = hexToWorld(q, r, width, height)
-          const points = getHexPoints(worldX, worldZ, R * scale, 0)
-          const linePoints: THREE.Vector3[] = []
-          for (let i = 0; i < 6; i++) {
-            linePoints.push(points[i], points[(i + 1) % 6])
-          }
-          const geometry = new THREE.BufferGeometry().setFromPoints(linePoints)
-          const material = new THREE.LineBasicMaterial({ color: 0x444444, transparent: true, opacity: 0.3 })
-          const segments = new THREE.LineSegments(geometry, material)
-          segments.position.y = gridY
-          segments.name = `grid_${q}_${r}_level_${level}`
-          segments.renderOrder = -1
-          group.add(segments)
-        }
+    // One outline per cell of the map shape
+    for (const { q, r } of map.getAllCoordinates()) {
+      const [worldX, worldZ] = hexToWorld(q, r, map.width, map.height)
+      const points = getHexPoints(worldX, worldZ, R * scale, 0)
+      const linePoints: THREE.Vector3[] = []
+      for (let i = 0; i < 6; i++) {
+        linePoints.push(points[i], points[(i + 1) % 6])
       }
+      const geometry = new THREE.BufferGeometry().setFromPoints(linePoints)
+      const material = new THREE.LineBasicMaterial({ color: 0x444444, transparent: true, opacity: 0.3 })
+      const segments = new THREE.LineSegments(geometry, material)
+      segments.position.y = gridY
+      segments.name = `grid_${q}_${r}_level_${level}`
+      segments.renderOrder = -1
+      group.add(segments)
     }
     return group
   }
 
+  // Recreate the level grids when the map box or shape changed (new map, load, undo)
+  const rebuildGrids = (map: GameMap) => {
+    const scene = sceneRef.current
+    if (!scene) return
+    const gridKey = JSON.stringify({ width: map.width, height: map.height, shape: map.shape })
+    if (gridKeyRef.current === gridKey) return
+    gridKeyRef.current = gridKey
+
+    for (let level = 0; level <= 4; level++) {
+      const existing = scene.getObjectByName(`__hexGrid_level_${level}`)
+      if (existing) {
+        scene.remove(existing)
+        existing.traverse((child) => {
+          if (child instanceof THREE.LineSegments) {
+            child.geometry.dispose()
+            child.material.dispose()
+          }
+        })
+      }
+      const hexGrid = createHexagonalGrid(map, level)
+      hexGrid.visible = (level === currentHeightLevel)
+      scene.add(hexGrid)
+    }
+  }
+
   // Convert world coordinates to axial coordinates
   const _worldToHex = (worldX: number, worldZ: number): { q: number; r: number } | null => {
     const width = mapRef.current?.width ?? 10
@@ -719,7 +902,10 @@ export default function MapEditor() {
       const model = hex.modelData || selectedModel || availableModels[0]
       if (model) {
         // If hex didn't have modelData, save it now to ensure persistence
-        if (!hex.modelData) hex.modelData = model
+        if (!hex.modelData) {
+          hex.modelData = model
+          applyModelTerrain(hex)
+        }
 
         const key = `terrain_${hex.terrain}_${model.name}_${hex.q}_${hex.r}`
 
@@ -795,60 +981,54 @@ export default function MapEditor() {
 
     setLoadingText('Заполнение карты...')
     const mapDimensions = MAP_SIZES[mapSize]
-    const map = new GameMap(mapDimensions.width, mapDimensions.height)
-
-    // Determine terrain type based on current selection
-    let terrain: TerrainType = TERRAIN_TYPES.PLAINS
-    if (selectedFolder === 'roads') terrain = TERRAIN_TYPES.ROAD
-    else if (selectedFolder === 'coast') terrain = TERRAIN_TYPES.WATER
-    else if (selectedFolder === 'forest') terrain = TERRAIN_TYPES.FOREST
-    else if (selectedFolder === 'mountains') terrain = TERRAIN_TYPES.MOUNTAIN
-
-    // Initialize using offset coordinates, then convert to axial
-    for (let y = 0; y < mapDimensions.height; y++) {
-      for (let x = 0; x < mapDimensions.width; x++) {
-        // Convert offset to axial for initialization
-        const { q, r } = offsetToAxial(x, y)
-        const h = new Hex(q, r, terrain)
-        h.modelData = selectedModel
-        map.setHex(q, r, h)
-      }
+    const map = new GameMap(mapDimensions.width, mapDimensions.height, mapRef.current?.shape)
+    // A new map has only the built-in terrains, not those of the map loaded before
+    terrainRegistry.setMapTerrains([])
+
+    // Terrain follows the tile model (water tiles are WATER, road tiles are ROAD, ...)
+    const terrain = getTerrainForModel(selectedModel) ?? TERRAIN_TYPES.PLAINS
+
+    // Fill every cell of the map shape
+    for (const { q, r } of map.getAllCoordinates()) {
+      const h = new Hex(q, r, terrain)
+      h.modelData = selectedModel
+      map.setHex(q, r, h)
     }
 
     mapRef.current = map
     await buildMap()
     setSelectedHexes([])
-    // Инициализируем историю после создания карты
-    saveHistoryState()
+    // Новая карта начинает историю заново
+    historyRef.current.clear()
   }
 
-  const handleInitializeMapWithModel = async (newMapSize: MapSize, model: { obj: string; mtl: string; name: string }) => {
+  const handleInitializeMapWithModel = async (
+    newMapSize: MapSize,
+    shapeType: MapShapeType,
+    model: { obj: string; mtl: string; name: string }
+  ) => {
     if (!sceneRef.current) return
 
     setLoadingText('Filling map with base tiles...')
     setIsLoading(true)
 
     const mapDimensions = MAP_SIZES[newMapSize]
-    const map = new GameMap(mapDimensions.width, mapDimensions.height)
+    const map = new GameMap(
+      mapDimensions.width,
+      mapDimensions.height,
+      createMapShape(shapeType, mapDimensions.width, mapDimensions.height)
+    )
+    terrainRegistry.setMapTerrains([])
 
-    // Determine terrain type based on current selection
-    let terrain: TerrainType = TERRAIN_TYPES.PLAINS
-    if (selectedFolder === 'roads') terrain = TERRAIN_TYPES.ROAD
-    else if (selectedFolder === 'coast') terrain = TERRAIN_TYPES.WATER
-    else if (selectedFolder === 'forest') terrain = TERRAIN_TYPES.FOREST
-    else if (selectedFolder === 'mountains') terrain = TERRAIN_TYPES.MOUNTAIN
+    // Terrain follows the tile model (water tiles are WATER, road tiles are ROAD, ...)
+    const terrain = getTerrainForModel(model) ?? TERRAIN_TYPES.PLAINS
 
-    // Initialize using offset coordinates, then convert to axial
-    // Fill the bottom level (height = 0) with the selected tile
-    for (let y = 0; y < mapDimensions.height; y++) {
-      for (let x = 0; x < mapDimensions.width; x++) {
-        // Convert offset to axial for initialization
-        const { q, r } = offsetToAxial(x, y)
-        const h = new Hex(q, r, terrain)
-        h.height = 0 // Fill the bottom level (lowest level)
-        h.modelData = model
-        map.setHex(q, r, h)
-      }
+    // Fill the bottom level (height = 0) of every cell in the map shape with the selected tile
+    for (const { q, r } of map.getAllCoordinates()) {
+      const h = new Hex(q, r, terrain)
+      h.height = 0 // Fill the bottom level (lowest level)
+      h.modelData = model
+      map.setHex(q, r, h)
     }
 
     mapRef.current = map
@@ -856,19 +1036,185 @@ export default function MapEditor() {
     setSelectedHexes([])
     setIsLoading(false)
 
-    // Инициализируем историю после создания карты
-    saveHistoryState()
+    // Новая карта начинает историю заново
+    historyRef.current.clear()
     // Сбрасываем флаг изменений для новой заполненной карты
     setHasUnsavedChanges(false)
 
     showNotification('success', `New ${MAP_SIZES[newMapSize].label} map created and filled with ${model.name}`)
   }
 
+  const markMapChanged = () => {
+    setHasUnsavedChanges(true)
+    setMapRevision(prev => prev + 1)
+  }
+
   const showNotification = (type: 'success' | 'error', message: string) => {
     setNotification({ type, message })
     setTimeout(() => setNotification(null), 6000)
   }
 
+  // Buildings in map file form (placeBuilding keeps them in the scene, not in the map)
+  const getBuildingList = (): BuildingData[] => {
+    const buildings: BuildingData[] = []
+    buildingObjectsRef.current.forEach((building, key) => {
+      const modelData = (building as any).userData?.modelData
+      if (modelData) {
+        const [q, r] = key.split(',').map(Number)
+        const properties = (building as any).userData?.properties
+        buildings.push({ q, r, modelData, ...(properties && { properties }) })
+      }
+    })
+    return buildings
+  }
+
+  // One building by "q,r" key, null when there is none (undo history records buildings this way)
+  const getBuildingData = (key: string): BuildingData | null => {
+    const building = buildingObjectsRef.current.get(key)
+    const modelData = building?.userData.modelData
+    if (!modelData) return null
+    const [q, r] = key.split(',').map(Number)
+    const properties = building.userData.properties
+    return { q, r, modelData, ...(properties && { properties }) }
+  }
+
+  // Buildings as MapSerializer options (see SerializeOptions.buildingData)
+  const getBuildingSaveOptions = () => {
+    const buildingData = new Map<string, { obj: string; mtl: string; name: string }>()
+    const buildingProperties = new Map<string, CustomProperties>()
+    buildingObjectsRef.current.forEach((building, key) => {
+      const { modelData, properties } = (building as any).userData ?? {}
+      if (modelData) {
+        buildingData.set(key, modelData)
+        if (properties) buildingProperties.set(key, properties)
+      }
+    })
+    return {
+      includeBuildings: buildingData.size > 0,
+      buildingData: buildingData.size > 0 ? buildingData : undefined,
+      buildingProperties: buildingProperties.size > 0 ? buildingProperties : undefined,
+    }
+  }
+
+  const renderMinimap = () =>
+    renderMinimapSVG(mapRef.current as GameMap, {
+      colorMode: MINIMAP_COLOR_MODES.TILE,
+      buildings: getBuildingList(),
+    })
+
+  // PNG data URL stored in the map metadata for map browsers
+  const renderThumbnail = async (): Promise<string | null> => {
+    if (!mapRef.current) return null
+    const canvas = await rasterizeSvg(renderMinimap(), MINIMAP_THUMBNAIL_SIZE)
+    return canvas.toDataURL('image/png')
+  }
+
+  // Write the map, selection and camera into the next recovery slot when it changed
+  const autosaveMap = async () => {
+    if (!mapRef.current || !hasUnsavedChanges) return
+    if (autosavedRevisionRef.current === mapRevision) {
+      // Nothing new to save; keep the slots from being offered for recovery in another tab
+      await autosaveStoreRef.current
+        .touchSession(sessionId)
+        .catch(error => console.warn('Autosave failed:', error))
+      return
+    }
+    autosavedRevisionRef.current = mapRevision
+    try {
+      const target = cameraTargetRef.current
+      const data = MapSerializer.serialize(mapRef.current, mapSize, {
+        name: mapName || 'Untitled map',
+        description: mapMetadata?.description ?? '',
+        ...getBuildingSaveOptions(),
+        checkpoints: historyRef.current.exportCheckpoints(),
+      })
+      const thumbnail = await renderThumbnail().catch(() => null)
+      await autosaveStoreRef.current.save({
+        sessionId,
+        savedAt: Date.now(),
+        mapName,
+        mapPath,
+        ...(libraryId && { libraryId }),
+        fileMetadata: mapMetadata,
+        data,
+        thumbnail: thumbnail ?? undefined,
+        selection: selectedHexes,
+        camera: {
+          target: { x: target.x, y: target.y, z: target.z },
+          angleX: cameraAngleXRef.current,
+          angleY: cameraAngleYRef.current,
+          distance: cameraDistanceRef.current,
+        },
+      })
+      // The restored session is covered by this one now
+      if (restoredSessionRef.current) {
+        await autosaveStoreRef.current.removeSession(restoredSessionRef.current)
+        restoredSessionRef.current = null
+      }
+    } catch (error) {
+      console.warn('Autosave failed:', error)
+      autosavedRevisionRef.current = null
+    }
+  }
+  const autosaveMapRef = useRef(autosaveMap)
+  autosaveMapRef.current = autosaveMap
+
+  const checkForRecovery = async () => {
+    try {
+      const records = await autosaveStoreRef.current.list()
+      const { records: recoverable, staleSessions } = planRecovery(records, sessionId)
+      if (staleSessions.length > 0) await autosaveStoreRef.current.removeSessions(staleSessions)
+      setRecoveryRecords(recoverable)
+    } catch (error) {
+      console.warn('Autosave recovery is unavailable:', error)
+    }
+  }
+
+  const handleRestoreAutosave = async (record: AutosaveRecord) => {
+    setRecoveryRecords([])
+    try {
+      setLoadingText('Restoring map...')
+      setIsLoading(true)
+
+      const loaded = MapSerializer.deserialize(record.data)
+      await applyLoadedMap(loaded, record.mapPath || 'autosave.json')
+      // The file the work came from, not the autosave itself
+      setMapName(record.mapName)
+      setMapPath(record.mapPath)
+      setLibraryId(record.libraryId ?? null)
+      setMapMetadata(record.fileMetadata)
+      setHasUnsavedChanges(true)
+      setSelectedHexes(record.selection)
+
+      const { target, angleX, angleY, distance } = record.camera
+      cameraTargetRef.current.set(target.x, target.y, target.z)
+      cameraAngleXRef.current = angleX
+      cameraAngleYRef.current = angleY
+      cameraDistanceRef.current = distance
+
+      autosavedRevisionRef.current = null
+      restoredSessionRef.current = record.sessionId
+      showNotification(
+        'success',
+        `Restored "${record.mapName || 'Untitled map'}" from ${new Date(record.savedAt).toLocaleString()}`
+      )
+    } catch (error) {
+      console.error('Failed to restore autosave:', error)
+      setIsLoading(false)
+      showNotification('error', `Restore error: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const handleDiscardAutosave = () => {
+    const sessionToDiscard = recoveryRecords[0]?.sessionId
+    setRecoveryRecords([])
+    if (!sessionToDiscard) return
+    autosaveStoreRef.current
+      .removeSession(sessionToDiscard)
+      .then(checkForRecovery) // Offer the next older session, if any
+      .catch(error => console.warn('Failed to discard autosave:', error))
+  }
+
   const handleSaveMap = () => {
     if (!mapRef.current) {
       showNotification('error', 'No map to save')
@@ -880,51 +1226,60 @@ export default function MapEditor() {
       handleQuickSave()
     } else {
       // Иначе открываем диалог сохранения
+      setSaveThumbnail(null)
       setSaveDialogOpen(true)
+      renderThumbnail()
+        .then(setSaveThumbnail)
+        .catch(error => console.warn('Failed to render map thumbnail:', error))
     }
   }
 
-  const handleQuickSave = () => {
+  const handleQuickSave = async () => {
     if (!mapRef.current || !mapName) return
 
     try {
       setLoadingText('Saving map...')
       setIsLoading(true)
 
-      // Collect building data
-      const buildingData = new Map<string, { obj: string; mtl: string; name: string }>()
-      buildingObjectsRef.current.forEach((building, key) => {
-        const modelData = (building as any).userData?.modelData
-        if (modelData) {
-          buildingData.set(key, modelData)
-        }
-      })
+      // Keep the thumbnail up to date if the file has one
+      const thumbnail = mapMetadata?.thumbnail ? await renderThumbnail() : null
 
       const jsonString = MapSerializer.serialize(mapRef.current, mapSize, {
         name: mapName,
-        description: '', // Используем пустое описание для быстрого сохранения
-        includeBuildings: buildingData.size > 0,
-        buildingData: buildingData.size > 0 ? buildingData : undefined,
+        description: mapMetadata?.description ?? '',
+        ...getBuildingSaveOptions(),
+        previousMetadata: mapMetadata ?? undefined,
+        thumbnail: thumbnail ?? undefined,
+        // Keep saving checkpoints if the file has them
+        checkpoints: mapMetadata?.checkpoints ? historyRef.current.exportCheckpoints() : undefined,
       })
 
       // Validate before saving
-      const validation = MapSerializer.validate(JSON.parse(jsonString))
+      const savedFile = JSON.parse(jsonString)
+      const validation = MapSerializer.validate(savedFile)
       if (!validation.valid) {
         throw new Error(`Validation error: ${validation.errors.join(', ')}`)
       }
 
-      // Create download link
-      const blob = new Blob([jsonString], { type: 'application/json' })
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = mapPath || `${mapName.replace(/[^a-zA-Z0-9]/g, '_')}_${Date.now()}.json`
-      document.body.appendChild(a)
-      a.click()
-      document.body.removeChild(a)
-      URL.revokeObjectURL(url)
+      const fileName = mapPath || `${mapName.replace(/[^a-zA-Z0-9]/g, '_')}_${Date.now()}.json`
+      if (libraryId) {
+        // Opened from or saved to the library: update that entry
+        await libraryStoreRef.current.save(jsonString, fileName, libraryId)
+      } else {
+        // Create download link
+        const blob = new Blob([jsonString], { type: 'application/json' })
+        const url = URL.createObjectURL(blob)
+        const a = document.createElement('a')
+        a.href = url
+        a.download = fileName
+        document.body.appendChild(a)
+        a.click()
+        document.body.removeChild(a)
+        URL.revokeObjectURL(url)
+      }
 
       setIsLoading(false)
+      setMapMetadata(savedFile.metadata)
       setHasUnsavedChanges(false)
       showNotification('success', `Map "${mapName}" saved successfully`)
     } catch (error) {
@@ -934,7 +1289,7 @@ export default function MapEditor() {
     }
   }
 
-  const handleSaveMapConfirm = (saveData: SaveMapData) => {
+  const handleSaveMapConfirm = async (saveData: SaveMapData) => {
     if (!mapRef.current) return
 
     try {
@@ -942,44 +1297,48 @@ export default function MapEditor() {
       setLoadingText('Saving map...')
       setIsLoading(true)
 
-      // Collect building data
-      const buildingData = new Map<string, { obj: string; mtl: string; name: string }>()
-      buildingObjectsRef.current.forEach((building, key) => {
-        const modelData = (building as any).userData?.modelData
-        if (modelData) {
-          buildingData.set(key, modelData)
-        }
-      })
-
       const jsonString = MapSerializer.serialize(mapRef.current, mapSize, {
         name: saveData.name,
         description: saveData.description,
-        includeBuildings: buildingData.size > 0,
-        buildingData: buildingData.size > 0 ? buildingData : undefined,
+        ...getBuildingSaveOptions(),
+        previousMetadata: mapMetadata ?? undefined,
+        author: saveData.author,
+        tags: saveData.tags,
+        changeNote: saveData.changeNote,
+        thumbnail: saveData.thumbnail,
+        checkpoints: saveData.includeCheckpoints ? historyRef.current.exportCheckpoints() : undefined,
       })
 
       // Validate before saving
-      const validation = MapSerializer.validate(JSON.parse(jsonString))
+      const savedFile = JSON.parse(jsonString)
+      const validation = MapSerializer.validate(savedFile)
       if (!validation.valid) {
         throw new Error(`Validation error: ${validation.errors.join(', ')}`)
       }
 
-      // Create download link
-      const blob = new Blob([jsonString], { type: 'application/json' })
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = saveData.filename
-      document.body.appendChild(a)
-      a.click()
-      document.body.removeChild(a)
-      URL.revokeObjectURL(url)
+      if (saveData.destination === 'library') {
+        const entry = await libraryStoreRef.current.save(jsonString, saveData.filename)
+        setLibraryId(entry.id)
+      } else {
+        // Create download link
+        const blob = new Blob([jsonString], { type: 'application/json' })
+        const url = URL.createObjectURL(blob)
+        const a = document.createElement('a')
+        a.href = url
+        a.download = saveData.filename
+        document.body.appendChild(a)
+        a.click()
+        document.body.removeChild(a)
+        URL.revokeObjectURL(url)
+        setLibraryId(null)
+      }
 
       setIsLoading(false)
 
       // Сохраняем информацию о карте
       setMapName(saveData.name)
       setMapPath(saveData.filename)
+      setMapMetadata(savedFile.metadata)
       setHasUnsavedChanges(false)
 
       showNotification('success', `Map "${saveData.name}" saved successfully`)
@@ -1002,11 +1361,22 @@ export default function MapEditor() {
     }
   }
 
-  const handleNewMapConfirm = (newMapSize: MapSize, fillMap: boolean, selectedTile?: { tile_id: string; name: string; obj_path: string; mtl_path: string }) => {
-    // Clear the current map
-    if (mapRef.current) {
-      mapRef.current.hexes.clear()
-    }
+  const handleNewMapConfirm = (
+    newMapSize: MapSize,
+    shapeType: MapShapeType,
+    fillMap: boolean,
+    selectedTile?: { tile_id: string; name: string; obj_path: string; mtl_path: string }
+  ) => {
+    // Replace the current map with an empty one of the chosen size and shape
+    const newMapDimensions = MAP_SIZES[newMapSize]
+    mapRef.current = new GameMap(
+      newMapDimensions.width,
+      newMapDimensions.height,
+      createMapShape(shapeType, newMapDimensions.width, newMapDimensions.height)
+    )
+    terrainRegistry.setMapTerrains([])
+    // Clears the old meshes and rebuilds the grids for the new shape
+    buildMap()
 
     // Clear buildings
     buildingObjectsRef.current.clear()
@@ -1015,12 +1385,13 @@ export default function MapEditor() {
     setSelectedHexes([])
 
     // Reset history
-    historyRef.current = []
-    historyIndexRef.current = -1
+    historyRef.current.clear()
 
     // Reset map info
     setMapName('')
     setMapPath('')
+    setLibraryId(null)
+    setMapMetadata(null)
     setHasUnsavedChanges(false)
 
     // Update map size if different
@@ -1037,10 +1408,10 @@ export default function MapEditor() {
           mtl: getAssetPath(selectedTile.mtl_path),
           name: selectedTile.name
         }
-        handleInitializeMapWithModel(newMapSize, model)
+        handleInitializeMapWithModel(newMapSize, shapeType, model)
       } else if (selectedModel) {
         // Fallback на выбранный тайл из левой панели
-        handleInitializeMapWithModel(newMapSize, selectedModel)
+        handleInitializeMapWithModel(newMapSize, shapeType, selectedModel)
       } else {
         showNotification('error', 'Please select a tile to use as template for filling')
         // Re-render the scene
@@ -1058,6 +1429,124 @@ export default function MapEditor() {
     }
   }
 
+  const handleResizeMapConfirm = async (newMapSize: MapSize, anchor: ResizeAnchor) => {
+    const map = mapRef.current
+    if (!map) return
+
+    const { width, height } = MAP_SIZES[newMapSize]
+    const plan = await recordHistory(`Resize map to ${width}×${height}`, async history => {
+      history.touchMapState(map)
+      history.touchAll(map)
+      // buildMap() drops the buildings, undo puts them back
+      for (const key of buildingObjectsRef.current.keys()) history.touchBuilding(key, getBuildingData(key))
+      const plan = map.resize(width, height, anchor)
+      setMapSize(newMapSize)
+      setSelectedHexes([])
+      await buildMap()
+      return plan
+    })
+    if (!plan) return
+    markMapChanged()
+
+    if (plan.croppedStacks > 0) {
+      console.warn(`Resize cropped ${plan.croppedHexes} hexes on ${plan.croppedStacks} positions`)
+      showNotification('success', `Map resized to ${width}×${height}, ${plan.croppedHexes} cropped tiles removed`)
+    } else {
+      showNotification('success', `Map resized to ${width}×${height}`)
+    }
+  }
+
+  // Report hexes whose terrain disagrees with their model before fixing them
+  const handleReconcileTerrain = () => {
+    if (!mapRef.current) return
+    setTerrainMismatches(findTerrainMismatches(mapRef.current))
+  }
+
+  const handleReconcileTerrainConfirm = () => {
+    const map = mapRef.current
+    if (!map) return
+
+    const fixed = recordHistory('Update terrain from models', history => {
+      history.touchAll(map)
+      return reconcileTerrain(map)
+    }) ?? []
+    markMapChanged()
+    showNotification('success', `Terrain updated on ${fixed.length} hexes`)
+  }
+
+  const handleExportReport = (report: MapReport, format: ReportFormat) => {
+    const baseName = (mapName || 'map').replace(/[^a-zA-Z0-9]/g, '_')
+    if (format === 'csv') {
+      downloadFile(reportToCSV(report), `${baseName}_report.csv`, 'text/csv')
+    } else {
+      downloadFile(reportToJSON(report), `${baseName}_report.json`, 'application/json')
+    }
+    showNotification('success', `Report exported as ${format.toUpperCase()}`)
+  }
+
+  const handleExportBinary = async () => {
+    if (!mapRef.current) return
+
+    try {
+      const bytes = await encodeMap(mapRef.current, mapSize, {
+        name: mapName,
+        description: mapMetadata?.description,
+        previousMetadata: mapMetadata ?? undefined,
+        ...getBuildingSaveOptions(),
+        checkpoints: mapMetadata?.checkpoints ? historyRef.current.exportCheckpoints() : undefined,
+      })
+      const baseName = (mapName || 'map').replace(/[^a-zA-Z0-9]/g, '_')
+      downloadFile(bytes, `${baseName}${BINARY_MAP_EXTENSION}`, 'application/octet-stream')
+      showNotification('success', `Binary map exported (${Math.ceil(bytes.length / 1024)} KB)`)
+    } catch (error) {
+      console.error('Failed to export binary map:', error)
+      showNotification('error', `Export error: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const handleExportGLB = async () => {
+    if (!mapRef.current) return
+
+    try {
+      const bytes = await exportMapToGLB(mapRef.current, {
+        buildings: getBuildingList(),
+        levelHeight: tileHeightRef.current,
+        readFile: async path => {
+          const response = await fetch(getAssetPath(path))
+          if (!response.ok) {
+            throw new Error(`Failed to load ${path} (${response.status})`)
+          }
+          return new Uint8Array(await response.arrayBuffer())
+        },
+      })
+      const baseName = (mapName || 'map').replace(/[^a-zA-Z0-9]/g, '_')
+      downloadFile(bytes, `${baseName}${GLB_EXTENSION}`, 'model/gltf-binary')
+      showNotification('success', `3D scene exported (${Math.ceil(bytes.length / 1024)} KB)`)
+    } catch (error) {
+      console.error('Failed to export GLB:', error)
+      showNotification('error', `Export error: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const handleExportMinimap = async (format: 'svg' | 'png') => {
+    if (!mapRef.current) return
+
+    try {
+      const svg = renderMinimap()
+      const baseName = `${(mapName || 'map').replace(/[^a-zA-Z0-9]/g, '_')}_minimap`
+      if (format === 'svg') {
+        downloadFile(svg, `${baseName}.svg`, 'image/svg+xml')
+      } else {
+        const canvas = await rasterizeSvg(svg, MINIMAP_EXPORT_SIZE)
+        downloadFile(await canvasToPngBlob(canvas), `${baseName}.png`, 'image/png')
+      }
+      showNotification('success', `Minimap exported as ${format.toUpperCase()}`)
+    } catch (error) {
+      console.error('Failed to export minimap:', error)
+      showNotification('error', `Export error: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
   const handleGenerateMap = async () => {
     setGenerateDialogOpen(true)
   }
@@ -1297,10 +1786,11 @@ export default function MapEditor() {
       await buildMap()
 
       setSelectedHexes([])
+      setMapMetadata(null)
       setIsLoading(false)
       setIsGenerating(false)
-      // Initialize history after generating map
-      saveHistoryState()
+      // A generated map starts a new history
+      historyRef.current.clear()
       showNotification('success', `Map ${mapDimensions.width}x${mapDimensions.height} generated successfully`)
       console.log('Map generated successfully')
     } catch (error) {
@@ -1330,135 +1820,338 @@ export default function MapEditor() {
       setPendingAction('load')
       setUnsavedDataDialogOpen(true)
     } else {
-      // Если нет несохраненных изменений, открываем диалог загрузки напрямую
-      openLoadDialog()
+      // Если нет несохраненных изменений, открываем библиотеку карт напрямую
+      openLibrary()
     }
   }
 
-  const openLoadDialog = () => {
-    const input = document.createElement('input')
-    input.type = 'file'
-    input.accept = '.json'
-    input.onchange = async (e) => {
-      const file = (e.target as HTMLInputElement).files?.[0]
-      if (!file) return
+  // Replace the current map with a loaded one and rebuild the scene; returns the map name
+  const applyLoadedMap = async (
+    loaded: ReturnType<typeof MapSerializer.deserialize>,
+    fileName: string
+  ) => {
+    const { map, mapSize: loadedMapSize, buildings, metadata } = loaded
 
-      try {
-        setLoadingText('Loading map...')
-        setIsLoading(true)
+    // Update map size if different
+    if (loadedMapSize !== mapSize) {
+      setMapSize(loadedMapSize)
+    }
 
-        const text = await file.text()
+    // Clear existing map
+    hexMeshesRef.current.forEach((mesh) => {
+      sceneRef.current?.remove(mesh)
+    })
+    hexMeshesRef.current.clear()
 
-        // Validate file before deserializing
-        let parsedData: unknown
-        try {
-          parsedData = JSON.parse(text)
-        } catch (parseError) {
-          throw new Error('File is not valid JSON')
-        }
+    buildingObjectsRef.current.forEach((building) => {
+      sceneRef.current?.remove(building)
+    })
+    buildingObjectsRef.current.clear()
 
-        const validation = MapSerializer.validate(parsedData)
-        if (!validation.valid) {
-          throw new Error(`Invalid file format: ${validation.errors.join(', ')}`)
-        }
+    // Set new map
+    mapRef.current = map
 
-        const { map, mapSize: loadedMapSize, buildings, metadata } = MapSerializer.deserialize(text)
+    // Rebuild map visualization
+    await buildMap()
 
-        // Update map size if different
-        if (loadedMapSize !== mapSize) {
-          setMapSize(loadedMapSize)
-        }
+    // Load buildings if present
+    if (buildings && buildings.length > 0) {
+      setLoadingText(`Loading buildings (${buildings.length})...`)
+      for (const building of buildings) {
+        await placeBuilding(building.q, building.r, building.modelData, building.properties)
+      }
+    }
 
-        // Clear existing map
-        hexMeshesRef.current.forEach((mesh) => {
-          sceneRef.current?.remove(mesh)
-        })
-        hexMeshesRef.current.clear()
+    setSelectedHexes([])
+    setIsLoading(false)
 
-        buildingObjectsRef.current.forEach((building) => {
-          sceneRef.current?.remove(building)
-        })
-        buildingObjectsRef.current.clear()
+    // Устанавливаем информацию о карте
+    const loadedMapName = metadata?.name || fileName.replace(/\.(json|wmap)$/, '')
+    setMapName(loadedMapName)
+    setMapMetadata(metadata ?? null)
+    // Binary maps are re-saved as JSON
+    setMapPath(fileName.replace(/\.wmap$/, '.json'))
+    setLibraryId(null)
+    setHasUnsavedChanges(false)
 
-        // Set new map
-        mapRef.current = map
+    // Загруженная карта начинает историю заново; сохранённые контрольные точки - её ветки
+    historyRef.current.clear()
+    if (metadata?.checkpoints) {
+      historyRef.current.importCheckpoints(map, metadata.checkpoints, getBuildingData)
+    }
+    return loadedMapName
+  }
 
-        // Rebuild map visualization
-        await buildMap()
+  // Validate and load a JSON map; returns the map name, or null when the problems are listed
+  const loadMapText = async (text: string, fileName: string) => {
+    // Validate file before deserializing
+    let parsedData: unknown
+    try {
+      parsedData = JSON.parse(text)
+    } catch (parseError) {
+      throw new Error('File is not valid JSON')
+    }
 
-        // Load buildings if present
-        if (buildings && buildings.length > 0) {
-          setLoadingText(`Loading buildings (${buildings.length})...`)
-          for (const building of buildings) {
-            await placeBuilding(building.q, building.r, building.modelData)
-          }
-        }
+    // Strict load failures are listed, with the option to load with repairs
+    const validation = MapSerializer.validate(parsedData)
+    if (!validation.valid) {
+      console.error('Invalid map file:', validation.errors)
+      setIsLoading(false)
+      setLoadIssues({ fileName, text, issues: validation.issues })
+      return null
+    }
 
-        setSelectedHexes([])
-        setIsLoading(false)
+    let loaded: ReturnType<typeof MapSerializer.deserialize>
+    try {
+      loaded = MapSerializer.deserialize(text)
+    } catch (error) {
+      console.error('Failed to load map:', error)
+      setIsLoading(false)
+      const message = error instanceof Error ? error.message : String(error)
+      setLoadIssues({ fileName, text, issues: [{ path: '', message }] })
+      return null
+    }
+    return applyLoadedMap(loaded, fileName)
+  }
 
-        // Устанавливаем информацию о карте
-        const loadedMapName = metadata?.name || file.name.replace('.json', '')
-        setMapName(loadedMapName)
-        setMapPath(file.name)
-        setHasUnsavedChanges(false)
+  const refreshLibrary = async () => {
+    try {
+      setLibraryEntries(await libraryStoreRef.current.list())
+    } catch (error) {
+      console.error('Failed to read the map library:', error)
+      showNotification('error', `Library error: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
 
-        // Инициализируем историю после загрузки карты
-        saveHistoryState()
-        showNotification('success', `Map "${loadedMapName}" loaded successfully`)
-        console.log('Map loaded successfully')
+  const openLibrary = () => {
+    setLibraryOpen(true)
+    refreshLibrary()
+  }
+
+  const handleOpenLibraryEntry = async (entry: LibraryEntry) => {
+    setLibraryOpen(false)
+    try {
+      setLoadingText('Loading map...')
+      setIsLoading(true)
+
+      const text = await libraryStoreRef.current.read(entry.id)
+      const loadedMapName = await loadMapText(text, entry.fileName)
+      if (!loadedMapName) return
+
+      setLibraryId(entry.id)
+      await libraryStoreRef.current.markOpened(entry.id)
+      showNotification('success', `Map "${loadedMapName}" loaded successfully`)
+    } catch (error) {
+      console.error('Failed to load map:', error)
+      setIsLoading(false)
+      showNotification('error', `Load error: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  // Copy map files (JSON or binary) into the library; invalid files are skipped
+  const importLibraryFiles = async (files: File[]) => {
+    let imported = 0
+    for (const file of files) {
+      try {
+        const bytes = new Uint8Array(await file.arrayBuffer())
+        const text = isBinaryMapFile(bytes)
+          ? await convertBinaryToJson(bytes)
+          : new TextDecoder().decode(bytes)
+        await libraryStoreRef.current.save(text, file.name.replace(/\.wmap$/, '.json'))
+        imported++
       } catch (error) {
-        console.error('Failed to load map:', error)
-        setIsLoading(false)
-        showNotification('error', `Load error: ${error instanceof Error ? error.message : String(error)}`)
+        console.warn(`Skipped ${file.name}:`, error)
       }
     }
-    input.click()
+    await refreshLibrary()
+    const skipped = files.length - imported
+    showNotification(
+      imported > 0 ? 'success' : 'error',
+      `Imported ${imported} map${imported === 1 ? '' : 's'}${skipped > 0 ? `, skipped ${skipped} invalid` : ''}`
+    )
   }
 
-  const handleUnsavedDataSave = () => {
-    // Открываем диалог сохранения
-    handleSaveMap()
+  const handleImportLibraryFolder = async () => {
+    try {
+      if (window.showDirectoryPicker) {
+        const directory = await window.showDirectoryPicker()
+        await importLibraryFiles(await collectMapFiles(directory))
+        return
+      }
+      // Fallback для браузеров без File System Access API
+      const input = document.createElement('input')
+      input.type = 'file'
+      input.multiple = true
+      input.accept = `.json,${BINARY_MAP_EXTENSION}`
+      input.onchange = (e) => {
+        const files = Array.from((e.target as HTMLInputElement).files ?? [])
+        if (files.length > 0) importLibraryFiles(files)
+      }
+      input.click()
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') return
+      console.error('Failed to import folder:', error)
+      showNotification('error', `Import error: ${error instanceof Error ? error.message : String(error)}`)
+    }
   }
 
-  const handleUnsavedDataDiscard = () => {
-    // Выполняем отложенное действие
-    if (pendingAction === 'new') {
-      setNewMapDialogOpen(true)
-    } else if (pendingAction === 'load') {
-      openLoadDialog()
+  // Duplicate, rename and delete in the library; failures are reported the same way
+  const runLibraryAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action()
+    } catch (error) {
+      console.error('Library action failed:', error)
+      showNotification('error', `Library error: ${error instanceof Error ? error.message : String(error)}`)
     }
-    setPendingAction(null)
+    await refreshLibrary()
   }
 
-  const buildMap = async () => {
-    if (!sceneRef.current || !mapRef.current) return
-
-    // Не показываем индикатор загрузки во время undo/redo, чтобы не блокировать UI
-    if (!isUndoRedoInProgressRef.current) {
-      setLoadingText('Building map...')
-    }
+  const handleRenameLibraryEntry = (id: string, name: string) =>
+    runLibraryAction(async () => {
+      await libraryStoreRef.current.rename(id, name)
+      if (id === libraryId) {
+        setMapName(name)
+        setMapMetadata(prev => prev && { ...prev, name })
+      }
+    })
 
-    // Clear hexes
-    hexMeshesRef.current.forEach((mesh) => {
-      sceneRef.current?.remove(mesh)
+  const handleDeleteLibraryEntry = (id: string) =>
+    runLibraryAction(async () => {
+      await libraryStoreRef.current.remove(id)
+      if (id === libraryId) setLibraryId(null)
     })
-    hexMeshesRef.current.clear()
 
-    // Clear buildings
-    buildingObjectsRef.current.forEach((obj) => {
-      sceneRef.current?.remove(obj)
+  const handleDownloadLibraryEntry = (entry: LibraryEntry) =>
+    runLibraryAction(async () => {
+      downloadFile(await libraryStoreRef.current.read(entry.id), entry.fileName, 'application/json')
     })
-    buildingObjectsRef.current.clear()
 
-    // Build meshes for all hexes in all stacks
-    const promises: Promise<void>[] = []
-    let hexCount = 0
+  const openLoadDialog = () => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = `.json,${BINARY_MAP_EXTENSION}`
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0]
+      if (!file) return
 
-    mapRef.current.hexes.forEach((hexStack, key) => {
-      if (hexStack && hexStack.length > 0) {
-        hexStack.forEach(hex => {
-          hexCount++
+      try {
+        setLoadingText('Loading map...')
+        setIsLoading(true)
+
+        const bytes = new Uint8Array(await file.arrayBuffer())
+        const loadedMapName = isBinaryMapFile(bytes)
+          ? await applyLoadedMap(await decodeMap(bytes), file.name)
+          : await loadMapText(new TextDecoder().decode(bytes), file.name)
+        if (!loadedMapName) return
+
+        showNotification('success', `Map "${loadedMapName}" loaded successfully`)
+        console.log('Map loaded successfully')
+      } catch (error) {
+        console.error('Failed to load map:', error)
+        setIsLoading(false)
+        showNotification('error', `Load error: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+    input.click()
+  }
+
+  // Compare the current map with a saved version of it (e.g. the last committed file)
+  const openCompareDialog = () => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = `.json,${BINARY_MAP_EXTENSION}`
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0]
+      if (!file) return
+
+      // Loading the file swaps in its terrain types; the edited map keeps its own
+      const mapTerrains = terrainRegistry.getMapTerrains()
+      try {
+        const bytes = new Uint8Array(await file.arrayBuffer())
+        const loaded = isBinaryMapFile(bytes)
+          ? await decodeMap(bytes)
+          : MapSerializer.deserialize(new TextDecoder().decode(bytes))
+        diffBaseRef.current = { map: loaded.map, buildings: loaded.buildings }
+        setDiffBaseName(file.name)
+      } catch (error) {
+        console.error('Failed to load map for comparison:', error)
+        showNotification('error', `Compare error: ${error instanceof Error ? error.message : String(error)}`)
+      } finally {
+        terrainRegistry.setMapTerrains(mapTerrains)
+      }
+    }
+    input.click()
+  }
+
+  const handleClearDiff = () => {
+    diffBaseRef.current = null
+    setDiffBaseName(null)
+  }
+
+  const handleLoadWithRepairs = async () => {
+    if (!loadIssues) return
+    const { fileName, text } = loadIssues
+    setLoadIssues(null)
+
+    try {
+      setLoadingText('Repairing map...')
+      setIsLoading(true)
+
+      const loaded = MapSerializer.deserialize(text, { repair: true })
+      await applyLoadedMap(loaded, fileName)
+      const repairs = loaded.repairs ?? []
+      // The repaired map differs from the file until it is saved again
+      setHasUnsavedChanges(repairs.length > 0)
+      setLoadRepairs({ fileName, repairs })
+    } catch (error) {
+      console.error('Failed to repair map:', error)
+      setIsLoading(false)
+      showNotification('error', `Repair failed: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const handleUnsavedDataSave = () => {
+    // Открываем диалог сохранения
+    handleSaveMap()
+  }
+
+  const handleUnsavedDataDiscard = () => {
+    // Выполняем отложенное действие
+    if (pendingAction === 'new') {
+      setNewMapDialogOpen(true)
+    } else if (pendingAction === 'load') {
+      openLibrary()
+    }
+    setPendingAction(null)
+  }
+
+  const buildMap = async () => {
+    if (!sceneRef.current || !mapRef.current) return
+
+    setLoadingText('Building map...')
+
+    rebuildGrids(mapRef.current)
+
+    // Clear hexes
+    hexMeshesRef.current.forEach((mesh) => {
+      sceneRef.current?.remove(mesh)
+    })
+    hexMeshesRef.current.clear()
+
+    // Clear buildings
+    buildingObjectsRef.current.forEach((obj) => {
+      sceneRef.current?.remove(obj)
+    })
+    buildingObjectsRef.current.clear()
+
+    // Build meshes for all hexes in all stacks
+    const promises: Promise<void>[] = []
+    let hexCount = 0
+
+    mapRef.current.hexes.forEach((hexStack, key) => {
+      if (hexStack && hexStack.length > 0) {
+        hexStack.forEach(hex => {
+          hexCount++
           const promise = (async () => {
             const mesh = await createHexMesh(hex)
             if (mesh && sceneRef.current) {
@@ -1473,6 +2166,7 @@ export default function MapEditor() {
 
     await Promise.all(promises)
     console.log('buildMap completed - hexes created:', hexCount, 'meshes in ref:', hexMeshesRef.current.size)
+    setMapRevision(prev => prev + 1)
 
     // Ensure grid is visible for empty maps
     if (hexCount === 0) {
@@ -1512,7 +2206,10 @@ export default function MapEditor() {
       const model = hex.modelData || selectedModel || availableModels[0]
 
       if (model) {
-        if (!hex.modelData) hex.modelData = model
+        if (!hex.modelData) {
+          hex.modelData = model
+          applyModelTerrain(hex)
+        }
         const key = `terrain_${hex.terrain}_${model.name}_${hex.q}_${hex.r}_${hex.height}`
         const cached = modelLoader.getCachedModel(key)
 
@@ -1552,81 +2249,84 @@ export default function MapEditor() {
     }
   }
 
-  const saveHistoryState = () => {
-    if (!mapRef.current) return
-    // Не сохраняем историю во время undo/redo операций
-    if (isUndoRedoInProgressRef.current) {
-      console.log('Skipping saveHistoryState during undo/redo')
-      return
+  // Run an edit as one undo step. The edit calls history.touch*() before changing a stack,
+  // building or the map state; edits started synchronously inside another edit join its step.
+  // Every other edit records its own step, also one made while an async edit awaits a model.
+  const recordHistory = <T,>(label: string, edit: (history: HistoryRecording, map: GameMap) => T): T | undefined => {
+    const map = mapRef.current
+    if (!map) return undefined
+    if (recordingRef.current) return edit(recordingRef.current, map)
+
+    const history = historyRef.current
+    const recording = history.record(label)
+    const commit = () => {
+      history.commitRecording(recording, map, getBuildingData)
     }
+
+    let result: T
+    recordingRef.current = recording
     try {
-      const mapJson = MapSerializer.serialize(mapRef.current, mapSize, {})
-      const state: HistoryState = {
-        map: mapJson,
-        timestamp: Date.now(),
-      }
+      result = edit(recording, map)
+    } catch (error) {
+      commit()
+      throw error
+    } finally {
+      recordingRef.current = null
+    }
+    if (result instanceof Promise) {
+      return result.finally(commit) as T
+    }
+    commit()
+    return result
+  }
 
-      // Если история пустая или индекс -1, создаем новый массив
-      if (historyRef.current.length === 0 || historyIndexRef.current === -1) {
-        historyRef.current = [state]
-        historyIndexRef.current = 0
-        console.log('History initialized, length:', historyRef.current.length, 'index:', historyIndexRef.current)
-        return
+  // Bring the scene in line with the stacks and buildings an undo/redo replaced
+  const applyHistoryChange = async (change: HistoryChange) => {
+    if (change.boundsChanged) {
+      // Resize: every position moved, rebuild everything (buildMap also clears the buildings)
+      const buildings = getBuildingList()
+      await buildMap()
+      for (const building of buildings) {
+        await placeBuilding(building.q, building.r, building.modelData, building.properties)
       }
-
-      // Удаляем все состояния после текущего индекса (если делаем undo, а потом новое действие)
-      historyRef.current = historyRef.current.slice(0, historyIndexRef.current + 1)
-
-      // Добавляем новое состояние
-      historyRef.current.push(state)
-
-      // Ограничиваем размер истории
-      if (historyRef.current.length > maxHistorySize) {
-        const removedCount = historyRef.current.length - maxHistorySize
-        historyRef.current = historyRef.current.slice(removedCount)
+    } else {
+      for (const { q, r } of change.positions) {
+        for (let level = 0; level <= 4; level++) {
+          const mesh = hexMeshesRef.current.get(`${q},${r}_${level}`)
+          if (mesh) {
+            sceneRef.current?.remove(mesh)
+            hexMeshesRef.current.delete(`${q},${r}_${level}`)
+          }
+        }
+        await updateHexMesh(q, r)
       }
+    }
 
-      // Всегда устанавливаем индекс на последний элемент после добавления
-      historyIndexRef.current = historyRef.current.length - 1
-
-      console.log('History saved, length:', historyRef.current.length, 'index:', historyIndexRef.current)
-    } catch (error) {
-      console.warn('Failed to save history state:', error)
+    for (const { key, building } of change.buildings) {
+      const existing = buildingObjectsRef.current.get(key)
+      if (building && existing?.userData.modelData?.obj === building.modelData.obj) {
+        existing.userData.properties = building.properties
+      } else if (building) {
+        await placeBuilding(building.q, building.r, building.modelData, building.properties)
+      } else if (existing) {
+        sceneRef.current?.remove(existing)
+        buildingObjectsRef.current.delete(key)
+      }
     }
+
+    setSelectedHexes(prev => prev.filter(({ q, r }) => mapRef.current?.hasHex(q, r)))
+    markMapChanged()
   }
 
   const undo = async (): Promise<boolean> => {
     if (!mapRef.current || !sceneRef.current) return false
 
-    console.log('Undo attempt - Index:', historyIndexRef.current, 'History length:', historyRef.current.length)
-
-    // Проверяем, что есть состояние для undo (индекс должен быть больше 0)
-    // Если индекс равен 0, значит мы уже на первом состоянии и undo невозможен
-    if (historyIndexRef.current <= 0) {
-      console.log('Undo failed: Already at first state')
-      return false
-    }
-
-    // Уменьшаем индекс и загружаем предыдущее состояние
-    historyIndexRef.current--
-    const state = historyRef.current[historyIndexRef.current]
-
-    if (!state) {
-      console.error('Undo state not found at index:', historyIndexRef.current, 'history length:', historyRef.current.length)
-      return false
-    }
-
-    console.log('Undo: Loading state at index', historyIndexRef.current)
+    const change = historyRef.current.undo(mapRef.current)
+    if (!change) return false
 
     try {
-      const { map } = MapSerializer.deserialize(state.map)
-      mapRef.current = map
-      console.log('Undo: Map deserialized, hex count:', map.hexes.size)
-      await buildMap()
-      setSelectedHexes([])
-
-      console.log('Undo completed - Index after undo:', historyIndexRef.current, 'History length:', historyRef.current.length, 'meshes in scene:', hexMeshesRef.current.size)
-      showNotification('success', 'Undone')
+      await applyHistoryChange(change)
+      showNotification('success', `Undone: ${change.label}`)
       return true
     } catch (error) {
       console.error('Failed to undo:', error)
@@ -1638,50 +2338,47 @@ export default function MapEditor() {
   const redo = async (): Promise<boolean> => {
     if (!mapRef.current || !sceneRef.current) return false
 
-    console.log('Redo attempt - Index:', historyIndexRef.current, 'History length:', historyRef.current.length)
-
-    // Проверяем, что есть состояние для redo (текущий индекс должен быть меньше последнего)
-    // Если индекс равен length - 1, значит мы уже на последнем состоянии и redo невозможен
-    if (historyIndexRef.current >= historyRef.current.length - 1) {
-      console.log('Redo failed: Already at last state')
-      return false
-    }
-
-    // Устанавливаем флаг, чтобы предотвратить сохранение истории во время redo
-    isUndoRedoInProgressRef.current = true
+    const change = historyRef.current.redo(mapRef.current)
+    if (!change) return false
 
     try {
-      // Увеличиваем индекс и загружаем следующее состояние
-      historyIndexRef.current++
-      const state = historyRef.current[historyIndexRef.current]
-
-      if (!state) {
-        console.error('Redo state not found at index:', historyIndexRef.current, 'history length:', historyRef.current.length)
-        isUndoRedoInProgressRef.current = false
-        return false
-      }
-
-      console.log('Redo: Loading state at index', historyIndexRef.current)
-
-      const { map } = MapSerializer.deserialize(state.map)
-      mapRef.current = map
-      console.log('Redo: Map deserialized, hex count:', map.hexes.size)
-      await buildMap()
-      setSelectedHexes([])
-
-      console.log('Redo completed - Index after redo:', historyIndexRef.current, 'History length:', historyRef.current.length, 'meshes in scene:', hexMeshesRef.current.size)
-      showNotification('success', 'Redone')
+      await applyHistoryChange(change)
+      showNotification('success', `Redone: ${change.label}`)
       return true
     } catch (error) {
       console.error('Failed to redo:', error)
       showNotification('error', 'Redo error')
       return false
-    } finally {
-      // Снимаем флаг после завершения redo
-      isUndoRedoInProgressRef.current = false
     }
   }
 
+  // History panel: go to any recorded state, including abandoned branches and checkpoints
+  const handleHistoryJump = async (entryId: number) => {
+    if (!mapRef.current || !sceneRef.current) return
+
+    const change = historyRef.current.jumpTo(mapRef.current, entryId)
+    if (!change) return
+
+    try {
+      await applyHistoryChange(change)
+      showNotification('success', `Back to: ${change.label}`)
+    } catch (error) {
+      console.error('Failed to restore history state:', error)
+      showNotification('error', 'History error')
+    }
+  }
+
+  const handleAddCheckpoint = (name: string) => {
+    historyRef.current.addCheckpoint(name)
+    setHistoryVersion(prev => prev + 1)
+    showNotification('success', `Checkpoint "${name}" saved`)
+  }
+
+  const handleRemoveCheckpoint = (id: number) => {
+    historyRef.current.removeCheckpoint(id)
+    setHistoryVersion(prev => prev + 1)
+  }
+
   const copyHex = (): boolean => {
     if (!mapRef.current) return false
 
@@ -1716,6 +2413,8 @@ export default function MapEditor() {
           rotation: hex.rotation,
           modelData: hex.modelData,
           hasRiver: hex.hasRiver,
+          owner: hex.owner,
+          properties: hex.properties,
         })
       }
     }
@@ -1750,9 +2449,6 @@ export default function MapEditor() {
   const pasteHex = async (q: number, r: number): Promise<boolean> => {
     if (!mapRef.current) return false
 
-    // Сохраняем состояние перед вставкой для undo
-    saveHistoryState()
-
     // Получаем данные из буфера обмена
     let clipboardData: ClipboardData | null = clipboardDataRef.current
 
@@ -1791,56 +2487,64 @@ export default function MapEditor() {
     const pastedHexes: Array<{ q: number; r: number }> = []
 
     // Вставляем все тайлы с сохранением относительных позиций
-    for (const hexData of hexesToPaste) {
-      const targetQ = hexData.q + offsetQ
-      const targetR = hexData.r + offsetR
-
-      // Проверяем, что координаты валидны
-      if (!mapRef.current.isValidCoordinate(targetQ, targetR)) {
-        continue
-      }
-
-      // Вычисляем целевую высоту с учетом глобального уровня
-      const heightOffset = hexData.height - clipboardData.globalLevel
-      let targetHeight = currentHeightLevel + heightOffset
+    // Вся вставка - один шаг истории
+    const pasteLabel = hexesToPaste.length === 1 ? 'Paste hex' : `Paste ${hexesToPaste.length} hexes`
+    await recordHistory(`${pasteLabel} at ${q},${r}`, async (history, map) => {
+      for (const hexData of hexesToPaste) {
+        const targetQ = hexData.q + offsetQ
+        const targetR = hexData.r + offsetR
+
+        // Проверяем, что координаты валидны
+        if (!map.isValidCoordinate(targetQ, targetR)) {
+          continue
+        }
 
-      // Проверяем, что целевая высота в допустимых пределах
-      if (targetHeight < 0) {
-        targetHeight = 0
-      }
-      if (targetHeight > 4) {
-        continue
-      }
+        // Вычисляем целевую высоту с учетом глобального уровня
+        const heightOffset = hexData.height - clipboardData.globalLevel
+        let targetHeight = currentHeightLevel + heightOffset
 
-      // Проверяем, свободен ли целевой уровень
-      if (mapRef.current.hasHex(targetQ, targetR, targetHeight)) {
-        // Ищем следующий свободный уровень выше текущего глобального
-        let nextLevel = currentHeightLevel
-        while (nextLevel <= 4 && mapRef.current.hasHex(targetQ, targetR, nextLevel)) {
-          nextLevel++
+        // Проверяем, что целевая высота в допустимых пределах
+        if (targetHeight < 0) {
+          targetHeight = 0
         }
-        if (nextLevel > 4) {
+        if (targetHeight > 4) {
           continue
         }
-        targetHeight = nextLevel
-      }
 
-      // Создаем новый Hex
-      const newHex = new Hex(targetQ, targetR, hexData.terrain)
-      newHex.height = targetHeight
-      newHex.rotation = hexData.rotation || 0
-      newHex.modelData = hexData.modelData
-      newHex.hasRiver = hexData.hasRiver || false
-
-      // Устанавливаем тайл на карту
-      mapRef.current.setHex(targetQ, targetR, newHex)
-
-      // Обновляем визуализацию
-      await updateHexMesh(targetQ, targetR, targetHeight)
+        // Проверяем, свободен ли целевой уровень
+        if (map.hasHex(targetQ, targetR, targetHeight)) {
+          // Ищем следующий свободный уровень выше текущего глобального
+          let nextLevel = currentHeightLevel
+          while (nextLevel <= 4 && map.hasHex(targetQ, targetR, nextLevel)) {
+            nextLevel++
+          }
+          if (nextLevel > 4) {
+            continue
+          }
+          targetHeight = nextLevel
+        }
 
-      pastedCount++
-      pastedHexes.push({ q: targetQ, r: targetR })
-    }
+        // Создаем новый Hex
+        const newHex = new Hex(targetQ, targetR, hexData.terrain)
+        newHex.height = targetHeight
+        newHex.rotation = hexData.rotation || 0
+        newHex.modelData = hexData.modelData
+        applyModelTerrain(newHex)
+        newHex.hasRiver = hexData.hasRiver || false
+        newHex.owner = hexData.owner ?? null
+        newHex.properties = hexData.properties && { ...hexData.properties }
+
+        // Устанавливаем тайл на карту
+        history.touch(map, targetQ, targetR)
+        map.setHex(targetQ, targetR, newHex)
+
+        // Обновляем визуализацию
+        await updateHexMesh(targetQ, targetR, targetHeight)
+
+        pastedCount++
+        pastedHexes.push({ q: targetQ, r: targetR })
+      }
+    })
 
     if (pastedCount === 0) {
       showNotification('error', 'Не удалось вставить тайлы')
@@ -1851,10 +2555,7 @@ export default function MapEditor() {
     setSelectedHexes(pastedHexes)
 
     // Отмечаем изменения
-    setHasUnsavedChanges(true)
-
-    // Сохраняем состояние после вставки для истории
-    saveHistoryState()
+    markMapChanged()
 
     showNotification('success', `Вставлено тайлов: ${pastedCount}`)
     return true
@@ -1896,15 +2597,12 @@ export default function MapEditor() {
     }
 
     // Отмечаем изменения
-    setHasUnsavedChanges(true)
+    markMapChanged()
   }
 
   const copyHexAtPosition = async (fromQ: number, fromR: number, toQ: number, toR: number) => {
     if (!mapRef.current || !sceneRef.current) return false
 
-    // Сохраняем состояние перед копированием для undo
-    saveHistoryState()
-
     // Get topmost hex at source position
     const sourceHexStack = mapRef.current.getHexStack(fromQ, fromR)
     if (sourceHexStack.length === 0) return false
@@ -1935,17 +2633,20 @@ export default function MapEditor() {
     newHex.height = targetHeight
     newHex.rotation = hexToCopy.rotation
     newHex.modelData = hexToCopy.modelData
+    applyModelTerrain(newHex)
     newHex.hasRiver = hexToCopy.hasRiver
+    newHex.owner = hexToCopy.owner
+    newHex.properties = hexToCopy.properties && { ...hexToCopy.properties }
 
     // Add hex to target (don't remove from source - it's a copy)
-    mapRef.current.setHex(toQ, toR, newHex)
-    await updateHexMesh(toQ, toR, targetHeight)
+    await recordHistory(`Copy hex to ${toQ},${toR}`, async (history, map) => {
+      history.touch(map, toQ, toR)
+      map.setHex(toQ, toR, newHex)
+      await updateHexMesh(toQ, toR, targetHeight)
+    })
 
     // Отмечаем изменения
-    setHasUnsavedChanges(true)
-
-    // Сохраняем состояние после копирования для истории
-    saveHistoryState()
+    markMapChanged()
 
     // Wait for mesh to be updated in hexMeshesRef before updating selection
     requestAnimationFrame(() => {
@@ -1977,16 +2678,27 @@ export default function MapEditor() {
     newHex.height = hexHeight
     newHex.rotation = hexToMove.rotation
     newHex.modelData = hexToMove.modelData
-
-    // Remove hex from source
-    await removeHex(fromQ, fromR)
-
-    // Add hex to target
-    mapRef.current.setHex(toQ, toR, newHex)
-    await updateHexMesh(toQ, toR, hexHeight)
+    applyModelTerrain(newHex)
+    newHex.owner = hexToMove.owner
+    newHex.properties = hexToMove.properties
+    // Units and cities move together with the tile they stand on
+    newHex.unit = hexToMove.unit
+    newHex.city = hexToMove.city
+
+    await recordHistory(`Move hex to ${toQ},${toR}`, async (history, map) => {
+      history.touch(map, fromQ, fromR)
+      history.touch(map, toQ, toR)
+
+      // Remove hex from source
+      await removeHex(fromQ, fromR)
+
+      // Add hex to target
+      map.setHex(toQ, toR, newHex)
+      await updateHexMesh(toQ, toR, hexHeight)
+    })
 
     // Отмечаем изменения
-    setHasUnsavedChanges(true)
+    markMapChanged()
 
     // Wait for mesh to be updated in hexMeshesRef before updating selection
     // Use requestAnimationFrame to ensure mesh is rendered before updating highlight
@@ -1999,7 +2711,12 @@ export default function MapEditor() {
     return true
   }
 
-  const placeBuilding = async (q: number, r: number, building: AssetModel) => {
+  const placeBuilding = async (
+    q: number,
+    r: number,
+    building: AssetModel,
+    properties?: CustomProperties
+  ) => {
     if (!sceneRef.current) return
     const hexKey = `${q},${r}`
     const [worldX, worldZ] = hexToWorld(q, r, mapRef.current?.width, mapRef.current?.height)
@@ -2019,6 +2736,7 @@ export default function MapEditor() {
           mtl: getAssetPath(building.mtl),
           name: building.name,
         },
+        ...(properties && { properties: { ...properties } }),
       }
 
       sceneRef.current.add(loadedModel)
@@ -2043,13 +2761,7 @@ export default function MapEditor() {
       hitPlane.name = '__hitPlane'
       scene.add(hitPlane)
 
-      // Add hexagonal grids for all levels (initially only current level visible)
-      const gridMapDimensions = MAP_SIZES[mapSize]
-      for (let level = 0; level <= 4; level++) {
-        const hexGrid = createHexagonalGrid(gridMapDimensions.width, gridMapDimensions.height, level)
-        hexGrid.visible = (level === currentHeightLevel)
-        scene.add(hexGrid)
-      }
+      // Hexagonal grids for all levels are added by buildMap once the map exists
 
       // Initialize Selection Highlight here to ensure it exists in the scene
       const scale = 3.5
@@ -2117,6 +2829,7 @@ export default function MapEditor() {
       await buildMap()
       animate()
       setIsLoading(false)
+      checkForRecovery()
     } catch (error) {
       console.error('Init failed:', error)
       setLoadingText(`Error: ${error instanceof Error ? error.message : String(error)}`)
@@ -2145,6 +2858,30 @@ export default function MapEditor() {
     }
   }, [])
 
+  // Periodic autosave, plus one when the tab is hidden (closing, switching away)
+  useEffect(() => {
+    const timer = setInterval(() => autosaveMapRef.current(), AUTOSAVE_INTERVAL)
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') autosaveMapRef.current()
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => {
+      clearInterval(timer)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+    }
+  }, [])
+
+  // Saved, loaded or replaced map: this session, and the one it restored, have nothing left to recover
+  useEffect(() => {
+    if (hasUnsavedChanges) return
+    autosavedRevisionRef.current = null
+    const sessionIds = restoredSessionRef.current ? [sessionId, restoredSessionRef.current] : [sessionId]
+    restoredSessionRef.current = null
+    autosaveStoreRef.current
+      .removeSessions(sessionIds)
+      .catch(error => console.warn('Failed to clear autosave:', error))
+  }, [hasUnsavedChanges, sessionId])
+
   // Update grid visibility when currentHeightLevel changes
   useEffect(() => {
     if (!sceneRef.current) return
@@ -2216,76 +2953,88 @@ export default function MapEditor() {
         const hexStack = mapRef.current.getHexStack(selectedHex.q, selectedHex.r)
         const hex = hexStack.length > 0 ? hexStack[hexStack.length - 1] : null
 
-        if (hex) {
-          const oldHeight = hex.height
+        const action =
+          e.code === 'KeyQ' || e.code === 'KeyE' ? 'Rotate'
+            : e.code === 'KeyR' ? 'Raise'
+              : e.code === 'KeyF' ? 'Lower'
+                : null
 
-          if (e.code === 'KeyQ') {
-            hex.rotation = (hex.rotation || 0) + Math.PI / 3  // Против часовой (увеличиваем угол)
-            updateHexMesh(selectedHex.q, selectedHex.r, hex.height)
-          }
-          if (e.code === 'KeyE') {
-            hex.rotation = (hex.rotation || 0) - Math.PI / 3  // По часовой (уменьшаем угол)
-            updateHexMesh(selectedHex.q, selectedHex.r, hex.height)
-          }
-          if (e.code === 'KeyR') {
-            const newHeight = Math.min(4, (hex.height || 0) + 1)
-            if (newHeight !== oldHeight && !mapRef.current.hasHex(selectedHex.q, selectedHex.r, newHeight)) {
-              // Remove from old height
-              mapRef.current.removeHex(selectedHex.q, selectedHex.r, oldHeight)
-              const oldMeshKey = `${selectedHex.q},${selectedHex.r}_${oldHeight}`
-              const oldMesh = hexMeshesRef.current.get(oldMeshKey)
-              if (oldMesh && sceneRef.current) {
-                sceneRef.current.remove(oldMesh)
-                hexMeshesRef.current.delete(oldMeshKey)
-              }
+        if (hex && action) {
+          await recordHistory(`${action} hex at ${selectedHex.q},${selectedHex.r}`, async (history, map) => {
+            history.touch(map, selectedHex.q, selectedHex.r)
+            const oldHeight = hex.height
 
-              // Add at new height
-              hex.height = newHeight
-              mapRef.current.setHex(selectedHex.q, selectedHex.r, hex)
-              await updateHexMesh(selectedHex.q, selectedHex.r, newHeight)
+            if (e.code === 'KeyQ') {
+              hex.rotation = (hex.rotation || 0) + Math.PI / 3  // Против часовой (увеличиваем угол)
+              updateHexMesh(selectedHex.q, selectedHex.r, hex.height)
+            }
+            if (e.code === 'KeyE') {
+              hex.rotation = (hex.rotation || 0) - Math.PI / 3  // По часовой (уменьшаем угол)
+              updateHexMesh(selectedHex.q, selectedHex.r, hex.height)
+            }
+            if (e.code === 'KeyR') {
+              const newHeight = Math.min(4, (hex.height || 0) + 1)
+              if (newHeight !== oldHeight && !map.hasHex(selectedHex.q, selectedHex.r, newHeight)) {
+                // Remove from old height
+                map.removeHex(selectedHex.q, selectedHex.r, oldHeight)
+                const oldMeshKey = `${selectedHex.q},${selectedHex.r}_${oldHeight}`
+                const oldMesh = hexMeshesRef.current.get(oldMeshKey)
+                if (oldMesh && sceneRef.current) {
+                  sceneRef.current.remove(oldMesh)
+                  hexMeshesRef.current.delete(oldMeshKey)
+                }
 
-              // Force selection highlight update after mesh is created
-              requestAnimationFrame(() => {
+                // Add at new height
+                hex.height = newHeight
+                map.setHex(selectedHex.q, selectedHex.r, hex)
+                await updateHexMesh(selectedHex.q, selectedHex.r, newHeight)
+
+                // Force selection highlight update after mesh is created
                 requestAnimationFrame(() => {
-                  setSelectedHexes([selectedHex])
+                  requestAnimationFrame(() => {
+                    setSelectedHexes([selectedHex])
+                  })
                 })
-              })
-            }
-          }
-          if (e.code === 'KeyF') {
-            const newHeight = Math.max(0, (hex.height || 0) - 1)
-            if (newHeight !== oldHeight && !mapRef.current.hasHex(selectedHex.q, selectedHex.r, newHeight)) {
-              // Remove from old height
-              mapRef.current.removeHex(selectedHex.q, selectedHex.r, oldHeight)
-              const oldMeshKey = `${selectedHex.q},${selectedHex.r}_${oldHeight}`
-              const oldMesh = hexMeshesRef.current.get(oldMeshKey)
-              if (oldMesh && sceneRef.current) {
-                sceneRef.current.remove(oldMesh)
-                hexMeshesRef.current.delete(oldMeshKey)
               }
+            }
+            if (e.code === 'KeyF') {
+              const newHeight = Math.max(0, (hex.height || 0) - 1)
+              if (newHeight !== oldHeight && !map.hasHex(selectedHex.q, selectedHex.r, newHeight)) {
+                // Remove from old height
+                map.removeHex(selectedHex.q, selectedHex.r, oldHeight)
+                const oldMeshKey = `${selectedHex.q},${selectedHex.r}_${oldHeight}`
+                const oldMesh = hexMeshesRef.current.get(oldMeshKey)
+                if (oldMesh && sceneRef.current) {
+                  sceneRef.current.remove(oldMesh)
+                  hexMeshesRef.current.delete(oldMeshKey)
+                }
 
-              // Add at new height
-              hex.height = newHeight
-              mapRef.current.setHex(selectedHex.q, selectedHex.r, hex)
-              await updateHexMesh(selectedHex.q, selectedHex.r, newHeight)
+                // Add at new height
+                hex.height = newHeight
+                map.setHex(selectedHex.q, selectedHex.r, hex)
+                await updateHexMesh(selectedHex.q, selectedHex.r, newHeight)
 
-              // Force selection highlight update after mesh is created
-              requestAnimationFrame(() => {
+                // Force selection highlight update after mesh is created
                 requestAnimationFrame(() => {
-                  setSelectedHexes([selectedHex])
+                  requestAnimationFrame(() => {
+                    setSelectedHexes([selectedHex])
+                  })
                 })
-              })
+              }
             }
-          }
+          })
         }
       }
 
       // Delete key deletes all selected hexes (topmost)
       if (e.code === 'Delete' && selectedHexes.length > 0) {
-        saveHistoryState()
-        for (const hex of selectedHexes) {
-          await removeHex(hex.q, hex.r)
-        }
+        const count = selectedHexes.length
+        await recordHistory(count === 1 ? 'Delete hex' : `Delete ${count} hexes`, async (history, map) => {
+          for (const hex of selectedHexes) {
+            history.touch(map, hex.q, hex.r)
+            await removeHex(hex.q, hex.r)
+          }
+        })
         setSelectedHexes([])
       }
 
@@ -2508,6 +3257,592 @@ export default function MapEditor() {
     return () => window.removeEventListener('resize', handleResize)
   }, [])
 
+  // Replace (or clear, with an empty list) a named analysis overlay
+  const setOverlay = (
+    name: string,
+    cells: OverlayCell[],
+    outlines: Array<{ edges: OverlayEdge[]; color: number }> = []
+  ) => {
+    const existing = overlayGroupsRef.current.get(name)
+    if (existing) {
+      disposeHexOverlayGroup(existing)
+      overlayGroupsRef.current.delete(name)
+    }
+    if ((cells.length === 0 && outlines.length === 0) || !sceneRef.current) return
+
+    const placement = {
+      toWorld: (q: number, r: number) => hexToWorld(q, r),
+      levelHeight: tileHeightRef.current || 0.7,
+    }
+    const group = createHexOverlayGroup(`__overlay_${name}`, cells, placement)
+    for (const outline of outlines) {
+      addHexEdgeLines(group, outline.edges, placement, outline.color)
+    }
+    sceneRef.current.add(group)
+    overlayGroupsRef.current.set(name, group)
+  }
+
+  // Movement overlay: reachable area from the first selected hex, path to the last one
+  // biome-ignore lint/correctness/useExhaustiveDependencies: the map lives in a ref, mapRevision re-runs this after edits; setOverlay only reads refs
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || !overlaySettings.showMovement || selectedHexes.length === 0) {
+      setOverlay('movement', [])
+      setReachableCount(0)
+      setPathResult(null)
+      return
+    }
+
+    const profile = { maxClimb: overlaySettings.maxClimb }
+    const start = selectedHexes[0]
+    const reachable = getReachableHexes(map, start, overlaySettings.movementBudget, profile)
+    const target = selectedHexes.length > 1 ? selectedHexes[selectedHexes.length - 1] : null
+    const path = target ? findPath(map, start, target, profile) : null
+    const pathKeys = new Set(path?.path.map(c => `${c.q},${c.r}`) ?? [])
+
+    const cells: OverlayCell[] = reachable
+      .filter(c => !pathKeys.has(`${c.q},${c.r}`))
+      .map(c => ({ q: c.q, r: c.r, level: map.getHex(c.q, c.r)?.height ?? 0, color: 0x22c55e, opacity: 0.35 }))
+    for (const c of path?.path ?? []) {
+      cells.push({ q: c.q, r: c.r, level: map.getHex(c.q, c.r)?.height ?? 0, color: 0xf59e0b, opacity: 0.7 })
+    }
+
+    setOverlay('movement', cells)
+    setReachableCount(reachable.length)
+    setPathResult(path)
+  }, [selectedHexes, overlaySettings, mapRevision])
+
+  // Visibility overlay: shade every hex the first selected hex cannot see
+  // biome-ignore lint/correctness/useExhaustiveDependencies: mapRevision stands in for the map held in mapRef; setOverlay only reads refs
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || !overlaySettings.showVisibility || selectedHexes.length === 0) {
+      setOverlay('visibility', [])
+      setVisibleCount(0)
+      return
+    }
+
+    const visible = computeFieldOfView(map, selectedHexes[0], overlaySettings.visionRange, {
+      viewerHeight: overlaySettings.viewerHeight,
+    })
+    const visibleKeys = new Set(visible.map(c => `${c.q},${c.r}`))
+
+    const cells: OverlayCell[] = []
+    map.hexes.forEach((stack, key) => {
+      if (visibleKeys.has(key) || stack.length === 0) return
+      const top = stack[stack.length - 1]
+      cells.push({ q: top.q, r: top.r, level: top.height, color: 0x0f172a, opacity: 0.6 })
+    })
+
+    setOverlay('visibility', cells)
+    setVisibleCount(visible.length)
+  }, [selectedHexes, overlaySettings, mapRevision])
+
+  // Rebuild unit/city markers whenever the map changes
+  // biome-ignore lint/correctness/useExhaustiveDependencies: mapRevision is the trigger; hexToWorld and getFactionColorKey read the map from mapRef
+  useEffect(() => {
+    for (const marker of entityMarkersRef.current) {
+      disposeEntityMarker(marker)
+    }
+    entityMarkersRef.current = []
+
+    const map = mapRef.current
+    const scene = sceneRef.current
+    if (!map || !scene) return
+
+    const placement = {
+      toWorld: (q: number, r: number) => hexToWorld(q, r),
+      levelHeight: tileHeightRef.current || 0.7,
+    }
+    const isFiltered = (faction: string | null) => factionFilter !== null && faction !== factionFilter
+    for (const hexStack of map.hexes.values()) {
+      for (const hex of hexStack) {
+        if (hex.city && !isFiltered(hex.city.faction)) {
+          const color = getFactionColorKey(hex.city.faction)
+          const marker = createCityMarker(hex.city, hex.q, hex.r, hex.height, placement, color)
+          scene.add(marker)
+          entityMarkersRef.current.push(marker)
+        }
+        if (hex.unit && !isFiltered(hex.unit.faction)) {
+          const color = getFactionColorKey(hex.unit.faction)
+          const marker = createUnitMarker(hex.unit, hex.q, hex.r, hex.height, placement, color)
+          scene.add(marker)
+          entityMarkersRef.current.push(marker)
+        }
+      }
+    }
+  }, [mapRevision, factionFilter])
+
+  // Faction filter: hide buildings owned by other factions (or by nobody)
+  // biome-ignore lint/correctness/useExhaustiveDependencies: mapRevision is the trigger, the meshes and the map are refs
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map) return
+
+    hexMeshesRef.current.forEach((mesh, key) => {
+      const [pos, height] = key.split('_')
+      const [q, r] = pos.split(',').map(Number)
+      const hex = map.getHex(q, r, Number(height))
+      mesh.visible = !factionFilter || !hex || !isBuildingHex(hex) || hex.owner === factionFilter
+    })
+  }, [mapRevision, factionFilter])
+
+  // Faction start positions are always shown as colored hexes
+  // biome-ignore lint/correctness/useExhaustiveDependencies: mapRevision is the trigger for factions edited in mapRef; setOverlay only reads refs
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map) return
+
+    const cells: OverlayCell[] = []
+    for (const faction of map.factions) {
+      if (!faction.startHex) continue
+      const hex = map.getHex(faction.startHex.q, faction.startHex.r)
+      cells.push({
+        q: faction.startHex.q,
+        r: faction.startHex.r,
+        level: hex?.height ?? 0,
+        color: Number.parseInt(FACTION_COLORS[faction.color].hex.slice(1), 16),
+        opacity: 0.55,
+      })
+    }
+    setOverlay('factions', cells)
+  }, [mapRevision])
+
+  // Regions: translucent fill per region plus an outline along its borders
+  // biome-ignore lint/correctness/useExhaustiveDependencies: mapRevision is the trigger for regions edited in mapRef; setOverlay only reads refs
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || !regionSettings.showOverlay) {
+      setOverlay('regions', [])
+      return
+    }
+
+    const levelAt = (q: number, r: number) => map.getHex(q, r)?.height ?? 0
+    const cells: OverlayCell[] = []
+    const outlines: Array<{ edges: OverlayEdge[]; color: number }> = []
+    for (const region of map.regions.getRegions()) {
+      const color = Number.parseInt(region.color.slice(1), 16)
+      const active = region.id === regionSettings.activeRegionId
+      for (const { q, r } of region.getCoordinates()) {
+        cells.push({ q, r, level: levelAt(q, r), color, opacity: active ? 0.4 : 0.25 })
+      }
+      const edges = map.regions
+        .getBorderEdges(region.id)
+        .map(edge => ({ ...edge, level: levelAt(edge.q, edge.r) }))
+      outlines.push({ edges, color })
+    }
+    setOverlay('regions', cells, outlines)
+  }, [mapRevision, regionSettings.showOverlay, regionSettings.activeRegionId])
+
+  // Diff against the compared file, recomputed on every edit; changed positions are tinted
+  // biome-ignore lint/correctness/useExhaustiveDependencies: diffBaseName tracks diffBaseRef and mapRevision the map; getBuildingList and setOverlay read refs
+  useEffect(() => {
+    const map = mapRef.current
+    const base = diffBaseRef.current
+    if (!map || !base) {
+      setMapDiff(null)
+      setOverlay('diff', [])
+      return
+    }
+
+    const diff = diffMaps(base, { map, buildings: getBuildingList() })
+    setMapDiff(diff)
+    if (!showDiffTint) {
+      setOverlay('diff', [])
+      return
+    }
+    const cells: OverlayCell[] = getChangedPositions(diff).map(({ q, r, type }) => ({
+      q,
+      r,
+      level: map.getHex(q, r)?.height ?? 0,
+      color: Number.parseInt(DIFF_COLORS[type].slice(1), 16),
+      opacity: 0.45,
+    }))
+    setOverlay('diff', cells)
+  }, [mapRevision, diffBaseName, showDiffTint])
+
+  // Faction id -> color set; bare color ids are accepted for maps without player slots
+  const getFactionColorKey = (factionId: string | null): FactionColor | null => {
+    if (!factionId) return null
+    const faction = mapRef.current?.getFaction(factionId)
+    if (faction) return faction.color
+    return isFactionColor(factionId) ? factionId : null
+  }
+
+  const factions = mapRef.current?.factions ?? []
+
+  const handleAddFaction = () => {
+    const map = mapRef.current
+    if (!map) return
+    const usedColors = new Set(map.factions.map(f => f.color))
+    const color = (Object.keys(FACTION_COLORS) as FactionColor[]).find(c => !usedColors.has(c))
+    if (!color) return
+
+    let index = map.factions.length + 1
+    while (map.getFaction(`player_${index}`)) index++
+
+    recordHistory(`Add faction Player ${index}`, history => {
+      history.touchMapState(map)
+      map.addFaction(new Faction(`player_${index}`, `Player ${index}`, color))
+    })
+    markMapChanged()
+  }
+
+  const handleUpdateFaction = async (id: string, patch: { name?: string; color?: FactionColor }) => {
+    const map = mapRef.current
+    const faction = map?.getFaction(id)
+    if (!map || !faction) return
+
+    await recordHistory(`Edit faction ${faction.name}`, async history => {
+      history.touchMapState(map)
+      if (patch.name !== undefined) faction.name = patch.name
+      if (patch.color !== undefined && patch.color !== faction.color) {
+        faction.color = patch.color
+        // Re-skin everything the faction owns with the new color set
+        for (const hex of map.getOwnedHexes(id)) {
+          history.touch(map, hex.q, hex.r)
+          if (setHexOwner(hex, faction)) {
+            await updateHexMesh(hex.q, hex.r, hex.height)
+          }
+        }
+      }
+    })
+    markMapChanged()
+  }
+
+  const handleRemoveFaction = (id: string) => {
+    const name = mapRef.current?.getFaction(id)?.name ?? id
+    recordHistory(`Remove faction ${name}`, (history, map) => {
+      history.touchMapState(map)
+      // Owned hexes become neutral
+      for (const hex of map.getOwnedHexes(id)) history.touch(map, hex.q, hex.r)
+      map.removeFaction(id)
+    })
+    if (factionFilter === id) setFactionFilter(null)
+    markMapChanged()
+  }
+
+  const handleSetFactionStart = (id: string) => {
+    const faction = mapRef.current?.getFaction(id)
+    if (!faction || selectedHexes.length !== 1) return
+    const { q, r } = selectedHexes[0]
+    recordHistory(`Set start of ${faction.name} at ${q},${r}`, (history, map) => {
+      history.touchMapState(map)
+      faction.startHex = { q, r }
+    })
+    markMapChanged()
+  }
+
+  const handleAssignOwner = async (factionId: string | null) => {
+    const map = mapRef.current
+    if (!map || selectedHexes.length === 0) return
+    const faction = factionId ? map.getFaction(factionId) : null
+
+    const count = selectedHexes.length
+    const target = `${count === 1 ? 'hex' : `${count} hexes`} to ${faction?.name ?? 'neutral'}`
+    await recordHistory(`Assign ${target}`, async history => {
+      for (const { q, r } of selectedHexes) {
+        const hex = map.getHex(q, r)
+        if (!hex) continue
+        history.touch(map, q, r)
+        if (setHexOwner(hex, faction)) {
+          await updateHexMesh(q, r, hex.height)
+        }
+      }
+    })
+    markMapChanged()
+  }
+
+  const regions = mapRef.current?.regions.getRegions() ?? []
+  const activeRegion = regions.find(region => region.id === regionSettings.activeRegionId) ?? null
+
+  const handleAddRegion = () => {
+    const map = mapRef.current
+    if (!map) return
+
+    let index = regions.length + 1
+    while (map.regions.getRegion(`region_${index}`)) index++
+    const color = REGION_PALETTE[(index - 1) % REGION_PALETTE.length]
+
+    recordHistory(`Add region Region ${index}`, history => {
+      history.touchMapState(map)
+      map.regions.addRegion(new Region(`region_${index}`, `Region ${index}`, color, REGION_KINDS.PROVINCE))
+    })
+    setRegionSettings(prev => ({ ...prev, activeRegionId: `region_${index}` }))
+    markMapChanged()
+  }
+
+  const handleUpdateRegion = (id: string, patch: { name?: string; color?: string; kind?: RegionKind }) => {
+    const region = mapRef.current?.regions.getRegion(id)
+    if (!region) return
+    recordHistory(`Edit region ${region.name}`, (history, map) => {
+      history.touchMapState(map)
+      Object.assign(region, patch)
+    })
+    markMapChanged()
+  }
+
+  const handleRemoveRegion = (id: string) => {
+    const name = mapRef.current?.regions.getRegion(id)?.name ?? id
+    recordHistory(`Remove region ${name}`, (history, map) => {
+      history.touchMapState(map)
+      map.regions.removeRegion(id)
+    })
+    if (regionSettings.activeRegionId === id) {
+      setRegionSettings(prev => ({ ...prev, tool: 'off', activeRegionId: null }))
+    }
+    markMapChanged()
+  }
+
+  // Paint/erase the active region under the brush; a stroke is one undo step (closed on mouse up)
+  const paintRegionAt = (q: number, r: number) => {
+    const map = mapRef.current
+    const stroke = regionStrokeRef.current
+    if (!map || !stroke || !activeRegion || regionSettings.tool === 'off') return
+
+    const coords = axialRange({ q, r }, regionSettings.brushRadius).filter(c =>
+      map.isValidCoordinate(c.q, c.r)
+    )
+    const needsChange = coords.some(c =>
+      regionSettings.tool === 'paint' ? !activeRegion.has(c.q, c.r) : activeRegion.has(c.q, c.r)
+    )
+    if (!needsChange) return
+
+    if (!stroke.saved) {
+      historyRef.current.begin(`${regionSettings.tool === 'paint' ? 'Paint' : 'Erase'} region ${activeRegion.name}`)
+      historyRef.current.touchMapState(map)
+      stroke.saved = true
+    }
+    for (const c of coords) {
+      if (regionSettings.tool === 'paint') map.regions.paint(activeRegion.id, c.q, c.r)
+      else map.regions.erase(activeRegion.id, c.q, c.r)
+    }
+    markMapChanged()
+  }
+
+  // Close the undo step a region stroke opened on its first change
+  const endRegionStroke = () => {
+    if (regionStrokeRef.current?.saved && mapRef.current) {
+      historyRef.current.commit(mapRef.current, getBuildingData)
+      setHistoryVersion(prev => prev + 1)
+    }
+    regionStrokeRef.current = null
+  }
+
+  // Paint tools place the tile selected in the Assets panel (buildings are dropped one by one)
+  const paintTile = selectedCategory === 'tiles' ? selectedModel : null
+
+  // Positions a paint stroke covers from its start to the hex under the cursor
+  const getPaintArea = (start: { q: number; r: number }, end: { q: number; r: number }) => {
+    const map = mapRef.current
+    if (!map) return []
+    switch (paintSettings.tool) {
+      case 'brush':
+        return getBrushArea(map, end, paintSettings.radius)
+      case 'fill':
+        return getFillArea(map, start, currentHeightLevel, paintSettings.fillBound)
+      case 'line':
+        return getLineArea(map, start, end)
+      case 'ring':
+        return getRingArea(map, start, axialDistance(start, end), paintSettings.ringFilled)
+      default:
+        return []
+    }
+  }
+
+  // Place the selected tile over the area; the first change opens the stroke's undo step
+  const paintTiles = async (area: Array<{ q: number; r: number }>) => {
+    const map = mapRef.current
+    const stroke = paintStrokeRef.current
+    const model = paintTile
+    if (!map || !stroke || !model) return
+
+    const targets = planPaint(
+      map,
+      area.filter(c => !stroke.painted.has(`${c.q},${c.r}`)),
+      currentHeightLevel,
+      paintSettings.overlap,
+      model.obj
+    )
+    if (targets.length === 0) return
+
+    if (!stroke.saved) {
+      historyRef.current.begin(`Paint ${model.name}`)
+      stroke.saved = true
+    }
+    for (const { q, r, height } of targets) {
+      historyRef.current.touch(map, q, r)
+      const h = new Hex(q, r, selectedTerrain)
+      h.modelData = model
+      applyModelTerrain(h)
+      h.height = height
+      map.setHex(q, r, h)
+      stroke.painted.add(`${q},${r}`)
+    }
+    markMapChanged()
+    for (const { q, r, height } of targets) {
+      await updateHexMesh(q, r, height)
+    }
+  }
+
+  const startPaintStroke = (coords: { q: number; r: number } | null) => {
+    if (!coords) return
+    if (!paintTile) {
+      showNotification('error', 'Select a tile in the Assets panel to paint with')
+      return
+    }
+    paintStrokeRef.current = { saved: false, start: coords, end: coords, painted: new Set() }
+    if (paintSettings.tool === 'brush' || paintSettings.tool === 'fill') {
+      paintTiles(getPaintArea(coords, coords))
+    } else {
+      previewPaintStroke()
+    }
+  }
+
+  const movePaintStroke = (coords: { q: number; r: number }) => {
+    const stroke = paintStrokeRef.current
+    if (!stroke || (coords.q === stroke.end.q && coords.r === stroke.end.r)) return
+    stroke.end = coords
+    if (paintSettings.tool === 'brush') {
+      paintTiles(getPaintArea(stroke.start, coords))
+    } else if (paintSettings.tool === 'line' || paintSettings.tool === 'ring') {
+      previewPaintStroke()
+    }
+  }
+
+  // Tint where a line or ring stroke will place its tiles
+  const previewPaintStroke = () => {
+    const map = mapRef.current
+    const stroke = paintStrokeRef.current
+    if (!map || !stroke || !paintTile) return
+    const area = getPaintArea(stroke.start, stroke.end)
+    const targets = planPaint(map, area, currentHeightLevel, paintSettings.overlap, paintTile.obj)
+    setOverlay('paint', targets.map(({ q, r, height }) => ({ q, r, level: height, color: 0x00ffff, opacity: 0.4 })))
+  }
+
+  // Paint a pending line or ring (not when the cursor left the canvas) and close the undo step
+  const endPaintStroke = (apply: boolean) => {
+    const stroke = paintStrokeRef.current
+    if (!stroke) return
+    if (apply && (paintSettings.tool === 'line' || paintSettings.tool === 'ring')) {
+      paintTiles(getPaintArea(stroke.start, stroke.end))
+    }
+    setOverlay('paint', [])
+    if (stroke.saved && mapRef.current) {
+      historyRef.current.commit(mapRef.current, getBuildingData)
+      setHistoryVersion(prev => prev + 1)
+    }
+    paintStrokeRef.current = null
+  }
+
+  const selectionOwners = new Set(
+    selectedHexes.map(({ q, r }) => mapRef.current?.getHex(q, r)?.owner ?? null)
+  )
+  const selectionOwner = selectionOwners.size > 1 ? 'mixed' : ([...selectionOwners][0] ?? null)
+
+  // Place (or with Shift remove) a unit/city on the top hex of a stack
+  const placeEntityAt = (q: number, r: number, remove: boolean) => {
+    const hex = mapRef.current?.getHex(q, r)
+    if (!hex) return
+
+    const key = editMode === 'unit' ? 'unit' : 'city'
+    if (remove && !hex[key]) return
+
+    const label = `${remove ? 'Remove' : 'Place'} ${key} at ${q},${r}`
+    recordHistory(label, (history, map) => {
+      history.touch(map, q, r)
+      if (remove) {
+        hex[key] = null
+      } else if (editMode === 'unit') {
+        hex.unit = new Unit(placementSettings.unitType, placementSettings.faction, {
+          name: placementSettings.unitName.trim() || undefined,
+          facing: placementSettings.facing,
+        })
+      } else {
+        const faction = placementSettings.faction === NEUTRAL_FACTION ? null : placementSettings.faction
+        hex.city = new City(placementSettings.cityName.trim() || 'New City', faction, {
+          stats: { size: placementSettings.citySize },
+          facing: placementSettings.facing,
+        })
+      }
+    })
+    markMapChanged()
+  }
+
+  // Buildings standing on the selected positions (placeBuilding keeps them in the scene)
+  const selectedBuildings = selectedHexes
+    .map(({ q, r }) => buildingObjectsRef.current.get(`${q},${r}`))
+    .filter((building): building is THREE.Group => building !== undefined)
+
+  const handleAddPropertyDefinition = (definition: PropertyDefinition) => {
+    const map = mapRef.current
+    if (!map) return
+    if (map.propertySchema.has(definition.name)) {
+      showNotification('error', `Property "${definition.name}" already exists`)
+      return
+    }
+    recordHistory(`Add property ${definition.name}`, history => {
+      history.touchMapState(map)
+      map.propertySchema.add(definition)
+    })
+    markMapChanged()
+  }
+
+  const handleRemovePropertyDefinition = (name: string) => {
+    recordHistory(`Remove property ${name}`, (history, map) => {
+      // The values go away with the definition
+      history.touchMapState(map)
+      history.touchAll(map)
+      map.removePropertyDefinition(name)
+      buildingObjectsRef.current.forEach((building, key) => {
+        history.touchBuilding(key, getBuildingData(key))
+        building.userData.properties = withPropertyValue(building.userData.properties, name, null)
+      })
+    })
+    markMapChanged()
+  }
+
+  const handleSetPropertyValue = (target: PropertyTarget, name: string, value: PropertyValue | null) => {
+    const map = mapRef.current
+    if (!map) return
+    recordHistory(`Set ${name}`, history => {
+      if (target === PROPERTY_TARGETS.MAP) {
+        history.touchMapState(map)
+        map.properties = withPropertyValue(map.properties, name, value) ?? {}
+      } else if (target === PROPERTY_TARGETS.BUILDING) {
+        for (const { q, r } of selectedHexes) {
+          const key = `${q},${r}`
+          const building = buildingObjectsRef.current.get(key)
+          if (!building) continue
+          history.touchBuilding(key, getBuildingData(key))
+          building.userData.properties = withPropertyValue(building.userData.properties, name, value)
+        }
+      } else {
+        for (const { q, r } of selectedHexes) {
+          const hex = map.getHex(q, r)
+          if (!hex) continue
+          history.touch(map, q, r)
+          hex.properties = withPropertyValue(hex.properties, name, value)
+        }
+      }
+    })
+    markMapChanged()
+  }
+
+  const selectedSurfaceHex = selectedHexes.length === 1 && mapRef.current
+    ? mapRef.current.getHex(selectedHexes[0].q, selectedHexes[0].r)
+    : null
+
+  const updateSelectedEntities = (update: (hex: Hex) => void) => {
+    if (!selectedSurfaceHex) return
+    const { q, r } = selectedSurfaceHex
+    recordHistory(`Edit unit/city at ${q},${r}`, (history, map) => {
+      history.touch(map, q, r)
+      update(selectedSurfaceHex)
+    })
+    markMapChanged()
+  }
+
   const getHexAtScreenPosition = (clientX: number, clientY: number): { q: number; r: number } | null => {
     if (!cameraRef.current || !mapRef.current || !canvasRef.current) return null
     const rect = canvasRef.current.getBoundingClientRect()
@@ -2555,6 +3890,69 @@ export default function MapEditor() {
     return getHexAtScreenPosition(event.clientX, event.clientY)
   }
 
+  // Project a screen point onto the surface plane of a height level (null = ground level)
+  const screenToGround = (clientX: number, clientY: number, level: SelectionLevel): GroundPoint | null => {
+    if (!cameraRef.current || !canvasRef.current) return null
+    const rect = canvasRef.current.getBoundingClientRect()
+    const mouse = new THREE.Vector2(
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      -((clientY - rect.top) / rect.height) * 2 + 1
+    )
+    const raycaster = new THREE.Raycaster()
+    raycaster.setFromCamera(mouse, cameraRef.current)
+
+    const LEVEL_HEIGHT = tileHeightRef.current || 0.7
+    const surfaceY = (level ?? 0) * LEVEL_HEIGHT + LEVEL_HEIGHT / 2
+    const plane = new THREE.Plane(new THREE.Vector3(0, 1, 0), -surfaceY)
+    const point = raycaster.ray.intersectPlane(plane, new THREE.Vector3())
+    return point ? { x: point.x, z: point.z } : null
+  }
+
+  // Screen outline of the box or lasso being dragged
+  const getSelectionOutline = (points: Array<{ x: number; y: number }>) => {
+    if (selectionSettings.tool !== 'marquee') return points
+    const start = points[0]
+    const end = points[points.length - 1]
+    return [start, { x: end.x, y: start.y }, end, { x: start.x, y: end.y }]
+  }
+
+  const updateSelectionDrag = (clientX: number, clientY: number) => {
+    const drag = selectionDragRef.current
+    if (!drag || !canvasRef.current) return
+    const last = drag.points[drag.points.length - 1]
+    if (selectionSettings.tool === 'marquee') {
+      drag.points = [drag.points[0], { x: clientX, y: clientY }]
+    } else if (Math.hypot(clientX - last.x, clientY - last.y) > 4) {
+      drag.points.push({ x: clientX, y: clientY })
+    }
+    const rect = canvasRef.current.getBoundingClientRect()
+    setSelectionShape(getSelectionOutline(drag.points).map(({ x, y }) => ({ x: x - rect.left, y: y - rect.top })))
+  }
+
+  const finishSelectionDrag = (clientX: number, clientY: number) => {
+    const drag = selectionDragRef.current
+    selectionDragRef.current = null
+    setSelectionShape(null)
+    const map = mapRef.current
+    if (!drag || !map) return
+
+    const { level } = selectionSettings
+    const start = drag.points[0]
+    let picked: Array<{ q: number; r: number }>
+    if (Math.hypot(clientX - start.x, clientY - start.y) < 5) {
+      // No drag: the hex under the cursor
+      const coords = getHexAtScreenPosition(clientX, clientY)
+      picked = coords ? selectInRadius(map, coords, 0, level) : []
+    } else {
+      updateSelectionDrag(clientX, clientY)
+      const polygon = getSelectionOutline(drag.points)
+        .map(({ x, y }) => screenToGround(x, y, level))
+        .filter((point): point is GroundPoint => point !== null)
+      picked = selectInPolygon(map, polygon, level)
+    }
+    setSelectedHexes(prev => combineSelection(prev, picked, drag.mode))
+  }
+
   const handleCanvasClick = async (event: React.MouseEvent<HTMLCanvasElement>) => {
     if (!mapRef.current) return
 
@@ -2585,8 +3983,38 @@ export default function MapEditor() {
       return
     }
 
+    // Region painting is handled on mouse down/move
+    if (regionSettings.tool !== 'off' && activeRegion) return
+    // So is tile painting
+    if (paintSettings.tool !== 'off') return
+
     // Normal click: select hex
     const coords = getHexAtMousePosition(event)
+
+    // Box and lasso selection are handled on mouse down/up; radius and similar select on click
+    const { tool, level } = selectionSettings
+    if (tool === 'marquee' || tool === 'lasso') return
+    if (tool === 'radius' || tool === 'similar') {
+      const map = mapRef.current
+      const picked = !coords
+        ? []
+        : tool === 'radius'
+          ? selectInRadius(map, coords, selectionSettings.radius, level)
+          : selectConnected(map, coords, level, selectionSettings.similarity)
+      const mode = getSelectionMode(event, selectionSettings.mode)
+      setSelectedHexes(prev => combineSelection(prev, picked, mode))
+      return
+    }
+
+    // Unit/city placement mode: click places on the stack top, Shift+click removes
+    if ((editMode === 'unit' || editMode === 'city') && coords && !event.ctrlKey && !event.metaKey) {
+      placeEntityAt(coords.q, coords.r, event.shiftKey)
+      if (mapRef.current.hasHex(coords.q, coords.r)) {
+        setSelectedHexes([coords])
+      }
+      return
+    }
+
     if (coords) {
       if (mapRef.current.hasHex(coords.q, coords.r)) {
         // Ctrl+ЛКМ: множественное выделение
@@ -2624,6 +4052,20 @@ export default function MapEditor() {
     const dx = event.clientX - lastMouseRef.current.x
     const dy = event.clientY - lastMouseRef.current.y
 
+    if (regionStrokeRef.current) {
+      const coords = getHexAtMousePosition(event)
+      if (coords) paintRegionAt(coords.q, coords.r)
+    }
+
+    if (paintStrokeRef.current) {
+      const coords = getHexAtMousePosition(event)
+      if (coords) movePaintStroke(coords)
+    }
+
+    if (selectionDragRef.current) {
+      updateSelectionDrag(event.clientX, event.clientY)
+    }
+
     if (isRotatingRef.current) {
       cameraAngleYRef.current += dx * 0.01
       cameraAngleXRef.current = Math.max(0.1, Math.min(Math.PI / 2, cameraAngleXRef.current + dy * 0.01))
@@ -2745,6 +4187,13 @@ export default function MapEditor() {
           open={saveDialogOpen}
           onOpenChange={setSaveDialogOpen}
           onSave={handleSaveMapConfirm}
+          defaultName={mapMetadata?.name}
+          defaultDescription={mapMetadata?.description}
+          defaultAuthor={mapMetadata?.author}
+          defaultTags={mapMetadata?.tags}
+          revision={mapMetadata?.revision}
+          thumbnail={saveThumbnail}
+          checkpointCount={historyRef.current.getCheckpoints().length}
         />
 
         {/* New Map Dialog */}
@@ -2754,6 +4203,43 @@ export default function MapEditor() {
           onConfirm={handleNewMapConfirm}
         />
 
+        {/* Resize Map Dialog */}
+        <ResizeMapDialog
+          open={resizeDialogOpen}
+          onOpenChange={setResizeDialogOpen}
+          sizes={MAP_SIZES}
+          currentSize={mapSize}
+          currentWidth={mapRef.current?.width ?? MAP_SIZES[mapSize].width}
+          currentHeight={mapRef.current?.height ?? MAP_SIZES[mapSize].height}
+          getPlan={(width, height, anchor) => mapRef.current?.planResize(width, height, anchor) ?? null}
+          onConfirm={handleResizeMapConfirm}
+        />
+
+        {/* Terrain Reconcile Dialog */}
+        <TerrainReconcileDialog
+          open={terrainMismatches !== null}
+          onOpenChange={(open) => !open && setTerrainMismatches(null)}
+          mismatches={terrainMismatches ?? []}
+          onConfirm={handleReconcileTerrainConfirm}
+        />
+
+        {/* Map File Validation Errors */}
+        <MapValidationDialog
+          open={loadIssues !== null}
+          onOpenChange={(open) => !open && setLoadIssues(null)}
+          fileName={loadIssues?.fileName ?? ''}
+          issues={loadIssues?.issues ?? []}
+          onLoadWithRepairs={handleLoadWithRepairs}
+        />
+
+        {/* Repairs Made While Loading */}
+        <MapRepairDialog
+          open={loadRepairs !== null}
+          onOpenChange={(open) => !open && setLoadRepairs(null)}
+          fileName={loadRepairs?.fileName ?? ''}
+          repairs={loadRepairs?.repairs ?? []}
+        />
+
         {/* Unsaved Data Dialog */}
         <UnsavedDataDialog
           open={unsavedDataDialogOpen}
@@ -2762,6 +4248,30 @@ export default function MapEditor() {
           onDiscard={handleUnsavedDataDiscard}
         />
 
+        <MapLibraryDialog
+          open={libraryOpen}
+          onOpenChange={setLibraryOpen}
+          entries={libraryEntries}
+          currentId={libraryId}
+          onOpen={handleOpenLibraryEntry}
+          onOpenFile={() => {
+            setLibraryOpen(false)
+            openLoadDialog()
+          }}
+          onImportFolder={handleImportLibraryFolder}
+          onDuplicate={id => runLibraryAction(() => libraryStoreRef.current.duplicate(id))}
+          onRename={handleRenameLibraryEntry}
+          onDelete={handleDeleteLibraryEntry}
+          onDownload={handleDownloadLibraryEntry}
+        />
+
+        <RecoveryDialog
+          records={recoveryRecords}
+          onRestore={handleRestoreAutosave}
+          onDiscard={handleDiscardAutosave}
+          onClose={() => setRecoveryRecords([])}
+        />
+
         {/* Generate Map Dialog */}
         <Dialog open={generateDialogOpen} onOpenChange={setGenerateDialogOpen}>
           <DialogContent>
@@ -2954,6 +4464,20 @@ export default function MapEditor() {
                 <span>New...</span>
                 <span className="text-xs text-muted-foreground">Ctrl+N</span>
               </div>
+              <button
+                type="button"
+                onClick={() => setResizeDialogOpen(true)}
+                className="w-full flex items-center justify-between px-2 py-2 rounded cursor-pointer hover:bg-primary/10 transition-colors"
+              >
+                <span>Resize...</span>
+              </button>
+              <button
+                type="button"
+                onClick={handleReconcileTerrain}
+                className="w-full flex items-center justify-between px-2 py-2 rounded cursor-pointer hover:bg-primary/10 transition-colors"
+              >
+                <span>Reconcile terrain...</span>
+              </button>
               <Separator />
               <div
                 onClick={handleLoadMap}
@@ -2969,10 +4493,147 @@ export default function MapEditor() {
                 <span>Save...</span>
                 <span className="text-xs text-muted-foreground">Ctrl+S</span>
               </div>
+              <button
+                type="button"
+                onClick={handleExportBinary}
+                className="w-full flex items-center justify-between px-2 py-2 rounded cursor-pointer hover:bg-primary/10 transition-colors"
+              >
+                <span>Export binary...</span>
+              </button>
+              <button
+                type="button"
+                onClick={handleExportGLB}
+                className="w-full flex items-center justify-between px-2 py-2 rounded cursor-pointer hover:bg-primary/10 transition-colors"
+              >
+                <span>Export 3D scene (GLB)...</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => handleExportMinimap('svg')}
+                className="w-full flex items-center justify-between px-2 py-2 rounded cursor-pointer hover:bg-primary/10 transition-colors"
+              >
+                <span>Export minimap (SVG)...</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => handleExportMinimap('png')}
+                className="w-full flex items-center justify-between px-2 py-2 rounded cursor-pointer hover:bg-primary/10 transition-colors"
+              >
+                <span>Export minimap (PNG)...</span>
+              </button>
             </div>
           </PopoverContent>
         </Popover>
 
+        {/* TOP LEFT: ANALYSIS OVERLAYS */}
+        <OverlayPanel
+          settings={overlaySettings}
+          onSettingsChange={setOverlaySettings}
+          reachableCount={reachableCount}
+          pathInfo={pathResult ? { cost: pathResult.cost, steps: pathResult.path.length - 1 } : null}
+          hasPathTarget={selectedHexes.length > 1}
+          visibleCount={visibleCount}
+        />
+
+        {/* TOP LEFT: UNITS & CITIES */}
+        <PlacementPanel
+          mode={placementMode}
+          onModeChange={handlePlacementModeChange}
+          settings={placementSettings}
+          onSettingsChange={setPlacementSettings}
+          factions={factions}
+          selectedUnit={selectedSurfaceHex?.unit ?? null}
+          selectedCity={selectedSurfaceHex?.city ?? null}
+          onRotateSelected={() => updateSelectedEntities(hex => {
+            if (hex.unit) hex.unit.facing = normalizeFacing(hex.unit.facing + 1)
+            if (hex.city) hex.city.facing = normalizeFacing(hex.city.facing + 1)
+          })}
+          onRemoveUnit={() => updateSelectedEntities(hex => { hex.unit = null })}
+          onRemoveCity={() => updateSelectedEntities(hex => { hex.city = null })}
+        />
+
+        {/* TOP LEFT: FACTIONS */}
+        <FactionPanel
+          factions={factions}
+          filter={factionFilter}
+          onFilterChange={setFactionFilter}
+          onAddFaction={handleAddFaction}
+          onUpdateFaction={handleUpdateFaction}
+          onRemoveFaction={handleRemoveFaction}
+          onSetStartHex={handleSetFactionStart}
+          canSetStartHex={selectedHexes.length === 1}
+          selectionOwner={selectionOwner}
+          hasSelection={selectedHexes.length > 0}
+          onAssignOwner={handleAssignOwner}
+        />
+
+        {/* TOP LEFT: REGIONS */}
+        <RegionPanel
+          regions={regions}
+          settings={regionSettings}
+          onSettingsChange={setRegionSettings}
+          onAddRegion={handleAddRegion}
+          onUpdateRegion={handleUpdateRegion}
+          onRemoveRegion={handleRemoveRegion}
+          adjacentRegions={activeRegion ? mapRef.current?.regions.getAdjacentRegions(activeRegion.id) ?? [] : []}
+        />
+
+        {/* TOP LEFT: STATISTICS REPORT */}
+        <MapReportPanel
+          getReport={() => (mapRef.current ? analyzeMap(mapRef.current) : null)}
+          onExport={handleExportReport}
+        />
+
+        {/* TOP LEFT: CUSTOM PROPERTIES */}
+        <PropertyInspector
+          definitions={mapRef.current?.propertySchema.getDefinitions() ?? []}
+          selectionCount={selectedHexes.length}
+          hexProperties={selectedHexes.flatMap(({ q, r }) => {
+            const hex = mapRef.current?.getHex(q, r)
+            return hex ? [hex.properties] : []
+          })}
+          buildingProperties={selectedBuildings.map(building => building.userData.properties)}
+          mapProperties={mapRef.current?.properties ?? {}}
+          onAddDefinition={handleAddPropertyDefinition}
+          onRemoveDefinition={handleRemovePropertyDefinition}
+          onSetValue={handleSetPropertyValue}
+        />
+
+        {/* TOP LEFT: DIFF WITH A SAVED VERSION */}
+        <MapDiffPanel
+          baseName={diffBaseName}
+          diff={mapDiff}
+          showTint={showDiffTint}
+          onShowTintChange={setShowDiffTint}
+          onCompare={openCompareDialog}
+          onClear={handleClearDiff}
+        />
+
+        {/* TOP LEFT: UNDO HISTORY */}
+        <HistoryPanel
+          entries={historyRef.current.getEntries()}
+          checkpoints={historyRef.current.getCheckpoints()}
+          onJump={handleHistoryJump}
+          onAddCheckpoint={handleAddCheckpoint}
+          onRemoveCheckpoint={handleRemoveCheckpoint}
+        />
+
+        {/* TOP LEFT: SELECTION TOOLS */}
+        <SelectionPanel
+          settings={selectionSettings}
+          onSettingsChange={setSelectionSettings}
+          selectedCount={selectedHexes.length}
+          onClear={() => setSelectedHexes([])}
+        />
+
+        {/* TOP LEFT: TILE PAINTING */}
+        <PaintPanel
+          settings={paintSettings}
+          onSettingsChange={setPaintSettings}
+          tileName={paintTile?.name ?? null}
+          heightLevel={currentHeightLevel}
+        />
+
         {/* TOP CENTER: MAP NAME */}
         <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 p-1 bg-card/80 backdrop-blur-xl border border-border/50 rounded-full flex items-center gap-2 px-4 py-2 shadow-2xl">
           <span className="text-xs font-bold tracking-tight uppercase text-primary">
@@ -3183,6 +4844,11 @@ export default function MapEditor() {
                   <span className="bg-primary/20 px-2 py-0.5 rounded border border-primary/30 text-primary font-bold">Ctrl+LMB</span>
                 </div>
 
+                <div className="flex items-center justify-between py-1.5 border-b border-border/30">
+                  <span className="text-muted-foreground">Add / subtract (selection tools)</span>
+                  <span className="bg-primary/20 px-2 py-0.5 rounded border border-primary/30 text-primary font-bold">Shift / Alt</span>
+                </div>
+
                 <div className="flex items-center justify-between py-1.5 border-b border-border/30">
                   <span className="text-muted-foreground">Copy tile (drag)</span>
                   <span className="bg-primary/20 px-2 py-0.5 rounded border border-primary/30 text-primary font-bold">Ctrl+Drag</span>
@@ -3259,10 +4925,6 @@ export default function MapEditor() {
                 setSelectedModel(draggedModelRef.current)
 
                 if (selectedCategory === 'tiles') {
-                  let t = selectedTerrain
-                  if (selectedFolder === 'roads') t = TERRAIN_TYPES.ROAD
-                  else if (selectedFolder === 'coast') t = TERRAIN_TYPES.WATER
-
                   // Validate coordinates before proceeding
                   if (!Number.isFinite(q) || !Number.isFinite(r)) {
                     console.error('Invalid coordinates from drop:', q, r)
@@ -3277,13 +4939,17 @@ export default function MapEditor() {
 
                   // Only place if we found a free level
                   if (targetLevel <= 4) {
-                    const h = new Hex(q, r, t)
+                    const h = new Hex(q, r, selectedTerrain)
                     h.modelData = draggedModelRef.current
+                    applyModelTerrain(h)
                     h.height = targetLevel
-                    mapRef.current.setHex(q, r, h)
-                    await updateHexMesh(q, r, targetLevel)
+                    await recordHistory(`Place ${h.modelData?.name ?? 'tile'} at ${q},${r}`, async (history, map) => {
+                      history.touch(map, q, r)
+                      map.setHex(q, r, h)
+                      await updateHexMesh(q, r, targetLevel)
+                    })
                     // Отмечаем изменения
-                    setHasUnsavedChanges(true)
+                    markMapChanged()
                   }
                 } else {
                   // For buildings, same logic
@@ -3295,11 +4961,17 @@ export default function MapEditor() {
                   if (targetLevel <= 4) {
                     const h = new Hex(q, r, TERRAIN_TYPES.PLAINS)
                     h.modelData = draggedModelRef.current
+                    applyModelTerrain(h)
                     h.height = targetLevel
-                    mapRef.current.setHex(q, r, h)
-                    await updateHexMesh(q, r, targetLevel)
+                    // Colored building sets belong to the faction playing that color
+                    h.owner = mapRef.current.factions.find(f => f.color === selectedFolder)?.id ?? null
+                    await recordHistory(`Place ${h.modelData?.name ?? 'tile'} at ${q},${r}`, async (history, map) => {
+                      history.touch(map, q, r)
+                      map.setHex(q, r, h)
+                      await updateHexMesh(q, r, targetLevel)
+                    })
                     // Отмечаем изменения
-                    setHasUnsavedChanges(true)
+                    markMapChanged()
                   }
                 }
               }
@@ -3308,7 +4980,26 @@ export default function MapEditor() {
             onClick={handleCanvasClick}
             onMouseMove={handleMouseMove}
             onMouseDown={(e) => {
-              if (e.button === 0) {
+              if (e.button === 0 && regionSettings.tool !== 'off' && activeRegion) {
+                // Region tool: start a paint stroke instead of a tile drag
+                regionStrokeRef.current = { saved: false }
+                mouseDownPosRef.current = null
+                const coords = getHexAtMousePosition(e)
+                if (coords) paintRegionAt(coords.q, coords.r)
+              } else if (e.button === 0 && paintSettings.tool !== 'off') {
+                // Paint tools place the selected tile instead of dragging tiles
+                mouseDownPosRef.current = null
+                startPaintStroke(getHexAtMousePosition(e))
+              } else if (e.button === 0 && selectionSettings.tool !== 'click') {
+                // Selection tools select instead of dragging tiles
+                mouseDownPosRef.current = null
+                if (selectionSettings.tool === 'marquee' || selectionSettings.tool === 'lasso') {
+                  selectionDragRef.current = {
+                    points: [{ x: e.clientX, y: e.clientY }],
+                    mode: getSelectionMode(e, selectionSettings.mode),
+                  }
+                }
+              } else if (e.button === 0) {
                 // Left click: remember position for potential drag
                 // Don't start drag immediately - wait for mouse movement
                 const coords = getHexAtMousePosition(e)
@@ -3330,6 +5021,11 @@ export default function MapEditor() {
               }
             }}
             onMouseUp={(e) => {
+              endRegionStroke()
+              endPaintStroke(true)
+              if (e.button === 0 && selectionDragRef.current) {
+                finishSelectionDrag(e.clientX, e.clientY)
+              }
               if (e.button === 0) {
                 // Handle tile drag end in handleCanvasClick
                 // Clear mouse down position
@@ -3344,6 +5040,10 @@ export default function MapEditor() {
               isPanningRef.current = false
             }}
             onMouseLeave={() => {
+              endRegionStroke()
+              endPaintStroke(false)
+              selectionDragRef.current = null
+              setSelectionShape(null)
               isDraggingTileRef.current = false
               isCopyModeRef.current = false
               dragStartHexRef.current = null
@@ -3354,6 +5054,17 @@ export default function MapEditor() {
             onWheel={handleWheel}
             onContextMenu={e => e.preventDefault()}
           />
+          {selectionShape && (
+            <svg className="absolute inset-0 w-full h-full pointer-events-none" aria-hidden="true">
+              <polygon
+                points={selectionShape.map(({ x, y }) => `${x},${y}`).join(' ')}
+                fill="rgba(34, 211, 238, 0.1)"
+                stroke="#22d3ee"
+                strokeWidth={1.5}
+                strokeDasharray="4 3"
+              />
+            </svg>
+          )}
         </div>
       </main>
 
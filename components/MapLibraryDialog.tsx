@@ -0,0 +1,265 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Check,
+  Clock,
+  Copy,
+  Download,
+  FileUp,
+  FolderInput,
+  Library,
+  Pencil,
+  Search,
+  Trash2,
+  X,
+} from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { getRecentEntries, type LibraryEntry, searchLibrary } from '@/lib/game/MapLibrary'
+
+interface MapLibraryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  entries: LibraryEntry[]
+  currentId: string | null // Library entry of the map being edited
+  onOpen: (entry: LibraryEntry) => void
+  onOpenFile: () => void // Pick a file outside the library
+  onImportFolder: () => void
+  onDuplicate: (id: string) => void
+  onRename: (id: string, name: string) => void
+  onDelete: (id: string) => void
+  onDownload: (entry: LibraryEntry) => void
+}
+
+const formatSize = (size: number) =>
+  size < 1024 * 1024 ? `${Math.ceil(size / 1024)} KB` : `${(size / 1024 / 1024).toFixed(1)} MB`
+
+export function MapLibraryDialog({
+  open,
+  onOpenChange,
+  entries,
+  currentId,
+  onOpen,
+  onOpenFile,
+  onImportFolder,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onDownload,
+}: MapLibraryDialogProps) {
+  const [query, setQuery] = useState('')
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null)
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setQuery('')
+      setRenaming(null)
+      setConfirmDeleteId(null)
+    }
+  }, [open])
+
+  const recent = getRecentEntries(entries)
+  const results = searchLibrary(entries, query)
+
+  const handleRename = () => {
+    if (!renaming) return
+    const name = renaming.name.trim()
+    if (name) onRename(renaming.id, name)
+    setRenaming(null)
+  }
+
+  const handleDelete = (id: string) => {
+    if (confirmDeleteId === id) {
+      onDelete(id)
+      setConfirmDeleteId(null)
+    } else {
+      setConfirmDeleteId(id)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Library className="h-5 w-5" />
+            Map Library
+          </DialogTitle>
+          <DialogDescription>
+            Maps saved in this browser. Open one, or bring in map files from your computer.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="Search by name, tag or description"
+              className="pl-8"
+            />
+          </div>
+          <Button variant="outline" onClick={onOpenFile} className="gap-2">
+            <FileUp className="h-4 w-4" />
+            Open file...
+          </Button>
+          <Button variant="outline" onClick={onImportFolder} className="gap-2">
+            <FolderInput className="h-4 w-4" />
+            Import folder...
+          </Button>
+        </div>
+
+        {recent.length > 0 && !query && (
+          <div className="space-y-1">
+            <p className="flex items-center gap-1 text-xs font-bold uppercase text-muted-foreground">
+              <Clock className="h-3 w-3" />
+              Open recent
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {recent.map(entry => (
+                <Button
+                  key={entry.id}
+                  size="sm"
+                  variant="secondary"
+                  className="h-7 max-w-[180px] text-xs"
+                  onClick={() => onOpen(entry)}
+                >
+                  <span className="truncate">{entry.name}</span>
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <ScrollArea className="h-[360px] pr-3">
+          {results.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              {entries.length === 0
+                ? 'The library is empty. Saved maps appear here.'
+                : 'No maps match the search.'}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {results.map(entry => (
+                <div
+                  key={entry.id}
+                  className={`flex gap-3 rounded-md border p-2 ${
+                    entry.id === currentId ? 'border-primary/60 bg-primary/5' : 'border-border'
+                  }`}
+                >
+                  <button type="button" className="shrink-0" onClick={() => onOpen(entry)}>
+                    {entry.thumbnail ? (
+                      <img
+                        src={entry.thumbnail}
+                        alt={entry.name}
+                        className="h-16 w-16 rounded border border-border/60 object-contain bg-muted"
+                      />
+                    ) : (
+                      <div className="h-16 w-16 rounded border border-border/60 bg-muted" />
+                    )}
+                  </button>
+
+                  <div className="min-w-0 flex-1 space-y-1">
+                    {renaming?.id === entry.id ? (
+                      <div className="flex gap-1">
+                        <Input
+                          autoFocus
+                          value={renaming.name}
+                          onChange={e => setRenaming({ id: entry.id, name: e.target.value })}
+                          onKeyDown={e => {
+                            if (e.key === 'Enter') handleRename()
+                            if (e.key === 'Escape') setRenaming(null)
+                          }}
+                          className="h-7 text-sm"
+                        />
+                        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={handleRename}>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setRenaming(null)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <button
+                        type="button"
+                        className="block max-w-full truncate text-left text-sm font-medium hover:text-primary"
+                        onClick={() => onOpen(entry)}
+                      >
+                        {entry.name}
+                      </button>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {entry.width}×{entry.height} · {entry.mapSize} · {formatSize(entry.size)} ·
+                      modified {new Date(entry.modifiedAt).toLocaleString()}
+                    </p>
+                    {entry.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {entry.tags.map(tag => (
+                          <Badge key={tag} variant="outline" className="px-1.5 py-0 text-[10px] font-normal">
+                            {tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex shrink-0 items-start gap-0.5">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      title="Rename"
+                      onClick={() => setRenaming({ id: entry.id, name: entry.name })}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      title="Duplicate"
+                      onClick={() => onDuplicate(entry.id)}
+                    >
+                      <Copy className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      title="Download"
+                      onClick={() => onDownload(entry)}
+                    >
+                      <Download className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      size={confirmDeleteId === entry.id ? 'sm' : 'icon'}
+                      variant={confirmDeleteId === entry.id ? 'destructive' : 'ghost'}
+                      className="h-7 min-w-7"
+                      title="Delete"
+                      onClick={() => handleDelete(entry.id)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                      {confirmDeleteId === entry.id && <span className="ml-1 text-xs">Delete?</span>}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,94 @@
+'use client'
+
+import { CheckCircle, Wrench } from '@phosphor-icons/react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { type MapRepair, REPAIR_ACTION_NAMES, type RepairAction } from '@/lib/game/MapRepair'
+
+interface MapRepairDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  fileName: string
+  // Changes made by MapSerializer.deserialize in repair mode
+  repairs: MapRepair[]
+}
+
+export function MapRepairDialog({ open, onOpenChange, fileName, repairs }: MapRepairDialogProps) {
+  const counts = new Map<RepairAction, number>()
+  for (const repair of repairs) {
+    counts.set(repair.action, (counts.get(repair.action) ?? 0) + 1)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wrench size={20} className="text-primary" />
+            Map Repaired
+          </DialogTitle>
+          <DialogDescription>
+            {fileName} was loaded with repairs. Save the map to keep the repaired version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {repairs.length === 0 ? (
+          <div className="flex items-center gap-2 py-4 text-sm text-muted-foreground">
+            <CheckCircle size={18} className="text-green-500" />
+            No hexes or buildings had to be changed.
+          </div>
+        ) : (
+          <div className="space-y-2 py-2">
+            <div className="flex flex-wrap gap-2 text-xs">
+              {Array.from(counts, ([action, count]) => (
+                <span key={action} className="rounded border border-border/60 px-2 py-0.5">
+                  {REPAIR_ACTION_NAMES[action]}: <span className="font-mono">{count}</span>
+                </span>
+              ))}
+            </div>
+            <ScrollArea className="h-64 rounded-md border border-border/60">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-card text-muted-foreground">
+                  <tr>
+                    <th className="px-2 py-1 text-left font-medium">Path</th>
+                    <th className="px-2 py-1 text-left font-medium">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {repairs.map((repair) => (
+                    <tr
+                      key={`${repair.path} ${repair.action}`}
+                      className="border-t border-border/40"
+                    >
+                      <td className="px-2 py-1 font-mono align-top whitespace-nowrap">
+                        {repair.path}
+                      </td>
+                      <td className="px-2 py-1">
+                        <span className="text-muted-foreground">
+                          {REPAIR_ACTION_NAMES[repair.action]}:
+                        </span>{' '}
+                        {repair.message}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </ScrollArea>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
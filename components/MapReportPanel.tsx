@@ -0,0 +1,181 @@
+'use client'
+
+import { ArrowClockwise, ChartBar, DownloadSimple } from '@phosphor-icons/react'
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Separator } from '@/components/ui/separator'
+import { FACTION_COLORS, isFactionColor } from '@/lib/game/Faction'
+import type { MapReport } from '@/lib/game/MapAnalysis'
+import { terrainRegistry } from '@/lib/game/TerrainRegistry'
+
+export type ReportFormat = 'json' | 'csv'
+
+interface MapReportPanelProps {
+  // Computed on demand: analysis runs a search per player
+  getReport: () => MapReport | null
+  onExport: (report: MapReport, format: ReportFormat) => void
+}
+
+const formatCost = (cost: number | null) => (cost === null ? '—' : String(cost))
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="flex justify-between text-xs">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-mono">{value}</span>
+    </div>
+  )
+}
+
+export function MapReportPanel({ getReport, onExport }: MapReportPanelProps) {
+  const [report, setReport] = useState<MapReport | null>(null)
+
+  const refresh = () => setReport(getReport())
+
+  return (
+    <Popover onOpenChange={(open) => open && refresh()}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="absolute top-64 left-4 z-30 p-1 bg-card/80 backdrop-blur-xl border border-border/50 rounded-full flex items-center gap-3 px-4 py-2 shadow-2xl cursor-pointer hover:bg-card/90 transition-colors"
+        >
+          <ChartBar size={18} className="text-primary" weight="bold" />
+          <span className="text-xs font-bold tracking-tight uppercase text-primary">Report</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-96 bg-card/95 backdrop-blur-xl border border-border/50 shadow-2xl"
+      >
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-bold text-sm uppercase tracking-wider text-primary">Map report</h4>
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={refresh}>
+              <ArrowClockwise size={14} />
+            </Button>
+          </div>
+
+          {!report ? (
+            <p className="text-xs text-muted-foreground">No map loaded.</p>
+          ) : (
+            <ScrollArea className="h-96 pr-3">
+              <div className="space-y-3">
+                <div className="space-y-1">
+                  <Stat label="Size" value={`${report.width}×${report.height} (${report.shape})`} />
+                  <Stat
+                    label="Filled cells"
+                    value={`${report.filledPositions} / ${report.positions}`}
+                  />
+                  <Stat label="Hexes (all levels)" value={report.totalHexes} />
+                  <Stat
+                    label="Walkable areas"
+                    value={
+                      report.components.length > 0
+                        ? `${report.components.length} (largest ${report.components[0]})`
+                        : 0
+                    }
+                  />
+                </div>
+
+                <Separator />
+                <div className="space-y-1">
+                  <h5 className="text-xs font-bold uppercase text-muted-foreground">Terrain</h5>
+                  {Object.entries(report.terrain).map(([terrain, count]) => (
+                    <Stat
+                      key={terrain}
+                      label={terrainRegistry.get(terrain)?.name ?? terrain}
+                      value={`${count} (${Math.round((count / report.filledPositions) * 100)}%)`}
+                    />
+                  ))}
+                </div>
+
+                <Separator />
+                <div className="space-y-1">
+                  <h5 className="text-xs font-bold uppercase text-muted-foreground">Levels</h5>
+                  {Object.entries(report.levels).map(([level, count]) => (
+                    <Stat key={level} label={`Level ${level}`} value={count} />
+                  ))}
+                </div>
+
+                <Separator />
+                <div className="space-y-1">
+                  <h5 className="text-xs font-bold uppercase text-muted-foreground">Buildings</h5>
+                  {Object.keys(report.buildings).length === 0 && (
+                    <p className="text-xs text-muted-foreground">No buildings placed.</p>
+                  )}
+                  {Object.entries(report.buildings).map(([color, count]) => (
+                    <Stat
+                      key={color}
+                      label={isFactionColor(color) ? FACTION_COLORS[color].name : 'Neutral'}
+                      value={count}
+                    />
+                  ))}
+                </div>
+
+                <Separator />
+                <div className="space-y-1">
+                  <h5 className="text-xs font-bold uppercase text-muted-foreground">Players</h5>
+                  {report.players.length === 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Add factions with start positions to compare distances.
+                    </p>
+                  )}
+                  {report.players.length > 0 && (
+                    <table className="w-full text-xs">
+                      <thead className="text-muted-foreground">
+                        <tr>
+                          <th className="text-left font-medium">Player</th>
+                          <th className="text-right font-medium">Area</th>
+                          <th className="text-right font-medium">Resource</th>
+                          <th className="text-right font-medium">Structure</th>
+                        </tr>
+                      </thead>
+                      <tbody className="font-mono">
+                        {report.players.map((player) => (
+                          <tr key={player.factionId}>
+                            <td className="font-sans">
+                              {player.name}
+                              {!player.start && (
+                                <span className="text-muted-foreground"> (no start)</span>
+                              )}
+                            </td>
+                            <td className="text-right">{player.reachableHexes}</td>
+                            <td className="text-right">{formatCost(player.nearestResource)}</td>
+                            <td className="text-right">{formatCost(player.nearestStructure)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </div>
+            </ScrollArea>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!report}
+              onClick={() => report && onExport(report, 'json')}
+            >
+              <DownloadSimple size={14} className="mr-1" />
+              JSON
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!report}
+              onClick={() => report && onExport(report, 'csv')}
+            >
+              <DownloadSimple size={14} className="mr-1" />
+              CSV
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import { WarningCircle } from '@phosphor-icons/react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import type { SchemaIssue } from '@/lib/game/MapSchema'
+
+interface MapValidationDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  fileName: string
+  // Problems found by MapSerializer.validate, with JSON pointer paths
+  issues: SchemaIssue[]
+  // Offered when set: load the file anyway, fixing or dropping the broken parts
+  onLoadWithRepairs?: () => void
+}
+
+// A badly broken file can produce thousands of issues; the first ones are enough to fix it
+const MAX_LISTED_ISSUES = 200
+
+export function MapValidationDialog({
+  open,
+  onOpenChange,
+  fileName,
+  issues,
+  onLoadWithRepairs,
+}: MapValidationDialogProps) {
+  const listed = issues.slice(0, MAX_LISTED_ISSUES)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <WarningCircle size={20} className="text-destructive" />
+            Invalid Map File
+          </DialogTitle>
+          <DialogDescription>
+            {fileName} was not loaded: {issues.length}{' '}
+            {issues.length === 1 ? 'problem was' : 'problems were'} found.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-72 rounded-md border border-border/60">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-card text-muted-foreground">
+              <tr>
+                <th className="px-2 py-1 text-left font-medium">Path</th>
+                <th className="px-2 py-1 text-left font-medium">Problem</th>
+              </tr>
+            </thead>
+            <tbody>
+              {listed.map((issue) => (
+                <tr key={`${issue.path} ${issue.message}`} className="border-t border-border/40">
+                  <td className="px-2 py-1 font-mono align-top whitespace-nowrap">
+                    {issue.path || '/'}
+                  </td>
+                  <td className="px-2 py-1">{issue.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </ScrollArea>
+        {issues.length > listed.length && (
+          <p className="text-xs text-muted-foreground">
+            and {issues.length - listed.length} more not shown
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {onLoadWithRepairs && (
+            <Button onClick={onLoadWithRepairs} className="font-bold">
+              Load with repairs
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
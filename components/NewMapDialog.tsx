@@ -25,6 +25,7 @@ import { Checkbox } from '@/components/ui/checkbox'
 import { TilePreview } from '@/components/TilePreview'
 import { cn } from '@/lib/utils'
 import { tileRegistry } from '@/lib/llm/tile-registry'
+import { MAP_SHAPE_NAMES, MAP_SHAPE_TYPES, type MapShapeType } from '@/lib/game/Map'
 
 type MapSize = 'tiny' | 'small' | 'medium' | 'large' | 'very-large'
 
@@ -36,10 +37,17 @@ const MAP_SIZES: Record<MapSize, { label: string; width: number; height: number
   'very-large': { label: 'Very Large (100×100)', width: 100, height: 100 },
 }
 
+// Masks are built from existing maps, not chosen up front
+const NEW_MAP_SHAPES: MapShapeType[] = [
+  MAP_SHAPE_TYPES.RECTANGLE,
+  MAP_SHAPE_TYPES.HEXAGON,
+  MAP_SHAPE_TYPES.PARALLELOGRAM,
+]
+
 interface NewMapDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  onConfirm: (mapSize: MapSize, fillMap: boolean, selectedTile?: BaseTile) => void
+  onConfirm: (mapSize: MapSize, shape: MapShapeType, fillMap: boolean, selectedTile?: BaseTile) => void
 }
 
 interface BaseTile {
@@ -55,6 +63,7 @@ export function NewMapDialog({
   onConfirm
 }: NewMapDialogProps) {
   const [selectedSize, setSelectedSize] = useState<MapSize>('tiny')
+  const [selectedShape, setSelectedShape] = useState<MapShapeType>(MAP_SHAPE_TYPES.RECTANGLE)
   const [fillMap, setFillMap] = useState(false)
   const [selectedTile, setSelectedTile] = useState<BaseTile | null>(null)
 
@@ -129,7 +138,7 @@ export function NewMapDialog({
       // Не позволяем создать карту без выбранного тайла
       return
     }
-    onConfirm(selectedSize, fillMap, selectedTile || undefined)
+    onConfirm(selectedSize, selectedShape, fillMap, selectedTile || undefined)
     onOpenChange(false)
   }
 
@@ -148,7 +157,7 @@ export function NewMapDialog({
             New Map
           </DialogTitle>
           <DialogDescription>
-            Create a new map. Choose the size for your new map.
+            Create a new map. Choose the size and shape for your new map.
           </DialogDescription>
         </DialogHeader>
 
@@ -169,6 +178,27 @@ export function NewMapDialog({
             </Select>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="map-shape">Map Shape</Label>
+            <Select value={selectedShape} onValueChange={(value: MapShapeType) => setSelectedShape(value)}>
+              <SelectTrigger id="map-shape">
+                <SelectValue placeholder="Select map shape" />
+              </SelectTrigger>
+              <SelectContent>
+                {NEW_MAP_SHAPES.map((shape) => (
+                  <SelectItem key={shape} value={shape}>
+                    {MAP_SHAPE_NAMES[shape]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedShape === MAP_SHAPE_TYPES.HEXAGON && (
+              <div className="text-xs text-muted-foreground">
+                Radius {Math.floor((MAP_SIZES[selectedSize].width - 1) / 2)}, centered in the map area.
+              </div>
+            )}
+          </div>
+
           <div className="flex items-center space-x-2">
             <Checkbox
               id="fill-map"
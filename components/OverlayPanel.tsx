@@ -0,0 +1,176 @@
+'use client'
+
+import { Path } from '@phosphor-icons/react'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Separator } from '@/components/ui/separator'
+import { Slider } from '@/components/ui/slider'
+
+export interface OverlaySettings {
+  showMovement: boolean
+  movementBudget: number
+  maxClimb: number
+  showVisibility: boolean
+  visionRange: number
+  viewerHeight: number
+}
+
+export const DEFAULT_OVERLAY_SETTINGS: OverlaySettings = {
+  showMovement: false,
+  movementBudget: 6,
+  maxClimb: 1,
+  showVisibility: false,
+  visionRange: 8,
+  viewerHeight: 0.5,
+}
+
+interface OverlayPanelProps {
+  settings: OverlaySettings
+  onSettingsChange: (settings: OverlaySettings) => void
+  reachableCount: number
+  pathInfo: { cost: number; steps: number } | null
+  hasPathTarget: boolean
+  visibleCount: number
+}
+
+export function OverlayPanel({
+  settings,
+  onSettingsChange,
+  reachableCount,
+  pathInfo,
+  hasPathTarget,
+  visibleCount,
+}: OverlayPanelProps) {
+  const update = (patch: Partial<OverlaySettings>) => onSettingsChange({ ...settings, ...patch })
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="absolute top-16 left-4 z-30 p-1 bg-card/80 backdrop-blur-xl border border-border/50 rounded-full flex items-center gap-3 px-4 py-2 shadow-2xl cursor-pointer hover:bg-card/90 transition-colors"
+        >
+          <Path size={18} className="text-primary" weight="bold" />
+          <span className="text-xs font-bold tracking-tight uppercase text-primary">Overlays</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-72 bg-card/95 backdrop-blur-xl border border-border/50 shadow-2xl"
+      >
+        <div className="space-y-3">
+          <h4 className="font-bold text-sm uppercase tracking-wider text-primary">Movement</h4>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="overlay-movement"
+              checked={settings.showMovement}
+              onCheckedChange={(checked) => update({ showMovement: checked === true })}
+            />
+            <Label htmlFor="overlay-movement" className="text-sm">
+              Show reachable area and path
+            </Label>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Movement budget</span>
+              <span className="font-mono">{settings.movementBudget}</span>
+            </div>
+            <Slider
+              min={1}
+              max={30}
+              step={1}
+              value={[settings.movementBudget]}
+              onValueChange={([value]) => update({ movementBudget: value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Max climb (levels)</span>
+              <span className="font-mono">{settings.maxClimb}</span>
+            </div>
+            <Slider
+              min={0}
+              max={4}
+              step={1}
+              value={[settings.maxClimb]}
+              onValueChange={([value]) => update({ maxClimb: value })}
+            />
+          </div>
+
+          {settings.showMovement && (
+            <>
+              <Separator />
+              <div className="space-y-1 text-xs text-muted-foreground">
+                <p>
+                  Reachable hexes: <span className="font-mono text-primary">{reachableCount}</span>
+                </p>
+                {pathInfo ? (
+                  <p>
+                    Path cost: <span className="font-mono text-primary">{pathInfo.cost}</span> (
+                    {pathInfo.steps} steps)
+                  </p>
+                ) : hasPathTarget ? (
+                  <p className="text-destructive">No path to the target hex</p>
+                ) : (
+                  <p>Ctrl+click a second hex to show the path from the first selected hex.</p>
+                )}
+              </div>
+            </>
+          )}
+
+          <Separator />
+          <h4 className="font-bold text-sm uppercase tracking-wider text-primary">Visibility</h4>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="overlay-visibility"
+              checked={settings.showVisibility}
+              onCheckedChange={(checked) => update({ showVisibility: checked === true })}
+            />
+            <Label htmlFor="overlay-visibility" className="text-sm">
+              Shade hexes hidden from the selected hex
+            </Label>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Vision range</span>
+              <span className="font-mono">{settings.visionRange}</span>
+            </div>
+            <Slider
+              min={1}
+              max={30}
+              step={1}
+              value={[settings.visionRange]}
+              onValueChange={([value]) => update({ visionRange: value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Eye height (levels)</span>
+              <span className="font-mono">{settings.viewerHeight}</span>
+            </div>
+            <Slider
+              min={0}
+              max={5}
+              step={0.5}
+              value={[settings.viewerHeight]}
+              onValueChange={([value]) => update({ viewerHeight: value })}
+            />
+          </div>
+
+          {settings.showVisibility && (
+            <p className="text-xs text-muted-foreground">
+              Visible hexes: <span className="font-mono text-primary">{visibleCount}</span>
+            </p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
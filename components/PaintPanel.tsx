@@ -0,0 +1,184 @@
+'use client'
+
+import { Circle, LineSegment, PaintBrush, PaintBucket, Prohibit } from '@phosphor-icons/react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Separator } from '@/components/ui/separator'
+import { Slider } from '@/components/ui/slider'
+import { FILL_BOUNDS, type FillBound, PAINT_OVERLAP, type PaintOverlap } from '@/lib/game/MapPaint'
+import { cn } from '@/lib/utils'
+
+export type PaintTool = 'off' | 'brush' | 'fill' | 'line' | 'ring'
+
+export interface PaintSettings {
+  tool: PaintTool
+  radius: number // Brush radius in hexes
+  overlap: PaintOverlap
+  fillBound: FillBound
+  ringFilled: boolean // Paint the whole area instead of the ring
+}
+
+export const DEFAULT_PAINT_SETTINGS: PaintSettings = {
+  tool: 'off',
+  radius: 0,
+  overlap: PAINT_OVERLAP.REPLACE,
+  fillBound: FILL_BOUNDS.TILE,
+  ringFilled: false,
+}
+
+const TOOLS: Array<{ tool: PaintTool; label: string; icon: typeof Circle; hint: string }> = [
+  { tool: 'off', label: 'Off', icon: Prohibit, hint: 'Tiles are placed by dragging them in.' },
+  { tool: 'brush', label: 'Brush', icon: PaintBrush, hint: 'Click or drag to paint.' },
+  {
+    tool: 'fill',
+    label: 'Fill',
+    icon: PaintBucket,
+    hint: 'Click to fill the connected area.',
+  },
+  { tool: 'line', label: 'Line', icon: LineSegment, hint: 'Drag from the first to the last hex.' },
+  { tool: 'ring', label: 'Ring', icon: Circle, hint: 'Drag from the center out to the radius.' },
+]
+
+const OVERLAP_LABELS: Record<PaintOverlap, string> = {
+  [PAINT_OVERLAP.REPLACE]: 'Replace',
+  [PAINT_OVERLAP.SKIP]: 'Skip',
+  [PAINT_OVERLAP.STACK]: 'Stack on top',
+}
+
+interface PaintPanelProps {
+  settings: PaintSettings
+  onSettingsChange: (settings: PaintSettings) => void
+  tileName: string | null // Selected tile, painted by every tool
+  heightLevel: number
+}
+
+export function PaintPanel({ settings, onSettingsChange, tileName, heightLevel }: PaintPanelProps) {
+  const update = (patch: Partial<PaintSettings>) => onSettingsChange({ ...settings, ...patch })
+  const activeTool = TOOLS.find((tool) => tool.tool === settings.tool) ?? TOOLS[0]
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            'absolute top-[31rem] left-4 z-30 p-1 bg-card/80 backdrop-blur-xl border border-border/50 rounded-full flex items-center gap-3 px-4 py-2 shadow-2xl cursor-pointer hover:bg-card/90 transition-colors',
+            settings.tool !== 'off' && 'border-primary/60'
+          )}
+        >
+          <activeTool.icon size={18} className="text-primary" weight="bold" />
+          <span className="text-xs font-bold tracking-tight uppercase text-primary">
+            {settings.tool === 'off' ? 'Paint' : `Paint: ${activeTool.label}`}
+          </span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-80 bg-card/95 backdrop-blur-xl border border-border/50 shadow-2xl"
+      >
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-bold text-sm uppercase tracking-wider text-primary">Paint</h4>
+            <span className="text-xs text-muted-foreground">Level {heightLevel}</span>
+          </div>
+
+          <div className="grid grid-cols-5 gap-1">
+            {TOOLS.map(({ tool, label, icon: Icon }) => (
+              <Button
+                key={tool}
+                size="sm"
+                variant={settings.tool === tool ? 'default' : 'outline'}
+                className="h-12 flex-col gap-1 px-1 text-[10px]"
+                onClick={() => update({ tool })}
+              >
+                <Icon size={16} />
+                {label}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">{activeTool.hint}</p>
+          <p className="text-xs">
+            <span className="text-muted-foreground">Tile: </span>
+            {tileName ?? (
+              <span className="text-muted-foreground">pick one in the Assets panel</span>
+            )}
+          </p>
+
+          <Separator />
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Where a hex is already placed</Label>
+            <div className="grid grid-cols-3 gap-1">
+              {Object.values(PAINT_OVERLAP).map((overlap) => (
+                <Button
+                  key={overlap}
+                  size="sm"
+                  variant={settings.overlap === overlap ? 'default' : 'outline'}
+                  className="h-7 px-1 text-xs"
+                  onClick={() => update({ overlap })}
+                >
+                  {OVERLAP_LABELS[overlap]}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {settings.tool === 'brush' && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Brush radius</span>
+                <span className="font-mono">{settings.radius}</span>
+              </div>
+              <Slider
+                min={0}
+                max={5}
+                step={1}
+                value={[settings.radius]}
+                onValueChange={([value]) => update({ radius: value })}
+              />
+            </div>
+          )}
+
+          {settings.tool === 'fill' && (
+            <div className="flex items-center justify-between gap-2">
+              <Label className="text-xs text-muted-foreground">Spread through</Label>
+              <div className="grid grid-cols-2 gap-1">
+                <Button
+                  size="sm"
+                  variant={settings.fillBound === FILL_BOUNDS.TILE ? 'default' : 'outline'}
+                  className="h-7 text-xs"
+                  onClick={() => update({ fillBound: FILL_BOUNDS.TILE })}
+                >
+                  Same tile
+                </Button>
+                <Button
+                  size="sm"
+                  variant={settings.fillBound === FILL_BOUNDS.HEIGHT ? 'default' : 'outline'}
+                  className="h-7 text-xs"
+                  onClick={() => update({ fillBound: FILL_BOUNDS.HEIGHT })}
+                >
+                  Same height
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {settings.tool === 'ring' && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="paint-ring-filled"
+                checked={settings.ringFilled}
+                onCheckedChange={(checked) => update({ ringFilled: checked === true })}
+              />
+              <Label htmlFor="paint-ring-filled" className="text-sm">
+                Fill the whole area
+              </Label>
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
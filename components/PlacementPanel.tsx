@@ -0,0 +1,249 @@
+'use client'
+
+import { ArrowClockwise, Flag, Trash } from '@phosphor-icons/react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Separator } from '@/components/ui/separator'
+import { Slider } from '@/components/ui/slider'
+import { type City, MAX_CITY_SIZE } from '@/lib/game/City'
+import type { Faction } from '@/lib/game/Faction'
+import { UNIT_CONFIG, UNIT_TYPES, type Unit, type UnitType } from '@/lib/game/Unit'
+import { cn } from '@/lib/utils'
+
+export type PlacementMode = 'off' | 'unit' | 'city'
+
+export interface PlacementSettings {
+  unitType: UnitType
+  unitName: string
+  cityName: string
+  citySize: number
+  faction: string // Faction id; 'neutral' is stored as a city without owner
+  facing: number
+}
+
+export const DEFAULT_PLACEMENT_SETTINGS: PlacementSettings = {
+  unitType: UNIT_TYPES.INFANTRY,
+  unitName: '',
+  cityName: 'New City',
+  citySize: 1,
+  faction: 'neutral',
+  facing: 0,
+}
+
+export const NEUTRAL_FACTION = 'neutral'
+
+const FACING_LABELS = ['E', 'NE', 'NW', 'W', 'SW', 'SE']
+
+interface PlacementPanelProps {
+  mode: PlacementMode
+  onModeChange: (mode: PlacementMode) => void
+  settings: PlacementSettings
+  onSettingsChange: (settings: PlacementSettings) => void
+  factions: Faction[]
+  selectedUnit: Unit | null
+  selectedCity: City | null
+  onRotateSelected: () => void
+  onRemoveUnit: () => void
+  onRemoveCity: () => void
+}
+
+export function PlacementPanel({
+  mode,
+  onModeChange,
+  settings,
+  onSettingsChange,
+  factions,
+  selectedUnit,
+  selectedCity,
+  onRotateSelected,
+  onRemoveUnit,
+  onRemoveCity,
+}: PlacementPanelProps) {
+  const update = (patch: Partial<PlacementSettings>) => onSettingsChange({ ...settings, ...patch })
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            'absolute top-28 left-4 z-30 p-1 bg-card/80 backdrop-blur-xl border border-border/50 rounded-full flex items-center gap-3 px-4 py-2 shadow-2xl cursor-pointer hover:bg-card/90 transition-colors',
+            mode !== 'off' && 'border-primary/60'
+          )}
+        >
+          <Flag size={18} className="text-primary" weight="bold" />
+          <span className="text-xs font-bold tracking-tight uppercase text-primary">
+            {mode === 'off' ? 'Units & Cities' : `Placing ${mode}`}
+          </span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-72 bg-card/95 backdrop-blur-xl border border-border/50 shadow-2xl"
+      >
+        <div className="space-y-3">
+          <h4 className="font-bold text-sm uppercase tracking-wider text-primary">Placement</h4>
+
+          <div className="grid grid-cols-3 gap-1">
+            {(['off', 'unit', 'city'] as const).map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={mode === option ? 'default' : 'outline'}
+                onClick={() => onModeChange(option)}
+                className="capitalize"
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Faction</Label>
+            <Select value={settings.faction} onValueChange={(faction) => update({ faction })}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEUTRAL_FACTION}>Neutral</SelectItem>
+                {factions.map((faction) => (
+                  <SelectItem key={faction.id} value={faction.id}>
+                    {faction.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {mode === 'unit' && (
+            <>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Unit type</Label>
+                <Select
+                  value={settings.unitType}
+                  onValueChange={(unitType) => update({ unitType: unitType as UnitType })}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(UNIT_TYPES).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {UNIT_CONFIG[type].name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Name (optional)</Label>
+                <Input
+                  className="h-8"
+                  value={settings.unitName}
+                  placeholder={UNIT_CONFIG[settings.unitType].name}
+                  onChange={(e) => update({ unitName: e.target.value })}
+                />
+              </div>
+            </>
+          )}
+
+          {mode === 'city' && (
+            <>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">City name</Label>
+                <Input
+                  className="h-8"
+                  value={settings.cityName}
+                  onChange={(e) => update({ cityName: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Size</span>
+                  <span className="font-mono">{settings.citySize}</span>
+                </div>
+                <Slider
+                  min={1}
+                  max={MAX_CITY_SIZE}
+                  step={1}
+                  value={[settings.citySize]}
+                  onValueChange={([value]) => update({ citySize: value })}
+                />
+              </div>
+            </>
+          )}
+
+          {mode !== 'off' && (
+            <>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Facing</Label>
+                <div className="grid grid-cols-6 gap-1">
+                  {FACING_LABELS.map((label, facing) => (
+                    <Button
+                      key={label}
+                      size="sm"
+                      variant={settings.facing === facing ? 'default' : 'outline'}
+                      className="h-7 px-0 text-[10px]"
+                      onClick={() => update({ facing })}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Click a hex to place on top of its stack. Shift+click removes.
+              </p>
+            </>
+          )}
+
+          {(selectedUnit || selectedCity) && (
+            <>
+              <Separator />
+              <div className="space-y-2 text-xs">
+                {selectedUnit && (
+                  <div className="flex items-center justify-between">
+                    <span>
+                      <span className="text-muted-foreground">Unit:</span> {selectedUnit.name} (
+                      {factions.find((f) => f.id === selectedUnit.faction)?.name ??
+                        selectedUnit.faction}
+                      )
+                    </span>
+                    <Button size="icon" variant="ghost" className="h-6 w-6" onClick={onRemoveUnit}>
+                      <Trash size={14} />
+                    </Button>
+                  </div>
+                )}
+                {selectedCity && (
+                  <div className="flex items-center justify-between">
+                    <span>
+                      <span className="text-muted-foreground">City:</span> {selectedCity.name} (
+                      {factions.find((f) => f.id === selectedCity.faction)?.name ?? NEUTRAL_FACTION}
+                      )
+                    </span>
+                    <Button size="icon" variant="ghost" className="h-6 w-6" onClick={onRemoveCity}>
+                      <Trash size={14} />
+                    </Button>
+                  </div>
+                )}
+                <Button size="sm" variant="outline" className="w-full" onClick={onRotateSelected}>
+                  <ArrowClockwise size={14} className="mr-1" />
+                  Rotate facing
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,368 @@
+'use client'
+
+import { Plus, SlidersHorizontal, Trash, X } from '@phosphor-icons/react'
+import { type ReactNode, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Separator } from '@/components/ui/separator'
+import {
+  type CustomProperties,
+  getDefaultValue,
+  getSharedValue,
+  PROPERTY_TARGET_NAMES,
+  PROPERTY_TARGETS,
+  PROPERTY_TYPE_NAMES,
+  PROPERTY_TYPES,
+  type PropertyDefinition,
+  type PropertyTarget,
+  type PropertyType,
+  type PropertyValue,
+  parsePropertyValue,
+  validatePropertyDefinition,
+} from '@/lib/game/CustomProperties'
+import { cn } from '@/lib/utils'
+
+interface PropertyInspectorProps {
+  definitions: PropertyDefinition[]
+  selectionCount: number // Selected positions
+  // Property bags of the top hex / the building at each selected position
+  hexProperties: Array<CustomProperties | undefined>
+  buildingProperties: Array<CustomProperties | undefined>
+  mapProperties: CustomProperties
+  onAddDefinition: (definition: PropertyDefinition) => void
+  onRemoveDefinition: (name: string) => void
+  // Set (or with null clear) a value on every selected hex/building, or on the map
+  onSetValue: (target: PropertyTarget, name: string, value: PropertyValue | null) => void
+}
+
+// Value editor for one property; shows the shared value of the selection or "Mixed"
+function PropertyField({
+  definition,
+  bags,
+  onChange,
+}: {
+  definition: PropertyDefinition
+  bags: Array<CustomProperties | undefined>
+  onChange: (value: PropertyValue | null) => void
+}) {
+  const shared = getSharedValue(bags, definition.name)
+  const isSet = shared !== undefined
+  const placeholder = shared === 'mixed' ? 'Mixed' : `${getDefaultValue(definition)}` || 'Not set'
+  const fieldId = `property-${definition.name}`
+
+  let field: ReactNode
+  if (definition.type === PROPERTY_TYPES.BOOLEAN) {
+    const value = shared === undefined ? getDefaultValue(definition) : shared
+    field = (
+      <Checkbox
+        id={fieldId}
+        checked={value === 'mixed' ? 'indeterminate' : value === true}
+        onCheckedChange={(checked) => onChange(checked === true)}
+      />
+    )
+  } else if (definition.type === PROPERTY_TYPES.ENUM) {
+    field = (
+      <Select
+        value={typeof shared === 'string' && shared !== 'mixed' ? shared : ''}
+        onValueChange={(value) => onChange(value)}
+      >
+        <SelectTrigger id={fieldId} className="h-7 text-xs">
+          <SelectValue placeholder={placeholder} />
+        </SelectTrigger>
+        <SelectContent>
+          {(definition.options ?? []).map((option) => (
+            <SelectItem key={option} value={option}>
+              {option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    )
+  } else {
+    const text = isSet && shared !== 'mixed' ? String(shared) : ''
+    field = (
+      <Input
+        key={`${definition.name}_${text}_${shared === 'mixed'}`}
+        id={fieldId}
+        className="h-7 text-xs"
+        type={definition.type === PROPERTY_TYPES.NUMBER ? 'number' : 'text'}
+        defaultValue={text}
+        placeholder={placeholder}
+        onBlur={(e) => {
+          if (e.target.value === text) return
+          const value = parsePropertyValue(definition, e.target.value)
+          if (value === null) {
+            e.target.value = text
+          } else {
+            onChange(value)
+          }
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') e.currentTarget.blur()
+        }}
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <Label
+          htmlFor={fieldId}
+          className={cn('text-xs', !isSet && 'text-muted-foreground')}
+          title={definition.description}
+        >
+          {definition.name}
+        </Label>
+        {isSet && (
+          <button
+            type="button"
+            className="text-muted-foreground hover:text-foreground"
+            title="Clear value"
+            onClick={() => onChange(null)}
+          >
+            <X size={12} />
+          </button>
+        )}
+      </div>
+      {field}
+    </div>
+  )
+}
+
+function PropertySection({
+  title,
+  definitions,
+  bags,
+  onChange,
+}: {
+  title: string
+  definitions: PropertyDefinition[]
+  bags: Array<CustomProperties | undefined>
+  onChange: (name: string, value: PropertyValue | null) => void
+}) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs text-muted-foreground">{title}</Label>
+      {definitions.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No properties declared for these.</p>
+      ) : (
+        definitions.map((definition) => (
+          <PropertyField
+            key={definition.name}
+            definition={definition}
+            bags={bags}
+            onChange={(value) => onChange(definition.name, value)}
+          />
+        ))
+      )}
+    </div>
+  )
+}
+
+// Form for a new property definition
+function AddPropertyForm({ onAdd }: { onAdd: (definition: PropertyDefinition) => void }) {
+  const [name, setName] = useState('')
+  const [type, setType] = useState<PropertyType>(PROPERTY_TYPES.STRING)
+  const [options, setOptions] = useState('')
+  const [targets, setTargets] = useState<PropertyTarget[]>([PROPERTY_TARGETS.HEX])
+
+  const definition: PropertyDefinition = {
+    name: name.trim(),
+    type,
+    targets,
+    ...(type === PROPERTY_TYPES.ENUM && {
+      options: options
+        .split(',')
+        .map((option) => option.trim())
+        .filter(Boolean),
+    }),
+  }
+  const errors = validatePropertyDefinition(definition)
+
+  const toggleTarget = (target: PropertyTarget, checked: boolean) =>
+    setTargets((prev) =>
+      checked ? [...prev, target] : prev.filter((candidate) => candidate !== target)
+    )
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Input
+          className="h-7 text-xs"
+          placeholder="Name, e.g. spawnWeight"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <Select value={type} onValueChange={(value) => setType(value as PropertyType)}>
+          <SelectTrigger className="h-7 w-28 shrink-0 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(PROPERTY_TYPES).map((value) => (
+              <SelectItem key={value} value={value}>
+                {PROPERTY_TYPE_NAMES[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {type === PROPERTY_TYPES.ENUM && (
+        <Input
+          className="h-7 text-xs"
+          placeholder="Choices, comma separated"
+          value={options}
+          onChange={(e) => setOptions(e.target.value)}
+        />
+      )}
+      <div className="flex items-center gap-3">
+        {Object.values(PROPERTY_TARGETS).map((target) => (
+          <div key={target} className="flex items-center space-x-1">
+            <Checkbox
+              id={`property-target-${target}`}
+              checked={targets.includes(target)}
+              onCheckedChange={(checked) => toggleTarget(target, checked === true)}
+            />
+            <Label htmlFor={`property-target-${target}`} className="text-xs">
+              {PROPERTY_TARGET_NAMES[target]}
+            </Label>
+          </div>
+        ))}
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        className="h-7 w-full"
+        disabled={name.trim() === '' || errors.length > 0}
+        title={name.trim() === '' ? undefined : errors.join('; ')}
+        onClick={() => {
+          onAdd(definition)
+          setName('')
+          setOptions('')
+        }}
+      >
+        <Plus size={14} className="mr-1" />
+        Add property
+      </Button>
+    </div>
+  )
+}
+
+export function PropertyInspector({
+  definitions,
+  selectionCount,
+  hexProperties,
+  buildingProperties,
+  mapProperties,
+  onAddDefinition,
+  onRemoveDefinition,
+  onSetValue,
+}: PropertyInspectorProps) {
+  const forTarget = (target: PropertyTarget) =>
+    definitions.filter((definition) => definition.targets.includes(target))
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="absolute top-[19rem] left-4 z-30 p-1 bg-card/80 backdrop-blur-xl border border-border/50 rounded-full flex items-center gap-3 px-4 py-2 shadow-2xl cursor-pointer hover:bg-card/90 transition-colors"
+        >
+          <SlidersHorizontal size={18} className="text-primary" weight="bold" />
+          <span className="text-xs font-bold tracking-tight uppercase text-primary">
+            {selectionCount > 0 ? `Properties (${selectionCount})` : 'Properties'}
+          </span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-80 bg-card/95 backdrop-blur-xl border border-border/50 shadow-2xl"
+      >
+        <ScrollArea className="max-h-[70vh] pr-2">
+          <div className="space-y-3">
+            <h4 className="font-bold text-sm uppercase tracking-wider text-primary">
+              Custom properties
+            </h4>
+
+            {selectionCount === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                Select hexes to edit their properties. Changes apply to every selected hex.
+              </p>
+            ) : (
+              <PropertySection
+                title={`Selected hexes (${hexProperties.length})`}
+                definitions={forTarget(PROPERTY_TARGETS.HEX)}
+                bags={hexProperties}
+                onChange={(name, value) => onSetValue(PROPERTY_TARGETS.HEX, name, value)}
+              />
+            )}
+
+            {buildingProperties.length > 0 && (
+              <PropertySection
+                title={`Selected buildings (${buildingProperties.length})`}
+                definitions={forTarget(PROPERTY_TARGETS.BUILDING)}
+                bags={buildingProperties}
+                onChange={(name, value) => onSetValue(PROPERTY_TARGETS.BUILDING, name, value)}
+              />
+            )}
+
+            <Separator />
+
+            <PropertySection
+              title="Map"
+              definitions={forTarget(PROPERTY_TARGETS.MAP)}
+              bags={[mapProperties]}
+              onChange={(name, value) => onSetValue(PROPERTY_TARGETS.MAP, name, value)}
+            />
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">Schema</Label>
+              {definitions.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  No properties yet. Declare spawn weights, trigger ids or story flags here.
+                </p>
+              )}
+              {definitions.map((definition) => (
+                <div key={definition.name} className="flex items-center gap-2 text-xs">
+                  <span className="flex-1 truncate font-mono" title={definition.description}>
+                    {definition.name}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {PROPERTY_TYPE_NAMES[definition.type]}
+                    {definition.options && ` (${definition.options.join(', ')})`}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {definition.targets.map((target) => PROPERTY_TARGET_NAMES[target]).join(', ')}
+                  </span>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6 shrink-0"
+                    title="Remove the property and all its values"
+                    onClick={() => onRemoveDefinition(definition.name)}
+                  >
+                    <Trash size={12} />
+                  </Button>
+                </div>
+              ))}
+              <AddPropertyForm onAdd={onAddDefinition} />
+            </div>
+          </div>
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  )
+}
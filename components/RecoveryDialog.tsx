@@ -0,0 +1,94 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { History, RotateCcw, Trash2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import type { AutosaveRecord } from '@/lib/game/MapAutosave'
+
+interface RecoveryDialogProps {
+  records: AutosaveRecord[] // Autosaves of the unsaved session, newest first; empty = closed
+  onRestore: (record: AutosaveRecord) => void
+  onDiscard: () => void
+  onClose: () => void // Decide later: the autosaves stay until this session overwrites them
+}
+
+export function RecoveryDialog({ records, onRestore, onDiscard, onClose }: RecoveryDialogProps) {
+  const [selectedSlot, setSelectedSlot] = useState<number | null>(null)
+
+  useEffect(() => {
+    setSelectedSlot(records[0]?.slot ?? null)
+  }, [records])
+
+  const selected = records.find(record => record.slot === selectedSlot) ?? records[0]
+  if (!selected) return null
+
+  return (
+    <Dialog open={records.length > 0} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            Restore Unsaved Work?
+          </DialogTitle>
+          <DialogDescription>
+            The editor was closed with unsaved changes. Restore the autosaved map or discard it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-4">
+          {selected.thumbnail ? (
+            <img
+              src={selected.thumbnail}
+              alt="Autosaved map"
+              className="h-32 w-32 rounded border border-border object-contain bg-muted"
+            />
+          ) : (
+            <div className="h-32 w-32 rounded border border-border bg-muted" />
+          )}
+          <div className="flex-1 space-y-1 text-sm">
+            <p className="font-medium truncate">{selected.mapName || 'Untitled map'}</p>
+            <p className="text-muted-foreground">
+              Autosaved {new Date(selected.savedAt).toLocaleString()}
+            </p>
+            {records.length > 1 && (
+              <div className="pt-2 space-y-1">
+                <p className="text-xs font-bold uppercase text-muted-foreground">Earlier autosaves</p>
+                {records.map(record => (
+                  <button
+                    key={record.slot}
+                    type="button"
+                    onClick={() => setSelectedSlot(record.slot)}
+                    className={`block w-full rounded px-2 py-0.5 text-left font-mono text-xs hover:bg-muted ${
+                      record === selected ? 'bg-primary/15 text-primary' : ''
+                    }`}
+                  >
+                    {new Date(record.savedAt).toLocaleTimeString()}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="destructive" onClick={onDiscard}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Discard
+          </Button>
+          <Button onClick={() => onRestore(selected)} className="gap-2">
+            <RotateCcw className="h-4 w-4" />
+            Restore
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,259 @@
+'use client'
+
+import { Eraser, PaintBrush, Plus, Trash, TreeStructure } from '@phosphor-icons/react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Separator } from '@/components/ui/separator'
+import { Slider } from '@/components/ui/slider'
+import {
+  REGION_KIND_NAMES,
+  REGION_KINDS,
+  type Region,
+  type RegionKind,
+} from '@/lib/game/RegionLayer'
+import { cn } from '@/lib/utils'
+
+export type RegionTool = 'off' | 'paint' | 'erase'
+
+export interface RegionSettings {
+  tool: RegionTool
+  activeRegionId: string | null
+  brushRadius: number
+  showOverlay: boolean
+}
+
+export const DEFAULT_REGION_SETTINGS: RegionSettings = {
+  tool: 'off',
+  activeRegionId: null,
+  brushRadius: 0,
+  showOverlay: true,
+}
+
+interface RegionPanelProps {
+  regions: Region[]
+  settings: RegionSettings
+  onSettingsChange: (settings: RegionSettings) => void
+  onAddRegion: () => void
+  onUpdateRegion: (id: string, patch: { name?: string; color?: string; kind?: RegionKind }) => void
+  onRemoveRegion: (id: string) => void
+  // Regions bordering the active region
+  adjacentRegions: Region[]
+}
+
+export function RegionPanel({
+  regions,
+  settings,
+  onSettingsChange,
+  onAddRegion,
+  onUpdateRegion,
+  onRemoveRegion,
+  adjacentRegions,
+}: RegionPanelProps) {
+  const update = (patch: Partial<RegionSettings>) => onSettingsChange({ ...settings, ...patch })
+  const activeRegion = regions.find((region) => region.id === settings.activeRegionId) ?? null
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            'absolute top-52 left-4 z-30 p-1 bg-card/80 backdrop-blur-xl border border-border/50 rounded-full flex items-center gap-3 px-4 py-2 shadow-2xl cursor-pointer hover:bg-card/90 transition-colors',
+            settings.tool !== 'off' && 'border-primary/60'
+          )}
+        >
+          <TreeStructure size={18} className="text-primary" weight="bold" />
+          <span className="text-xs font-bold tracking-tight uppercase text-primary">
+            {settings.tool !== 'off' && activeRegion
+              ? `${settings.tool === 'paint' ? 'Painting' : 'Erasing'} ${activeRegion.name}`
+              : 'Regions'}
+          </span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-80 bg-card/95 backdrop-blur-xl border border-border/50 shadow-2xl"
+      >
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-bold text-sm uppercase tracking-wider text-primary">Regions</h4>
+            <Button size="sm" variant="outline" className="h-7" onClick={onAddRegion}>
+              <Plus size={14} className="mr-1" />
+              Add
+            </Button>
+          </div>
+
+          {regions.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              No regions yet. Add provinces, kingdoms or spawn zones and paint them onto the map.
+            </p>
+          )}
+
+          {regions.map((region) => (
+            <div
+              key={region.id}
+              className={cn(
+                'space-y-1 rounded-md border border-border/40 p-2',
+                region.id === settings.activeRegionId && 'border-primary/60 bg-primary/5'
+              )}
+            >
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  className="h-5 w-5 shrink-0 cursor-pointer rounded border-0 bg-transparent p-0"
+                  value={region.color}
+                  onChange={(e) => onUpdateRegion(region.id, { color: e.target.value })}
+                />
+                <Input
+                  key={`${region.id}_${region.name}`}
+                  className="h-7 text-xs"
+                  defaultValue={region.name}
+                  onBlur={(e) => {
+                    const name = e.target.value.trim()
+                    if (name && name !== region.name) onUpdateRegion(region.id, { name })
+                  }}
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => onRemoveRegion(region.id)}
+                >
+                  <Trash size={14} />
+                </Button>
+              </div>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={region.kind}
+                  onValueChange={(kind) => onUpdateRegion(region.id, { kind: kind as RegionKind })}
+                >
+                  <SelectTrigger className="h-7 w-32 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(REGION_KINDS).map((kind) => (
+                      <SelectItem key={kind} value={kind}>
+                        {REGION_KIND_NAMES[kind]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="flex-1 text-[11px] text-muted-foreground">
+                  {region.hexes.size} hexes
+                </span>
+                <Button
+                  size="sm"
+                  variant={region.id === settings.activeRegionId ? 'default' : 'outline'}
+                  className="h-7 text-xs"
+                  onClick={() => update({ activeRegionId: region.id })}
+                >
+                  {region.id === settings.activeRegionId ? 'Active' : 'Select'}
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <Separator />
+
+          <div className="grid grid-cols-3 gap-1">
+            <Button
+              size="sm"
+              variant={settings.tool === 'off' ? 'default' : 'outline'}
+              onClick={() => update({ tool: 'off' })}
+            >
+              Off
+            </Button>
+            <Button
+              size="sm"
+              variant={settings.tool === 'paint' ? 'default' : 'outline'}
+              disabled={!activeRegion}
+              onClick={() => update({ tool: 'paint' })}
+            >
+              <PaintBrush size={14} className="mr-1" />
+              Paint
+            </Button>
+            <Button
+              size="sm"
+              variant={settings.tool === 'erase' ? 'default' : 'outline'}
+              disabled={!activeRegion}
+              onClick={() => update({ tool: 'erase' })}
+            >
+              <Eraser size={14} className="mr-1" />
+              Erase
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Brush radius</span>
+              <span className="font-mono">{settings.brushRadius}</span>
+            </div>
+            <Slider
+              min={0}
+              max={5}
+              step={1}
+              value={[settings.brushRadius]}
+              onValueChange={([value]) => update({ brushRadius: value })}
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="region-overlay"
+              checked={settings.showOverlay}
+              onCheckedChange={(checked) => update({ showOverlay: checked === true })}
+            />
+            <Label htmlFor="region-overlay" className="text-sm">
+              Show region fills and borders
+            </Label>
+          </div>
+
+          {settings.tool !== 'off' && (
+            <p className="text-xs text-muted-foreground">
+              Click and drag over the map to {settings.tool} hexes of the active region.
+            </p>
+          )}
+
+          {activeRegion && (
+            <>
+              <Separator />
+              <div className="space-y-1 text-xs">
+                <Label className="text-xs text-muted-foreground">
+                  Borders of {activeRegion.name}
+                </Label>
+                {adjacentRegions.length === 0 ? (
+                  <p className="text-muted-foreground">No neighbouring regions</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {adjacentRegions.map((region) => (
+                      <li key={region.id} className="flex items-center gap-2">
+                        <span
+                          className="h-3 w-3 shrink-0 rounded-full"
+                          style={{ backgroundColor: region.color }}
+                        />
+                        <span>{region.name}</span>
+                        <span className="text-muted-foreground">
+                          {REGION_KIND_NAMES[region.kind]}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
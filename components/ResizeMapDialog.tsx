@@ -0,0 +1,177 @@
+'use client'
+
+import { ArrowsOut, Warning } from '@phosphor-icons/react'
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { axialToOffset } from '@/lib/game/HexCoordinateConverter'
+import { RESIZE_ANCHORS, type ResizeAnchor, type ResizePlan } from '@/lib/game/Map'
+
+interface ResizeMapDialogProps<Size extends string> {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  sizes: Record<Size, { label: string; width: number; height: number }>
+  currentSize: Size
+  currentWidth: number
+  currentHeight: number
+  // Dry run of the resize, used for the preview and crop warning
+  getPlan: (width: number, height: number, anchor: ResizeAnchor) => ResizePlan | null
+  onConfirm: (size: Size, anchor: ResizeAnchor) => void
+}
+
+export function ResizeMapDialog<Size extends string>({
+  open,
+  onOpenChange,
+  sizes,
+  currentSize,
+  currentWidth,
+  currentHeight,
+  getPlan,
+  onConfirm,
+}: ResizeMapDialogProps<Size>) {
+  const [selectedSize, setSelectedSize] = useState<Size>(currentSize)
+  const [anchor, setAnchor] = useState<ResizeAnchor>('center')
+
+  // Start from the current size every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setSelectedSize(currentSize)
+      setAnchor('center')
+    }
+  }, [open, currentSize])
+
+  const target = sizes[selectedSize]
+  const plan = open ? getPlan(target.width, target.height, anchor) : null
+
+  // Preview: outer box = new bounds, inner box = current map placed by the anchor
+  const outerWidth = Math.max(target.width, currentWidth)
+  const outerHeight = Math.max(target.height, currentHeight)
+  const toPercent = (value: number, total: number) => `${(value / total) * 100}%`
+  const { x: dx, y: dy } = plan ? axialToOffset(plan.shift.q, plan.shift.r) : { x: 0, y: 0 }
+  const left = Math.min(0, dx)
+  const top = Math.min(0, dy)
+
+  const handleConfirm = () => {
+    onConfirm(selectedSize, anchor)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowsOut size={20} className="text-primary" />
+            Resize Map
+          </DialogTitle>
+          <DialogDescription>
+            Grow or crop the map. The anchor decides which side the existing tiles stay on.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="resize-size">New size</Label>
+            <Select value={selectedSize} onValueChange={(value: Size) => setSelectedSize(value)}>
+              <SelectTrigger id="resize-size">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(sizes) as Size[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {sizes[key].label} ({sizes[key].width}×{sizes[key].height})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex gap-4">
+            <div className="space-y-2">
+              <Label>Anchor</Label>
+              <div className="grid grid-cols-3 gap-1">
+                {RESIZE_ANCHORS.map((option) => (
+                  <Button
+                    key={option}
+                    size="icon"
+                    variant={anchor === option ? 'default' : 'outline'}
+                    className="h-7 w-7"
+                    title={option}
+                    onClick={() => setAnchor(option)}
+                  >
+                    <span className="h-1.5 w-1.5 rounded-full bg-current" />
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex-1 space-y-2">
+              <Label>Preview</Label>
+              <div
+                className="relative w-full border border-border/60 bg-muted/20"
+                style={{ aspectRatio: `${outerWidth} / ${outerHeight}` }}
+              >
+                <div
+                  className="absolute border-2 border-primary/80 bg-primary/10"
+                  style={{
+                    left: toPercent(-left, outerWidth),
+                    top: toPercent(-top, outerHeight),
+                    width: toPercent(target.width, outerWidth),
+                    height: toPercent(target.height, outerHeight),
+                  }}
+                />
+                <div
+                  className="absolute border border-dashed border-muted-foreground"
+                  style={{
+                    left: toPercent(dx - left, outerWidth),
+                    top: toPercent(dy - top, outerHeight),
+                    width: toPercent(currentWidth, outerWidth),
+                    height: toPercent(currentHeight, outerHeight),
+                  }}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {currentWidth}×{currentHeight} → {target.width}×{target.height}
+              </p>
+            </div>
+          </div>
+
+          {plan && plan.croppedStacks > 0 && (
+            <div className="flex items-start gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 p-2 text-xs text-amber-200">
+              <Warning size={16} className="mt-0.5 shrink-0" />
+              <span>
+                {plan.croppedHexes} tiles on {plan.croppedStacks} hexes fall outside the new bounds
+                and will be removed
+                {plan.croppedEntities > 0 && `, along with ${plan.croppedEntities} units/cities`}.
+              </span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} className="font-bold" disabled={!plan}>
+            Resize
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
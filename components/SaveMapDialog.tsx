@@ -2,7 +2,7 @@
 
 import type React from 'react'
 import { useState, useEffect, useCallback } from 'react'
-import { FolderOpen, Save } from 'lucide-react'
+import { Download, FolderOpen, Library, Save } from 'lucide-react'
 import {
   Dialog,
   DialogContent,
@@ -15,19 +15,85 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
 
 interface SaveMapDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   onSave: (data: SaveMapData) => void
   defaultName?: string
+  // Values of the loaded map, pre-filled so a save keeps them
+  defaultDescription?: string
+  defaultAuthor?: string
+  defaultTags?: string[]
+  revision?: number // Revision of the loaded file (the save becomes revision + 1)
+  thumbnail?: string | null // PNG data URL of the map minimap, offered for embedding
+  checkpointCount?: number // Named history checkpoints that can be saved with the map
 }
 
+// Where the map goes: the in-app map library or a downloaded file
+export type SaveDestination = 'library' | 'download'
+
 export interface SaveMapData {
+  destination: SaveDestination
   name: string
   description: string
   folder: string
   filename: string
+  author: string
+  tags: string[]
+  changeNote: string
+  thumbnail?: string // Set when the thumbnail should be embedded in the metadata
+  includeCheckpoints?: boolean // Save the history checkpoints in the metadata
+}
+
+// Values entered in the dialog
+export interface SaveMapForm {
+  destination: SaveDestination
+  name: string
+  description: string
+  folder: string // Empty when no folder was picked
+  filename: string
+  author: string
+  tags: string // Comma-separated, as typed
+  changeNote: string
+  embedThumbnail: boolean
+  includeCheckpoints: boolean
+}
+
+/**
+ * Tags as shown in the tags field
+ */
+export function formatTags(tags: string[] | undefined): string {
+  return (tags ?? []).join(', ')
+}
+
+/**
+ * What the dialog passes to onSave for the entered values; null while the name is empty
+ */
+export function createSaveMapData(
+  form: SaveMapForm,
+  options: { thumbnail?: string | null; checkpointCount?: number } = {}
+): SaveMapData | null {
+  const name = form.name.trim()
+  if (!name) return null
+
+  const { thumbnail, checkpointCount = 0 } = options
+  return {
+    destination: form.destination,
+    name,
+    description: form.description.trim(),
+    folder: form.folder || 'Downloads', // Fallback к Downloads если папка не выбрана
+    filename: form.filename,
+    author: form.author.trim(),
+    tags: form.tags
+      .split(',')
+      .map((tag) => tag.trim())
+      .filter(Boolean),
+    changeNote: form.changeNote.trim(),
+    ...(form.embedThumbnail && thumbnail && { thumbnail }),
+    ...(form.includeCheckpoints && checkpointCount > 0 && { includeCheckpoints: true }),
+  }
 }
 
 // Расширяем Window для File System Access API
@@ -37,9 +103,26 @@ declare global {
   }
 }
 
-export function SaveMapDialog({ open, onOpenChange, onSave, defaultName }: SaveMapDialogProps) {
+export function SaveMapDialog({
+  open,
+  onOpenChange,
+  onSave,
+  defaultName,
+  defaultDescription,
+  defaultAuthor,
+  defaultTags,
+  revision,
+  thumbnail,
+  checkpointCount = 0,
+}: SaveMapDialogProps) {
   const [name, setName] = useState('')
   const [description, setDescription] = useState('')
+  const [author, setAuthor] = useState('')
+  const [tags, setTags] = useState('')
+  const [changeNote, setChangeNote] = useState('')
+  const [embedThumbnail, setEmbedThumbnail] = useState(true)
+  const [includeCheckpoints, setIncludeCheckpoints] = useState(false)
+  const [destination, setDestination] = useState<SaveDestination>('library')
   const [selectedFolder, setSelectedFolder] = useState('')
   const [filename, setFilename] = useState('')
 
@@ -59,11 +142,15 @@ export function SaveMapDialog({ open, onOpenChange, onSave, defaultName }: SaveM
       const currentDate = new Date()
       const defaultMapName = defaultName || `Map ${currentDate.toLocaleDateString()} ${currentDate.toLocaleTimeString()}`
       setName(defaultMapName)
-      setDescription('')
+      setDescription(defaultDescription ?? '')
+      setAuthor(defaultAuthor ?? '')
+      setTags(formatTags(defaultTags))
+      setChangeNote('')
+      setDestination('library')
       setSelectedFolder('')
       updateFilename(defaultMapName)
     }
-  }, [open, defaultName, updateFilename])
+  }, [open, defaultName, defaultDescription, defaultAuthor, defaultTags, updateFilename])
 
   const handleNameChange = (value: string) => {
     setName(value)
@@ -103,16 +190,25 @@ export function SaveMapDialog({ open, onOpenChange, onSave, defaultName }: SaveM
   }
 
   const handleSave = () => {
-    if (!name.trim()) {
+    const data = createSaveMapData(
+      {
+        destination,
+        name,
+        description,
+        folder: selectedFolder,
+        filename,
+        author,
+        tags,
+        changeNote,
+        embedThumbnail,
+        includeCheckpoints,
+      },
+      { thumbnail, checkpointCount }
+    )
+    if (!data) {
       return // Можно добавить валидацию
     }
-
-    onSave({
-      name: name.trim(),
-      description: description.trim(),
-      folder: selectedFolder || 'Downloads', // Fallback к Downloads если папка не выбрана
-      filename,
-    })
+    onSave(data)
   }
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -159,34 +255,138 @@ export function SaveMapDialog({ open, onOpenChange, onSave, defaultName }: SaveM
             />
           </div>
 
-          {/* Folder Selection */}
-          <div className="grid gap-2">
-            <Label htmlFor="folder-select">Save Location</Label>
-            <div className="flex gap-2">
+          {/* Author and Tags */}
+          <div className="grid grid-cols-2 gap-2">
+            <div className="grid gap-2">
+              <Label htmlFor="map-author">Author</Label>
+              <Input
+                id="map-author"
+                value={author}
+                onChange={(e) => setAuthor(e.target.value)}
+                placeholder="Your name"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="map-tags">Tags</Label>
               <Input
-                id="folder-select"
-                value={selectedFolder || 'Downloads (default)'}
-                placeholder="Click Browse to select folder"
-                readOnly
-                className="flex-1"
+                id="map-tags"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="pvp, island, 4 players"
               />
+            </div>
+          </div>
+
+          {/* Changelog Note */}
+          <div className="grid gap-2">
+            <Label htmlFor="map-change-note">Change Note</Label>
+            <Input
+              id="map-change-note"
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              placeholder="What changed in this version?"
+              maxLength={200}
+            />
+            <p className="text-xs text-muted-foreground">
+              Saved as revision {(revision ?? 0) + 1} in the map's changelog
+            </p>
+          </div>
+
+          {/* Thumbnail */}
+          {thumbnail && (
+            <div className="flex items-center gap-3">
+              <img
+                src={thumbnail}
+                alt="Map thumbnail"
+                className="h-16 w-16 rounded border border-border/60 object-contain bg-muted"
+              />
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="map-embed-thumbnail"
+                  checked={embedThumbnail}
+                  onCheckedChange={(checked) => setEmbedThumbnail(checked as boolean)}
+                />
+                <Label htmlFor="map-embed-thumbnail" className="text-sm font-medium leading-none">
+                  Embed thumbnail in map file
+                </Label>
+              </div>
+            </div>
+          )}
+
+          {/* History checkpoints */}
+          {checkpointCount > 0 && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="map-include-checkpoints"
+                checked={includeCheckpoints}
+                onCheckedChange={(checked) => setIncludeCheckpoints(checked as boolean)}
+              />
+              <Label htmlFor="map-include-checkpoints" className="text-sm font-medium leading-none">
+                Save {checkpointCount} history checkpoint{checkpointCount === 1 ? '' : 's'} in map file
+              </Label>
+            </div>
+          )}
+
+          {/* Destination */}
+          <div className="grid gap-2">
+            <Label>Save To</Label>
+            <div className="grid grid-cols-2 gap-2">
               <Button
-                variant="outline"
-                onClick={handleFolderSelect}
+                type="button"
+                variant={destination === 'library' ? 'default' : 'outline'}
+                onClick={() => setDestination('library')}
                 className="gap-2"
+              >
+                <Library className="h-4 w-4" />
+                Map library
+              </Button>
+              <Button
                 type="button"
+                variant={destination === 'download' ? 'default' : 'outline'}
+                onClick={() => setDestination('download')}
+                className="gap-2"
               >
-                <FolderOpen className="h-4 w-4" />
-                Browse
+                <Download className="h-4 w-4" />
+                Download file
               </Button>
             </div>
-            <p className="text-xs text-muted-foreground">
-              {selectedFolder
-                ? `Files will be saved to: ${selectedFolder}`
-                : 'Files will be saved to your Downloads folder by default'
-              }
-            </p>
+            {destination === 'library' && (
+              <p className="text-xs text-muted-foreground">
+                Saved in this browser; open it again from File → Open
+              </p>
+            )}
           </div>
+
+          {/* Folder Selection */}
+          {destination === 'download' && (
+            <div className="grid gap-2">
+              <Label htmlFor="folder-select">Save Location</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="folder-select"
+                  value={selectedFolder || 'Downloads (default)'}
+                  placeholder="Click Browse to select folder"
+                  readOnly
+                  className="flex-1"
+                />
+                <Button
+                  variant="outline"
+                  onClick={handleFolderSelect}
+                  className="gap-2"
+                  type="button"
+                >
+                  <FolderOpen className="h-4 w-4" />
+                  Browse
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {selectedFolder
+                  ? `Files will be saved to: ${selectedFolder}`
+                  : 'Files will be saved to your Downloads folder by default'
+                }
+              </p>
+            </div>
+          )}
         </div>
 
         <DialogFooter>
@@ -0,0 +1,225 @@
+'use client'
+
+import {
+  CircleDashed,
+  Cursor,
+  Lasso,
+  PaintBucket,
+  Selection,
+  SelectionSlash,
+} from '@phosphor-icons/react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Separator } from '@/components/ui/separator'
+import { Slider } from '@/components/ui/slider'
+import {
+  SELECTION_MODES,
+  type SelectionLevel,
+  type SelectionMode,
+  SIMILARITY,
+  type Similarity,
+} from '@/lib/game/MapSelection'
+import { cn } from '@/lib/utils'
+
+export type SelectionTool = 'click' | 'marquee' | 'lasso' | 'radius' | 'similar'
+
+export interface SelectionSettings {
+  tool: SelectionTool
+  mode: SelectionMode // Used when no modifier key is held
+  level: SelectionLevel
+  radius: number
+  similarity: Similarity
+}
+
+export const DEFAULT_SELECTION_SETTINGS: SelectionSettings = {
+  tool: 'click',
+  mode: SELECTION_MODES.REPLACE,
+  level: null,
+  radius: 2,
+  similarity: SIMILARITY.TERRAIN,
+}
+
+const TOOLS: Array<{ tool: SelectionTool; label: string; icon: typeof Cursor; hint: string }> = [
+  { tool: 'click', label: 'Click', icon: Cursor, hint: 'Click a hex, Ctrl+click to toggle it.' },
+  { tool: 'marquee', label: 'Box', icon: Selection, hint: 'Drag a rectangle over the map.' },
+  { tool: 'lasso', label: 'Lasso', icon: Lasso, hint: 'Draw around the hexes to select.' },
+  { tool: 'radius', label: 'Radius', icon: CircleDashed, hint: 'Click the center hex.' },
+  {
+    tool: 'similar',
+    label: 'Similar',
+    icon: PaintBucket,
+    hint: 'Click a hex to select the connected hexes like it.',
+  },
+]
+
+const MODE_LABELS: Record<SelectionMode, string> = {
+  [SELECTION_MODES.REPLACE]: 'New',
+  [SELECTION_MODES.ADD]: 'Add',
+  [SELECTION_MODES.SUBTRACT]: 'Subtract',
+  [SELECTION_MODES.INTERSECT]: 'Intersect',
+}
+
+interface SelectionPanelProps {
+  settings: SelectionSettings
+  onSettingsChange: (settings: SelectionSettings) => void
+  selectedCount: number
+  onClear: () => void
+}
+
+export function SelectionPanel({
+  settings,
+  onSettingsChange,
+  selectedCount,
+  onClear,
+}: SelectionPanelProps) {
+  const update = (patch: Partial<SelectionSettings>) => onSettingsChange({ ...settings, ...patch })
+  const activeTool = TOOLS.find((tool) => tool.tool === settings.tool) ?? TOOLS[0]
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            'absolute top-[28rem] left-4 z-30 p-1 bg-card/80 backdrop-blur-xl border border-border/50 rounded-full flex items-center gap-3 px-4 py-2 shadow-2xl cursor-pointer hover:bg-card/90 transition-colors',
+            settings.tool !== 'click' && 'border-primary/60'
+          )}
+        >
+          <activeTool.icon size={18} className="text-primary" weight="bold" />
+          <span className="text-xs font-bold tracking-tight uppercase text-primary">
+            {settings.tool === 'click' ? 'Select' : `Select: ${activeTool.label}`}
+          </span>
+          {selectedCount > 0 && (
+            <span className="text-[10px] font-mono text-muted-foreground">{selectedCount}</span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-80 bg-card/95 backdrop-blur-xl border border-border/50 shadow-2xl"
+      >
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-bold text-sm uppercase tracking-wider text-primary">Selection</h4>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7"
+              disabled={selectedCount === 0}
+              onClick={onClear}
+            >
+              <SelectionSlash size={14} className="mr-1" />
+              Clear ({selectedCount})
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-5 gap-1">
+            {TOOLS.map(({ tool, label, icon: Icon }) => (
+              <Button
+                key={tool}
+                size="sm"
+                variant={settings.tool === tool ? 'default' : 'outline'}
+                className="h-12 flex-col gap-1 px-1 text-[10px]"
+                onClick={() => update({ tool })}
+              >
+                <Icon size={16} />
+                {label}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">{activeTool.hint}</p>
+
+          <Separator />
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Mode</Label>
+            <div className="grid grid-cols-4 gap-1">
+              {Object.values(SELECTION_MODES).map((mode) => (
+                <Button
+                  key={mode}
+                  size="sm"
+                  variant={settings.mode === mode ? 'default' : 'outline'}
+                  className="h-7 px-1 text-xs"
+                  onClick={() => update({ mode })}
+                >
+                  {MODE_LABELS[mode]}
+                </Button>
+              ))}
+            </div>
+            <p className="text-[11px] text-muted-foreground">
+              Hold Shift to add, Alt to subtract, Shift+Alt to intersect.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <Label className="text-xs text-muted-foreground">Height level</Label>
+            <Select
+              value={settings.level === null ? 'top' : String(settings.level)}
+              onValueChange={(value) => update({ level: value === 'top' ? null : Number(value) })}
+            >
+              <SelectTrigger className="h-7 w-36 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="top">Top of each stack</SelectItem>
+                {[0, 1, 2, 3, 4].map((level) => (
+                  <SelectItem key={level} value={String(level)}>
+                    Level {level}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {settings.tool === 'radius' && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Radius</span>
+                <span className="font-mono">{settings.radius}</span>
+              </div>
+              <Slider
+                min={0}
+                max={10}
+                step={1}
+                value={[settings.radius]}
+                onValueChange={([value]) => update({ radius: value })}
+              />
+            </div>
+          )}
+
+          {settings.tool === 'similar' && (
+            <div className="flex items-center justify-between gap-2">
+              <Label className="text-xs text-muted-foreground">Match by</Label>
+              <div className="grid grid-cols-2 gap-1">
+                <Button
+                  size="sm"
+                  variant={settings.similarity === SIMILARITY.TILE ? 'default' : 'outline'}
+                  className="h-7 text-xs"
+                  onClick={() => update({ similarity: SIMILARITY.TILE })}
+                >
+                  Tile
+                </Button>
+                <Button
+                  size="sm"
+                  variant={settings.similarity === SIMILARITY.TERRAIN ? 'default' : 'outline'}
+                  className="h-7 text-xs"
+                  onClick={() => update({ similarity: SIMILARITY.TERRAIN })}
+                >
+                  Terrain
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,103 @@
+'use client'
+
+import { CheckCircle, Wrench } from '@phosphor-icons/react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import type { TerrainMismatch } from '@/lib/game/TerrainMapping'
+import { terrainRegistry } from '@/lib/game/TerrainRegistry'
+
+interface TerrainReconcileDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Hexes whose stored terrain disagrees with their model
+  mismatches: TerrainMismatch[]
+  onConfirm: () => void
+}
+
+const terrainName = (id: string) => terrainRegistry.get(id)?.name ?? id
+
+export function TerrainReconcileDialog({
+  open,
+  onOpenChange,
+  mismatches,
+  onConfirm,
+}: TerrainReconcileDialogProps) {
+  const handleConfirm = () => {
+    onConfirm()
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wrench size={20} className="text-primary" />
+            Reconcile Terrain
+          </DialogTitle>
+          <DialogDescription>
+            Terrain drives movement costs, so it should match the tile model placed on each hex.
+          </DialogDescription>
+        </DialogHeader>
+
+        {mismatches.length === 0 ? (
+          <div className="flex items-center gap-2 py-4 text-sm text-muted-foreground">
+            <CheckCircle size={18} className="text-green-500" />
+            Every hex already matches its model.
+          </div>
+        ) : (
+          <div className="space-y-2 py-2">
+            <p className="text-sm">
+              {mismatches.length} {mismatches.length === 1 ? 'hex disagrees' : 'hexes disagree'}{' '}
+              with their model:
+            </p>
+            <ScrollArea className="h-64 rounded-md border border-border/60">
+              <table className="w-full text-xs">
+                <thead className="sticky top-0 bg-card text-muted-foreground">
+                  <tr>
+                    <th className="px-2 py-1 text-left font-medium">Hex</th>
+                    <th className="px-2 py-1 text-left font-medium">Tile</th>
+                    <th className="px-2 py-1 text-left font-medium">Terrain</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {mismatches.map((mismatch) => (
+                    <tr
+                      key={`${mismatch.q},${mismatch.r}_${mismatch.height}`}
+                      className="border-t border-border/40"
+                    >
+                      <td className="px-2 py-1 font-mono">
+                        {mismatch.q},{mismatch.r} L{mismatch.height}
+                      </td>
+                      <td className="px-2 py-1 font-mono">{mismatch.tileId}</td>
+                      <td className="px-2 py-1">
+                        {terrainName(mismatch.terrain)} → {terrainName(mismatch.expected)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </ScrollArea>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleConfirm} className="font-bold" disabled={mismatches.length === 0}>
+            Fix {mismatches.length > 0 ? mismatches.length : ''} hexes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { createSaveMapData, formatTags, type SaveMapForm } from '../SaveMapDialog'
+
+const form = (patch: Partial<SaveMapForm> = {}): SaveMapForm => ({
+  destination: 'library',
+  name: 'Elmwood',
+  description: '',
+  folder: '',
+  filename: 'elmwood-1.json',
+  author: '',
+  tags: '',
+  changeNote: '',
+  embedThumbnail: true,
+  includeCheckpoints: false,
+  ...patch,
+})
+
+describe('createSaveMapData', () => {
+  it('trims the metadata of the loaded map and passes the change note', () => {
+    const data = createSaveMapData(
+      form({
+        name: ' Elmwood ',
+        author: ' Anna ',
+        tags: formatTags(['pvp', 'island']),
+        changeNote: ' Moved the bridge ',
+      })
+    )
+
+    expect(data).toMatchObject({
+      name: 'Elmwood',
+      author: 'Anna',
+      tags: ['pvp', 'island'],
+      changeNote: 'Moved the bridge',
+    })
+  })
+
+  it('drops empty tags and falls back to the Downloads folder', () => {
+    const data = createSaveMapData(form({ tags: 'pvp, ,  island ,' }))
+    expect(data?.tags).toEqual(['pvp', 'island'])
+    expect(data?.folder).toBe('Downloads')
+  })
+
+  it('keeps the chosen destination', () => {
+    expect(createSaveMapData(form())?.destination).toBe('library')
+    expect(createSaveMapData(form({ destination: 'download' }))?.destination).toBe('download')
+  })
+
+  it('embeds the thumbnail unless the checkbox is cleared', () => {
+    const thumbnail = 'data:image/png;base64,iVBORw0KGgo='
+    expect(createSaveMapData(form(), { thumbnail })?.thumbnail).toBe(thumbnail)
+    expect(createSaveMapData(form({ embedThumbnail: false }), { thumbnail })).not.toHaveProperty(
+      'thumbnail'
+    )
+    // No minimap could be rendered
+    expect(createSaveMapData(form(), { thumbnail: null })).not.toHaveProperty('thumbnail')
+  })
+
+  it('has nothing to save without a name', () => {
+    expect(createSaveMapData(form({ name: '   ' }))).toBeNull()
+  })
+})
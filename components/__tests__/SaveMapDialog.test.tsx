@@ -28,6 +28,7 @@ describe('SaveMapDialog', () => {
     expect(screen.getByText('Save Map')).toBeInTheDocument()
     expect(screen.getByLabelText('Map Name *')).toBeInTheDocument()
     expect(screen.getByLabelText('Description')).toBeInTheDocument()
+    fireEvent.click(screen.getByText('Download file'))
     expect(screen.getByLabelText('Save Location')).toBeInTheDocument()
     expect(screen.getByText('Browse')).toBeInTheDocument()
   })
@@ -58,6 +59,7 @@ describe('SaveMapDialog', () => {
     window.showDirectoryPicker = mockShowDirectoryPicker
 
     render(<SaveMapDialog {...defaultProps} />)
+    fireEvent.click(screen.getByText('Download file'))
 
     const browseButton = screen.getByText('Browse')
     fireEvent.click(browseButton)
@@ -102,6 +104,7 @@ describe('SaveMapDialog', () => {
 
   it('shows default folder message when no folder selected', () => {
     render(<SaveMapDialog {...defaultProps} />)
+    fireEvent.click(screen.getByText('Download file'))
 
     expect(screen.getByText('Files will be saved to your Downloads folder by default')).toBeInTheDocument()
   })
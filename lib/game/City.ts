@@ -0,0 +1,47 @@
+/**
+ * City - A settlement placed on the map
+ * Cities occupy the topmost hex of a stack and may be owned by a faction or be neutral
+ */
+
+import { createEntityId, type Facing, normalizeFacing } from './Unit'
+
+export interface CityStats {
+  size: number // 1 (village) - 5 (capital)
+  income: number
+  defense: number
+}
+
+export const DEFAULT_CITY_STATS: CityStats = {
+  size: 1,
+  income: 5,
+  defense: 1,
+}
+
+export const MAX_CITY_SIZE = 5
+
+export class City {
+  id: string
+  name: string
+  faction: string | null // null = neutral city
+  stats: CityStats
+  facing: Facing = 0
+
+  constructor(
+    name: string,
+    faction: string | null = null,
+    options: { id?: string; stats?: Partial<CityStats>; facing?: number } = {}
+  ) {
+    this.id = options.id ?? createEntityId('city')
+    this.name = name
+    this.faction = faction
+    this.stats = { ...DEFAULT_CITY_STATS, ...options.stats }
+    this.stats.size = Math.min(MAX_CITY_SIZE, Math.max(1, Math.round(this.stats.size)))
+    if (options.facing !== undefined) {
+      this.facing = normalizeFacing(options.facing)
+    }
+  }
+
+  isNeutral(): boolean {
+    return this.faction === null
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * CustomProperties - Typed designer data on hexes, buildings and the map itself
+ * (spawn weights, trigger ids, loot tables, story flags). The map declares the properties
+ * in a schema; hexes, buildings and the map metadata store plain name -> value bags.
+ */
+
+export const PROPERTY_TYPES = {
+  STRING: 'string',
+  NUMBER: 'number',
+  BOOLEAN: 'boolean',
+  ENUM: 'enum', // One of a fixed list of strings
+} as const
+
+export type PropertyType = (typeof PROPERTY_TYPES)[keyof typeof PROPERTY_TYPES]
+
+export const PROPERTY_TYPE_NAMES: Record<PropertyType, string> = {
+  [PROPERTY_TYPES.STRING]: 'Text',
+  [PROPERTY_TYPES.NUMBER]: 'Number',
+  [PROPERTY_TYPES.BOOLEAN]: 'Yes / No',
+  [PROPERTY_TYPES.ENUM]: 'Choice',
+}
+
+// What a property can be set on
+export const PROPERTY_TARGETS = {
+  HEX: 'hex',
+  BUILDING: 'building',
+  MAP: 'map',
+} as const
+
+export type PropertyTarget = (typeof PROPERTY_TARGETS)[keyof typeof PROPERTY_TARGETS]
+
+export const PROPERTY_TARGET_NAMES: Record<PropertyTarget, string> = {
+  [PROPERTY_TARGETS.HEX]: 'Hexes',
+  [PROPERTY_TARGETS.BUILDING]: 'Buildings',
+  [PROPERTY_TARGETS.MAP]: 'Map',
+}
+
+export type PropertyValue = string | number | boolean
+
+// Values by property name; properties without a value are simply absent
+export type CustomProperties = Record<string, PropertyValue>
+
+export interface PropertyDefinition {
+  name: string // Key in the property bags, e.g. "spawnWeight"
+  type: PropertyType
+  targets: PropertyTarget[]
+  options?: string[] // Allowed values of enum properties
+  default?: PropertyValue // Value shown for hexes (buildings, map) that do not set one
+  description?: string
+}
+
+const PROPERTY_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+/**
+ * Check a value against a property definition; returns the problem or null when it fits
+ */
+export function validatePropertyValue(
+  definition: PropertyDefinition,
+  value: unknown
+): string | null {
+  switch (definition.type) {
+    case PROPERTY_TYPES.STRING:
+      return typeof value === 'string' ? null : 'expected a string'
+    case PROPERTY_TYPES.NUMBER:
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'expected a number'
+    case PROPERTY_TYPES.BOOLEAN:
+      return typeof value === 'boolean' ? null : 'expected a boolean'
+    case PROPERTY_TYPES.ENUM:
+      return typeof value === 'string' && (definition.options ?? []).includes(value)
+        ? null
+        : `expected one of ${(definition.options ?? []).join(', ')}`
+    default:
+      return `unknown property type "${String(definition.type)}"`
+  }
+}
+
+/**
+ * Check a property definition and describe every problem found (empty = valid)
+ */
+export function validatePropertyDefinition(value: unknown): string[] {
+  if (!value || typeof value !== 'object') {
+    return ['expected an object']
+  }
+
+  const definition = value as Partial<PropertyDefinition>
+  const errors: string[] = []
+  if (typeof definition.name !== 'string' || !PROPERTY_NAME_PATTERN.test(definition.name)) {
+    errors.push('name must be an identifier (letters, digits and underscores)')
+  }
+  if (!(Object.values(PROPERTY_TYPES) as unknown[]).includes(definition.type)) {
+    errors.push(`type must be one of ${Object.values(PROPERTY_TYPES).join(', ')}`)
+  }
+  const targets = Object.values(PROPERTY_TARGETS) as unknown[]
+  if (
+    !Array.isArray(definition.targets) ||
+    definition.targets.length === 0 ||
+    !definition.targets.every((target) => targets.includes(target))
+  ) {
+    errors.push(`targets must list at least one of ${Object.values(PROPERTY_TARGETS).join(', ')}`)
+  }
+  if (definition.type === PROPERTY_TYPES.ENUM) {
+    const options = definition.options
+    if (
+      !Array.isArray(options) ||
+      options.length === 0 ||
+      !options.every((option) => typeof option === 'string' && option.length > 0) ||
+      new Set(options).size !== options.length
+    ) {
+      errors.push('options must be a list of distinct non-empty strings')
+    }
+  } else if (definition.options !== undefined) {
+    errors.push('options are only allowed for enum properties')
+  }
+  if (errors.length === 0 && definition.default !== undefined) {
+    const problem = validatePropertyValue(definition as PropertyDefinition, definition.default)
+    if (problem) errors.push(`default: ${problem}`)
+  }
+  return errors
+}
+
+/**
+ * Value of a property that is not set: the declared default or the empty value of its type
+ */
+export function getDefaultValue(definition: PropertyDefinition): PropertyValue {
+  if (definition.default !== undefined) return definition.default
+  switch (definition.type) {
+    case PROPERTY_TYPES.NUMBER:
+      return 0
+    case PROPERTY_TYPES.BOOLEAN:
+      return false
+    case PROPERTY_TYPES.ENUM:
+      return definition.options?.[0] ?? ''
+    default:
+      return ''
+  }
+}
+
+/**
+ * Convert text typed into an editor field to a value of the property type (null = not valid)
+ */
+export function parsePropertyValue(
+  definition: PropertyDefinition,
+  text: string
+): PropertyValue | null {
+  let value: unknown = text
+  if (definition.type === PROPERTY_TYPES.NUMBER) {
+    value = text.trim() === '' ? Number.NaN : Number(text)
+  } else if (definition.type === PROPERTY_TYPES.BOOLEAN) {
+    value = text === 'true' ? true : text === 'false' ? false : null
+  }
+  return validatePropertyValue(definition, value) ? null : (value as PropertyValue)
+}
+
+/**
+ * Return a copy of a bag with one value set (or removed with null); empty bags become undefined
+ */
+export function withPropertyValue(
+  properties: CustomProperties | undefined,
+  name: string,
+  value: PropertyValue | null
+): CustomProperties | undefined {
+  const next = { ...properties }
+  if (value === null) {
+    delete next[name]
+  } else {
+    next[name] = value
+  }
+  return Object.keys(next).length > 0 ? next : undefined
+}
+
+/**
+ * Shared value of a property across several bags (multi-selection):
+ * the value when every bag agrees, 'mixed' when they differ, undefined when none sets it
+ */
+export function getSharedValue(
+  bags: Array<CustomProperties | undefined>,
+  name: string
+): PropertyValue | 'mixed' | undefined {
+  const values = new Set(bags.map((properties) => properties?.[name]))
+  if (values.size > 1) return 'mixed'
+  return [...values][0]
+}
+
+/**
+ * Property definitions declared by a map, in declaration order
+ */
+export class PropertySchema {
+  private definitions: globalThis.Map<string, PropertyDefinition> = new globalThis.Map()
+
+  constructor(definitions: PropertyDefinition[] = []) {
+    for (const definition of definitions) {
+      this.add(definition)
+    }
+  }
+
+  getDefinitions(target?: PropertyTarget): PropertyDefinition[] {
+    const definitions = Array.from(this.definitions.values())
+    return target
+      ? definitions.filter((definition) => definition.targets.includes(target))
+      : definitions
+  }
+
+  get(name: string): PropertyDefinition | null {
+    return this.definitions.get(name) ?? null
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name)
+  }
+
+  add(definition: PropertyDefinition) {
+    if (this.definitions.has(definition?.name)) {
+      throw new Error(`Property already exists: ${definition.name}`)
+    }
+    this.set(definition)
+  }
+
+  /**
+   * Replace the definition with the same name (values already stored are kept as they are)
+   */
+  update(definition: PropertyDefinition) {
+    if (!this.definitions.has(definition?.name)) {
+      throw new Error(`Unknown property: ${definition?.name}`)
+    }
+    this.set(definition)
+  }
+
+  remove(name: string) {
+    this.definitions.delete(name)
+  }
+
+  /**
+   * Check one value against the schema for a target; returns the problem or null when it fits
+   */
+  validateValue(name: string, value: unknown, target: PropertyTarget): string | null {
+    const definition = this.get(name)
+    if (!definition) {
+      return `property "${name}" is not declared in the property schema`
+    }
+    if (!definition.targets.includes(target)) {
+      return `property "${name}" cannot be set on ${PROPERTY_TARGET_NAMES[target].toLowerCase()}`
+    }
+    const problem = validatePropertyValue(definition, value)
+    return problem && `property "${name}": ${problem}`
+  }
+
+  /**
+   * Check a bag against the schema for a target and describe every problem found (empty = valid)
+   */
+  validate(properties: CustomProperties, target: PropertyTarget): string[] {
+    return Object.entries(properties)
+      .map(([name, value]) => this.validateValue(name, value, target))
+      .filter((problem): problem is string => problem !== null)
+  }
+
+  private set(definition: PropertyDefinition) {
+    const errors = validatePropertyDefinition(definition)
+    if (errors.length > 0) {
+      throw new Error(`Invalid property definition "${definition?.name}": ${errors.join(', ')}`)
+    }
+    this.definitions.set(definition.name, {
+      ...definition,
+      targets: [...definition.targets],
+      ...(definition.options && { options: [...definition.options] }),
+    })
+  }
+}
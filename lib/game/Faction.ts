@@ -0,0 +1,80 @@
+/**
+ * Faction - A player slot on the map (name, color and starting position)
+ * Faction colors match the colored building sets shipped with the tile registry
+ */
+
+import { findColorVariant, findTileByModelPath } from '../llm/tile-registry'
+import type { Hex } from './Hex'
+
+export const FACTION_COLORS = {
+  red: { name: 'Red', hex: '#dc2626' },
+  blue: { name: 'Blue', hex: '#2563eb' },
+  green: { name: 'Green', hex: '#16a34a' },
+  yellow: { name: 'Yellow', hex: '#eab308' },
+} as const
+
+export type FactionColor = keyof typeof FACTION_COLORS
+
+export function isFactionColor(value: string): value is FactionColor {
+  return Object.hasOwn(FACTION_COLORS, value)
+}
+
+export class Faction {
+  id: string
+  name: string
+  color: FactionColor
+  startHex: { q: number; r: number } | null = null
+
+  constructor(
+    id: string,
+    name: string,
+    color: FactionColor,
+    startHex: { q: number; r: number } | null = null
+  ) {
+    if (!isFactionColor(color)) {
+      throw new Error(`Invalid faction color: ${color}`)
+    }
+    this.id = id
+    this.name = name
+    this.color = color
+    this.startHex = startHex
+  }
+}
+
+/**
+ * Check whether a hex holds a building model from the registry
+ */
+export function isBuildingHex(hex: Hex): boolean {
+  if (!hex.modelData) return false
+  return findTileByModelPath(hex.modelData.obj)?.category === 'buildings'
+}
+
+/**
+ * Faction color encoded in a building model (buildings/red/...), or null for neutral/unknown models
+ */
+export function getModelColor(modelData: { obj: string }): FactionColor | null {
+  const tile = findTileByModelPath(modelData.obj)
+  if (tile?.category !== 'buildings' || !tile.subcategory) return null
+  return isFactionColor(tile.subcategory) ? tile.subcategory : null
+}
+
+/**
+ * Assign a hex (building) to a faction, or clear ownership with null.
+ * Colored buildings are swapped to the model of the owner's color; neutral
+ * buildings keep their model. Returns true when the model data changed.
+ */
+export function setHexOwner(hex: Hex, faction: Faction | null): boolean {
+  hex.owner = faction ? faction.id : null
+  if (!faction || !hex.modelData) {
+    return false
+  }
+
+  const tile = findTileByModelPath(hex.modelData.obj)
+  const variant = tile ? findColorVariant(tile, faction.color) : undefined
+  if (!tile || !variant || variant === tile) {
+    return false
+  }
+
+  hex.modelData = { obj: variant.obj_path, mtl: variant.mtl_path, name: variant.name }
+  return true
+}
@@ -3,73 +3,65 @@
  * Uses axial coordinates (q, r) for optimal LLM compatibility
  */
 
+import type { City } from './City'
+import type { CustomProperties } from './CustomProperties'
 import { axialDistance } from './HexCoordinateConverter'
+import { type TerrainDefinition, terrainRegistry } from './TerrainRegistry'
+import type { Unit } from './Unit'
 
+// Ids of the built-in terrain types (see terrain-types.json); maps may register more
 export const TERRAIN_TYPES = {
   PLAINS: 'PLAINS',
   FOREST: 'FOREST',
   MOUNTAIN: 'MOUNTAIN',
   WATER: 'WATER',
   ROAD: 'ROAD',
+  DESERT: 'DESERT',
+  SWAMP: 'SWAMP',
+  SNOW: 'SNOW',
+  HILLS: 'HILLS',
+  BRIDGE: 'BRIDGE',
 } as const
 
-export type TerrainType = (typeof TERRAIN_TYPES)[keyof typeof TERRAIN_TYPES]
+// Any id registered in the terrain registry
+export type TerrainType = string
 
-export const TERRAIN_CONFIG = {
-  [TERRAIN_TYPES.PLAINS]: {
-    movementCost: 1,
-    defenseBonus: 0,
-    passable: true,
-    name: 'Plains',
-    color: '#90EE90',
-  },
-  [TERRAIN_TYPES.FOREST]: {
-    movementCost: 2,
-    defenseBonus: 1,
-    passable: true,
-    name: 'Forest',
-    color: '#228B22',
-  },
-  [TERRAIN_TYPES.MOUNTAIN]: {
-    movementCost: 3,
-    defenseBonus: 2,
-    passable: true,
-    name: 'Mountain',
-    color: '#8B4513',
-  },
-  [TERRAIN_TYPES.WATER]: {
-    movementCost: 999,
-    defenseBonus: 0,
-    passable: false,
-    name: 'Water',
-    color: '#4169E1',
-  },
-  [TERRAIN_TYPES.ROAD]: {
-    movementCost: 0.5,
-    defenseBonus: 0,
-    passable: true,
-    name: 'Road',
-    color: '#D2B48C',
-  },
-}
+/**
+ * Terrain definitions by id, a live view of the terrain registry
+ * @deprecated Use terrainRegistry.get(id) from TerrainRegistry.ts
+ */
+export const TERRAIN_CONFIG: Readonly<Record<TerrainType, TerrainDefinition>> = new Proxy(
+  {},
+  {
+    get: (_target, id) => (typeof id === 'string' ? (terrainRegistry.get(id) ?? undefined) : undefined),
+    has: (_target, id) => typeof id === 'string' && terrainRegistry.has(id),
+    ownKeys: () => terrainRegistry.getIds(),
+    getOwnPropertyDescriptor: (_target, id) =>
+      typeof id === 'string' && terrainRegistry.has(id)
+        ? { value: terrainRegistry.get(id), enumerable: true, configurable: true }
+        : undefined,
+  }
+)
 
 export class Hex {
   q: number // Axial Q coordinate
   r: number // Axial R coordinate
   terrain: TerrainType
-  unit: unknown = null
-  city: unknown = null
+  unit: Unit | null = null
+  city: City | null = null
+  owner: string | null = null // Faction id owning this hex (buildings)
   hasRiver: boolean = false
   rotation: number = 0 // In radians
   height: number = 0 // Level 0-4 (total 5 levels)
   modelData?: { obj: string; mtl: string; name: string }
+  properties?: CustomProperties // Designer data declared in the map's property schema
 
   constructor(q: number, r: number, terrain: TerrainType = TERRAIN_TYPES.PLAINS) {
     this.q = q
     this.r = r
     this.terrain = terrain
 
-    if (!TERRAIN_CONFIG[terrain]) {
+    if (!terrainRegistry.has(terrain)) {
       throw new Error(`Invalid terrain type: ${terrain}`)
     }
   }
@@ -83,15 +75,20 @@ export class Hex {
   }
 
   getMovementCost(_unit: unknown = null): number {
-    const config = TERRAIN_CONFIG[this.terrain]
+    const config = terrainRegistry.get(this.terrain)
     if (!config) {
       throw new Error(`Unknown terrain type: ${this.terrain}`)
     }
     return config.movementCost
   }
 
+  isPassable(): boolean {
+    const config = terrainRegistry.get(this.terrain)
+    return config ? config.passable : false
+  }
+
   getDefenseBonus(): number {
-    const config = TERRAIN_CONFIG[this.terrain]
+    const config = terrainRegistry.get(this.terrain)
     if (!config) {
       throw new Error(`Unknown terrain type: ${this.terrain}`)
     }
@@ -99,12 +96,12 @@ export class Hex {
   }
 
   getTerrainName(): string {
-    const config = TERRAIN_CONFIG[this.terrain]
+    const config = terrainRegistry.get(this.terrain)
     return config ? config.name : 'Unknown'
   }
 
   getTerrainColor(): string {
-    const config = TERRAIN_CONFIG[this.terrain]
+    const config = terrainRegistry.get(this.terrain)
     return config ? config.color : '#FFFFFF'
   }
 }
@@ -156,6 +156,76 @@ export function getAxialNeighbors(q: number, r: number): Array<{ q: number; r: n
   }))
 }
 
+/**
+ * Get all hexes on a straight line between two hexes (inclusive)
+ *
+ * Samples the line in cube space and rounds each sample to the nearest hex.
+ * A tiny nudge keeps samples that land exactly on a hex edge from flipping
+ * between neighbours, so the result is always a connected line.
+ *
+ * @param a - Start hex in axial coordinates
+ * @param b - End hex in axial coordinates
+ * @returns Hexes from a to b, length = distance + 1
+ */
+export function axialLine(
+  a: { q: number; r: number },
+  b: { q: number; r: number }
+): Array<{ q: number; r: number }> {
+  const distance = axialDistance(a, b)
+  if (distance === 0) {
+    return [{ q: a.q, r: a.r }]
+  }
+
+  const EPSILON = 1e-6
+  const aq = a.q + EPSILON
+  const ar = a.r + EPSILON
+  const bq = b.q + EPSILON
+  const br = b.r + EPSILON
+
+  const line: Array<{ q: number; r: number }> = []
+  for (let i = 0; i <= distance; i++) {
+    const t = i / distance
+    line.push(roundAxial(aq + (bq - aq) * t, ar + (br - ar) * t))
+  }
+  return line
+}
+
+/**
+ * Get all hexes within a distance of a center hex (inclusive)
+ *
+ * @param center - Center hex in axial coordinates
+ * @param radius - Maximum distance from center (0 returns only the center)
+ * @returns Hexes in the range, 1 + 3 * radius * (radius + 1) of them
+ */
+export function axialRange(
+  center: { q: number; r: number },
+  radius: number
+): Array<{ q: number; r: number }> {
+  const range: Array<{ q: number; r: number }> = []
+  for (let dq = -radius; dq <= radius; dq++) {
+    const minR = Math.max(-radius, -dq - radius)
+    const maxR = Math.min(radius, -dq + radius)
+    for (let dr = minR; dr <= maxR; dr++) {
+      range.push({ q: center.q + dq, r: center.r + dr })
+    }
+  }
+  return range
+}
+
+/**
+ * Get the hexes at exactly a distance from a center hex
+ *
+ * @param center - Center hex in axial coordinates
+ * @param radius - Distance from center (0 returns only the center)
+ * @returns Hexes on the ring, 6 * radius of them (1 for radius 0)
+ */
+export function axialRing(
+  center: { q: number; r: number },
+  radius: number
+): Array<{ q: number; r: number }> {
+  return axialRange(center, radius).filter(hex => axialDistance(center, hex) === radius)
+}
+
 /**
  * Convert axial coordinates to world coordinates for Three.js rendering
  *
@@ -3,15 +3,123 @@
  * Uses axial coordinates (q, r) for optimal LLM compatibility
  */
 
+import { type CustomProperties, PropertySchema, withPropertyValue } from './CustomProperties'
+import type { Faction } from './Faction'
 import { Hex, TERRAIN_TYPES, type TerrainType } from './Hex'
-import { getAxialNeighbors } from './HexCoordinateConverter'
+import { axialDistance, getAxialNeighbors, offsetToAxial } from './HexCoordinateConverter'
+import { RegionLayer } from './RegionLayer'
+
+export const MAP_SHAPE_TYPES = {
+  RECTANGLE: 'rectangle',
+  HEXAGON: 'hexagon',
+  PARALLELOGRAM: 'parallelogram',
+  MASK: 'mask',
+} as const
+
+export type MapShapeType = (typeof MAP_SHAPE_TYPES)[keyof typeof MAP_SHAPE_TYPES]
+
+/**
+ * Map outline. All shapes live inside the width x height box used for rendering:
+ * - rectangle: every odd-q offset cell (x, y) of the box
+ * - hexagon: hexes within `radius` of the box center
+ * - parallelogram: 0 <= q < width, 0 <= r < height (a rhombus when width = height)
+ * - mask: an explicit list of "q,r" keys
+ */
+export type MapShape =
+  | { type: typeof MAP_SHAPE_TYPES.RECTANGLE }
+  | { type: typeof MAP_SHAPE_TYPES.HEXAGON; radius: number }
+  | { type: typeof MAP_SHAPE_TYPES.PARALLELOGRAM }
+  | { type: typeof MAP_SHAPE_TYPES.MASK; cells: string[] }
+
+export const MAP_SHAPE_NAMES: Record<MapShapeType, string> = {
+  [MAP_SHAPE_TYPES.RECTANGLE]: 'Rectangle',
+  [MAP_SHAPE_TYPES.HEXAGON]: 'Hexagon',
+  [MAP_SHAPE_TYPES.PARALLELOGRAM]: 'Parallelogram',
+  [MAP_SHAPE_TYPES.MASK]: 'Custom mask',
+}
+
+/**
+ * Build the default shape of a type for a width x height box
+ * (hexagons get the largest radius that fits, masks start empty)
+ */
+export function createMapShape(type: MapShapeType, width: number, height: number): MapShape {
+  switch (type) {
+    case MAP_SHAPE_TYPES.HEXAGON:
+      return { type, radius: Math.floor((Math.min(width, height) - 1) / 2) }
+    case MAP_SHAPE_TYPES.MASK:
+      return { type, cells: [] }
+    default:
+      return { type }
+  }
+}
+
+/**
+ * Nine-point anchor for resizing, like the canvas size dialog of image editors:
+ * the existing map stays pinned to this side/corner of the new bounds
+ */
+export const RESIZE_ANCHORS = [
+  'top-left',
+  'top',
+  'top-right',
+  'left',
+  'center',
+  'right',
+  'bottom-left',
+  'bottom',
+  'bottom-right',
+] as const
+
+export type ResizeAnchor = (typeof RESIZE_ANCHORS)[number]
+
+// Share of the size change added before the map: 0 = left/top, 1 = right/bottom
+const RESIZE_ANCHOR_FACTORS: Record<ResizeAnchor, { x: number; y: number }> = {
+  'top-left': { x: 0, y: 0 },
+  top: { x: 0.5, y: 0 },
+  'top-right': { x: 1, y: 0 },
+  left: { x: 0, y: 0.5 },
+  center: { x: 0.5, y: 0.5 },
+  right: { x: 1, y: 0.5 },
+  'bottom-left': { x: 0, y: 1 },
+  bottom: { x: 0.5, y: 1 },
+  'bottom-right': { x: 1, y: 1 },
+}
+
+export interface ResizePlan {
+  width: number
+  height: number
+  shape: MapShape
+  shift: { q: number; r: number } // Axial translation applied to every stack
+  croppedStacks: number // Positions that fall outside the new bounds
+  croppedHexes: number
+  croppedEntities: number // Units and cities standing on cropped hexes
+}
 
 export class Map {
-  width: number // Maximum Q coordinate
-  height: number // Maximum R coordinate
+  width: number // Width of the bounding box (offset columns)
+  height: number // Height of the bounding box (offset rows)
+  shape: MapShape
   hexes: globalThis.Map<string, Hex[]> // Key format: "q,r" -> array of hexes at that position (sorted by height)
+  factions: Faction[] = [] // Player slots, in turn order
+  regions: RegionLayer = new RegionLayer() // Provinces, kingdoms, spawn zones
+  propertySchema: PropertySchema = new PropertySchema() // Custom properties hexes, buildings and the map may set
+  properties: CustomProperties = {} // Map-level custom property values
+
+  // Cached lookup for mask shapes
+  private maskKeys: Set<string> | null = null
 
-  constructor(width: number, height: number) {
+  constructor(width: number, height: number, shape: MapShape = { type: MAP_SHAPE_TYPES.RECTANGLE }) {
+    Map.assertValidDimensions(width, height, shape)
+
+    this.width = width
+    this.height = height
+    this.shape = shape
+    this.hexes = new globalThis.Map()
+    if (shape.type === MAP_SHAPE_TYPES.MASK) {
+      this.maskKeys = new Set(shape.cells)
+    }
+  }
+
+  private static assertValidDimensions(width: number, height: number, shape: MapShape) {
     if (
       width === undefined ||
       height === undefined ||
@@ -31,9 +139,16 @@ export class Map {
       throw new Error(`Map too large: ${width}x${height}. Maximum size is 1000x1000.`)
     }
 
-    this.width = width
-    this.height = height
-    this.hexes = new globalThis.Map()
+    if (
+      shape.type === MAP_SHAPE_TYPES.HEXAGON &&
+      (!Number.isInteger(shape.radius) ||
+        shape.radius < 0 ||
+        shape.radius * 2 + 1 > Math.min(width, height))
+    ) {
+      throw new Error(
+        `Invalid map shape: hexagon of radius ${shape.radius} does not fit in ${width}x${height}`
+      )
+    }
   }
 
   /**
@@ -45,38 +160,176 @@ export class Map {
 
   /**
    * Initialize map with default terrain (PLAINS)
-   * Creates hexes in a rectangular region using offset coordinates for initialization
-   * then converts to axial coordinates
+   * Creates one hex on every coordinate of the map shape
    */
   initializeTerrain() {
-    // Initialize using offset coordinates for rectangular region, then convert
-    for (let y = 0; y < this.height; y++) {
-      for (let x = 0; x < this.width; x++) {
-        // Convert offset to axial for initialization
-        // For rectangular initialization, we use offset coordinates
-        // q = x, r = y - (x - (x&1)) / 2
-        const q = x
-        const r = y - (x - (x & 1)) / 2
+    for (const { q, r } of this.getAllCoordinates()) {
+      this.hexes.set(this.getKey(q, r), [new Hex(q, r, TERRAIN_TYPES.PLAINS)])
+    }
+  }
+
+  /**
+   * Exact membership test for the map shape
+   */
+  isValidCoordinate(q: number, r: number): boolean {
+    if (!Number.isInteger(q) || !Number.isInteger(r)) {
+      return false
+    }
+
+    switch (this.shape.type) {
+      case MAP_SHAPE_TYPES.HEXAGON:
+        return axialDistance(this.getCenter(), { q, r }) <= this.shape.radius
+      case MAP_SHAPE_TYPES.PARALLELOGRAM:
+        return q >= 0 && q < this.width && r >= 0 && r < this.height
+      case MAP_SHAPE_TYPES.MASK:
+        return this.maskKeys?.has(this.getKey(q, r)) ?? false
+      default: {
+        // Rectangle in odd-q offset coordinates (see axialToOffset)
+        if (q < 0 || q >= this.width) {
+          return false
+        }
+        const y = r + (q - (q & 1)) / 2
+        return y >= 0 && y < this.height
+      }
+    }
+  }
+
+  /**
+   * All coordinates inside the map shape, column by column
+   */
+  getAllCoordinates(): Array<{ q: number; r: number }> {
+    if (this.shape.type === MAP_SHAPE_TYPES.MASK) {
+      return Array.from(this.maskKeys ?? [], key => {
+        const [q, r] = key.split(',').map(Number)
+        return { q, r }
+      })
+    }
+
+    // Every other shape fits in the offset bounding box, but a parallelogram
+    // leans past its bottom edge, so scan its axial range directly
+    const coords: Array<{ q: number; r: number }> = []
+    for (let q = 0; q < this.width; q++) {
+      if (this.shape.type === MAP_SHAPE_TYPES.PARALLELOGRAM) {
+        for (let r = 0; r < this.height; r++) {
+          coords.push({ q, r })
+        }
+        continue
+      }
+      for (let y = 0; y < this.height; y++) {
+        const { r } = offsetToAxial(q, y)
         if (this.isValidCoordinate(q, r)) {
-          const key = this.getKey(q, r)
-          this.hexes.set(key, [new Hex(q, r, TERRAIN_TYPES.PLAINS)])
+          coords.push({ q, r })
         }
       }
     }
+    return coords
   }
 
-  isValidCoordinate(q: number, r: number): boolean {
-    // Simple rectangular bounds check for axial coordinates
-    // For rectangular maps initialized from offset coordinates,
-    // we allow a wider range for r to accommodate the conversion
-    // q ranges from 0 to width-1
-    // r can be negative due to offset->axial conversion
-    // For simplicity, we use a generous range that covers all possible conversions
-    if (q < 0 || q >= this.width) {
-      return false
+  /**
+   * Work out what resize() would do without changing the map (for previews)
+   *
+   * The map is moved by an axial translation so neighbouring hexes stay neighbours.
+   * When the column shift is odd, odd columns end up one row lower than the
+   * anchor alone would suggest (a property of odd-q offset rows).
+   */
+  planResize(width: number, height: number, anchor: ResizeAnchor = 'center'): ResizePlan {
+    const factors = RESIZE_ANCHOR_FACTORS[anchor]
+    const dx = Math.floor((width - this.width) * factors.x)
+    const dy = Math.floor((height - this.height) * factors.y)
+    const shift = offsetToAxial(dx, dy)
+
+    const shape: MapShape =
+      this.shape.type === MAP_SHAPE_TYPES.MASK
+        ? {
+            type: MAP_SHAPE_TYPES.MASK,
+            cells: Array.from(this.maskKeys ?? [], key => {
+              const [q, r] = key.split(',').map(Number)
+              return this.getKey(q + shift.q, r + shift.r)
+            }),
+          }
+        : createMapShape(this.shape.type, width, height)
+    Map.assertValidDimensions(width, height, shape)
+
+    const target = new Map(width, height, shape)
+    let croppedStacks = 0
+    let croppedHexes = 0
+    let croppedEntities = 0
+    for (const [key, hexStack] of this.hexes.entries()) {
+      const [q, r] = key.split(',').map(Number)
+      if (target.isValidCoordinate(q + shift.q, r + shift.r)) continue
+      croppedStacks++
+      croppedHexes += hexStack.length
+      croppedEntities += hexStack.filter(h => h.unit).length + hexStack.filter(h => h.city).length
     }
-    // Allow r from -width/2 to height (generous range for offset conversion)
-    return r >= -this.width && r < this.height + this.width
+
+    return { width, height, shape, shift, croppedStacks, croppedHexes, croppedEntities }
+  }
+
+  /**
+   * Resize the map bounds around an anchor. Existing stacks, faction start
+   * positions and regions are shifted; anything outside the new bounds is dropped.
+   * Returns the applied plan so callers can report what was cropped.
+   */
+  resize(width: number, height: number, anchor: ResizeAnchor = 'center'): ResizePlan {
+    const plan = this.planResize(width, height, anchor)
+    const { shift } = plan
+
+    this.width = plan.width
+    this.height = plan.height
+    this.shape = plan.shape
+    this.maskKeys = plan.shape.type === MAP_SHAPE_TYPES.MASK ? new Set(plan.shape.cells) : null
+
+    const stacks = Array.from(this.hexes.values())
+    this.hexes = new globalThis.Map()
+    for (const hexStack of stacks) {
+      const q = hexStack[0].q + shift.q
+      const r = hexStack[0].r + shift.r
+      if (!this.isValidCoordinate(q, r)) continue
+      for (const hex of hexStack) {
+        hex.q = q
+        hex.r = r
+      }
+      this.hexes.set(this.getKey(q, r), hexStack)
+    }
+
+    for (const faction of this.factions) {
+      if (!faction.startHex) continue
+      const q = faction.startHex.q + shift.q
+      const r = faction.startHex.r + shift.r
+      faction.startHex = this.isValidCoordinate(q, r) ? { q, r } : null
+    }
+
+    for (const region of this.regions.getRegions()) {
+      const coords = region.getCoordinates()
+      region.hexes.clear()
+      for (const { q, r } of coords) {
+        if (this.isValidCoordinate(q + shift.q, r + shift.r)) {
+          region.hexes.add(this.getKey(q + shift.q, r + shift.r))
+        }
+      }
+    }
+
+    return plan
+  }
+
+  /**
+   * Replace the bounds and shape without moving anything (restoring a saved state, e.g. undoing
+   * a resize). Stacks are left as they are; callers put back the stacks of that state themselves.
+   */
+  setBounds(width: number, height: number, shape: MapShape) {
+    Map.assertValidDimensions(width, height, shape)
+
+    this.width = width
+    this.height = height
+    this.shape = shape
+    this.maskKeys = shape.type === MAP_SHAPE_TYPES.MASK ? new Set(shape.cells) : null
+  }
+
+  /**
+   * Axial coordinates of the bounding box center (center of hexagon shapes)
+   */
+  getCenter(): { q: number; r: number } {
+    return offsetToAxial(Math.floor((this.width - 1) / 2), Math.floor((this.height - 1) / 2))
   }
 
   // Get hex at specific height level (0-4)
@@ -218,4 +471,56 @@ export class Map {
     // Filter to only valid coordinates
     return neighbors.filter(coord => this.isValidCoordinate(coord.q, coord.r))
   }
+
+  getFaction(id: string): Faction | null {
+    return this.factions.find(f => f.id === id) ?? null
+  }
+
+  addFaction(faction: Faction) {
+    if (this.getFaction(faction.id)) {
+      throw new Error(`Faction already exists: ${faction.id}`)
+    }
+    this.factions.push(faction)
+  }
+
+  // Remove a faction and release everything it owned (hexes and cities become neutral)
+  removeFaction(id: string) {
+    this.factions = this.factions.filter(f => f.id !== id)
+    for (const hexStack of this.hexes.values()) {
+      for (const hex of hexStack) {
+        if (hex.owner === id) {
+          hex.owner = null
+        }
+        if (hex.city?.faction === id) {
+          hex.city.faction = null
+        }
+      }
+    }
+  }
+
+  // Get all hexes owned by a faction (any height level)
+  getOwnedHexes(factionId: string): Hex[] {
+    const owned: Hex[] = []
+    for (const hexStack of this.hexes.values()) {
+      for (const hex of hexStack) {
+        if (hex.owner === factionId) {
+          owned.push(hex)
+        }
+      }
+    }
+    return owned
+  }
+
+  // Remove a custom property from the schema along with every value set for it
+  removePropertyDefinition(name: string) {
+    this.propertySchema.remove(name)
+    delete this.properties[name]
+    for (const hexStack of this.hexes.values()) {
+      for (const hex of hexStack) {
+        if (hex.properties && name in hex.properties) {
+          hex.properties = withPropertyValue(hex.properties, name, null)
+        }
+      }
+    }
+  }
 }
@@ -0,0 +1,271 @@
+/**
+ * MapAnalysis - Statistics and balance report for a map
+ * Terrain and height distribution, buildings per faction color, walkable components
+ * and per-player movement distances to resources and structures
+ */
+
+import { findTileByModelPath } from '../llm/tile-registry'
+import { getModelColor, isBuildingHex } from './Faction'
+import type { Map as GameMap, MapShapeType } from './Map'
+import {
+  type AxialCoord,
+  getEnterCost,
+  getReachableHexes,
+  getStepCost,
+  getSurfaceHex,
+  type UnitProfile,
+} from './Pathfinding'
+
+export const POINT_OF_INTEREST_KINDS = {
+  RESOURCE: 'resource',
+  STRUCTURE: 'structure',
+} as const
+
+export type PointOfInterestKind =
+  (typeof POINT_OF_INTEREST_KINDS)[keyof typeof POINT_OF_INTEREST_KINDS]
+
+// Building counts use the faction color of the model, or this key for neutral buildings
+export const NEUTRAL_BUILDINGS = 'neutral'
+
+const MAX_HEIGHT_LEVEL = 4
+
+export interface PointOfInterest extends AxialCoord {
+  kind: PointOfInterestKind
+  label: string // Tile id or city name
+  costs: Record<string, number | null> // Faction id -> movement cost from its start (null = unreachable)
+}
+
+export interface PlayerReport {
+  factionId: string
+  name: string
+  color: string
+  start: AxialCoord | null
+  reachableHexes: number // Size of the walkable area around the start
+  nearestResource: number | null
+  nearestStructure: number | null
+}
+
+export interface MapReport {
+  width: number
+  height: number
+  shape: MapShapeType
+  positions: number // Cells inside the map shape
+  filledPositions: number // Cells holding at least one hex
+  totalHexes: number // Hexes across all levels
+  terrain: Record<string, number> // Surface terrain -> number of positions
+  levels: number[] // Hexes per height level (index = level)
+  buildings: Record<string, number> // Faction color or 'neutral' -> building hexes
+  components: number[] // Sizes of walkable connected components, largest first
+  players: PlayerReport[]
+  pointsOfInterest: PointOfInterest[]
+}
+
+/**
+ * Resource props (decoration_props_resource_lumber, ..._stone) mark harvestable spots
+ */
+function isResourceTile(tileId: string): boolean {
+  return tileId.includes('_resource_')
+}
+
+/**
+ * Surface hexes a unit can stand on, grouped into areas connected by legal steps
+ */
+export function findWalkableComponents(map: GameMap, profile: UnitProfile = {}): AxialCoord[][] {
+  const visited = new Set<string>()
+  const components: AxialCoord[][] = []
+
+  for (const start of map.getAllCoordinates()) {
+    const startKey = map.getKey(start.q, start.r)
+    const startHex = getSurfaceHex(map, start.q, start.r)
+    if (visited.has(startKey) || !startHex || getEnterCost(startHex, profile) === null) {
+      continue
+    }
+
+    const component: AxialCoord[] = []
+    const queue: AxialCoord[] = [start]
+    visited.add(startKey)
+    while (queue.length > 0) {
+      const current = queue.shift() as AxialCoord
+      const currentHex = getSurfaceHex(map, current.q, current.r)
+      component.push(current)
+      if (!currentHex) continue
+
+      for (const next of map.getNeighborCoordinates(current.q, current.r)) {
+        const nextKey = map.getKey(next.q, next.r)
+        const nextHex = getSurfaceHex(map, next.q, next.r)
+        if (visited.has(nextKey) || !nextHex) continue
+        if (getStepCost(currentHex, nextHex, profile) === null) continue
+        visited.add(nextKey)
+        queue.push(next)
+      }
+    }
+    components.push(component)
+  }
+
+  return components.sort((a, b) => b.length - a.length)
+}
+
+/**
+ * Resources and structures (buildings and cities), one entry per position and kind
+ */
+function findPointsOfInterest(map: GameMap): Array<Omit<PointOfInterest, 'costs'>> {
+  const points: Array<Omit<PointOfInterest, 'costs'>> = []
+  for (const stack of map.hexes.values()) {
+    if (stack.length === 0) continue
+    const { q, r } = stack[0]
+    let resource: string | null = null
+    let structure: string | null = null
+
+    for (const hex of stack) {
+      if (hex.city) {
+        structure = hex.city.name
+      }
+      const tile = hex.modelData ? findTileByModelPath(hex.modelData.obj) : undefined
+      if (!tile) continue
+      if (isResourceTile(tile.tile_id)) {
+        resource ??= tile.tile_id
+      } else if (tile.category === 'buildings') {
+        structure ??= tile.tile_id
+      }
+    }
+
+    if (resource) points.push({ q, r, kind: POINT_OF_INTEREST_KINDS.RESOURCE, label: resource })
+    if (structure) points.push({ q, r, kind: POINT_OF_INTEREST_KINDS.STRUCTURE, label: structure })
+  }
+  return points.sort((a, b) => a.q - b.q || a.r - b.r || a.kind.localeCompare(b.kind))
+}
+
+/**
+ * Compute the full statistics and balance report for a map
+ */
+export function analyzeMap(map: GameMap, profile: UnitProfile = {}): MapReport {
+  const positions = map.getAllCoordinates()
+  const terrain: Record<string, number> = {}
+  const levels: number[] = new Array(MAX_HEIGHT_LEVEL + 1).fill(0)
+  const buildings: Record<string, number> = {}
+  let filledPositions = 0
+  let totalHexes = 0
+
+  for (const stack of map.hexes.values()) {
+    if (stack.length === 0) continue
+    filledPositions++
+    totalHexes += stack.length
+
+    const surface = stack[stack.length - 1]
+    terrain[surface.terrain] = (terrain[surface.terrain] ?? 0) + 1
+
+    for (const hex of stack) {
+      levels[hex.height] = (levels[hex.height] ?? 0) + 1
+      if (hex.modelData && isBuildingHex(hex)) {
+        const color = getModelColor(hex.modelData) ?? NEUTRAL_BUILDINGS
+        buildings[color] = (buildings[color] ?? 0) + 1
+      }
+    }
+  }
+
+  const points = findPointsOfInterest(map)
+  const pointsOfInterest: PointOfInterest[] = points.map((point) => ({ ...point, costs: {} }))
+  const players: PlayerReport[] = map.factions.map((faction) => {
+    // Unlimited budget: Dijkstra over the whole walkable area around the start
+    const reachable = faction.startHex
+      ? getReachableHexes(map, faction.startHex, Number.POSITIVE_INFINITY, profile)
+      : []
+    const costs = new globalThis.Map(reachable.map((hex) => [map.getKey(hex.q, hex.r), hex.cost]))
+
+    const nearest: Record<PointOfInterestKind, number | null> = {
+      [POINT_OF_INTEREST_KINDS.RESOURCE]: null,
+      [POINT_OF_INTEREST_KINDS.STRUCTURE]: null,
+    }
+    for (const point of pointsOfInterest) {
+      const cost = costs.get(map.getKey(point.q, point.r)) ?? null
+      point.costs[faction.id] = cost
+      const best = nearest[point.kind]
+      if (cost !== null && (best === null || cost < best)) {
+        nearest[point.kind] = cost
+      }
+    }
+
+    return {
+      factionId: faction.id,
+      name: faction.name,
+      color: faction.color,
+      start: faction.startHex ? { ...faction.startHex } : null,
+      reachableHexes: reachable.length,
+      nearestResource: nearest[POINT_OF_INTEREST_KINDS.RESOURCE],
+      nearestStructure: nearest[POINT_OF_INTEREST_KINDS.STRUCTURE],
+    }
+  })
+
+  return {
+    width: map.width,
+    height: map.height,
+    shape: map.shape.type,
+    positions: positions.length,
+    filledPositions,
+    totalHexes,
+    terrain,
+    levels,
+    buildings,
+    components: findWalkableComponents(map, profile).map((component) => component.length),
+    players,
+    pointsOfInterest,
+  }
+}
+
+/**
+ * Serialize a report as pretty-printed JSON
+ */
+export function reportToJSON(report: MapReport): string {
+  return JSON.stringify(report, null, 2)
+}
+
+function csvField(value: string | number | null): string {
+  if (value === null) return ''
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serialize a report as a long-format CSV (section,item,player,value).
+ * One value per row keeps the output stable, so two revisions of a map diff cleanly.
+ */
+export function reportToCSV(report: MapReport): string {
+  const rows: Array<Array<string | number | null>> = [['section', 'item', 'player', 'value']]
+
+  rows.push(['map', 'width', null, report.width])
+  rows.push(['map', 'height', null, report.height])
+  rows.push(['map', 'shape', null, report.shape])
+  rows.push(['map', 'positions', null, report.positions])
+  rows.push(['map', 'filled_positions', null, report.filledPositions])
+  rows.push(['map', 'total_hexes', null, report.totalHexes])
+
+  for (const [terrain, count] of Object.entries(report.terrain).sort()) {
+    rows.push(['terrain', terrain, null, count])
+  }
+  report.levels.forEach((count, level) => {
+    rows.push(['level', level, null, count])
+  })
+  for (const [color, count] of Object.entries(report.buildings).sort()) {
+    rows.push(['buildings', color, null, count])
+  }
+  report.components.forEach((size, index) => {
+    rows.push(['component', index + 1, null, size])
+  })
+
+  for (const player of report.players) {
+    const start = player.start ? `${player.start.q},${player.start.r}` : null
+    rows.push(['player', 'start', player.factionId, start])
+    rows.push(['player', 'reachable_hexes', player.factionId, player.reachableHexes])
+    rows.push(['player', 'nearest_resource', player.factionId, player.nearestResource])
+    rows.push(['player', 'nearest_structure', player.factionId, player.nearestStructure])
+  }
+
+  for (const point of report.pointsOfInterest) {
+    const item = `${point.kind} ${point.q},${point.r} ${point.label}`
+    for (const player of report.players) {
+      rows.push(['distance', item, player.factionId, point.costs[player.factionId] ?? null])
+    }
+  }
+
+  return `${rows.map((row) => row.map(csvField).join(',')).join('\n')}\n`
+}
@@ -0,0 +1,191 @@
+/**
+ * MapAutosave - Crash recovery copies of the edited map in IndexedDB
+ * The editor periodically writes the map with its selection and camera into one of a few
+ * rolling slots, overwriting its oldest. Each editor session has its own id and its own slots,
+ * so on startup the slots left by another session that never saved are the work to offer for
+ * recovery; they stay until that work is restored, discarded or too old to keep.
+ * A running session refreshes `aliveAt` on its slots, which keeps an editor open in another tab
+ * from being offered for recovery.
+ * A manual save, load or new map removes the slots of the current session.
+ */
+
+import { openDatabase, requestToPromise, transactionDone } from '../utils/indexedDb'
+import type { MapMetadata } from './MapSerializer'
+
+export const AUTOSAVE_INTERVAL = 30_000 // ms between autosaves of an edited map
+export const AUTOSAVE_SLOTS = 5 // Rolling slots per session
+// Slots refreshed this recently belong to a running editor. Browsers run timers of background
+// tabs as rarely as once a minute, so this is a few autosave intervals.
+export const LIVE_SESSION_TIMEOUT = 3 * AUTOSAVE_INTERVAL
+export const MAX_RECOVERABLE_SESSIONS = 3 // Older sessions are deleted on startup
+export const AUTOSAVE_MAX_AGE = 7 * 24 * 60 * 60 * 1000 // ms
+
+const DB_NAME = 'mapEditor_autosave'
+const DB_VERSION = 1
+const STORE_NAME = 'slots'
+
+export interface AutosaveCamera {
+  target: { x: number; y: number; z: number }
+  angleX: number
+  angleY: number
+  distance: number
+}
+
+export interface AutosaveRecord {
+  slot: number
+  sessionId: string
+  savedAt: number
+  aliveAt?: number // Last time the session was seen running; savedAt when missing
+  mapName: string // Empty for a map that was never saved
+  mapPath: string
+  libraryId?: string // Map library entry the map was opened from or saved to
+  fileMetadata: MapMetadata | null // Metadata of the file the map was loaded from or saved to
+  data: string // MapSerializer.serialize output, with buildings and checkpoints
+  thumbnail?: string // PNG data URL
+  selection: Array<{ q: number; r: number }>
+  camera: AutosaveCamera
+}
+
+export type AutosaveSnapshot = Omit<AutosaveRecord, 'slot'>
+
+export interface RecoveryPlan {
+  records: AutosaveRecord[] // Slots of the session to offer, newest first; empty for none
+  staleSessions: string[] // Sessions to delete: older than AUTOSAVE_MAX_AGE or beyond the cap
+}
+
+/**
+ * Id that tells the slots of this editor session from those left by earlier ones
+ */
+export function createSessionId(): string {
+  return `session_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * Slot for the next autosave of a session: a free one while the session has fewer than
+ * `maxSlots`, otherwise the one it wrote longest ago. Slots of other sessions are never reused.
+ */
+export function pickAutosaveSlot(
+  records: AutosaveRecord[],
+  sessionId: string,
+  maxSlots = AUTOSAVE_SLOTS
+): number {
+  const own = records.filter((record) => record.sessionId === sessionId)
+  if (own.length < maxSlots) {
+    const used = new Set(records.map((record) => record.slot))
+    let slot = 0
+    while (used.has(slot)) slot++
+    return slot
+  }
+  return own.reduce((a, b) => (b.savedAt < a.savedAt ? b : a)).slot
+}
+
+/**
+ * What to do with the slots of other sessions on startup: offer the most recent session that
+ * is no longer running and delete those that are too old or beyond `MAX_RECOVERABLE_SESSIONS`.
+ * Sessions still running in another tab are left alone.
+ */
+export function planRecovery(
+  records: AutosaveRecord[],
+  currentSessionId: string,
+  now = Date.now()
+): RecoveryPlan {
+  const sessions = new globalThis.Map<string, { records: AutosaveRecord[]; lastSeen: number }>()
+  for (const record of records) {
+    if (record.sessionId === currentSessionId) continue
+    const session = sessions.get(record.sessionId) ?? { records: [], lastSeen: 0 }
+    session.records.push(record)
+    session.lastSeen = Math.max(session.lastSeen, record.aliveAt ?? record.savedAt)
+    sessions.set(record.sessionId, session)
+  }
+
+  const ended = [...sessions.entries()]
+    .filter(([, session]) => now - session.lastSeen >= LIVE_SESSION_TIMEOUT)
+    .sort(([, a], [, b]) => b.lastSeen - a.lastSeen)
+  const staleSessions = ended
+    .filter(
+      ([, session], index) =>
+        index >= MAX_RECOVERABLE_SESSIONS || now - session.lastSeen > AUTOSAVE_MAX_AGE
+    )
+    .map(([sessionId]) => sessionId)
+  const offered = ended.find(([sessionId]) => !staleSessions.includes(sessionId))
+
+  return {
+    records: offered ? [...offered[1].records].sort((a, b) => b.savedAt - a.savedAt) : [],
+    staleSessions,
+  }
+}
+
+export class MapAutosaveStore {
+  private db: Promise<IDBDatabase> | null = null
+
+  constructor(private readonly maxSlots = AUTOSAVE_SLOTS) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'slot' })
+        }
+      })
+      // Let a later call retry after a failed open
+      this.db.catch(() => {
+        this.db = null
+      })
+    }
+    return this.db
+  }
+
+  /**
+   * Write a snapshot into the next rolling slot; returns the slot used
+   */
+  async save(snapshot: AutosaveSnapshot): Promise<number> {
+    const db = await this.open()
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    const store = transaction.objectStore(STORE_NAME)
+    const records = await requestToPromise(store.getAll() as IDBRequest<AutosaveRecord[]>)
+    const slot = pickAutosaveSlot(records, snapshot.sessionId, this.maxSlots)
+    store.put({ ...snapshot, slot })
+    await transactionDone(transaction)
+    return slot
+  }
+
+  async list(): Promise<AutosaveRecord[]> {
+    const db = await this.open()
+    const transaction = db.transaction(STORE_NAME, 'readonly')
+    return requestToPromise(
+      transaction.objectStore(STORE_NAME).getAll() as IDBRequest<AutosaveRecord[]>
+    )
+  }
+
+  /**
+   * Mark the slots of a session as belonging to a running editor
+   */
+  async touchSession(sessionId: string, aliveAt = Date.now()): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    const store = transaction.objectStore(STORE_NAME)
+    const records = await requestToPromise(store.getAll() as IDBRequest<AutosaveRecord[]>)
+    for (const record of records) {
+      if (record.sessionId === sessionId) store.put({ ...record, aliveAt })
+    }
+    await transactionDone(transaction)
+  }
+
+  /**
+   * Delete every slot written by a session (its work was saved or discarded)
+   */
+  async removeSession(sessionId: string): Promise<void> {
+    return this.removeSessions([sessionId])
+  }
+
+  async removeSessions(sessionIds: string[]): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(STORE_NAME, 'readwrite')
+    const store = transaction.objectStore(STORE_NAME)
+    const records = await requestToPromise(store.getAll() as IDBRequest<AutosaveRecord[]>)
+    for (const record of records) {
+      if (sessionIds.includes(record.sessionId)) store.delete(record.slot)
+    }
+    await transactionDone(transaction)
+  }
+}
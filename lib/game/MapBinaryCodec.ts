@@ -0,0 +1,447 @@
+/**
+ * MapBinaryCodec - Binary encoding of map files for very large maps
+ * Hex stacks are packed into fixed-size records; everything else (metadata, factions,
+ * units, regions, ...) is kept as a small embedded JSON section so nothing is lost
+ *
+ * Layout (little-endian):
+ *   header: "WMAP" magic, u8 codec version, u8 flags (bit 0 = body is deflate-compressed)
+ *   body:   u32 length + JSON of the file without hexes
+ *           u16 count + terrain ids
+ *           u32 count + palette of models (obj, mtl, name)
+ *           u16 count + owner (faction) ids
+ *           u32 count + custom property sets as JSON (since codec version 2)
+ *           u32 count + stacks: i16 q, i16 r, u8 layers, then per layer
+ *             u8 terrain, u8 height, u8 flags, i8 rotation in 60 degree steps,
+ *             [u16 palette index] [f64 rotation in radians] [u16 owner index]
+ *             [u32 property set index]
+ */
+
+import type { CustomProperties } from './CustomProperties'
+import type { Map as GameMap } from './Map'
+import {
+  type HexData,
+  type MapFileFormat,
+  type MapFileVersion,
+  MapSerializer,
+  type ModelData,
+} from './MapSerializer'
+import { terrainRegistry } from './TerrainRegistry'
+
+export const BINARY_MAP_MAGIC = 'WMAP'
+export const BINARY_MAP_VERSION = 2
+// Version 1 files have no property set table and are still readable
+const MIN_BINARY_MAP_VERSION = 1
+export const BINARY_MAP_EXTENSION = '.wmap'
+
+const HEADER_FLAG_DEFLATE = 1
+
+const LAYER_FLAG_RIVER = 1
+const LAYER_FLAG_MODEL = 2
+const LAYER_FLAG_OWNER = 4
+const LAYER_FLAG_RAW_ROTATION = 8 // Rotation is not a whole number of 60 degree steps
+const LAYER_FLAG_PROPERTIES = 16
+
+const ROTATION_STEP = Math.PI / 3
+
+export interface BinaryEncodeOptions {
+  compress?: boolean // Deflate the body with CompressionStream (default: true)
+}
+
+type MapSizeName = MapFileFormat['metadata']['mapSize']
+
+/**
+ * Growable little-endian byte buffer
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(1024)
+  private view = new DataView(this.buffer.buffer)
+  private length = 0
+  private encoder = new TextEncoder()
+
+  private reserve(bytes: number) {
+    if (this.length + bytes <= this.buffer.length) return
+    let size = this.buffer.length * 2
+    while (size < this.length + bytes) size *= 2
+    const next = new Uint8Array(size)
+    next.set(this.buffer.subarray(0, this.length))
+    this.buffer = next
+    this.view = new DataView(next.buffer)
+  }
+
+  u8(value: number) {
+    this.reserve(1)
+    this.view.setUint8(this.length, value)
+    this.length += 1
+  }
+
+  i8(value: number) {
+    this.reserve(1)
+    this.view.setInt8(this.length, value)
+    this.length += 1
+  }
+
+  u16(value: number) {
+    this.reserve(2)
+    this.view.setUint16(this.length, value, true)
+    this.length += 2
+  }
+
+  i16(value: number) {
+    this.reserve(2)
+    this.view.setInt16(this.length, value, true)
+    this.length += 2
+  }
+
+  u32(value: number) {
+    this.reserve(4)
+    this.view.setUint32(this.length, value, true)
+    this.length += 4
+  }
+
+  f64(value: number) {
+    this.reserve(8)
+    this.view.setFloat64(this.length, value, true)
+    this.length += 8
+  }
+
+  bytes(value: Uint8Array) {
+    this.reserve(value.length)
+    this.buffer.set(value, this.length)
+    this.length += value.length
+  }
+
+  string(value: string) {
+    const encoded = this.encoder.encode(value)
+    if (encoded.length > 0xffff) {
+      throw new Error(`Binary map string too long (${encoded.length} bytes)`)
+    }
+    this.u16(encoded.length)
+    this.bytes(encoded)
+  }
+
+  toBytes(): Uint8Array<ArrayBuffer> {
+    return this.buffer.slice(0, this.length)
+  }
+}
+
+/**
+ * Sequential little-endian reader; throws on truncated input
+ */
+class ByteReader {
+  private view: DataView
+  private offset = 0
+  private decoder = new TextDecoder()
+
+  constructor(private readonly data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  }
+
+  private advance(bytes: number): number {
+    if (this.offset + bytes > this.data.length) {
+      throw new Error('Invalid binary map: unexpected end of data')
+    }
+    const start = this.offset
+    this.offset += bytes
+    return start
+  }
+
+  u8(): number {
+    return this.view.getUint8(this.advance(1))
+  }
+
+  i8(): number {
+    return this.view.getInt8(this.advance(1))
+  }
+
+  u16(): number {
+    return this.view.getUint16(this.advance(2), true)
+  }
+
+  i16(): number {
+    return this.view.getInt16(this.advance(2), true)
+  }
+
+  u32(): number {
+    return this.view.getUint32(this.advance(4), true)
+  }
+
+  f64(): number {
+    return this.view.getFloat64(this.advance(8), true)
+  }
+
+  bytes(length: number): Uint8Array {
+    const start = this.advance(length)
+    return this.data.subarray(start, start + length)
+  }
+
+  string(): string {
+    return this.decoder.decode(this.bytes(this.u16()))
+  }
+}
+
+/**
+ * Assigns stable indices to values in first-seen order
+ */
+class IndexTable<T> {
+  readonly values: T[] = []
+  private indices = new globalThis.Map<string, number>()
+
+  constructor(
+    private readonly limit: number,
+    private readonly label: string
+  ) {}
+
+  indexOf(value: T, key = String(value)): number {
+    let index = this.indices.get(key)
+    if (index === undefined) {
+      index = this.values.length
+      if (index >= this.limit) {
+        throw new Error(`Binary map supports at most ${this.limit} ${this.label}`)
+      }
+      this.values.push(value)
+      this.indices.set(key, index)
+    }
+    return index
+  }
+}
+
+async function pipeBytes(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> {
+  const response = new Response(new Blob([data as BlobPart]).stream().pipeThrough(stream))
+  return new Uint8Array(await response.arrayBuffer())
+}
+
+/**
+ * Check for the binary map magic bytes
+ */
+export function isBinaryMapFile(data: Uint8Array): boolean {
+  if (data.length < BINARY_MAP_MAGIC.length) return false
+  return Array.from(BINARY_MAP_MAGIC).every((char, index) => data[index] === char.charCodeAt(0))
+}
+
+/**
+ * Encode a file structure (2.0 hex layout, see MapSerializer.toMapFile) as binary
+ */
+export async function encodeMapFile(
+  mapFile: MapFileFormat,
+  options: BinaryEncodeOptions = {}
+): Promise<Uint8Array<ArrayBuffer>> {
+  const { hexes, ...rest } = mapFile
+  const terrains = new IndexTable<string>(0xff, 'terrain types')
+  const palette = new IndexTable<ModelData>(0xffff, 'palette entries')
+  const owners = new IndexTable<string>(0xffff, 'owners')
+  const propertySets = new IndexTable<string>(0xffffffff, 'property sets')
+
+  const stacks = new ByteWriter()
+  let stackCount = 0
+  for (const [key, hexStack] of Object.entries(hexes)) {
+    if (hexStack.length === 0) continue
+    const [q, r] = key.split(',').map(Number)
+    stacks.i16(q)
+    stacks.i16(r)
+    stacks.u8(hexStack.length)
+    stackCount++
+
+    for (const hexData of hexStack) {
+      const rotation = hexData.rotation ?? 0
+      const steps = Math.round(rotation / ROTATION_STEP)
+      const isStepRotation = steps * ROTATION_STEP === rotation && steps >= -128 && steps <= 127
+      const flags =
+        (hexData.hasRiver ? LAYER_FLAG_RIVER : 0) |
+        (hexData.modelData ? LAYER_FLAG_MODEL : 0) |
+        (hexData.owner ? LAYER_FLAG_OWNER : 0) |
+        (isStepRotation ? 0 : LAYER_FLAG_RAW_ROTATION) |
+        (hexData.properties ? LAYER_FLAG_PROPERTIES : 0)
+
+      if (typeof hexData.terrain !== 'string') {
+        throw new Error(`Invalid terrain ${hexData.terrain} at hex ${key}`)
+      }
+      stacks.u8(terrains.indexOf(hexData.terrain))
+      stacks.u8(hexData.height ?? 0)
+      stacks.u8(flags)
+      stacks.i8(isStepRotation ? steps : 0)
+      if (hexData.modelData) {
+        const { obj, mtl, name } = hexData.modelData
+        stacks.u16(palette.indexOf({ obj, mtl, name }, JSON.stringify([obj, mtl, name])))
+      }
+      if (!isStepRotation) {
+        stacks.f64(rotation)
+      }
+      if (hexData.owner) {
+        stacks.u16(owners.indexOf(hexData.owner))
+      }
+      if (hexData.properties) {
+        stacks.u32(propertySets.indexOf(JSON.stringify(hexData.properties)))
+      }
+    }
+  }
+
+  const body = new ByteWriter()
+  const extras = new TextEncoder().encode(JSON.stringify(rest))
+  body.u32(extras.length)
+  body.bytes(extras)
+  body.u16(terrains.values.length)
+  for (const terrain of terrains.values) body.string(terrain)
+  body.u32(palette.values.length)
+  for (const model of palette.values) {
+    body.string(model.obj)
+    body.string(model.mtl)
+    body.string(model.name)
+  }
+  body.u16(owners.values.length)
+  for (const owner of owners.values) body.string(owner)
+  body.u32(propertySets.values.length)
+  for (const properties of propertySets.values) body.string(properties)
+  body.u32(stackCount)
+  body.bytes(stacks.toBytes())
+
+  const compress = options.compress ?? true
+  const payload = compress
+    ? await pipeBytes(body.toBytes(), new CompressionStream('deflate'))
+    : body.toBytes()
+
+  const file = new ByteWriter()
+  for (const char of BINARY_MAP_MAGIC) file.u8(char.charCodeAt(0))
+  file.u8(BINARY_MAP_VERSION)
+  file.u8(compress ? HEADER_FLAG_DEFLATE : 0)
+  file.bytes(payload)
+  return file.toBytes()
+}
+
+/**
+ * Decode binary data back to the file structure (2.0 hex layout)
+ */
+export async function decodeMapFile(data: Uint8Array): Promise<MapFileFormat> {
+  if (!isBinaryMapFile(data)) {
+    throw new Error(`Invalid binary map: missing ${BINARY_MAP_MAGIC} header`)
+  }
+  const header = new ByteReader(data)
+  header.bytes(BINARY_MAP_MAGIC.length)
+  const version = header.u8()
+  if (version < MIN_BINARY_MAP_VERSION || version > BINARY_MAP_VERSION) {
+    throw new Error(`Unsupported binary map version: ${version}`)
+  }
+  const flags = header.u8()
+  const payload = data.subarray(BINARY_MAP_MAGIC.length + 2)
+  const body = new ByteReader(
+    flags & HEADER_FLAG_DEFLATE
+      ? await pipeBytes(payload, new DecompressionStream('deflate'))
+      : payload
+  )
+
+  const rest = JSON.parse(new TextDecoder().decode(body.bytes(body.u32()))) as Omit<
+    MapFileFormat,
+    'hexes'
+  >
+  const terrains = Array.from({ length: body.u16() }, () => body.string())
+  // Every terrain is a built-in one or comes with its definition in terrainTypes
+  const knownTerrains = new Set([
+    ...terrainRegistry.getBuiltInIds(),
+    ...(rest.terrainTypes ?? []).map((definition) => definition.id),
+  ])
+  const unknownTerrain = terrains.find((terrain) => !knownTerrains.has(terrain))
+  if (unknownTerrain !== undefined) {
+    throw new Error(`Invalid binary map: unknown terrain type "${unknownTerrain}"`)
+  }
+  const palette = Array.from({ length: body.u32() }, () => ({
+    obj: body.string(),
+    mtl: body.string(),
+    name: body.string(),
+  }))
+  const owners = Array.from({ length: body.u16() }, () => body.string())
+  const propertySets =
+    version >= 2
+      ? Array.from(
+          { length: body.u32() },
+          () => JSON.parse(body.string()) as CustomProperties
+        )
+      : []
+
+  const hexes: Record<string, HexData[]> = {}
+  const stackCount = body.u32()
+  for (let i = 0; i < stackCount; i++) {
+    const q = body.i16()
+    const r = body.i16()
+    const stack: HexData[] = []
+    const layerCount = body.u8()
+    for (let j = 0; j < layerCount; j++) {
+      const terrain = terrains[body.u8()]
+      const height = body.u8()
+      const layerFlags = body.u8()
+      const steps = body.i8()
+      const model = layerFlags & LAYER_FLAG_MODEL ? palette[body.u16()] : undefined
+      const rotation = layerFlags & LAYER_FLAG_RAW_ROTATION ? body.f64() : steps * ROTATION_STEP
+      const owner = layerFlags & LAYER_FLAG_OWNER ? owners[body.u16()] : undefined
+      const properties =
+        layerFlags & LAYER_FLAG_PROPERTIES ? propertySets[body.u32()] : undefined
+      if (
+        terrain === undefined ||
+        (layerFlags & LAYER_FLAG_MODEL && !model) ||
+        (layerFlags & LAYER_FLAG_PROPERTIES && !properties)
+      ) {
+        throw new Error(`Invalid binary map: bad reference at hex ${q},${r}`)
+      }
+
+      stack.push({
+        q,
+        r,
+        terrain,
+        height,
+        ...(rotation !== 0 && { rotation }),
+        ...(model && { modelData: { ...model } }),
+        ...(layerFlags & LAYER_FLAG_RIVER && { hasRiver: true }),
+        ...(owner && { owner }),
+        ...(properties && { properties: { ...properties } }),
+      })
+    }
+    hexes[`${q},${r}`] = stack
+  }
+
+  return { ...rest, hexes }
+}
+
+/**
+ * Encode a map as binary
+ */
+export function encodeMap(
+  map: GameMap,
+  mapSize: MapSizeName,
+  options: BinaryEncodeOptions & Parameters<typeof MapSerializer.toMapFile>[2] = {}
+): Promise<Uint8Array<ArrayBuffer>> {
+  return encodeMapFile(MapSerializer.toMapFile(map, mapSize, options), options)
+}
+
+/**
+ * Decode a binary map (same result as MapSerializer.deserialize)
+ */
+export async function decodeMap(
+  data: Uint8Array
+): Promise<ReturnType<typeof MapSerializer.fromMapFile>> {
+  return MapSerializer.fromMapFile(await decodeMapFile(data))
+}
+
+/**
+ * Convert a JSON map file (2.0 or 3.0) to binary without loading it into a map
+ */
+export async function convertJsonToBinary(
+  jsonString: string,
+  options: BinaryEncodeOptions = {}
+): Promise<Uint8Array<ArrayBuffer>> {
+  const mapFile = MapSerializer.parse(jsonString)
+  if (mapFile.version === '1.0') {
+    throw new Error('Version 1.0 maps must be opened and saved again before converting')
+  }
+  return encodeMapFile(mapFile as MapFileFormat, options)
+}
+
+/**
+ * Convert a binary map back to JSON in the requested version (default: current)
+ */
+export async function convertBinaryToJson(
+  data: Uint8Array,
+  version?: MapFileVersion
+): Promise<string> {
+  return MapSerializer.stringify(await decodeMapFile(data), version)
+}
@@ -0,0 +1,515 @@
+/**
+ * MapDiff - Structured comparison and three-way merge of maps
+ * Maps are compared stack by stack (hexes matched by height level) and building by building;
+ * the changeset lists added, removed and modified hexes with the fields that changed.
+ * The merge applies the edits of both sides to their common ancestor and reports the
+ * coordinates both sides changed differently (see scripts/merge-map.ts, a git merge driver).
+ */
+
+import type { CustomProperties, PropertyDefinition } from './CustomProperties'
+import { PropertySchema } from './CustomProperties'
+import { Faction } from './Faction'
+import type { Hex } from './Hex'
+import { Map as GameMap, type MapShape } from './Map'
+import {
+  type BuildingData,
+  type CityData,
+  type FactionData,
+  type HexData,
+  MapSerializer,
+  type RegionData,
+  type UnitData,
+} from './MapSerializer'
+import { Region, RegionLayer } from './RegionLayer'
+
+// A hex with the unit and city standing on it, as plain data
+export interface HexSnapshot extends HexData {
+  unit?: UnitData
+  city?: CityData
+}
+
+// Everything about a map except its hexes
+export interface MapState {
+  width: number
+  height: number
+  shape: MapShape
+  factions: FactionData[]
+  regions: RegionData[]
+  propertySchema: PropertyDefinition[]
+  properties: CustomProperties
+}
+
+// A map with the buildings placed on it (the shape MapSerializer.deserialize returns)
+export interface MapContent {
+  map: GameMap
+  buildings?: BuildingData[]
+}
+
+export const CHANGE_TYPES = {
+  ADDED: 'added',
+  REMOVED: 'removed',
+  MODIFIED: 'modified',
+} as const
+
+export type ChangeType = (typeof CHANGE_TYPES)[keyof typeof CHANGE_TYPES]
+
+export interface FieldChange {
+  field: string
+  before: unknown // undefined when the field was not set
+  after: unknown
+}
+
+export interface HexChange {
+  type: ChangeType
+  q: number
+  r: number
+  height: number
+  before: HexSnapshot | null
+  after: HexSnapshot | null
+  fields: FieldChange[] // Changed fields of modified hexes (empty for added and removed ones)
+}
+
+export interface BuildingChange {
+  type: ChangeType
+  key: string // See getBuildingKey
+  before: BuildingData | null
+  after: BuildingData | null
+  fields: FieldChange[]
+}
+
+export interface MapDiff {
+  hexes: HexChange[]
+  buildings: BuildingChange[]
+  map: FieldChange[] // Changed MapState fields (width, factions, regions, ...)
+}
+
+export const MERGE_CONFLICT_KINDS = {
+  HEX: 'hex',
+  BUILDING: 'building',
+  MAP: 'map',
+} as const
+
+export type MergeConflictKind = (typeof MERGE_CONFLICT_KINDS)[keyof typeof MERGE_CONFLICT_KINDS]
+
+/**
+ * Something both sides changed differently; the merged map keeps "ours" there.
+ * - hex: key is the "q,r" position, fields the hex fields ("hex" = added/removed on one side)
+ * - building: key as in getBuildingKey, fields the building fields ("building" = added/removed)
+ * - map: key is the MapState field, fields the ids/names inside it ("size" for the bounds)
+ */
+export interface MergeConflict {
+  kind: MergeConflictKind
+  key: string
+  height?: number // Level of the conflicting hex
+  fields: string[]
+}
+
+export interface MergeResult {
+  map: GameMap
+  buildings: BuildingData[]
+  conflicts: MergeConflict[]
+}
+
+const HEX_KEY_FIELDS = ['q', 'r', 'height']
+
+/**
+ * Deep equality of plain data (snapshots, file structures); object key order does not matter
+ */
+export function isSameData(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isSameData(item, b[index]))
+  }
+
+  const objectA = a as Record<string, unknown>
+  const objectB = b as Record<string, unknown>
+  const keys = Object.keys(objectA).filter((key) => objectA[key] !== undefined)
+  return (
+    keys.length === Object.keys(objectB).filter((key) => objectB[key] !== undefined).length &&
+    keys.every((key) => isSameData(objectA[key], objectB[key]))
+  )
+}
+
+export function snapshotHex(hex: Hex): HexSnapshot {
+  return {
+    ...MapSerializer.toHexData(hex),
+    ...(hex.unit && { unit: MapSerializer.serializeUnit(hex, hex.unit) }),
+    ...(hex.city && { city: MapSerializer.serializeCity(hex, hex.city) }),
+  }
+}
+
+export function restoreHex(snapshot: HexSnapshot): Hex {
+  const { unit, city, ...hexData } = snapshot
+  const hex = MapSerializer.fromHexData(hexData)
+  if (unit) hex.unit = MapSerializer.deserializeUnit(unit)
+  if (city) hex.city = MapSerializer.deserializeCity(city)
+  return hex
+}
+
+/**
+ * All hexes at a position, lowest level first
+ */
+export function snapshotStack(map: GameMap, q: number, r: number): HexSnapshot[] {
+  return (map.hexes.get(map.getKey(q, r)) ?? []).map(snapshotHex)
+}
+
+/**
+ * Replace the hexes at a position (an empty list clears it)
+ */
+export function restoreStack(map: GameMap, q: number, r: number, snapshots: HexSnapshot[]) {
+  map.hexes.delete(map.getKey(q, r))
+  for (const snapshot of snapshots) {
+    map.setHex(q, r, restoreHex(snapshot))
+  }
+}
+
+export function snapshotMapState(map: GameMap): MapState {
+  return {
+    width: map.width,
+    height: map.height,
+    shape: structuredClone(map.shape),
+    factions: map.factions.map((faction) => ({
+      id: faction.id,
+      name: faction.name,
+      color: faction.color,
+      ...(faction.startHex && { startHex: { ...faction.startHex } }),
+    })),
+    regions: map.regions.getRegions().map((region) => ({
+      id: region.id,
+      name: region.name,
+      color: region.color,
+      kind: region.kind,
+      hexes: Array.from(region.hexes),
+    })),
+    propertySchema: structuredClone(map.propertySchema.getDefinitions()),
+    properties: { ...map.properties },
+  }
+}
+
+/**
+ * Put back everything but the hexes (bounds first, so restoreStack accepts the saved positions)
+ */
+export function restoreMapState(map: GameMap, state: MapState) {
+  map.setBounds(state.width, state.height, structuredClone(state.shape))
+  map.factions = state.factions.map(
+    (data) =>
+      new Faction(data.id, data.name, data.color, data.startHex ? { ...data.startHex } : null)
+  )
+  map.regions = new RegionLayer()
+  for (const data of state.regions) {
+    const region = new Region(data.id, data.name, data.color, data.kind)
+    for (const key of data.hexes) {
+      region.hexes.add(key)
+    }
+    map.regions.addRegion(region)
+  }
+  map.propertySchema = new PropertySchema(state.propertySchema)
+  map.properties = { ...state.properties }
+}
+
+/**
+ * Key of a building position: "q,r", or "q,r_height" for buildings saved with a level
+ * (the key format of SerializeOptions.buildingData)
+ */
+export function getBuildingKey(building: { q: number; r: number; height?: number }): string {
+  return building.height === undefined
+    ? `${building.q},${building.r}`
+    : `${building.q},${building.r}_${building.height}`
+}
+
+function diffFields(before: object, after: object, ignoredFields: string[] = []): FieldChange[] {
+  const valuesBefore = before as Record<string, unknown>
+  const valuesAfter = after as Record<string, unknown>
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)])
+  const changes: FieldChange[] = []
+  for (const field of fields) {
+    if (ignoredFields.includes(field)) continue
+    if (!isSameData(valuesBefore[field], valuesAfter[field])) {
+      changes.push({ field, before: valuesBefore[field], after: valuesAfter[field] })
+    }
+  }
+  return changes
+}
+
+function diffEntry<T extends object>(
+  before: T | undefined,
+  after: T | undefined,
+  ignoredFields: string[]
+): { type: ChangeType; fields: FieldChange[] } | null {
+  if (!before && !after) return null
+  if (!before) return { type: CHANGE_TYPES.ADDED, fields: [] }
+  if (!after) return { type: CHANGE_TYPES.REMOVED, fields: [] }
+  const fields = diffFields(before, after, ignoredFields)
+  return fields.length > 0 ? { type: CHANGE_TYPES.MODIFIED, fields } : null
+}
+
+function getHeights(...stacks: HexSnapshot[][]): number[] {
+  return [...new Set(stacks.flat().map((hex) => hex.height))].sort((a, b) => a - b)
+}
+
+function getStackKeys(...maps: GameMap[]): string[] {
+  return [...new Set(maps.flatMap((map) => [...map.hexes.keys()]))]
+}
+
+function indexBuildings(buildings: BuildingData[] = []): globalThis.Map<string, BuildingData> {
+  return new globalThis.Map(buildings.map((building) => [getBuildingKey(building), building]))
+}
+
+/**
+ * Compare two versions of a map; `before` is the older one
+ */
+export function diffMaps(before: MapContent, after: MapContent): MapDiff {
+  const hexes: HexChange[] = []
+  for (const key of getStackKeys(before.map, after.map)) {
+    const [q, r] = key.split(',').map(Number)
+    const stackBefore = snapshotStack(before.map, q, r)
+    const stackAfter = snapshotStack(after.map, q, r)
+    if (isSameData(stackBefore, stackAfter)) continue
+
+    for (const height of getHeights(stackBefore, stackAfter)) {
+      const hexBefore = stackBefore.find((hex) => hex.height === height)
+      const hexAfter = stackAfter.find((hex) => hex.height === height)
+      const change = diffEntry(hexBefore, hexAfter, HEX_KEY_FIELDS)
+      if (change) {
+        hexes.push({ ...change, q, r, height, before: hexBefore ?? null, after: hexAfter ?? null })
+      }
+    }
+  }
+
+  const buildings: BuildingChange[] = []
+  const buildingsBefore = indexBuildings(before.buildings)
+  const buildingsAfter = indexBuildings(after.buildings)
+  for (const key of new Set([...buildingsBefore.keys(), ...buildingsAfter.keys()])) {
+    const buildingBefore = buildingsBefore.get(key)
+    const buildingAfter = buildingsAfter.get(key)
+    const change = diffEntry(buildingBefore, buildingAfter, HEX_KEY_FIELDS)
+    if (change) {
+      buildings.push({
+        ...change,
+        key,
+        before: buildingBefore ?? null,
+        after: buildingAfter ?? null,
+      })
+    }
+  }
+
+  return {
+    hexes,
+    buildings,
+    map: diffFields(snapshotMapState(before.map), snapshotMapState(after.map)),
+  }
+}
+
+export function isDiffEmpty(diff: MapDiff): boolean {
+  return diff.hexes.length === 0 && diff.buildings.length === 0 && diff.map.length === 0
+}
+
+/**
+ * One entry per changed position (hexes and buildings), for highlighting a diff on the map.
+ * A position whose changes are all additions (removals) counts as added (removed).
+ */
+export function getChangedPositions(
+  diff: MapDiff
+): Array<{ q: number; r: number; type: ChangeType }> {
+  const positions = new globalThis.Map<string, { q: number; r: number; type: ChangeType }>()
+  const add = (q: number, r: number, type: ChangeType) => {
+    const key = `${q},${r}`
+    const existing = positions.get(key)
+    positions.set(key, {
+      q,
+      r,
+      type: existing && existing.type !== type ? CHANGE_TYPES.MODIFIED : type,
+    })
+  }
+
+  for (const change of diff.hexes) {
+    add(change.q, change.r, change.type)
+  }
+  for (const change of diff.buildings) {
+    const building = (change.after ?? change.before) as BuildingData
+    add(building.q, building.r, change.type)
+  }
+  return Array.from(positions.values())
+}
+
+// Three-way pick of one value: a side that changed it wins; both changing it differently conflicts
+function mergeValue<T>(base: T, ours: T, theirs: T): { value: T; conflict: boolean } {
+  if (isSameData(ours, theirs) || isSameData(theirs, base)) {
+    return { value: ours, conflict: false }
+  }
+  if (isSameData(ours, base)) {
+    return { value: theirs, conflict: false }
+  }
+  return { value: ours, conflict: true }
+}
+
+// Field by field three-way merge of one object
+function mergeFields<T extends object>(
+  base: T,
+  ours: T,
+  theirs: T
+): { value: T; conflicts: string[] } {
+  const [valuesBase, valuesOurs, valuesTheirs] = [base, ours, theirs] as Array<
+    Record<string, unknown>
+  >
+  const value: Record<string, unknown> = {}
+  const conflicts: string[] = []
+  for (const field of new Set([
+    ...Object.keys(base),
+    ...Object.keys(ours),
+    ...Object.keys(theirs),
+  ])) {
+    const merged = mergeValue(valuesBase[field], valuesOurs[field], valuesTheirs[field])
+    if (merged.conflict) conflicts.push(field)
+    if (merged.value !== undefined) value[field] = merged.value
+  }
+  return { value: value as T, conflicts }
+}
+
+// Three-way merge of an optional object (a hex level, a building): `entry` names the
+// conflict when one side added or removed it and the other changed it
+function mergeEntry<T extends object>(
+  entry: string,
+  base: T | undefined,
+  ours: T | undefined,
+  theirs: T | undefined
+): { value: T | undefined; conflicts: string[] } {
+  const merged = mergeValue(base, ours, theirs)
+  if (!merged.conflict) return { value: merged.value, conflicts: [] }
+  if (base && ours && theirs) return mergeFields(base, ours, theirs)
+  return { value: ours, conflicts: [entry] }
+}
+
+// Three-way merge of a list of items with ids; ours keeps its order, their additions follow
+function mergeById<T>(
+  base: T[],
+  ours: T[],
+  theirs: T[],
+  getId: (item: T) => string
+): { value: T[]; conflicts: string[] } {
+  const index = (items: T[]) => new globalThis.Map(items.map((item) => [getId(item), item]))
+  const [itemsBase, itemsOurs, itemsTheirs] = [index(base), index(ours), index(theirs)]
+  const ids = [...itemsOurs.keys(), ...[...itemsTheirs.keys()].filter((id) => !itemsOurs.has(id))]
+
+  const value: T[] = []
+  const conflicts: string[] = []
+  for (const id of ids) {
+    const merged = mergeValue(itemsBase.get(id), itemsOurs.get(id), itemsTheirs.get(id))
+    if (merged.conflict) conflicts.push(id)
+    if (merged.value !== undefined) value.push(merged.value)
+  }
+  return { value, conflicts }
+}
+
+function mergeMapState(
+  base: MapState,
+  ours: MapState,
+  theirs: MapState,
+  conflicts: MergeConflict[]
+): MapState {
+  const bounds = (state: MapState) => ({
+    width: state.width,
+    height: state.height,
+    shape: state.shape,
+  })
+  const size = mergeValue(bounds(base), bounds(ours), bounds(theirs))
+  if (size.conflict) {
+    conflicts.push({ kind: MERGE_CONFLICT_KINDS.MAP, key: 'size', fields: ['size'] })
+  }
+
+  const byId = <T>(field: string, pick: (state: MapState) => T[], getId: (item: T) => string) => {
+    const merged = mergeById(pick(base), pick(ours), pick(theirs), getId)
+    if (merged.conflicts.length > 0) {
+      conflicts.push({ kind: MERGE_CONFLICT_KINDS.MAP, key: field, fields: merged.conflicts })
+    }
+    return merged.value
+  }
+
+  return {
+    ...size.value,
+    factions: byId(
+      'factions',
+      (state) => state.factions,
+      (faction) => faction.id
+    ),
+    regions: byId(
+      'regions',
+      (state) => state.regions,
+      (region) => region.id
+    ),
+    propertySchema: byId(
+      'propertySchema',
+      (state) => state.propertySchema,
+      (definition) => definition.name
+    ),
+    properties: Object.fromEntries(
+      byId(
+        'properties',
+        (state) => Object.entries(state.properties),
+        ([name]) => name
+      )
+    ),
+  }
+}
+
+/**
+ * Three-way merge: apply the changes `ours` and `theirs` made to their common ancestor `base`.
+ * Edits on different positions, levels or fields combine; where both sides changed the same
+ * thing differently the result keeps ours and the conflict is reported.
+ */
+export function mergeMaps(base: MapContent, ours: MapContent, theirs: MapContent): MergeResult {
+  const conflicts: MergeConflict[] = []
+
+  const state = mergeMapState(
+    snapshotMapState(base.map),
+    snapshotMapState(ours.map),
+    snapshotMapState(theirs.map),
+    conflicts
+  )
+  const map = new GameMap(state.width, state.height, state.shape)
+  restoreMapState(map, state)
+
+  for (const key of getStackKeys(base.map, ours.map, theirs.map)) {
+    const [q, r] = key.split(',').map(Number)
+    const stacks = [base.map, ours.map, theirs.map].map((side) => snapshotStack(side, q, r))
+    const [stackBase, stackOurs, stackTheirs] = stacks
+
+    const stack: HexSnapshot[] = []
+    for (const height of getHeights(...stacks)) {
+      const level = (hexes: HexSnapshot[]) => hexes.find((hex) => hex.height === height)
+      const merged = mergeEntry('hex', level(stackBase), level(stackOurs), level(stackTheirs))
+      if (merged.conflicts.length > 0) {
+        conflicts.push({ kind: MERGE_CONFLICT_KINDS.HEX, key, height, fields: merged.conflicts })
+      }
+      if (merged.value) stack.push(merged.value)
+    }
+
+    if (stack.length === 0) continue
+    if (!map.isValidCoordinate(q, r)) {
+      conflicts.push({ kind: MERGE_CONFLICT_KINDS.HEX, key, fields: ['shape'] })
+      continue
+    }
+    restoreStack(map, q, r, stack)
+  }
+
+  const buildings: BuildingData[] = []
+  const buildingsBase = indexBuildings(base.buildings)
+  const buildingsOurs = indexBuildings(ours.buildings)
+  const buildingsTheirs = indexBuildings(theirs.buildings)
+  for (const key of new Set([...buildingsOurs.keys(), ...buildingsTheirs.keys()])) {
+    const merged = mergeEntry(
+      'building',
+      buildingsBase.get(key),
+      buildingsOurs.get(key),
+      buildingsTheirs.get(key)
+    )
+    if (merged.conflicts.length > 0) {
+      conflicts.push({ kind: MERGE_CONFLICT_KINDS.BUILDING, key, fields: merged.conflicts })
+    }
+    if (merged.value) buildings.push(merged.value)
+  }
+
+  return { map, buildings, conflicts }
+}
@@ -0,0 +1,633 @@
+/**
+ * MapHistory - Undo/redo as patches instead of full map snapshots
+ * Every step stores only what it changed: the stacks (before and after), the buildings and,
+ * for map-wide edits, the map state (bounds, factions, regions, property schema).
+ * Undoing a step puts back just those stacks, so the editor re-renders only their positions.
+ *
+ * An edit opens a step with begin(), calls touch*() for everything before changing it and
+ * closes the step with commit(). Nested begin/commit pairs join the outermost step, which
+ * groups multi-hex operations (Delete on a multi-selection, paste) into one undoable step.
+ * Edits that await (model loading) use record() instead: each recording is a step of its own,
+ * so an edit made while another one is still loading doesn't end up in the same step.
+ *
+ * Steps form a tree: an edit after an undo starts a new branch and keeps the undone steps,
+ * and jumpTo() reaches any recorded state. Named checkpoints mark states to come back to;
+ * exportCheckpoints() turns them into patches against the current map for the map file.
+ */
+
+import type { Map as GameMap } from './Map'
+import {
+  type HexSnapshot,
+  isSameData,
+  type MapState,
+  restoreMapState,
+  restoreStack,
+  snapshotMapState,
+  snapshotStack,
+} from './MapDiff'
+import type { BuildingData, CheckpointData } from './MapSerializer'
+
+export interface StackPatch {
+  q: number
+  r: number
+  before: HexSnapshot[]
+  after: HexSnapshot[]
+}
+
+// Buildings live outside the map (see SerializeOptions.buildingData); null = no building
+export interface BuildingPatch {
+  key: string // "q,r"
+  before: BuildingData | null
+  after: BuildingData | null
+}
+
+export interface HistoryStep {
+  label: string // Shown in the history panel and notifications, e.g. "Delete 3 hexes"
+  timestamp: number
+  stacks: StackPatch[]
+  buildings: BuildingPatch[]
+  mapState?: { before: MapState; after: MapState }
+  size: number // Approximate memory use in bytes
+}
+
+// What undo/redo/jumpTo changed, so the caller can update the scene
+export interface HistoryChange {
+  label: string // Label of the step undone or redone, or of the entry jumped to
+  positions: Array<{ q: number; r: number }> // Stacks that were replaced
+  buildings: Array<{ key: string; building: BuildingData | null }>
+  boundsChanged: boolean // Width, height or shape changed: grids and all meshes need a rebuild
+}
+
+// One recorded state, for the history panel
+export interface HistoryEntry {
+  id: number
+  parentId: number | null // null for the root: the map when the history began
+  label: string
+  timestamp: number
+  current: boolean // The state the map is in
+  applied: boolean // The current state or one of its ancestors (undo goes through these)
+  active: boolean // On the line undo/redo move along; false for abandoned branches
+}
+
+export interface HistoryCheckpoint {
+  id: number
+  name: string
+  entryId: number
+  createdAt: number
+}
+
+export interface MapHistoryOptions {
+  maxSteps?: number // Default: 200
+  maxBytes?: number // Default: 32 MB, oldest steps are dropped first
+}
+
+interface HistoryNode {
+  id: number
+  parent: HistoryNode | null
+  children: HistoryNode[]
+  step: HistoryStep | null // Edit from the parent's state to this one; null for the root
+  redoChild: HistoryNode | null // Where redo() goes: the newest or last visited branch
+}
+
+// The map-changing part of a step
+type Patch = Pick<HistoryStep, 'stacks' | 'buildings' | 'mapState'>
+
+const DEFAULT_MAX_STEPS = 200
+const DEFAULT_MAX_BYTES = 32 * 1024 * 1024
+const ROOT_LABEL = 'Start'
+
+// JSON length in UTF-16 code units is a fair estimate of the retained snapshot objects
+function estimateSize(step: HistoryStep): number {
+  return JSON.stringify(step).length * 2
+}
+
+function reversePatch(patch: Patch): Patch {
+  return {
+    stacks: patch.stacks.map(({ q, r, before, after }) => ({ q, r, before: after, after: before })),
+    buildings: patch.buildings.map(({ key, before, after }) => ({
+      key,
+      before: after,
+      after: before,
+    })),
+    ...(patch.mapState && {
+      mapState: { before: patch.mapState.after, after: patch.mapState.before },
+    }),
+  }
+}
+
+// One patch with the effect of applying the given ones in order
+function composePatches(patches: Patch[]): Patch {
+  const stacks = new globalThis.Map<string, StackPatch>()
+  const buildings = new globalThis.Map<string, BuildingPatch>()
+  let mapState: Patch['mapState']
+
+  for (const patch of patches) {
+    for (const stack of patch.stacks) {
+      const key = `${stack.q},${stack.r}`
+      stacks.set(key, { ...stack, before: stacks.get(key)?.before ?? stack.before })
+    }
+    for (const building of patch.buildings) {
+      const first = buildings.get(building.key)
+      buildings.set(building.key, { ...building, before: first ? first.before : building.before })
+    }
+    if (patch.mapState) {
+      mapState = {
+        before: mapState?.before ?? patch.mapState.before,
+        after: patch.mapState.after,
+      }
+    }
+  }
+
+  return {
+    stacks: [...stacks.values()].filter((patch) => !isSameData(patch.before, patch.after)),
+    buildings: [...buildings.values()].filter((patch) => !isSameData(patch.before, patch.after)),
+    ...(mapState && !isSameData(mapState.before, mapState.after) && { mapState }),
+  }
+}
+
+/**
+ * An open step: what an edit touched, as it was before the edit changed it
+ */
+export class HistoryRecording {
+  readonly stacks = new globalThis.Map<string, { q: number; r: number; before: HexSnapshot[] }>()
+  readonly buildings = new globalThis.Map<string, BuildingData | null>()
+  mapState: MapState | null = null
+  allStacks = false // Also record stacks that appear at new positions (resize)
+
+  constructor(readonly label: string) {}
+
+  /**
+   * Record the stack at a position before it changes (the first call per step counts)
+   */
+  touch(map: GameMap, q: number, r: number) {
+    const key = map.getKey(q, r)
+    if (this.stacks.has(key)) return
+    this.stacks.set(key, { q, r, before: snapshotStack(map, q, r) })
+  }
+
+  /**
+   * Record every stack, for edits that may change any of them (resize, reconcile terrain).
+   * Only the stacks that really changed end up in the step.
+   */
+  touchAll(map: GameMap) {
+    for (const hexStack of map.hexes.values()) {
+      if (hexStack.length > 0) this.touch(map, hexStack[0].q, hexStack[0].r)
+    }
+    this.allStacks = true
+  }
+
+  touchBuilding(key: string, building: BuildingData | null) {
+    if (this.buildings.has(key)) return
+    this.buildings.set(key, building && structuredClone(building))
+  }
+
+  /**
+   * Record the map state (bounds, factions, regions, custom properties) before it changes
+   */
+  touchMapState(map: GameMap) {
+    if (this.mapState) return
+    this.mapState = snapshotMapState(map)
+  }
+}
+
+export class MapHistory {
+  private root!: HistoryNode
+  private current!: HistoryNode
+  private nodes = new globalThis.Map<number, HistoryNode>()
+  private nextId = 0
+  private checkpoints: HistoryCheckpoint[] = []
+  private pending: HistoryRecording | null = null
+  private depth = 0 // Open begin() calls
+  private bytes = 0
+  private maxSteps: number
+  private maxBytes: number
+
+  constructor(options: MapHistoryOptions = {}) {
+    this.maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES
+    this.clear()
+  }
+
+  /**
+   * Open a step (or join the step that is already open)
+   */
+  begin(label: string) {
+    if (this.depth++ === 0) this.pending = new HistoryRecording(label)
+  }
+
+  touch(map: GameMap, q: number, r: number) {
+    this.pending?.touch(map, q, r)
+  }
+
+  touchAll(map: GameMap) {
+    this.pending?.touchAll(map)
+  }
+
+  touchBuilding(key: string, building: BuildingData | null) {
+    this.pending?.touchBuilding(key, building)
+  }
+
+  touchMapState(map: GameMap) {
+    this.pending?.touchMapState(map)
+  }
+
+  /**
+   * Close the step opened by the matching begin(). The outermost commit records the step
+   * (see commitRecording); returns it, or null when the step is still open or nothing changed.
+   */
+  commit(
+    map: GameMap,
+    getBuilding: (key: string) => BuildingData | null = () => null
+  ): HistoryStep | null {
+    if (this.depth === 0 || --this.depth > 0 || !this.pending) return null
+    const pending = this.pending
+    this.pending = null
+    return this.commitRecording(pending, map, getBuilding)
+  }
+
+  /**
+   * Open a step that is independent of begin() and of other recordings
+   */
+  record(label: string): HistoryRecording {
+    return new HistoryRecording(label)
+  }
+
+  /**
+   * Compare everything the recording touched with its current state and store the differences
+   * as a child of the current state; returns the step, or null when nothing changed
+   */
+  commitRecording(
+    recording: HistoryRecording,
+    map: GameMap,
+    getBuilding: (key: string) => BuildingData | null = () => null
+  ): HistoryStep | null {
+    if (recording.allStacks) {
+      for (const [key, hexStack] of map.hexes) {
+        if (hexStack.length > 0 && !recording.stacks.has(key)) {
+          recording.stacks.set(key, { q: hexStack[0].q, r: hexStack[0].r, before: [] })
+        }
+      }
+    }
+
+    const stacks: StackPatch[] = []
+    for (const { q, r, before } of recording.stacks.values()) {
+      const after = snapshotStack(map, q, r)
+      if (!isSameData(before, after)) stacks.push({ q, r, before, after })
+    }
+
+    const buildings: BuildingPatch[] = []
+    for (const [key, before] of recording.buildings) {
+      const after = getBuilding(key)
+      if (!isSameData(before, after)) {
+        buildings.push({ key, before, after: after && structuredClone(after) })
+      }
+    }
+
+    const stateAfter = recording.mapState && snapshotMapState(map)
+    const mapState =
+      recording.mapState && stateAfter && !isSameData(recording.mapState, stateAfter)
+        ? { before: recording.mapState, after: stateAfter }
+        : undefined
+
+    if (stacks.length === 0 && buildings.length === 0 && !mapState) return null
+
+    const step: HistoryStep = {
+      label: recording.label,
+      timestamp: Date.now(),
+      stacks,
+      buildings,
+      ...(mapState && { mapState }),
+      size: 0,
+    }
+    step.size = estimateSize(step)
+
+    // A new edit after undo starts a branch; the undone steps stay reachable through jumpTo()
+    this.current = this.addNode(this.current, step)
+    this.prune()
+    return step
+  }
+
+  /**
+   * Discard the open step without recording it
+   */
+  cancel() {
+    this.pending = null
+    this.depth = 0
+  }
+
+  canUndo(): boolean {
+    return this.current.parent !== null
+  }
+
+  canRedo(): boolean {
+    return this.current.redoChild !== null
+  }
+
+  undo(map: GameMap): HistoryChange | null {
+    const node = this.current
+    if (!node.parent || !node.step) return null
+    this.current = node.parent
+    this.current.redoChild = node
+    return this.apply(map, reversePatch(node.step), node.step.label)
+  }
+
+  redo(map: GameMap): HistoryChange | null {
+    const node = this.current.redoChild
+    if (!node?.step) return null
+    this.current = node
+    return this.apply(map, node.step, node.step.label)
+  }
+
+  /**
+   * Bring the map to a recorded state: undo up to the common ancestor, then redo down the
+   * target's branch. Redo continues along that branch afterwards.
+   */
+  jumpTo(map: GameMap, entryId: number): HistoryChange | null {
+    const target = this.nodes.get(entryId)
+    if (!target || target === this.current) return null
+
+    const patch = composePatches(this.getPath(target))
+    for (let node: HistoryNode = target; node.parent; node = node.parent) {
+      node.parent.redoChild = node
+    }
+    this.current = target
+    return this.apply(map, patch, target.step?.label ?? ROOT_LABEL)
+  }
+
+  /**
+   * Forget every step and checkpoint (new or loaded map)
+   */
+  clear() {
+    this.nodes.clear()
+    this.root = this.createNode(null, null)
+    this.current = this.root
+    this.checkpoints = []
+    this.bytes = 0
+    this.cancel()
+  }
+
+  /**
+   * Steps along the line undo/redo move on, oldest first
+   */
+  getSteps(): HistoryStep[] {
+    return this.getLine().flatMap((node) => (node.step ? [node.step] : []))
+  }
+
+  /**
+   * Every recorded state, branches included, in the order they were recorded
+   */
+  getEntries(): HistoryEntry[] {
+    const active = new Set(this.getLine())
+    const applied = new Set(this.getAncestors(this.current))
+    return [...this.nodes.values()]
+      .sort((a, b) => a.id - b.id)
+      .map((node) => ({
+        id: node.id,
+        parentId: node.parent?.id ?? null,
+        label: node.step?.label ?? ROOT_LABEL,
+        timestamp: node.step?.timestamp ?? 0,
+        current: node === this.current,
+        applied: applied.has(node),
+        active: active.has(node),
+      }))
+  }
+
+  getCurrentId(): number {
+    return this.current.id
+  }
+
+  // Memory estimate of all stored steps
+  getSize(): number {
+    return this.bytes
+  }
+
+  /**
+   * Name the current state. Checkpointed states are never dropped to save memory.
+   */
+  addCheckpoint(name: string, createdAt = Date.now()): HistoryCheckpoint {
+    const checkpoint = { id: this.nextId++, name, entryId: this.current.id, createdAt }
+    this.checkpoints.push(checkpoint)
+    return checkpoint
+  }
+
+  removeCheckpoint(id: number) {
+    this.checkpoints = this.checkpoints.filter((checkpoint) => checkpoint.id !== id)
+  }
+
+  getCheckpoints(): HistoryCheckpoint[] {
+    return [...this.checkpoints]
+  }
+
+  /**
+   * Checkpoints as file data: what differs between the current map and each checkpoint
+   */
+  exportCheckpoints(): CheckpointData[] {
+    return this.checkpoints.flatMap((checkpoint) => {
+      const node = this.nodes.get(checkpoint.entryId)
+      if (!node) return []
+      const patch = composePatches(this.getPath(node))
+      return [
+        {
+          name: checkpoint.name,
+          createdAt: checkpoint.createdAt,
+          stacks: Object.fromEntries(patch.stacks.map(({ q, r, after }) => [`${q},${r}`, after])),
+          ...(patch.buildings.length > 0 && {
+            buildings: Object.fromEntries(patch.buildings.map(({ key, after }) => [key, after])),
+          }),
+          ...(patch.mapState && { mapState: patch.mapState.after }),
+        },
+      ]
+    })
+  }
+
+  /**
+   * Restore checkpoints saved with the map (see exportCheckpoints); each one becomes a branch
+   * off the current state, which must be the map they were saved with
+   */
+  importCheckpoints(
+    map: GameMap,
+    checkpoints: CheckpointData[],
+    getBuilding: (key: string) => BuildingData | null = () => null
+  ) {
+    for (const data of checkpoints) {
+      const stacks = Object.entries(data.stacks).map(([key, after]) => {
+        const [q, r] = key.split(',').map(Number)
+        return { q, r, before: snapshotStack(map, q, r), after }
+      })
+      const buildings = Object.entries(data.buildings ?? {}).map(([key, after]) => ({
+        key,
+        before: getBuilding(key),
+        after,
+      }))
+      const step: HistoryStep = {
+        label: `Checkpoint "${data.name}"`,
+        timestamp: data.createdAt,
+        ...composePatches([
+          {
+            stacks,
+            buildings,
+            ...(data.mapState && {
+              mapState: { before: snapshotMapState(map), after: data.mapState },
+            }),
+          },
+        ]),
+        size: 0,
+      }
+      step.size = estimateSize(step)
+
+      // A checkpoint of the saved state itself names the current state
+      const redoChild = this.current.redoChild
+      const node =
+        step.stacks.length > 0 || step.buildings.length > 0 || step.mapState
+          ? this.addNode(this.current, step)
+          : this.current
+      this.current.redoChild = redoChild // Loading does not make redo go to a checkpoint
+      this.checkpoints.push({
+        id: this.nextId++,
+        name: data.name,
+        entryId: node.id,
+        createdAt: data.createdAt,
+      })
+    }
+  }
+
+  private createNode(parent: HistoryNode | null, step: HistoryStep | null): HistoryNode {
+    const node: HistoryNode = { id: this.nextId++, parent, children: [], step, redoChild: null }
+    this.nodes.set(node.id, node)
+    return node
+  }
+
+  private addNode(parent: HistoryNode, step: HistoryStep): HistoryNode {
+    const node = this.createNode(parent, step)
+    parent.children.push(node)
+    parent.redoChild = node
+    this.bytes += step.size
+    return node
+  }
+
+  private getAncestors(node: HistoryNode): HistoryNode[] {
+    const ancestors: HistoryNode[] = []
+    for (let ancestor: HistoryNode | null = node; ancestor; ancestor = ancestor.parent) {
+      ancestors.push(ancestor)
+    }
+    return ancestors
+  }
+
+  // Root to current, then on along the redo branch
+  private getLine(): HistoryNode[] {
+    const line = this.getAncestors(this.current).reverse()
+    for (let node = this.current.redoChild; node; node = node.redoChild) line.push(node)
+    return line
+  }
+
+  // Patches that lead from the current state to the target, in order
+  private getPath(target: HistoryNode): Patch[] {
+    const targetAncestors = new Set(this.getAncestors(target))
+    const patches: Patch[] = []
+
+    let common = this.current
+    while (!targetAncestors.has(common) && common.parent && common.step) {
+      patches.push(reversePatch(common.step))
+      common = common.parent
+    }
+    const down: Patch[] = []
+    for (let node = target; node !== common && node.step; node = node.parent as HistoryNode) {
+      down.unshift(node.step)
+    }
+    return [...patches, ...down]
+  }
+
+  private apply(map: GameMap, patch: Patch, label: string): HistoryChange {
+    let boundsChanged = false
+    if (patch.mapState) {
+      const { before, after } = patch.mapState
+      boundsChanged =
+        before.width !== after.width ||
+        before.height !== after.height ||
+        !isSameData(before.shape, after.shape)
+      restoreMapState(map, after)
+    }
+
+    for (const stack of patch.stacks) {
+      restoreStack(map, stack.q, stack.r, stack.after)
+    }
+
+    return {
+      label,
+      positions: patch.stacks.map(({ q, r }) => ({ q, r })),
+      buildings: patch.buildings.map(({ key, after }) => ({
+        key,
+        building: after && structuredClone(after),
+      })),
+      boundsChanged,
+    }
+  }
+
+  private removeNode(node: HistoryNode) {
+    const parent = node.parent as HistoryNode
+    parent.children = parent.children.filter((child) => child !== node)
+    if (parent.redoChild === node) parent.redoChild = parent.children.at(-1) ?? null
+    this.nodes.delete(node.id)
+    this.bytes -= node.step?.size ?? 0
+  }
+
+  /**
+   * Drop steps while over the step or memory budget, keeping the newest step. Abandoned
+   * branches go first (oldest leaf first); a branch node with a single child is merged into
+   * it. When only the undo line is left, its oldest step becomes the new root.
+   */
+  private prune() {
+    const isCheckpoint = (node: HistoryNode) =>
+      this.checkpoints.some((checkpoint) => checkpoint.entryId === node.id)
+
+    while (
+      this.nodes.size > 2 &&
+      (this.nodes.size - 1 > this.maxSteps || this.bytes > this.maxBytes)
+    ) {
+      const line = new Set(this.getLine())
+      const branchNodes = [...this.nodes.values()]
+        .filter((node) => !line.has(node) && !isCheckpoint(node))
+        .sort((a, b) => a.id - b.id)
+
+      const leaf = branchNodes.find((node) => node.children.length === 0)
+      if (leaf) {
+        this.removeNode(leaf)
+        continue
+      }
+
+      const single = branchNodes.find((node) => node.children.length === 1)
+      if (single?.step) {
+        const child = single.children[0]
+        const step: HistoryStep = {
+          ...(child.step as HistoryStep),
+          ...composePatches([single.step, child.step as HistoryStep]),
+        }
+        step.size = estimateSize(step)
+        this.removeNode(single)
+        this.bytes += step.size - (child.step?.size ?? 0)
+        child.step = step
+        child.parent = single.parent
+        single.parent?.children.push(child)
+        continue
+      }
+
+      // Move the root one step down the line; the old root becomes a branch off it
+      const oldRoot = this.root
+      const newRoot = this.getAncestors(this.current).at(-2)
+      if (!newRoot?.step) break
+      const step: HistoryStep = {
+        ...newRoot.step,
+        ...reversePatch(newRoot.step),
+        label: ROOT_LABEL,
+      }
+      oldRoot.children = oldRoot.children.filter((child) => child !== newRoot)
+      oldRoot.redoChild = oldRoot.children.at(-1) ?? null
+      oldRoot.parent = newRoot
+      oldRoot.step = step
+      newRoot.children.push(oldRoot)
+      newRoot.parent = null
+      newRoot.step = null
+      this.root = newRoot
+    }
+  }
+}
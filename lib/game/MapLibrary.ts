@@ -0,0 +1,233 @@
+/**
+ * MapLibrary - Map files kept in the browser (IndexedDB) instead of the Downloads folder
+ * Every map is stored as its JSON file text plus a summary (name, size, tags, thumbnail,
+ * dates) read from the file metadata, so the library lists maps without parsing them.
+ * Folders of map files can be imported with the File System Access API (see collectMapFiles).
+ */
+
+import { openDatabase, requestToPromise, transactionDone } from '../utils/indexedDb'
+import { BINARY_MAP_EXTENSION } from './MapBinaryCodec'
+import { type MapMetadata, MapSerializer } from './MapSerializer'
+
+const DB_NAME = 'mapEditor_library'
+const DB_VERSION = 1
+const ENTRY_STORE = 'entries'
+const FILE_STORE = 'files' // id -> JSON text, read only when a map is opened
+
+export const RECENT_LIMIT = 5
+
+export interface LibraryEntry {
+  id: string
+  fileName: string // Used when the map is downloaded, e.g. "elmwood-1712345678.json"
+  name: string
+  description: string
+  mapSize: MapMetadata['mapSize']
+  width: number
+  height: number
+  tags: string[]
+  thumbnail?: string // PNG data URL from the metadata
+  modifiedAt: number // Last save of the map
+  openedAt?: number // Last time the map was opened from the library
+  size: number // Length of the JSON text
+}
+
+// Directory iteration is in lib.dom.asynciterable, which the project does not include
+declare global {
+  interface FileSystemDirectoryHandle {
+    values(): AsyncIterable<FileSystemHandle>
+  }
+}
+
+export function createLibraryId(): string {
+  return `map_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * Library summary of a JSON map file; throws when the text is not a map file
+ */
+export function summarizeMapFile(id: string, fileName: string, text: string): LibraryEntry {
+  const mapFile = MapSerializer.parse(text)
+  const metadata: Partial<MapMetadata> = mapFile.metadata ?? {}
+  return {
+    id,
+    fileName,
+    name: metadata.name || fileName.replace(/\.json$/, ''),
+    description: metadata.description ?? '',
+    mapSize: metadata.mapSize ?? 'medium',
+    width: mapFile.map.width,
+    height: mapFile.map.height,
+    tags: metadata.tags ?? [],
+    ...(metadata.thumbnail && { thumbnail: metadata.thumbnail }),
+    modifiedAt: metadata.modifiedAt ?? Date.now(),
+    size: text.length,
+  }
+}
+
+/**
+ * Set the map name in the metadata of a JSON map file, keeping its version and layout
+ */
+export function renameMapFile(text: string, name: string): string {
+  const file = JSON.parse(text)
+  file.metadata = { ...file.metadata, name }
+  // 3.x files are written without indentation (see MapSerializer.stringify)
+  return typeof file.version === 'string' && file.version.startsWith('3.')
+    ? JSON.stringify(file)
+    : JSON.stringify(file, null, 2)
+}
+
+/**
+ * Entries matching every word of the query in the name, tags, description or file name,
+ * most recently modified first
+ */
+export function searchLibrary(entries: LibraryEntry[], query: string): LibraryEntry[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+  return entries
+    .filter((entry) => {
+      const text = [entry.name, entry.description, entry.fileName, ...entry.tags]
+        .join(' ')
+        .toLowerCase()
+      return words.every((word) => text.includes(word))
+    })
+    .sort((a, b) => b.modifiedAt - a.modifiedAt)
+}
+
+/**
+ * Most recently opened entries, newest first
+ */
+export function getRecentEntries(entries: LibraryEntry[], limit = RECENT_LIMIT): LibraryEntry[] {
+  return entries
+    .filter((entry) => entry.openedAt !== undefined)
+    .sort((a, b) => (b.openedAt ?? 0) - (a.openedAt ?? 0))
+    .slice(0, limit)
+}
+
+/**
+ * Name for a duplicate that no entry uses yet: "Elmwood (copy)", "Elmwood (copy 2)", ...
+ */
+export function getCopyName(entries: LibraryEntry[], name: string): string {
+  const base = name.replace(/ \(copy( \d+)?\)$/, '')
+  const names = new Set(entries.map((entry) => entry.name))
+  let copyName = `${base} (copy)`
+  for (let n = 2; names.has(copyName); n++) {
+    copyName = `${base} (copy ${n})`
+  }
+  return copyName
+}
+
+/**
+ * Map files (JSON and binary) directly inside a folder picked with showDirectoryPicker
+ */
+export async function collectMapFiles(directory: FileSystemDirectoryHandle): Promise<File[]> {
+  const files: File[] = []
+  for await (const handle of directory.values()) {
+    if (handle.kind !== 'file') continue
+    if (!handle.name.endsWith('.json') && !handle.name.endsWith(BINARY_MAP_EXTENSION)) continue
+    files.push(await (handle as FileSystemFileHandle).getFile())
+  }
+  return files
+}
+
+export class MapLibraryStore {
+  private db: Promise<IDBDatabase> | null = null
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+          db.createObjectStore(ENTRY_STORE, { keyPath: 'id' })
+        }
+        if (!db.objectStoreNames.contains(FILE_STORE)) {
+          db.createObjectStore(FILE_STORE)
+        }
+      })
+      // Let a later call retry after a failed open
+      this.db.catch(() => {
+        this.db = null
+      })
+    }
+    return this.db
+  }
+
+  async list(): Promise<LibraryEntry[]> {
+    const db = await this.open()
+    const transaction = db.transaction(ENTRY_STORE, 'readonly')
+    return requestToPromise(
+      transaction.objectStore(ENTRY_STORE).getAll() as IDBRequest<LibraryEntry[]>
+    )
+  }
+
+  /**
+   * JSON text of a stored map
+   */
+  async read(id: string): Promise<string> {
+    const db = await this.open()
+    const transaction = db.transaction(FILE_STORE, 'readonly')
+    const text = await requestToPromise(
+      transaction.objectStore(FILE_STORE).get(id) as IDBRequest<string | undefined>
+    )
+    if (text === undefined) {
+      throw new Error('Map is no longer in the library')
+    }
+    return text
+  }
+
+  /**
+   * Store a JSON map file; an existing id is overwritten (keeping when it was last opened)
+   */
+  async save(
+    text: string,
+    fileName: string,
+    id: string = createLibraryId()
+  ): Promise<LibraryEntry> {
+    const summary = summarizeMapFile(id, fileName, text)
+    const db = await this.open()
+    const transaction = db.transaction([ENTRY_STORE, FILE_STORE], 'readwrite')
+    const entries = transaction.objectStore(ENTRY_STORE)
+    const previous = await requestToPromise(entries.get(id) as IDBRequest<LibraryEntry | undefined>)
+    const entry = { ...summary, ...(previous?.openedAt && { openedAt: previous.openedAt }) }
+    entries.put(entry)
+    transaction.objectStore(FILE_STORE).put(text, id)
+    await transactionDone(transaction)
+    return entry
+  }
+
+  async duplicate(id: string): Promise<LibraryEntry> {
+    const [entries, text] = await Promise.all([this.list(), this.read(id)])
+    const original = entries.find((entry) => entry.id === id)
+    if (!original) {
+      throw new Error('Map is no longer in the library')
+    }
+    const name = getCopyName(entries, original.name)
+    const fileName = original.fileName.replace(/(\.json)?$/, '-copy.json')
+    return this.save(renameMapFile(text, name), fileName)
+  }
+
+  async rename(id: string, name: string): Promise<LibraryEntry> {
+    const entries = await this.list()
+    const entry = entries.find((candidate) => candidate.id === id)
+    if (!entry) {
+      throw new Error('Map is no longer in the library')
+    }
+    return this.save(renameMapFile(await this.read(id), name), entry.fileName, id)
+  }
+
+  async remove(id: string): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction([ENTRY_STORE, FILE_STORE], 'readwrite')
+    transaction.objectStore(ENTRY_STORE).delete(id)
+    transaction.objectStore(FILE_STORE).delete(id)
+    await transactionDone(transaction)
+  }
+
+  /**
+   * Remember that a map was opened (for "Open recent")
+   */
+  async markOpened(id: string, openedAt = Date.now()): Promise<void> {
+    const db = await this.open()
+    const transaction = db.transaction(ENTRY_STORE, 'readwrite')
+    const store = transaction.objectStore(ENTRY_STORE)
+    const entry = await requestToPromise(store.get(id) as IDBRequest<LibraryEntry | undefined>)
+    if (entry) store.put({ ...entry, openedAt })
+    await transactionDone(transaction)
+  }
+}
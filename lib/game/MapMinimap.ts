@@ -0,0 +1,255 @@
+/**
+ * MapMinimap - Top-down 2D render of a map as SVG (overview prints, map browser thumbnails)
+ * Pure string output with no DOM access, so it runs in Node as well as in the browser.
+ * Each position is drawn as one flat hexagon colored by its topmost tile, with building
+ * icons, river and road overlays and optional "q,r" labels on top.
+ */
+
+import type { TileDescriptor } from '../llm/AssetAnalyzer'
+import { findTileByModelPath } from '../llm/tile-registry'
+import { FACTION_COLORS, getModelColor, isBuildingHex } from './Faction'
+import { type Hex, TERRAIN_TYPES } from './Hex'
+import { axialToOffset, getAxialNeighbors } from './HexCoordinateConverter'
+import type { Map as GameMap } from './Map'
+import type { BuildingData } from './MapSerializer'
+import { getTerrainForTile } from './TerrainMapping'
+import { terrainRegistry } from './TerrainRegistry'
+
+export const MINIMAP_COLOR_MODES = {
+  TERRAIN: 'terrain', // Color of the hex terrain type
+  TILE: 'tile', // Color derived from the registry tile (faction color for buildings)
+} as const
+
+// Longer side in pixels of thumbnails stored in map metadata and of PNG exports
+export const MINIMAP_THUMBNAIL_SIZE = 256
+export const MINIMAP_EXPORT_SIZE = 4096
+
+export type MinimapColorMode = (typeof MINIMAP_COLOR_MODES)[keyof typeof MINIMAP_COLOR_MODES]
+
+export interface MinimapOptions {
+  hexSize?: number // Outer radius of a hex in SVG units (default: 12)
+  colorMode?: MinimapColorMode
+  buildings?: BuildingData[] // Buildings placed on top of hexes (see MapSerializer buildings)
+  showBuildings?: boolean // Default: true
+  showRivers?: boolean // Default: true
+  showRoads?: boolean // Default: true
+  showCoordinates?: boolean // Default: false
+  background?: string | null // null = transparent (default: editor scene color)
+}
+
+const DEFAULT_HEX_SIZE = 12
+const DEFAULT_BACKGROUND = '#1a1a1a'
+const FALLBACK_COLOR = '#808080'
+const NEUTRAL_BUILDING_COLOR = '#d6d3d1'
+const EMPTY_CELL_COLOR = '#3f3f46'
+const RIVER_COLOR = '#38bdf8'
+const ROAD_COLOR = '#a16207'
+const OUTLINE_COLOR = '#18181b'
+// Each level above the ground is drawn a little lighter so hills and plateaus stand out
+const HEIGHT_TINT = 0.08
+
+const format = (value: number) => `${Number(value.toFixed(2))}`
+
+function tint(color: string, amount: number): string {
+  if (amount <= 0 || !/^#[0-9a-fA-F]{6}$/.test(color)) return color
+  const channels = [1, 3, 5].map((index) => {
+    const channel = Number.parseInt(color.slice(index, index + 2), 16)
+    return Math.round(channel + (255 - channel) * Math.min(amount, 1))
+  })
+  return `#${channels.map((channel) => channel.toString(16).padStart(2, '0')).join('')}`
+}
+
+function buildingColor(modelData: { obj: string }): string {
+  const color = getModelColor(modelData)
+  return color ? FACTION_COLORS[color].hex : NEUTRAL_BUILDING_COLOR
+}
+
+function terrainColor(terrain: string): string {
+  return terrainRegistry.get(terrain)?.color ?? FALLBACK_COLOR
+}
+
+/**
+ * Flat color for a registry tile: the owning faction's color for buildings, otherwise
+ * the color of the terrain the tile implies (null when the tile implies none)
+ */
+export function getTileColor(tile: TileDescriptor): string | null {
+  if (tile.category === 'buildings') {
+    return buildingColor({ obj: tile.obj_path })
+  }
+  const terrain = getTerrainForTile(tile)
+  return terrain ? terrainColor(terrain) : null
+}
+
+function hexColor(hex: Hex, colorMode: MinimapColorMode): string {
+  const tile =
+    colorMode === MINIMAP_COLOR_MODES.TILE && hex.modelData
+      ? findTileByModelPath(hex.modelData.obj)
+      : undefined
+  const color = (tile && getTileColor(tile)) || terrainColor(hex.terrain)
+  return tint(color, hex.height * HEIGHT_TINT)
+}
+
+function isRiverHex(hex: Hex, tile: TileDescriptor | undefined): boolean {
+  return hex.hasRiver || tile?.subcategory === 'rivers'
+}
+
+function isRoadHex(hex: Hex, tile: TileDescriptor | undefined): boolean {
+  return (
+    hex.terrain === TERRAIN_TYPES.ROAD ||
+    hex.terrain === TERRAIN_TYPES.BRIDGE ||
+    tile?.subcategory === 'roads'
+  )
+}
+
+// Small house: square body with a pointed roof, centered on (x, y)
+function buildingIcon(x: number, y: number, size: number, fill: string): string {
+  const half = size / 2
+  const points = [
+    [x - half, y + half],
+    [x - half, y - half * 0.2],
+    [x, y - half],
+    [x + half, y - half * 0.2],
+    [x + half, y + half],
+  ]
+  return `<polygon points="${points.map(([px, py]) => `${format(px)},${format(py)}`).join(' ')}" fill="${fill}" stroke="${OUTLINE_COLOR}" stroke-width="${format(size / 10)}"/>`
+}
+
+/**
+ * Render the map as an SVG document
+ */
+export function renderMinimapSVG(map: GameMap, options: MinimapOptions = {}): string {
+  const {
+    hexSize = DEFAULT_HEX_SIZE,
+    colorMode = MINIMAP_COLOR_MODES.TERRAIN,
+    buildings = [],
+    showBuildings = true,
+    showRivers = true,
+    showRoads = true,
+    showCoordinates = false,
+    background = DEFAULT_BACKGROUND,
+  } = options
+  const innerRadius = (hexSize * Math.sqrt(3)) / 2
+
+  // Same layout as axialToWorld, seen from above: odd columns are shifted down by half a hex
+  const center = (q: number, r: number) => {
+    const { x, y } = axialToOffset(q, r)
+    return { x: x * 1.5 * hexSize, y: (2 * y + (x & 1)) * innerRadius }
+  }
+  const corners = Array.from({ length: 6 }, (_, i) => {
+    const angle = (i * Math.PI) / 3
+    return { x: hexSize * Math.cos(angle), y: hexSize * Math.sin(angle) }
+  })
+  const polygon = (x: number, y: number) =>
+    corners.map((corner) => `${format(x + corner.x)},${format(y + corner.y)}`).join(' ')
+
+  const positions = new Map<string, { q: number; r: number }>()
+  for (const coordinate of map.getAllCoordinates()) {
+    positions.set(map.getKey(coordinate.q, coordinate.r), coordinate)
+  }
+  for (const hexStack of map.hexes.values()) {
+    if (hexStack.length > 0) {
+      positions.set(map.getKey(hexStack[0].q, hexStack[0].r), hexStack[0])
+    }
+  }
+
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (const { q, r } of positions.values()) {
+    const { x, y } = center(q, r)
+    minX = Math.min(minX, x - hexSize)
+    maxX = Math.max(maxX, x + hexSize)
+    minY = Math.min(minY, y - innerRadius)
+    maxY = Math.max(maxY, y + innerRadius)
+  }
+  if (positions.size === 0) {
+    minX = minY = 0
+    maxX = maxY = hexSize * 2
+  }
+  const padding = hexSize / 2
+  minX -= padding
+  minY -= padding
+  const width = maxX + padding - minX
+  const height = maxY + padding - minY
+
+  const cells: string[] = []
+  const rivers = new Set<string>()
+  const roads = new Set<string>()
+  const icons: string[] = []
+  const labels: string[] = []
+
+  for (const [key, { q, r }] of positions) {
+    const { x, y } = center(q, r)
+    const hexStack = map.hexes.get(key) ?? []
+    const top = hexStack[hexStack.length - 1]
+    cells.push(
+      top
+        ? `<polygon points="${polygon(x, y)}" fill="${hexColor(top, colorMode)}"/>`
+        : `<polygon points="${polygon(x, y)}" fill="none" stroke="${EMPTY_CELL_COLOR}" stroke-width="${format(hexSize / 12)}"/>`
+    )
+
+    for (const hex of hexStack) {
+      const tile = hex.modelData ? findTileByModelPath(hex.modelData.obj) : undefined
+      if (isRiverHex(hex, tile)) rivers.add(key)
+      if (isRoadHex(hex, tile)) roads.add(key)
+    }
+
+    const building = [...hexStack].reverse().find(isBuildingHex)
+    if (showBuildings && building?.modelData) {
+      icons.push(buildingIcon(x, y, hexSize * 0.8, buildingColor(building.modelData)))
+    }
+
+    if (showCoordinates) {
+      labels.push(`<text x="${format(x)}" y="${format(y + innerRadius * 0.75)}">${q},${r}</text>`)
+    }
+  }
+
+  if (showBuildings) {
+    for (const building of buildings) {
+      const { x, y } = center(building.q, building.r)
+      icons.push(buildingIcon(x, y, hexSize * 0.8, buildingColor(building.modelData)))
+    }
+  }
+
+  // Connect neighbouring river (road) hexes center to center; isolated ones get a dot
+  const overlay = (keys: Set<string>, color: string, strokeWidth: number) => {
+    const shapes: string[] = []
+    for (const key of keys) {
+      const { q, r } = positions.get(key) as { q: number; r: number }
+      const from = center(q, r)
+      let connected = false
+      for (const neighbor of getAxialNeighbors(q, r)) {
+        const neighborKey = map.getKey(neighbor.q, neighbor.r)
+        if (!keys.has(neighborKey)) continue
+        connected = true
+        if (neighborKey < key) continue // Each connection once
+        const to = center(neighbor.q, neighbor.r)
+        shapes.push(
+          `<line x1="${format(from.x)}" y1="${format(from.y)}" x2="${format(to.x)}" y2="${format(to.y)}"/>`
+        )
+      }
+      if (!connected) {
+        shapes.push(
+          `<circle cx="${format(from.x)}" cy="${format(from.y)}" r="${format(strokeWidth)}" fill="${color}" stroke="none"/>`
+        )
+      }
+    }
+    return `<g stroke="${color}" stroke-width="${format(strokeWidth)}" stroke-linecap="round">${shapes.join('')}</g>`
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${format(minX)} ${format(minY)} ${format(width)} ${format(height)}" width="${Math.ceil(width)}" height="${Math.ceil(height)}">`,
+    background
+      ? `<rect x="${format(minX)}" y="${format(minY)}" width="${format(width)}" height="${format(height)}" fill="${background}"/>`
+      : '',
+    `<g stroke="${OUTLINE_COLOR}" stroke-width="${format(hexSize / 20)}">${cells.join('')}</g>`,
+    showRoads ? overlay(roads, ROAD_COLOR, hexSize / 5) : '',
+    showRivers ? overlay(rivers, RIVER_COLOR, hexSize / 4) : '',
+    `<g>${icons.join('')}</g>`,
+    showCoordinates
+      ? `<g font-family="sans-serif" font-size="${format(hexSize * 0.4)}" fill="#000" fill-opacity="0.6" text-anchor="middle">${labels.join('')}</g>`
+      : '',
+    '</svg>',
+  ].join('')
+}
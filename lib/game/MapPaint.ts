@@ -0,0 +1,126 @@
+/**
+ * MapPaint - Painting the selected tile over many positions at once
+ * The tools only work out which positions a stroke covers (brush, flood fill, line, ring);
+ * planPaint then decides the height each tile goes to at the current height level, given
+ * what to do with positions that already have a hex there. The editor places the tiles.
+ */
+
+import type { Hex } from './Hex'
+import { axialLine, axialRange, axialRing } from './HexCoordinateConverter'
+import type { Map as GameMap } from './Map'
+import { floodFill } from './MapSelection'
+import type { AxialCoord } from './Pathfinding'
+
+const MAX_HEIGHT_LEVEL = 4
+
+// What to do where the painted level (or the stack) is already taken
+export const PAINT_OVERLAP = {
+  REPLACE: 'replace', // Swap the hex on the level for the painted tile
+  SKIP: 'skip', // Leave positions with a hex on the level alone
+  STACK: 'stack', // Put the tile on top of the stack
+} as const
+
+export type PaintOverlap = (typeof PAINT_OVERLAP)[keyof typeof PAINT_OVERLAP]
+
+// What the flood fill spreads through
+export const FILL_BOUNDS = {
+  TILE: 'tile', // Same tile (or no hex) on the level
+  HEIGHT: 'height', // Same stack height
+} as const
+
+export type FillBound = (typeof FILL_BOUNDS)[keyof typeof FILL_BOUNDS]
+
+export interface PaintTarget {
+  q: number
+  r: number
+  height: number
+}
+
+const tileSignature = (hex: Hex | null): string =>
+  hex ? (hex.modelData?.obj ?? `terrain:${hex.terrain}`) : 'empty'
+
+// Height of the top hex, -1 for an empty position
+const topHeight = (map: GameMap, q: number, r: number): number => map.getHex(q, r)?.height ?? -1
+
+const onMap = (map: GameMap, coords: AxialCoord[]): AxialCoord[] =>
+  coords.filter(({ q, r }) => map.isValidCoordinate(q, r))
+
+/**
+ * Positions within `radius` steps of the brush center
+ */
+export function getBrushArea(map: GameMap, center: AxialCoord, radius: number): AxialCoord[] {
+  return onMap(map, axialRange(center, radius))
+}
+
+/**
+ * Positions on the straight line between two hexes, both ends included
+ */
+export function getLineArea(map: GameMap, from: AxialCoord, to: AxialCoord): AxialCoord[] {
+  return onMap(map, axialLine(from, to))
+}
+
+/**
+ * Positions at exactly `radius` steps from the center, or every position within it when filled
+ */
+export function getRingArea(
+  map: GameMap,
+  center: AxialCoord,
+  radius: number,
+  filled: boolean
+): AxialCoord[] {
+  return onMap(map, filled ? axialRange(center, radius) : axialRing(center, radius))
+}
+
+/**
+ * Positions connected to the start that have the same tile on the level (an empty start fills
+ * the empty positions around it), or the same stack height
+ */
+export function getFillArea(
+  map: GameMap,
+  start: AxialCoord,
+  level: number,
+  bound: FillBound
+): AxialCoord[] {
+  if (!map.isValidCoordinate(start.q, start.r)) return []
+
+  if (bound === FILL_BOUNDS.HEIGHT) {
+    const target = topHeight(map, start.q, start.r)
+    return floodFill(map, start, (q, r) => topHeight(map, q, r) === target)
+  }
+  const target = tileSignature(map.getHex(start.q, start.r, level))
+  return floodFill(map, start, (q, r) => tileSignature(map.getHex(q, r, level)) === target)
+}
+
+/**
+ * Height for the painted tile at each position; positions left unchanged are dropped
+ *
+ * @param level - Current height level
+ * @param tile - Model of the painted tile, so repainting the same tile is not a change
+ */
+export function planPaint(
+  map: GameMap,
+  positions: AxialCoord[],
+  level: number,
+  overlap: PaintOverlap,
+  tile: string
+): PaintTarget[] {
+  const seen = new Set<string>()
+  const targets: PaintTarget[] = []
+
+  for (const { q, r } of positions) {
+    const key = `${q},${r}`
+    if (seen.has(key) || !map.isValidCoordinate(q, r)) continue
+    seen.add(key)
+
+    const existing = map.getHex(q, r, level)
+    if (overlap === PAINT_OVERLAP.STACK) {
+      const height = Math.max(level, topHeight(map, q, r) + 1)
+      if (height <= MAX_HEIGHT_LEVEL) targets.push({ q, r, height })
+    } else if (!existing) {
+      targets.push({ q, r, height: level })
+    } else if (overlap === PAINT_OVERLAP.REPLACE && existing.modelData?.obj !== tile) {
+      targets.push({ q, r, height: level })
+    }
+  }
+  return targets
+}
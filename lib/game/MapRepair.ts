@@ -0,0 +1,303 @@
+/**
+ * MapRepair - Lenient loading of damaged map files
+ * Cleans the 2.0 file structure before it is built into a map: invalid hexes, buildings,
+ * factions, units, cities and regions are dropped, fixable values are corrected, and every
+ * change is logged. 3.0 files are expanded to the 2.0 layout first (damaged palette entries
+ * and layers are dropped while decoding), so their hex repairs point into /hexes.
+ */
+
+import { findTileByModelPath } from '../llm/tile-registry'
+import {
+  type CustomProperties,
+  PROPERTY_TARGETS,
+  PropertySchema,
+  type PropertyTarget,
+  validatePropertyDefinition,
+} from './CustomProperties'
+import { MAP_FILE_SCHEMA, toJsonPointer, validateSchema } from './MapSchema'
+import type {
+  BuildingData,
+  CityData,
+  FactionData,
+  HexData,
+  MapFileFormat,
+  RegionData,
+  UnitData,
+} from './MapSerializer'
+import { terrainRegistry, validateTerrainDefinition } from './TerrainRegistry'
+
+export const REPAIR_ACTIONS = {
+  SKIPPED_HEX: 'skipped-hex',
+  DROPPED_DUPLICATE: 'dropped-duplicate',
+  CLAMPED_HEIGHT: 'clamped-height',
+  SNAPPED_ROTATION: 'snapped-rotation',
+  DROPPED_BUILDING: 'dropped-building',
+  DROPPED_TERRAIN: 'dropped-terrain',
+  DROPPED_PROPERTY_DEFINITION: 'dropped-property-definition',
+  DROPPED_PROPERTY: 'dropped-property',
+  DROPPED_PALETTE_ENTRY: 'dropped-palette-entry',
+  DROPPED_FACTION: 'dropped-faction',
+  DROPPED_UNIT: 'dropped-unit',
+  DROPPED_CITY: 'dropped-city',
+  DROPPED_REGION: 'dropped-region',
+} as const
+
+export type RepairAction = (typeof REPAIR_ACTIONS)[keyof typeof REPAIR_ACTIONS]
+
+export interface MapRepair {
+  action: RepairAction
+  path: string // JSON pointer into the file, e.g. /hexes/3,4/0/height
+  message: string
+}
+
+export const REPAIR_ACTION_NAMES: Record<RepairAction, string> = {
+  [REPAIR_ACTIONS.SKIPPED_HEX]: 'Skipped hex',
+  [REPAIR_ACTIONS.DROPPED_DUPLICATE]: 'Duplicate height',
+  [REPAIR_ACTIONS.CLAMPED_HEIGHT]: 'Height clamped',
+  [REPAIR_ACTIONS.SNAPPED_ROTATION]: 'Rotation snapped',
+  [REPAIR_ACTIONS.DROPPED_BUILDING]: 'Dropped building',
+  [REPAIR_ACTIONS.DROPPED_TERRAIN]: 'Dropped terrain type',
+  [REPAIR_ACTIONS.DROPPED_PROPERTY_DEFINITION]: 'Dropped property definition',
+  [REPAIR_ACTIONS.DROPPED_PROPERTY]: 'Dropped property value',
+  [REPAIR_ACTIONS.DROPPED_PALETTE_ENTRY]: 'Dropped palette entry',
+  [REPAIR_ACTIONS.DROPPED_FACTION]: 'Dropped faction',
+  [REPAIR_ACTIONS.DROPPED_UNIT]: 'Dropped unit',
+  [REPAIR_ACTIONS.DROPPED_CITY]: 'Dropped city',
+  [REPAIR_ACTIONS.DROPPED_REGION]: 'Dropped region',
+}
+
+const MIN_HEIGHT = 0
+const MAX_HEIGHT = 4
+const ROTATION_STEP = Math.PI / 3
+// Rotations read back from 3.0 files (degrees, 4 decimals) differ from k * PI / 3 by rounding only
+const ROTATION_TOLERANCE = 1e-6
+
+const HEX_SCHEMA = { $ref: '#/$defs/hex', $defs: MAP_FILE_SCHEMA.$defs }
+const HEX_KEY = /^-?\d+,-?\d+$/
+
+const formatRadians = (value: number) => `${Number(value.toFixed(4))}`
+
+/**
+ * Return a repaired copy of a 2.0 map file structure and the list of changes made
+ */
+export function repairMapFile(mapFile: MapFileFormat): {
+  mapFile: MapFileFormat
+  repairs: MapRepair[]
+} {
+  const repairs: MapRepair[] = []
+  const log = (action: RepairAction, path: string, message: string) => {
+    repairs.push({ action, path, message })
+  }
+
+  const knownTerrains = new Set(terrainRegistry.getBuiltInIds())
+  const terrainTypes = (mapFile.terrainTypes ?? []).filter((definition, index) => {
+    const errors = validateTerrainDefinition(definition)
+    if (errors.length > 0) {
+      log(REPAIR_ACTIONS.DROPPED_TERRAIN, toJsonPointer(['terrainTypes', index]), errors.join(', '))
+      return false
+    }
+    knownTerrains.add(definition.id)
+    return true
+  })
+
+  const propertySchema = new PropertySchema()
+  const propertyDefinitions = (mapFile.propertySchema ?? []).filter((definition, index) => {
+    const errors = validatePropertyDefinition(definition)
+    if (errors.length === 0 && propertySchema.has(definition.name)) {
+      errors.push(`duplicate property "${definition.name}"`)
+    }
+    if (errors.length > 0) {
+      log(
+        REPAIR_ACTIONS.DROPPED_PROPERTY_DEFINITION,
+        toJsonPointer(['propertySchema', index]),
+        errors.join(', ')
+      )
+      return false
+    }
+    propertySchema.add(definition)
+    return true
+  })
+
+  // Keep the values that match the (repaired) property schema
+  const repairProperties = (
+    properties: unknown,
+    target: PropertyTarget,
+    path: Array<string | number>
+  ): CustomProperties | undefined => {
+    if (properties === undefined) return undefined
+    if (!properties || typeof properties !== 'object' || Array.isArray(properties)) {
+      log(REPAIR_ACTIONS.DROPPED_PROPERTY, toJsonPointer(path), 'expected an object')
+      return undefined
+    }
+    const kept: CustomProperties = {}
+    for (const [name, value] of Object.entries(properties)) {
+      const problem = propertySchema.validateValue(name, value, target)
+      if (problem) {
+        log(REPAIR_ACTIONS.DROPPED_PROPERTY, toJsonPointer([...path, name]), problem)
+      } else {
+        kept[name] = value
+      }
+    }
+    return Object.keys(kept).length > 0 ? kept : undefined
+  }
+
+  const hexes: Record<string, HexData[]> = {}
+  const fileHexes = mapFile.hexes && typeof mapFile.hexes === 'object' ? mapFile.hexes : {}
+  for (const [key, hexStack] of Object.entries(fileHexes)) {
+    if (!HEX_KEY.test(key) || !Array.isArray(hexStack)) {
+      log(REPAIR_ACTIONS.SKIPPED_HEX, toJsonPointer(['hexes', key]), 'invalid hex stack')
+      continue
+    }
+
+    const stack: HexData[] = []
+    hexStack.forEach((entry: unknown, index) => {
+      const path = toJsonPointer(['hexes', key, index])
+      if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+        log(REPAIR_ACTIONS.SKIPPED_HEX, path, 'expected an object')
+        return
+      }
+
+      const hexData = { ...(entry as HexData) }
+      if ('properties' in hexData) {
+        const properties = repairProperties(hexData.properties, PROPERTY_TARGETS.HEX, [
+          'hexes',
+          key,
+          index,
+          'properties',
+        ])
+        if (properties) hexData.properties = properties
+        else delete hexData.properties
+      }
+      if (typeof hexData.height === 'number' && Number.isFinite(hexData.height)) {
+        const height = Math.min(MAX_HEIGHT, Math.max(MIN_HEIGHT, Math.round(hexData.height)))
+        if (height !== hexData.height) {
+          log(
+            REPAIR_ACTIONS.CLAMPED_HEIGHT,
+            `${path}/height`,
+            `height ${hexData.height} changed to ${height}`
+          )
+          hexData.height = height
+        }
+      }
+      if (typeof hexData.rotation === 'number' && Number.isFinite(hexData.rotation)) {
+        const rotation = Math.round(hexData.rotation / ROTATION_STEP) * ROTATION_STEP
+        if (Math.abs(rotation - hexData.rotation) > ROTATION_TOLERANCE) {
+          log(
+            REPAIR_ACTIONS.SNAPPED_ROTATION,
+            `${path}/rotation`,
+            `rotation ${formatRadians(hexData.rotation)} changed to ${formatRadians(rotation)}`
+          )
+          hexData.rotation = rotation
+        }
+      }
+
+      const [issue] = validateSchema(hexData, HEX_SCHEMA)
+      if (issue) {
+        log(REPAIR_ACTIONS.SKIPPED_HEX, path, `${issue.path.slice(1) || 'hex'} ${issue.message}`)
+        return
+      }
+      if (!knownTerrains.has(hexData.terrain)) {
+        log(REPAIR_ACTIONS.SKIPPED_HEX, path, `unknown terrain type "${hexData.terrain}"`)
+        return
+      }
+      if (`${hexData.q},${hexData.r}` !== key) {
+        log(
+          REPAIR_ACTIONS.SKIPPED_HEX,
+          path,
+          `coordinates ${hexData.q},${hexData.r} do not match key`
+        )
+        return
+      }
+      if (stack.some((other) => other.height === hexData.height)) {
+        log(
+          REPAIR_ACTIONS.DROPPED_DUPLICATE,
+          path,
+          `another hex is already at height ${hexData.height}`
+        )
+        return
+      }
+      stack.push(hexData)
+    })
+
+    if (stack.length > 0) {
+      hexes[key] = stack
+    }
+  }
+
+  const buildings = mapFile.buildings?.flatMap((building: Partial<BuildingData>, index) => {
+    const obj = building?.modelData?.obj
+    if (typeof obj !== 'string' || !findTileByModelPath(obj)) {
+      log(
+        REPAIR_ACTIONS.DROPPED_BUILDING,
+        toJsonPointer(['buildings', index]),
+        `model ${typeof obj === 'string' ? obj : '(missing)'} is not in the tile registry`
+      )
+      return []
+    }
+    if (building.properties === undefined) return [building as BuildingData]
+    const { properties, ...rest } = building as BuildingData
+    const repaired = repairProperties(properties, PROPERTY_TARGETS.BUILDING, [
+      'buildings',
+      index,
+      'properties',
+    ])
+    return [repaired ? { ...rest, properties: repaired } : rest]
+  })
+
+  // Entries of the entity sections that fail their schema definition or reuse an id
+  const repairEntities = <T extends { id: string }>(
+    section: 'factions' | 'units' | 'cities' | 'regions',
+    definition: string,
+    action: RepairAction
+  ): T[] | undefined => {
+    const entries: unknown = mapFile[section]
+    if (entries === undefined) return undefined
+    if (!Array.isArray(entries)) {
+      log(action, toJsonPointer([section]), 'expected an array')
+      return []
+    }
+    const schema = { $ref: `#/$defs/${definition}`, $defs: MAP_FILE_SCHEMA.$defs }
+    const ids = new Set<string>()
+    return entries.filter((entry: T, index) => {
+      const path = toJsonPointer([section, index])
+      const [issue] = validateSchema(entry, schema)
+      if (issue) {
+        log(action, path, `${issue.path.slice(1) || definition} ${issue.message}`)
+        return false
+      }
+      if (ids.has(entry.id)) {
+        log(action, path, `duplicate id "${entry.id}"`)
+        return false
+      }
+      ids.add(entry.id)
+      return true
+    })
+  }
+  const factions = repairEntities<FactionData>('factions', 'faction', REPAIR_ACTIONS.DROPPED_FACTION)
+  const units = repairEntities<UnitData>('units', 'unit', REPAIR_ACTIONS.DROPPED_UNIT)
+  const cities = repairEntities<CityData>('cities', 'city', REPAIR_ACTIONS.DROPPED_CITY)
+  const regions = repairEntities<RegionData>('regions', 'region', REPAIR_ACTIONS.DROPPED_REGION)
+
+  let metadata = mapFile.metadata
+  if (metadata?.properties !== undefined) {
+    const { properties, ...rest } = metadata
+    const repaired = repairProperties(properties, PROPERTY_TARGETS.MAP, ['metadata', 'properties'])
+    metadata = repaired ? { ...rest, properties: repaired } : rest
+  }
+
+  return {
+    mapFile: {
+      ...mapFile,
+      metadata,
+      ...(mapFile.terrainTypes && { terrainTypes }),
+      ...(mapFile.propertySchema && { propertySchema: propertyDefinitions }),
+      hexes,
+      ...(buildings && { buildings }),
+      ...(factions && { factions }),
+      ...(units && { units }),
+      ...(cities && { cities }),
+      ...(regions && { regions }),
+    },
+    repairs,
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * MapSchema - JSON Schema for the 2.0 map file layout and a validator for it
+ * The validator covers the keyword subset used by map-file.schema.json and reports
+ * every problem with the JSON pointer of the offending value (e.g. /hexes/3,4/0/height)
+ */
+
+import mapFileSchema from './map-file.schema.json'
+
+type JsonType = 'null' | 'boolean' | 'integer' | 'number' | 'string' | 'array' | 'object'
+
+export interface JsonSchema {
+  $ref?: string
+  $defs?: Record<string, JsonSchema>
+  type?: JsonType | JsonType[]
+  enum?: unknown[]
+  const?: unknown
+  minimum?: number
+  maximum?: number
+  minLength?: number
+  pattern?: string
+  required?: string[]
+  properties?: Record<string, JsonSchema>
+  additionalProperties?: boolean | JsonSchema
+  propertyNames?: JsonSchema
+  items?: JsonSchema
+}
+
+export interface SchemaIssue {
+  path: string // JSON pointer, '' = document root
+  message: string
+}
+
+export const MAP_FILE_SCHEMA = mapFileSchema as JsonSchema
+
+/**
+ * Build a JSON pointer (RFC 6901) from path segments
+ */
+export function toJsonPointer(segments: Array<string | number>): string {
+  return segments
+    .map((segment) => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`)
+    .join('')
+}
+
+/**
+ * Check whether `path` points at `parent` or inside it
+ */
+export function isPointerWithin(path: string, parent: string): boolean {
+  return path === parent || path.startsWith(`${parent}/`)
+}
+
+/**
+ * One-line message for error lists: "/hexes/3,4/0/height: expected integer, got string"
+ */
+export function formatSchemaIssue(issue: SchemaIssue): string {
+  return `${issue.path || '/'}: ${issue.message}`
+}
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+  return typeof value as JsonType
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  const actual = typeOf(value)
+  return actual === type || (type === 'number' && actual === 'integer')
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  const name = ref.startsWith('#/$defs/') ? ref.slice('#/$defs/'.length) : null
+  const schema = name !== null ? root.$defs?.[name] : undefined
+  if (!schema) {
+    throw new Error(`Unresolved schema reference: ${ref}`)
+  }
+  return schema
+}
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: string,
+  issues: SchemaIssue[]
+) {
+  if (schema.$ref) {
+    validateNode(value, resolveRef(schema.$ref, root), root, path, issues)
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some((type) => matchesType(value, type))) {
+      issues.push({ path, message: `expected ${types.join(' or ')}, got ${typeOf(value)}` })
+      return
+    }
+  }
+  if (schema.const !== undefined && value !== schema.const) {
+    issues.push({ path, message: `expected ${JSON.stringify(schema.const)}` })
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({
+      path,
+      message: `expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`,
+    })
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}` })
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}` })
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: `must be at least ${schema.minLength} characters` })
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `must match ${schema.pattern}` })
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    for (const [index, item] of value.entries()) {
+      validateNode(item, schema.items, root, `${path}${toJsonPointer([index])}`, issues)
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) {
+        issues.push({ path: `${path}${toJsonPointer([key])}`, message: 'is required' })
+      }
+    }
+    for (const [key, child] of Object.entries(object)) {
+      const childPath = `${path}${toJsonPointer([key])}`
+      if (schema.propertyNames) {
+        const keyIssues: SchemaIssue[] = []
+        validateNode(key, schema.propertyNames, root, childPath, keyIssues)
+        issues.push(
+          ...keyIssues.map((issue) => ({ path: childPath, message: `key ${issue.message}` }))
+        )
+      }
+
+      const childSchema = schema.properties?.[key]
+      if (childSchema) {
+        validateNode(child, childSchema, root, childPath, issues)
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: childPath, message: 'is not allowed' })
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(child, schema.additionalProperties, root, childPath, issues)
+      }
+    }
+  }
+}
+
+/**
+ * Validate a value against a schema; an empty result means the value is valid
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema = MAP_FILE_SCHEMA
+): SchemaIssue[] {
+  const issues: SchemaIssue[] = []
+  validateNode(value, schema, schema, '', issues)
+  return issues
+}
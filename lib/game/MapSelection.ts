@@ -0,0 +1,171 @@
+/**
+ * MapSelection - Area selection of hex positions
+ * Marquee and lasso shapes are given as polygons on the ground plane (screen points projected
+ * by the editor); a position is inside when the center of its hex is. Radius selection takes
+ * every position within a hex distance, and "select similar" flood-fills neighbours that
+ * carry the same tile or terrain. All of them look at one height level, or at the top of
+ * each stack, and the result is combined with the current selection.
+ */
+
+import type { Hex } from './Hex'
+import { axialRange, axialToWorld } from './HexCoordinateConverter'
+import type { Map as GameMap } from './Map'
+import type { AxialCoord } from './Pathfinding'
+
+export const SELECTION_MODES = {
+  REPLACE: 'replace',
+  ADD: 'add',
+  SUBTRACT: 'subtract',
+  INTERSECT: 'intersect',
+} as const
+
+export type SelectionMode = (typeof SELECTION_MODES)[keyof typeof SELECTION_MODES]
+
+// What makes neighbours "similar" for selectConnected
+export const SIMILARITY = {
+  TILE: 'tile', // Same model
+  TERRAIN: 'terrain',
+} as const
+
+export type Similarity = (typeof SIMILARITY)[keyof typeof SIMILARITY]
+
+// Height level to select on; null = the top hex of each stack
+export type SelectionLevel = number | null
+
+// Point on the ground plane (Three.js x and z)
+export interface GroundPoint {
+  x: number
+  z: number
+}
+
+const getLevelHex = (map: GameMap, q: number, r: number, level: SelectionLevel): Hex | null =>
+  level === null ? map.getHex(q, r) : map.getHex(q, r, level)
+
+/**
+ * Mode for the held modifier keys: Shift adds, Alt subtracts, both intersect
+ */
+export function getSelectionMode(
+  modifiers: { shiftKey: boolean; altKey: boolean },
+  fallback: SelectionMode = SELECTION_MODES.REPLACE
+): SelectionMode {
+  if (modifiers.shiftKey && modifiers.altKey) return SELECTION_MODES.INTERSECT
+  if (modifiers.shiftKey) return SELECTION_MODES.ADD
+  if (modifiers.altKey) return SELECTION_MODES.SUBTRACT
+  return fallback
+}
+
+/**
+ * Apply a newly picked set of positions to the current selection
+ */
+export function combineSelection(
+  current: AxialCoord[],
+  picked: AxialCoord[],
+  mode: SelectionMode
+): AxialCoord[] {
+  const key = ({ q, r }: AxialCoord) => `${q},${r}`
+  const pickedKeys = new Set(picked.map(key))
+
+  switch (mode) {
+    case SELECTION_MODES.ADD: {
+      const currentKeys = new Set(current.map(key))
+      return [...current, ...picked.filter((coord) => !currentKeys.has(key(coord)))]
+    }
+    case SELECTION_MODES.SUBTRACT:
+      return current.filter((coord) => !pickedKeys.has(key(coord)))
+    case SELECTION_MODES.INTERSECT:
+      return current.filter((coord) => pickedKeys.has(key(coord)))
+    default:
+      return [...new Map(picked.map((coord) => [key(coord), coord])).values()]
+  }
+}
+
+/**
+ * Even-odd test of a point against a closed polygon
+ */
+export function isPointInPolygon(point: GroundPoint, polygon: GroundPoint[]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if (a.z > point.z !== b.z > point.z) {
+      const crossX = a.x + ((point.z - a.z) / (b.z - a.z)) * (b.x - a.x)
+      if (point.x < crossX) inside = !inside
+    }
+  }
+  return inside
+}
+
+/**
+ * Positions with a hex on the level whose center lies inside the ground polygon
+ */
+export function selectInPolygon(
+  map: GameMap,
+  polygon: GroundPoint[],
+  level: SelectionLevel,
+  hexSize = 3.5
+): AxialCoord[] {
+  if (polygon.length < 3) return []
+  return map.getAllCoordinates().filter(({ q, r }) => {
+    if (!getLevelHex(map, q, r, level)) return false
+    const [x, z] = axialToWorld(q, r, map.width, map.height, hexSize)
+    return isPointInPolygon({ x, z }, polygon)
+  })
+}
+
+/**
+ * Positions with a hex on the level within `radius` steps of the center
+ */
+export function selectInRadius(
+  map: GameMap,
+  center: AxialCoord,
+  radius: number,
+  level: SelectionLevel
+): AxialCoord[] {
+  return axialRange(center, radius).filter(({ q, r }) => getLevelHex(map, q, r, level) !== null)
+}
+
+/**
+ * Positions connected to the start through neighbours that match, breadth-first from the start
+ */
+export function floodFill(
+  map: GameMap,
+  start: AxialCoord,
+  matches: (q: number, r: number) => boolean
+): AxialCoord[] {
+  const visited = new Set([`${start.q},${start.r}`])
+  const result: AxialCoord[] = []
+  const queue: AxialCoord[] = [start]
+  while (queue.length > 0) {
+    const coord = queue.shift() as AxialCoord
+    result.push(coord)
+    for (const next of map.getNeighborCoordinates(coord.q, coord.r)) {
+      const nextKey = `${next.q},${next.r}`
+      if (visited.has(nextKey)) continue
+      visited.add(nextKey)
+      if (matches(next.q, next.r)) queue.push(next)
+    }
+  }
+  return result
+}
+
+/**
+ * Positions connected to the start through neighbours with the same tile or terrain on the level
+ */
+export function selectConnected(
+  map: GameMap,
+  start: AxialCoord,
+  level: SelectionLevel,
+  similarity: Similarity
+): AxialCoord[] {
+  const startHex = getLevelHex(map, start.q, start.r, level)
+  if (!startHex) return []
+
+  const signature = (hex: Hex) =>
+    similarity === SIMILARITY.TILE ? (hex.modelData?.obj ?? `terrain:${hex.terrain}`) : hex.terrain
+  const target = signature(startHex)
+
+  return floodFill(map, start, (q, r) => {
+    const hex = getLevelHex(map, q, r, level)
+    return hex !== null && signature(hex) === target
+  })
+}
@@ -1,12 +1,38 @@
 /**
  * MapSerializer - Serialization and deserialization for map files
- * Version 2.0: Uses axial coordinates (q, r) for optimal LLM compatibility
+ * Version 3.0: Compact encoding with a tile palette and run-length encoded hex rows
+ * Version 2.0: Uses axial coordinates (q, r) for optimal LLM compatibility (still writable)
  * Supports migration from version 1.0 (offset coordinates)
  */
 
-import { Map as GameMap } from './Map'
+import { Map as GameMap, MAP_SHAPE_TYPES, type MapShape } from './Map'
 import { Hex, TERRAIN_TYPES, type TerrainType } from './Hex'
+import { City, type CityStats } from './City'
+import {
+  type CustomProperties,
+  PROPERTY_TARGETS,
+  type PropertyDefinition,
+  PropertySchema,
+  type PropertyTarget,
+  validatePropertyDefinition,
+} from './CustomProperties'
+import { Faction, type FactionColor } from './Faction'
+import { Region, type RegionKind } from './RegionLayer'
+import { type TerrainDefinition, terrainRegistry, validateTerrainDefinition } from './TerrainRegistry'
+import { Unit, type UnitStats, type UnitType } from './Unit'
+import {
+  formatSchemaIssue,
+  isPointerWithin,
+  MAP_FILE_SCHEMA,
+  type SchemaIssue,
+  toJsonPointer,
+  validateSchema,
+} from './MapSchema'
 import { offsetToAxial, axialToOffset } from './HexCoordinateConverter'
+import type { HexSnapshot, MapState } from './MapDiff'
+import { type MapRepair, REPAIR_ACTIONS, type RepairAction, repairMapFile } from './MapRepair'
+import { findTileById, findTileByModelPath } from '../llm/tile-registry'
+import { version as EDITOR_VERSION } from '../../package.json'
 
 export interface ModelData {
   obj: string
@@ -23,6 +49,8 @@ export interface HexData {
   rotation?: number
   modelData?: ModelData
   hasRiver?: boolean
+  owner?: string // Faction id
+  properties?: CustomProperties // Values of the properties declared in propertySchema
 }
 
 // Version 1.0: Legacy offset coordinates (for migration)
@@ -41,6 +69,46 @@ export interface BuildingData {
   r: number
   height?: number
   modelData: ModelData
+  properties?: CustomProperties
+}
+
+export interface FactionData {
+  id: string
+  name: string
+  color: FactionColor
+  startHex?: { q: number; r: number }
+}
+
+export interface RegionData {
+  id: string
+  name: string
+  color: string
+  kind: RegionKind
+  hexes: string[] // "q,r" keys
+}
+
+// Units and cities are stored with the position of the hex they stand on
+export interface UnitData {
+  id: string
+  q: number
+  r: number
+  height: number
+  type: UnitType
+  name: string
+  faction: string
+  stats: UnitStats
+  facing?: number
+}
+
+export interface CityData {
+  id: string
+  q: number
+  r: number
+  height: number
+  name: string
+  faction: string | null
+  stats: CityStats
+  facing?: number
 }
 
 // Version 1.0: Legacy building data (for migration)
@@ -51,25 +119,131 @@ export interface BuildingDataV1 {
   modelData: ModelData
 }
 
+// One save of the map, recorded in metadata.changelog
+export interface ChangelogEntry {
+  revision: number
+  date: number // Save time (ms since epoch)
+  author?: string
+  note?: string // Change note entered when saving
+}
+
+// A named state of the map saved with it, as the differences from the saved map (see MapHistory)
+export interface CheckpointData {
+  name: string
+  createdAt: number
+  stacks: Record<string, HexSnapshot[]> // "q,r" -> stack at the checkpoint ([] = empty)
+  buildings?: Record<string, BuildingData | null> // "q,r" -> building at the checkpoint
+  mapState?: MapState // Bounds, factions, regions and properties, when they differ
+}
+
+export interface MapMetadata {
+  name?: string
+  description?: string
+  createdAt: number
+  modifiedAt: number
+  mapSize: 'tiny' | 'small' | 'medium' | 'large' | 'very-large'
+  author?: string
+  revision?: number // Incremented on every save (absent in files saved before revisions existed)
+  editorVersion?: string // Version of the editor that wrote the file
+  tags?: string[]
+  changelog?: ChangelogEntry[] // Oldest save first
+  thumbnail?: string // PNG data URL of the minimap (see MapMinimap), for map browsers
+  properties?: CustomProperties // Map-level custom property values
+  checkpoints?: CheckpointData[] // Undo history checkpoints saved with the map (optional)
+}
+
 export interface MapFileFormat {
   version: string
   format: 'warlords-map'
-  metadata: {
-    name?: string
-    description?: string
-    createdAt: number
-    modifiedAt: number
-    mapSize: 'tiny' | 'small' | 'medium' | 'large' | 'very-large'
-  }
+  metadata: MapMetadata
   map: {
     width: number
     height: number
+    shape?: MapShape // Omitted for rectangular maps
   }
+  // Definitions of every terrain used by the hexes, so the file is self-describing
+  terrainTypes?: TerrainDefinition[]
+  // Custom properties hexes, buildings and the map metadata may set (optional)
+  propertySchema?: PropertyDefinition[]
   // Optimized: only store non-empty positions
   // Key format: "q,r" -> array of hexes at that position (sorted by height)
   hexes: Record<string, HexData[]>
   // Buildings stored separately (optional, for future use)
   buildings?: BuildingData[]
+  // Player slots; hexes, units and cities reference them by id (optional)
+  factions?: FactionData[]
+  // Units and cities placed on hexes (optional)
+  units?: UnitData[]
+  cities?: CityData[]
+  // Named regions painted over the map (optional)
+  regions?: RegionData[]
+}
+
+// Version 3.0: Palette entry, a registry tile_id or the full model data for models outside the registry
+export type PaletteEntryV3 = string | ModelData
+
+// Version 3.0: One hex of a stack as a tuple, trailing default values omitted
+// tile: palette index (-1 = no model), terrain: index into terrainTypes, rotation in degrees,
+// river: 1 when the hex has a river, owner: faction id (null when only properties follow)
+export type HexLayerV3 = [
+  tile: number,
+  terrain: number,
+  height: number,
+  rotation?: number,
+  river?: 0 | 1,
+  owner?: string | null,
+  properties?: CustomProperties,
+]
+
+// 2.0 hex field stored at each position of a 3.0 layer tuple
+const LAYER_FIELDS_V3 = ['modelData', 'terrain', 'height', 'rotation', 'hasRiver', 'owner', 'properties']
+
+// Version 3.0: All hexes at one position (empty array = no hexes)
+export type HexCellV3 = HexLayerV3[]
+
+// Version 3.0: The same cell repeated `run` times
+export interface HexRunV3 {
+  run: number
+  cell: HexCellV3
+}
+
+// Version 3.0: Consecutive cells of one axial row, starting at q
+export interface HexRowV3 {
+  r: number
+  q: number
+  cells: Array<HexCellV3 | HexRunV3>
+}
+
+export interface MapFileFormatV3 extends Omit<MapFileFormat, 'hexes'> {
+  palette: PaletteEntryV3[]
+  rows: HexRowV3[]
+}
+
+export type MapFileVersion = '2.0' | '3.0'
+
+export interface SerializeOptions {
+  name?: string
+  description?: string
+  includeBuildings?: boolean
+  buildingData?: Map<string, { obj: string; mtl: string; name: string }>
+  buildingProperties?: Map<string, CustomProperties> // Same keys as buildingData
+  // Metadata of the file being saved over: keeps createdAt and continues the revision history
+  previousMetadata?: MapMetadata
+  author?: string // Default: author of the previous save
+  tags?: string[] // Default: tags of the previous save
+  changeNote?: string // Short description of this save for the changelog
+  thumbnail?: string // PNG data URL stored in the metadata; not carried over from previous saves
+  checkpoints?: CheckpointData[] // Stored in the metadata; not carried over from previous saves
+}
+
+export interface DeserializeOptions {
+  repair?: boolean // Lenient load: fix or drop damaged data and report it (see MapRepair)
+}
+
+export interface MapValidationResult {
+  valid: boolean
+  errors: string[] // Readable messages, prefixed with the JSON pointer for schema violations
+  issues: SchemaIssue[] // The same problems with their JSON pointer paths
 }
 
 // Version 1.0: Legacy format (for migration)
@@ -92,7 +266,7 @@ export interface MapFileFormatV1 {
 }
 
 /**
- * Serialize map to optimized JSON format (Version 2.0)
+ * Serialize map to optimized JSON format (Version 3.0, or 2.0 on request)
  *
  * Optimization strategies:
  * 1. Only store non-empty hex positions (sparse array)
@@ -100,10 +274,14 @@ export interface MapFileFormatV1 {
  * 3. Use short keys ("q,r" format)
  * 4. Omit default values (rotation=0, height=0, etc.)
  * 5. Buildings stored separately for clarity
+ * 6. (3.0) Models are stored once in a palette and referenced by index
+ * 7. (3.0) Hexes are stored as rows of tuples; repeated cells are run-length encoded
+ * 8. (3.0) No indentation
  */
 export class MapSerializer {
-  private static readonly CURRENT_VERSION = '2.0'
+  private static readonly CURRENT_VERSION: MapFileVersion = '3.0'
   private static readonly FORMAT_ID = 'warlords-map'
+  private static readonly NO_TILE = -1
 
   /**
    * Serialize map to JSON string
@@ -111,46 +289,48 @@ export class MapSerializer {
   static serialize(
     map: GameMap,
     mapSize: 'tiny' | 'small' | 'medium' | 'large' | 'very-large',
-    options: {
-      name?: string
-      description?: string
-      includeBuildings?: boolean
-      buildingData?: Map<string, { obj: string; mtl: string; name: string }>
+    options: SerializeOptions & {
+      version?: MapFileVersion // Default: current version (3.0)
+      rle?: boolean // Run-length encode repeated cells (3.0 only, default: true)
     } = {}
   ): string {
+    return MapSerializer.stringify(
+      MapSerializer.toMapFile(map, mapSize, options),
+      options.version ?? MapSerializer.CURRENT_VERSION,
+      options.rle ?? true
+    )
+  }
+
+  /**
+   * Build the in-memory file structure (2.0 hex layout) for a map
+   */
+  static toMapFile(
+    map: GameMap,
+    mapSize: 'tiny' | 'small' | 'medium' | 'large' | 'very-large',
+    options: SerializeOptions = {}
+  ): MapFileFormat {
     const now = Date.now()
     const hexes: Record<string, HexData[]> = {}
+    const usedTerrains = new Set<string>()
+    const units: UnitData[] = []
+    const cities: CityData[] = []
 
     // Serialize all hex positions (only non-empty stacks)
     // Iterate through all hexes in the Map
     for (const [key, hexStack] of map.hexes.entries()) {
       if (hexStack.length > 0) {
         hexes[key] = hexStack.map(hex => {
-          const hexData: HexData = {
-            q: hex.q,
-            r: hex.r,
-            terrain: hex.terrain,
-            height: hex.height ?? 0,
-          }
+          usedTerrains.add(hex.terrain)
 
-          // Only include non-default values to save space
-          if (hex.rotation && hex.rotation !== 0) {
-            hexData.rotation = hex.rotation
+          if (hex.unit) {
+            units.push(MapSerializer.serializeUnit(hex, hex.unit))
           }
 
-          if (hex.modelData) {
-            hexData.modelData = {
-              obj: hex.modelData.obj,
-              mtl: hex.modelData.mtl,
-              name: hex.modelData.name,
-            }
-          }
-
-          if (hex.hasRiver) {
-            hexData.hasRiver = true
+          if (hex.city) {
+            cities.push(MapSerializer.serializeCity(hex, hex.city))
           }
 
-          return hexData
+          return MapSerializer.toHexData(hex)
         })
       }
     }
@@ -163,6 +343,7 @@ export class MapSerializer {
         const [posPart, heightPart] = key.split('_')
         const [q, r] = posPart.split(',').map(Number)
         const height = heightPart ? Number(heightPart) : undefined
+        const properties = options.buildingProperties?.get(key)
 
         buildings.push({
           q,
@@ -173,62 +354,165 @@ export class MapSerializer {
             mtl: modelData.mtl,
             name: modelData.name,
           },
+          ...(properties && Object.keys(properties).length > 0 && { properties: { ...properties } }),
         })
       }
     }
 
-    const mapFile: MapFileFormat = {
+    const factions: FactionData[] = map.factions.map(faction => ({
+      id: faction.id,
+      name: faction.name,
+      color: faction.color,
+      ...(faction.startHex && { startHex: { q: faction.startHex.q, r: faction.startHex.r } }),
+    }))
+
+    const regions: RegionData[] = map.regions.getRegions().map(region => ({
+      id: region.id,
+      name: region.name,
+      color: region.color,
+      kind: region.kind,
+      hexes: Array.from(region.hexes),
+    }))
+
+    const terrainTypes = Array.from(usedTerrains)
+      .map(id => terrainRegistry.get(id))
+      .filter((definition): definition is TerrainDefinition => definition !== null)
+
+    const propertySchema = map.propertySchema.getDefinitions()
+    const metadata = MapSerializer.nextMetadata(mapSize, options, now)
+    if (Object.keys(map.properties).length > 0) {
+      metadata.properties = { ...map.properties }
+    }
+
+    return {
       version: this.CURRENT_VERSION,
       format: this.FORMAT_ID,
-      metadata: {
-        name: options.name,
-        description: options.description,
-        createdAt: now,
-        modifiedAt: now,
-        mapSize,
-      },
+      metadata,
       map: {
         width: map.width,
         height: map.height,
+        ...(map.shape.type !== MAP_SHAPE_TYPES.RECTANGLE && { shape: map.shape }),
       },
+      ...(terrainTypes.length > 0 && { terrainTypes }),
+      ...(propertySchema.length > 0 && { propertySchema }),
       hexes,
       ...(buildings.length > 0 && { buildings }),
+      ...(factions.length > 0 && { factions }),
+      ...(units.length > 0 && { units }),
+      ...(cities.length > 0 && { cities }),
+      ...(regions.length > 0 && { regions }),
+    }
+  }
+
+  /**
+   * Write a file structure as JSON in the requested version
+   */
+  static stringify(
+    mapFile: MapFileFormat,
+    version: MapFileVersion = MapSerializer.CURRENT_VERSION,
+    rle = true
+  ): string {
+    const file = { ...mapFile, version }
+    if (version === '2.0') {
+      return JSON.stringify(file, null, 2)
     }
+    return JSON.stringify(MapSerializer.encodeV3(file, rle))
+  }
 
-    return JSON.stringify(mapFile, null, 2)
+  /**
+   * Parse a JSON map file; 3.0 files are expanded to the 2.0 hex layout
+   * Given a repair log, damaged 3.0 palette entries and layers are dropped and logged instead of failing
+   */
+  static parse(jsonString: string, repairs?: MapRepair[]): MapFileFormat | MapFileFormatV1 {
+    const parsed: MapFileFormat | MapFileFormatV1 | MapFileFormatV3 = JSON.parse(jsonString)
+    MapSerializer.assertFormat(parsed)
+    return MapSerializer.isV3(parsed.version)
+      ? MapSerializer.decodeV3(parsed as MapFileFormatV3, repairs)
+      : (parsed as MapFileFormat | MapFileFormatV1)
   }
 
   /**
    * Deserialize JSON string to map
-   * Supports migration from version 1.0 (offset coordinates) to 2.0 (axial coordinates)
+   * Supports migration from version 1.0 (offset coordinates) and 2.0 (verbose hexes)
+   * With `repair`, damaged hexes and buildings are fixed or dropped instead of failing the load
    */
-  static deserialize(jsonString: string): {
+  static deserialize(
+    jsonString: string,
+    options: DeserializeOptions = {}
+  ): {
     map: GameMap
     mapSize: 'tiny' | 'small' | 'medium' | 'large' | 'very-large'
     buildings?: BuildingData[]
     metadata?: MapFileFormat['metadata']
+    repairs?: MapRepair[]
   } {
-    const mapFile: MapFileFormat | MapFileFormatV1 = JSON.parse(jsonString)
+    const decodeRepairs: MapRepair[] | undefined = options.repair ? [] : undefined
+    const result = MapSerializer.fromMapFile(MapSerializer.parse(jsonString, decodeRepairs), options)
+    return decodeRepairs
+      ? { ...result, repairs: [...decodeRepairs, ...(result.repairs ?? [])] }
+      : result
+  }
 
-    // Validate format
-    if (mapFile.format !== this.FORMAT_ID) {
-      throw new Error(`Invalid map format: expected ${this.FORMAT_ID}, got ${mapFile.format}`)
-    }
+  /**
+   * Build a map from a parsed file structure (see parse)
+   */
+  static fromMapFile(
+    file: MapFileFormat | MapFileFormatV1,
+    options: DeserializeOptions = {}
+  ): {
+    map: GameMap
+    mapSize: 'tiny' | 'small' | 'medium' | 'large' | 'very-large'
+    buildings?: BuildingData[]
+    metadata?: MapFileFormat['metadata']
+    repairs?: MapRepair[] // Changes made in repair mode (see MapRepair)
+  } {
+    MapSerializer.assertFormat(file)
 
     // Version compatibility check and migration
-    const isV1 = mapFile.version === '1.0'
+    const isV1 = file.version === '1.0'
+
+    // Repair works on the 2.0 layout; 1.0 files are migrated as they are
+    const repairs: MapRepair[] | undefined = options.repair ? [] : undefined
+    let mapFile = file
+    if (repairs && !isV1) {
+      const repaired = repairMapFile(file as MapFileFormat)
+      mapFile = repaired.mapFile
+      repairs.push(...repaired.repairs)
+    }
+
     if (isV1) {
       console.warn(
         `Map version 1.0 detected. Migrating to version ${this.CURRENT_VERSION}...`
       )
-    } else if (mapFile.version !== this.CURRENT_VERSION) {
+    } else if (mapFile.version !== '2.0' && mapFile.version !== this.CURRENT_VERSION) {
       console.warn(
         `Map version mismatch: file version ${mapFile.version}, current version ${this.CURRENT_VERSION}. Attempting to load anyway...`
       )
     }
 
-    // Create map
-    const map = new GameMap(mapFile.map.width, mapFile.map.height)
+    // Terrain types the file brings along replace those of the previously loaded map
+    // (put back when the file cannot be loaded, the previous map stays open then)
+    const previousTerrains = terrainRegistry.getMapTerrains()
+    terrainRegistry.setMapTerrains(isV1 ? [] : ((mapFile as MapFileFormat).terrainTypes ?? []))
+    try {
+      return MapSerializer.buildFromFile(mapFile, isV1, repairs)
+    } catch (error) {
+      terrainRegistry.setMapTerrains(previousTerrains)
+      throw error
+    }
+  }
+
+  private static buildFromFile(
+    mapFile: MapFileFormat | MapFileFormatV1,
+    isV1: boolean,
+    repairs: MapRepair[] | undefined
+  ): ReturnType<typeof MapSerializer.fromMapFile> {
+    // Create map (files without a shape are rectangular)
+    const map = new GameMap(
+      mapFile.map.width,
+      mapFile.map.height,
+      isV1 ? undefined : ((mapFile as MapFileFormat).map.shape ?? MapSerializer.legacyShape(mapFile as MapFileFormat))
+    )
 
     // Deserialize hexes
     if (isV1) {
@@ -264,25 +548,21 @@ export class MapSerializer {
       const v2File = mapFile as MapFileFormat
       for (const [key, hexStack] of Object.entries(v2File.hexes)) {
         const [q, r] = key.split(',').map(Number)
-
-        for (const hexData of hexStack) {
-          const hex = new Hex(hexData.q, hexData.r, hexData.terrain)
-          hex.height = hexData.height ?? 0
-          hex.rotation = hexData.rotation ?? 0
-
-          if (hexData.modelData) {
-            hex.modelData = {
-              obj: hexData.modelData.obj,
-              mtl: hexData.modelData.mtl,
-              name: hexData.modelData.name,
-            }
-          }
-
-          if (hexData.hasRiver) {
-            hex.hasRiver = true
+        if (!map.isValidCoordinate(q, r)) {
+          // Dropping them silently would lose data; only repair mode leaves them out
+          if (!repairs) {
+            throw new Error(`Hexes at (${q}, ${r}) are outside the map shape`)
           }
+          repairs.push({
+            action: REPAIR_ACTIONS.SKIPPED_HEX,
+            path: toJsonPointer(['hexes', key]),
+            message: 'outside the map shape',
+          })
+          continue
+        }
 
-          map.setHex(q, r, hex)
+        for (const hexData of hexStack) {
+          map.setHex(q, r, MapSerializer.fromHexData(hexData))
         }
       }
     }
@@ -307,72 +587,859 @@ export class MapSerializer {
       }
     }
 
+    // Factions, regions, units, cities and custom properties (introduced after 2.0, absent in older files)
+    if (!isV1) {
+      const v2File = mapFile as MapFileFormat
+      map.propertySchema = new PropertySchema(v2File.propertySchema)
+      map.properties = { ...v2File.metadata.properties }
+      for (const factionData of v2File.factions ?? []) {
+        map.addFaction(
+          new Faction(factionData.id, factionData.name, factionData.color, factionData.startHex ?? null)
+        )
+      }
+      v2File.units?.forEach((unitData, index) => {
+        const hex = MapSerializer.findEntityHex(map, unitData)
+        if (!hex) {
+          const message = `no hex at (${unitData.q}, ${unitData.r})`
+          if (repairs) {
+            repairs.push({
+              action: REPAIR_ACTIONS.DROPPED_UNIT,
+              path: toJsonPointer(['units', index]),
+              message,
+            })
+          } else {
+            console.warn(`Skipping unit ${unitData.id}: ${message}`)
+          }
+          return
+        }
+        hex.unit = MapSerializer.deserializeUnit(unitData)
+      })
+      for (const regionData of v2File.regions ?? []) {
+        const region = new Region(regionData.id, regionData.name, regionData.color, regionData.kind)
+        for (const key of regionData.hexes) {
+          const [q, r] = key.split(',').map(Number)
+          if (map.isValidCoordinate(q, r)) {
+            region.hexes.add(`${q},${r}`)
+          }
+        }
+        map.regions.addRegion(region)
+      }
+      v2File.cities?.forEach((cityData, index) => {
+        const hex = MapSerializer.findEntityHex(map, cityData)
+        if (!hex) {
+          const message = `no hex at (${cityData.q}, ${cityData.r})`
+          if (repairs) {
+            repairs.push({
+              action: REPAIR_ACTIONS.DROPPED_CITY,
+              path: toJsonPointer(['cities', index]),
+              message,
+            })
+          } else {
+            console.warn(`Skipping city ${cityData.id}: ${message}`)
+          }
+          return
+        }
+        hex.city = MapSerializer.deserializeCity(cityData)
+      })
+    }
+
     return {
       map,
       mapSize: mapFile.metadata.mapSize,
       buildings,
       metadata: mapFile.metadata,
+      ...(repairs && { repairs }),
+    }
+  }
+
+  /**
+   * Shape for a file saved before map shapes existed. Editors of that time accepted hexes up to
+   * `width` rows above and below the rectangle; when the file has any, the rectangle is turned
+   * into a mask that also covers them, so the file keeps opening with all its hexes.
+   */
+  private static legacyShape(mapFile: MapFileFormat): MapShape | undefined {
+    const { width, height } = mapFile.map
+    const rectangle = new GameMap(width, height)
+    const extraCells = Object.keys(mapFile.hexes ?? {}).filter(key => {
+      const [q, r] = key.split(',').map(Number)
+      return (
+        !rectangle.isValidCoordinate(q, r) &&
+        Number.isInteger(r) &&
+        q >= 0 &&
+        q < width &&
+        r >= -width &&
+        r < height + width
+      )
+    })
+    if (extraCells.length === 0) return undefined
+
+    console.warn(
+      `Map has ${extraCells.length} hex positions outside its ${width}x${height} rectangle; keeping them in a custom mask shape`
+    )
+    const cells = rectangle.getAllCoordinates().map(({ q, r }) => `${q},${r}`)
+    return { type: MAP_SHAPE_TYPES.MASK, cells: [...cells, ...extraCells] }
+  }
+
+  /**
+   * Metadata for a new save: keeps createdAt of the loaded file and appends to its history
+   */
+  private static nextMetadata(
+    mapSize: MapMetadata['mapSize'],
+    options: SerializeOptions,
+    now: number
+  ): MapMetadata {
+    const previous = options.previousMetadata
+    const revision = (previous?.revision ?? 0) + 1
+    const author = options.author ?? previous?.author
+    const tags = options.tags ?? previous?.tags
+    const note = options.changeNote?.trim()
+
+    return {
+      name: options.name,
+      description: options.description,
+      createdAt: previous?.createdAt ?? now,
+      modifiedAt: now,
+      mapSize,
+      ...(author && { author }),
+      revision,
+      editorVersion: EDITOR_VERSION,
+      ...(tags && tags.length > 0 && { tags: [...tags] }),
+      changelog: [
+        ...(previous?.changelog ?? []),
+        { revision, date: now, ...(author && { author }), ...(note && { note }) },
+      ],
+      ...(options.thumbnail && { thumbnail: options.thumbnail }),
+      ...(options.checkpoints &&
+        options.checkpoints.length > 0 && { checkpoints: options.checkpoints }),
+    }
+  }
+
+  /**
+   * One hex as stored in a 2.0 file (default values omitted; units and cities are stored separately)
+   */
+  static toHexData(hex: Hex): HexData {
+    const hexData: HexData = {
+      q: hex.q,
+      r: hex.r,
+      terrain: hex.terrain,
+      height: hex.height ?? 0,
+    }
+
+    // Only include non-default values to save space
+    if (hex.rotation && hex.rotation !== 0) {
+      hexData.rotation = hex.rotation
+    }
+
+    if (hex.modelData) {
+      hexData.modelData = {
+        obj: hex.modelData.obj,
+        mtl: hex.modelData.mtl,
+        name: hex.modelData.name,
+      }
+    }
+
+    if (hex.hasRiver) {
+      hexData.hasRiver = true
+    }
+
+    if (hex.owner) {
+      hexData.owner = hex.owner
+    }
+
+    if (hex.properties && Object.keys(hex.properties).length > 0) {
+      hexData.properties = { ...hex.properties }
+    }
+
+    return hexData
+  }
+
+  /**
+   * Build a hex from its 2.0 file data (the inverse of toHexData)
+   */
+  static fromHexData(hexData: HexData): Hex {
+    const hex = new Hex(hexData.q, hexData.r, hexData.terrain)
+    hex.height = hexData.height ?? 0
+    hex.rotation = hexData.rotation ?? 0
+
+    if (hexData.modelData) {
+      hex.modelData = {
+        obj: hexData.modelData.obj,
+        mtl: hexData.modelData.mtl,
+        name: hexData.modelData.name,
+      }
+    }
+
+    if (hexData.hasRiver) {
+      hex.hasRiver = true
+    }
+
+    if (hexData.owner) {
+      hex.owner = hexData.owner
+    }
+
+    if (hexData.properties) {
+      hex.properties = { ...hexData.properties }
+    }
+
+    return hex
+  }
+
+  static serializeUnit(hex: Hex, unit: Unit): UnitData {
+    return {
+      id: unit.id,
+      q: hex.q,
+      r: hex.r,
+      height: hex.height,
+      type: unit.type,
+      name: unit.name,
+      faction: unit.faction,
+      stats: { ...unit.stats },
+      ...(unit.facing !== 0 && { facing: unit.facing }),
+    }
+  }
+
+  static deserializeUnit(unitData: UnitData): Unit {
+    return new Unit(unitData.type, unitData.faction, {
+      id: unitData.id,
+      name: unitData.name,
+      stats: unitData.stats,
+      facing: unitData.facing,
+    })
+  }
+
+  static serializeCity(hex: Hex, city: City): CityData {
+    return {
+      id: city.id,
+      q: hex.q,
+      r: hex.r,
+      height: hex.height,
+      name: city.name,
+      faction: city.faction,
+      stats: { ...city.stats },
+      ...(city.facing !== 0 && { facing: city.facing }),
+    }
+  }
+
+  static deserializeCity(cityData: CityData): City {
+    return new City(cityData.name, cityData.faction ?? null, {
+      id: cityData.id,
+      stats: cityData.stats,
+      facing: cityData.facing,
+    })
+  }
+
+  /**
+   * Find the hex a unit/city was saved on; falls back to the top of the stack
+   */
+  private static findEntityHex(
+    map: GameMap,
+    entity: { q: number; r: number; height?: number }
+  ): Hex | null {
+    return map.getHex(entity.q, entity.r, entity.height) ?? map.getHex(entity.q, entity.r)
+  }
+
+  private static assertFormat(mapFile: { format?: string }) {
+    if (mapFile.format !== this.FORMAT_ID) {
+      throw new Error(`Invalid map format: expected ${this.FORMAT_ID}, got ${mapFile.format}`)
     }
   }
 
+  private static isV3(version: string | undefined): boolean {
+    return typeof version === 'string' && version.startsWith('3.')
+  }
+
   /**
-   * Get file size estimate in bytes
+   * Convert a 2.0 file to 3.0: hexes become palette-indexed rows
    */
-  static estimateSize(map: GameMap): number {
-    // Rough estimate: ~200 bytes per hex (with model data)
-    let hexCount = 0
-    for (const hexStack of map.hexes.values()) {
-      hexCount += hexStack.length
+  private static encodeV3(mapFile: MapFileFormat, rle: boolean): MapFileFormatV3 {
+    const { hexes, ...rest } = mapFile
+    const palette: PaletteEntryV3[] = []
+    const paletteIndex = new globalThis.Map<string, number>()
+    // Files written before terrainTypes existed take the definitions from the registry
+    const terrainTypes = [...(mapFile.terrainTypes ?? [])]
+    const terrainIndex = new globalThis.Map(
+      terrainTypes.map((definition, index) => [definition.id, index])
+    )
+
+    const getTerrainIndex = (terrain: string): number => {
+      let index = terrainIndex.get(terrain)
+      if (index === undefined) {
+        const definition = terrainRegistry.get(terrain)
+        if (!definition) {
+          throw new Error(`Unknown terrain type "${terrain}": not in terrainTypes or the terrain registry`)
+        }
+        index = terrainTypes.length
+        terrainTypes.push(definition)
+        terrainIndex.set(terrain, index)
+      }
+      return index
+    }
+
+    const getTileIndex = (modelData: ModelData | undefined): number => {
+      if (!modelData) return MapSerializer.NO_TILE
+      const tile = findTileByModelPath(modelData.obj)
+      // Registry tiles are stored by id only when the id restores exactly the same model data
+      const entry: PaletteEntryV3 =
+        tile &&
+        tile.obj_path === modelData.obj &&
+        tile.mtl_path === modelData.mtl &&
+        tile.name === modelData.name
+          ? tile.tile_id
+          : { obj: modelData.obj, mtl: modelData.mtl, name: modelData.name }
+      const key = JSON.stringify(entry)
+      let index = paletteIndex.get(key)
+      if (index === undefined) {
+        index = palette.length
+        palette.push(entry)
+        paletteIndex.set(key, index)
+      }
+      return index
     }
-    return hexCount * 200 + 500 // Base overhead ~500 bytes
+
+    const encodeLayer = (hexData: HexData): HexLayerV3 => {
+      const layer: HexLayerV3 = [
+        getTileIndex(hexData.modelData),
+        getTerrainIndex(hexData.terrain),
+        hexData.height,
+        Number((((hexData.rotation ?? 0) * 180) / Math.PI).toFixed(4)),
+        hexData.hasRiver ? 1 : 0,
+        hexData.owner ?? null,
+        hexData.properties,
+      ]
+      // Trim trailing defaults (no properties, no owner, no river, no rotation)
+      while (layer.length > 3 && !layer[layer.length - 1]) {
+        layer.pop()
+      }
+      return layer
+    }
+
+    // Group positions into axial rows (r), each spanning its lowest to highest q
+    const rowsByR = new globalThis.Map<number, globalThis.Map<number, HexCellV3>>()
+    for (const [key, hexStack] of Object.entries(hexes)) {
+      const [q, r] = key.split(',').map(Number)
+      let row = rowsByR.get(r)
+      if (!row) {
+        row = new globalThis.Map()
+        rowsByR.set(r, row)
+      }
+      row.set(q, hexStack.map(encodeLayer))
+    }
+
+    const rows: HexRowV3[] = []
+    for (const r of Array.from(rowsByR.keys()).sort((a, b) => a - b)) {
+      const row = rowsByR.get(r) as globalThis.Map<number, HexCellV3>
+      const qs = Array.from(row.keys())
+      const minQ = Math.min(...qs)
+      const maxQ = Math.max(...qs)
+      const cells: HexCellV3[] = []
+      for (let q = minQ; q <= maxQ; q++) {
+        cells.push(row.get(q) ?? [])
+      }
+      rows.push({ r, q: minQ, cells: rle ? MapSerializer.runLengthEncode(cells) : cells })
+    }
+
+    return { ...rest, ...(terrainTypes.length > 0 && { terrainTypes }), palette, rows }
   }
 
   /**
-   * Validate map file structure
+   * Replace repeated cells with runs where that makes the output shorter
    */
-  static validate(mapFile: unknown): { valid: boolean; errors: string[] } {
+  private static runLengthEncode(cells: HexCellV3[]): Array<HexCellV3 | HexRunV3> {
+    const encoded: Array<HexCellV3 | HexRunV3> = []
+    let index = 0
+    while (index < cells.length) {
+      const json = JSON.stringify(cells[index])
+      let end = index + 1
+      while (end < cells.length && JSON.stringify(cells[end]) === json) {
+        end++
+      }
+
+      const count = end - index
+      const run: HexRunV3 = { run: count, cell: cells[index] }
+      if (JSON.stringify(run).length < count * (json.length + 1)) {
+        encoded.push(run)
+      } else {
+        for (let i = index; i < end; i++) encoded.push(cells[i])
+      }
+      index = end
+    }
+    return encoded
+  }
+
+  /**
+   * Visit every cell of 3.0 rows with its position and path in the file, expanding runs
+   * (every repetition of a run has the path of the run's cell)
+   */
+  private static forEachCellV3(
+    rows: HexRowV3[],
+    callback: (q: number, r: number, cell: HexCellV3, path: Array<string | number>) => void
+  ) {
+    rows.forEach((row, rowIndex) => {
+      let q = row.q
+      row.cells.forEach((entry, cellIndex) => {
+        const path: Array<string | number> = ['rows', rowIndex, 'cells', cellIndex]
+        if (Array.isArray(entry)) {
+          callback(q++, row.r, entry, path)
+        } else {
+          for (let i = 0; i < entry.run; i++) callback(q++, row.r, entry.cell, [...path, 'cell'])
+        }
+      })
+    })
+  }
+
+  /**
+   * Resolve a palette entry back to model data
+   */
+  private static resolvePaletteEntry(entry: PaletteEntryV3): ModelData {
+    if (typeof entry !== 'string') {
+      return { obj: entry.obj, mtl: entry.mtl, name: entry.name }
+    }
+    const tile = findTileById(entry)
+    if (!tile) {
+      throw new Error(`Unknown tile id in palette: ${entry}`)
+    }
+    return { obj: tile.obj_path, mtl: tile.mtl_path, name: tile.name }
+  }
+
+  /**
+   * Expand a 3.0 file to the 2.0 layout (hexes keyed by position)
+   * With a repair log, unusable palette entries, rows, cells and layers are dropped and logged;
+   * the decoded hexes then go through repairMapFile like those of a 2.0 file
+   */
+  private static decodeV3(mapFile: MapFileFormatV3, repairs?: MapRepair[]): MapFileFormat {
+    const { palette, rows, ...rest } = mapFile
+    const terrainIds = (Array.isArray(mapFile.terrainTypes) ? mapFile.terrainTypes : []).map(
+      definition => definition?.id
+    )
+    const hexes: Record<string, HexData[]> = {}
+
+    if (!repairs) {
+      const models = palette.map(entry => MapSerializer.resolvePaletteEntry(entry))
+      MapSerializer.forEachCellV3(rows, (q, r, cell) => {
+        if (cell.length === 0) return
+        hexes[`${q},${r}`] = cell.map(layer => {
+          const [tile, terrain] = layer
+          if (tile !== MapSerializer.NO_TILE && !(Number.isInteger(tile) && tile >= 0 && tile < models.length)) {
+            throw new Error(`Unknown palette index ${tile} at hex ${q},${r}`)
+          }
+          if (!(Number.isInteger(terrain) && terrain >= 0 && terrain < terrainIds.length)) {
+            throw new Error(`Unknown terrain index ${terrain} at hex ${q},${r}`)
+          }
+          return MapSerializer.decodeLayerV3(q, r, layer, models, terrainIds)
+        })
+      })
+      return { ...rest, hexes }
+    }
+
+    const skip = (action: RepairAction, path: Array<string | number>, message: string) => {
+      repairs.push({ action, path: toJsonPointer(path), message })
+    }
+    const models = (Array.isArray(palette) ? palette : []).map((entry, index) => {
+      if (MapSerializer.isValidPaletteEntry(entry)) return MapSerializer.resolvePaletteEntry(entry)
+      skip(
+        REPAIR_ACTIONS.DROPPED_PALETTE_ENTRY,
+        ['palette', index],
+        typeof entry === 'string' ? `unknown tile id "${entry}"` : 'invalid model data'
+      )
+      return undefined
+    })
+
+    // Broken rows and cells are emptied in place, so the paths of the others stay the same
+    let validRows: HexRowV3[] = []
+    if (Array.isArray(rows)) {
+      validRows = rows.map((row, rowIndex) => {
+        if (!MapSerializer.isRowV3(row)) {
+          skip(REPAIR_ACTIONS.SKIPPED_HEX, ['rows', rowIndex], 'invalid row')
+          return { q: 0, r: 0, cells: [] }
+        }
+        const cells = row.cells.map((entry, cellIndex) => {
+          if (MapSerializer.isCellV3(entry)) return entry
+          skip(REPAIR_ACTIONS.SKIPPED_HEX, ['rows', rowIndex, 'cells', cellIndex], 'invalid cell')
+          return []
+        })
+        return { ...row, cells }
+      })
+    } else {
+      skip(REPAIR_ACTIONS.SKIPPED_HEX, ['rows'], 'expected an array')
+    }
+
+    MapSerializer.forEachCellV3(validRows, (q, r, cell, cellPath) => {
+      const stack = cell.flatMap((layer, index) => {
+        const path = [...cellPath, index]
+        if (!Array.isArray(layer) || typeof layer[0] !== 'number' || typeof layer[1] !== 'number') {
+          skip(REPAIR_ACTIONS.SKIPPED_HEX, path, 'invalid hex layer')
+          return []
+        }
+        const [tile, terrain] = layer
+        if (tile !== MapSerializer.NO_TILE && !models[tile]) {
+          skip(REPAIR_ACTIONS.SKIPPED_HEX, path, `unknown palette index ${tile}`)
+          return []
+        }
+        if (terrainIds[terrain] === undefined) {
+          skip(REPAIR_ACTIONS.SKIPPED_HEX, path, `unknown terrain index ${terrain}`)
+          return []
+        }
+        return [MapSerializer.decodeLayerV3(q, r, layer, models as ModelData[], terrainIds)]
+      })
+      if (stack.length > 0) hexes[`${q},${r}`] = stack
+    })
+
+    return { ...rest, hexes }
+  }
+
+  private static isValidPaletteEntry(entry: PaletteEntryV3): boolean {
+    if (typeof entry === 'string') return findTileById(entry) !== undefined
+    return (
+      typeof entry?.obj === 'string' && typeof entry?.mtl === 'string' && typeof entry?.name === 'string'
+    )
+  }
+
+  private static isRowV3(row: HexRowV3): boolean {
+    return typeof row?.q === 'number' && typeof row?.r === 'number' && Array.isArray(row?.cells)
+  }
+
+  private static isCellV3(entry: HexCellV3 | HexRunV3): boolean {
+    return Array.isArray(entry) || (entry?.run > 0 && Array.isArray(entry.cell))
+  }
+
+  private static decodeLayerV3(
+    q: number,
+    r: number,
+    [tile, terrain, height, rotation, river, owner, properties]: HexLayerV3,
+    models: ModelData[],
+    terrainIds: string[]
+  ): HexData {
+    return {
+      q,
+      r,
+      terrain: terrainIds[terrain],
+      height,
+      ...(rotation && { rotation: (rotation * Math.PI) / 180 }),
+      ...(tile !== MapSerializer.NO_TILE && { modelData: { ...models[tile] } }),
+      ...(river === 1 && { hasRiver: true }),
+      ...(owner && { owner }),
+      ...(properties && { properties: { ...properties } }),
+    }
+  }
+
+  /**
+   * Get the size in bytes of the map as it would be saved
+   */
+  static estimateSize(
+    map: GameMap,
+    mapSize: 'tiny' | 'small' | 'medium' | 'large' | 'very-large' = 'small'
+  ): number {
+    return new TextEncoder().encode(MapSerializer.serialize(map, mapSize)).length
+  }
+
+  /**
+   * Validate map file structure against the map file schema (map-file.schema.json)
+   * plus the checks a schema cannot express: known terrain ids and hex keys matching q,r
+   */
+  static validate(mapFile: unknown): MapValidationResult {
     const errors: string[] = []
+    const issues: SchemaIssue[] = []
+    // Checks predating the schema keep their plain messages; every issue records its path
+    const fail = (path: string, message: string) => {
+      issues.push({ path, message })
+      errors.push(message)
+    }
+    const failAt = (issue: SchemaIssue) => {
+      issues.push(issue)
+      errors.push(formatSchemaIssue(issue))
+    }
 
     if (!mapFile || typeof mapFile !== 'object') {
-      return { valid: false, errors: ['Map file is not an object'] }
+      fail('', 'Map file is not an object')
+      return { valid: false, errors, issues }
     }
 
     const file = mapFile as Partial<MapFileFormat | MapFileFormatV1>
 
     if (file.format !== this.FORMAT_ID) {
-      errors.push(`Invalid format: expected ${this.FORMAT_ID}`)
+      fail('/format', `Invalid format: expected ${this.FORMAT_ID}`)
     }
 
     if (!file.version) {
-      errors.push('Missing version field')
+      fail('/version', 'Missing version field')
     }
 
     if (!file.map) {
-      errors.push('Missing map field')
+      fail('/map', 'Missing map field')
     } else {
       if (typeof file.map.width !== 'number' || file.map.width <= 0) {
-        errors.push('Invalid map width')
+        fail('/map/width', 'Invalid map width')
       }
       if (typeof file.map.height !== 'number' || file.map.height <= 0) {
-        errors.push('Invalid map height')
+        fail('/map/height', 'Invalid map height')
+      }
+      const shape = (file as Partial<MapFileFormat>).map?.shape
+      if (
+        shape !== undefined &&
+        !(Object.values(MAP_SHAPE_TYPES) as string[]).includes(shape?.type as string)
+      ) {
+        fail('/map/shape', 'Invalid map shape')
+      }
+    }
+
+    // Only built-in terrains and the file's own table count, not those of a map loaded before
+    const v2File = file as Partial<MapFileFormat>
+    const knownTerrains = new Set(terrainRegistry.getBuiltInIds())
+    if (v2File.terrainTypes !== undefined) {
+      if (!Array.isArray(v2File.terrainTypes)) {
+        fail('/terrainTypes', 'Invalid terrainTypes field: expected an array')
+      } else {
+        v2File.terrainTypes.forEach((definition, index) => {
+          const definitionErrors = validateTerrainDefinition(definition)
+          if (definitionErrors.length > 0) {
+            fail(
+              toJsonPointer(['terrainTypes', index]),
+              `Invalid terrain definition at terrainTypes[${index}]: ${definitionErrors.join(', ')}`
+            )
+          } else {
+            knownTerrains.add(definition.id)
+          }
+        })
+      }
+    }
+
+    const propertySchema = new PropertySchema()
+    if (v2File.propertySchema !== undefined) {
+      if (!Array.isArray(v2File.propertySchema)) {
+        fail('/propertySchema', 'Invalid propertySchema field: expected an array')
+      } else {
+        v2File.propertySchema.forEach((definition, index) => {
+          const definitionErrors = validatePropertyDefinition(definition)
+          if (definitionErrors.length === 0 && propertySchema.has(definition.name)) {
+            definitionErrors.push(`duplicate property "${definition.name}"`)
+          }
+          if (definitionErrors.length > 0) {
+            fail(
+              toJsonPointer(['propertySchema', index]),
+              `Invalid property definition at propertySchema[${index}]: ${definitionErrors.join(', ')}`
+            )
+          } else {
+            propertySchema.add(definition)
+          }
+        })
+      }
+    }
+    // Custom property values must be declared in the schema for their target and fit its type
+    const checkProperties = (
+      properties: unknown,
+      target: PropertyTarget,
+      path: Array<string | number>
+    ) => {
+      if (!properties || typeof properties !== 'object' || Array.isArray(properties)) return
+      for (const [name, value] of Object.entries(properties)) {
+        const problem = propertySchema.validateValue(name, value, target)
+        if (problem) {
+          failAt({ path: toJsonPointer([...path, name]), message: problem })
+        }
+      }
+    }
+
+    if (MapSerializer.isV3(file.version)) {
+      const v3Issues = MapSerializer.validateV3(mapFile as Partial<MapFileFormatV3>)
+      for (const issue of v3Issues) {
+        fail(issue.path, issue.message)
+      }
+      if (v3Issues.length === 0) {
+        MapSerializer.forEachCellV3((mapFile as MapFileFormatV3).rows, (q, r, cell, path) => {
+          cell.forEach((layer, index) => {
+            const properties = layer[6]
+            if (!properties || typeof properties !== 'object') return
+            for (const [name, value] of Object.entries(properties)) {
+              const problem = propertySchema.validateValue(name, value, PROPERTY_TARGETS.HEX)
+              if (problem) {
+                fail(toJsonPointer([...path, index, 6, name]), `Invalid hex ${q},${r}: ${problem}`)
+              }
+            }
+          })
+        })
+      }
+    } else if (!file.hexes || typeof file.hexes !== 'object') {
+      fail('/hexes', 'Missing or invalid hexes field')
+    } else {
+      for (const [key, hexStack] of Object.entries(file.hexes)) {
+        if (!Array.isArray(hexStack)) continue
+        const heights = new Set<unknown>()
+        hexStack.forEach((hexData: Partial<HexData>, index) => {
+          if (heights.has(hexData?.height)) {
+            failAt({
+              path: toJsonPointer(['hexes', key, index, 'height']),
+              message: `duplicate height ${hexData?.height} in the stack`,
+            })
+          }
+          heights.add(hexData?.height)
+          if (typeof hexData?.terrain !== 'string' || !knownTerrains.has(hexData.terrain)) {
+            fail(
+              toJsonPointer(['hexes', key, index, 'terrain']),
+              `Unknown terrain type "${String(hexData?.terrain)}" at hex ${key}`
+            )
+          }
+          // Map.setHex rejects a hex stored under another position's key
+          if (file.version !== '1.0' && `${hexData?.q},${hexData?.r}` !== key) {
+            failAt({
+              path: toJsonPointer(['hexes', key, index]),
+              message: `coordinates ${hexData?.q},${hexData?.r} do not match key "${key}"`,
+            })
+          }
+          checkProperties(hexData?.properties, PROPERTY_TARGETS.HEX, ['hexes', key, index, 'properties'])
+        })
       }
     }
 
-    if (!file.hexes || typeof file.hexes !== 'object') {
-      errors.push('Missing or invalid hexes field')
+    if (Array.isArray(v2File.buildings)) {
+      v2File.buildings.forEach((building, index) => {
+        checkProperties(building?.properties, PROPERTY_TARGETS.BUILDING, [
+          'buildings',
+          index,
+          'properties',
+        ])
+      })
+    }
+    checkProperties(v2File.metadata?.properties, PROPERTY_TARGETS.MAP, ['metadata', 'properties'])
+
+    if (v2File.units !== undefined && !Array.isArray(v2File.units)) {
+      fail('/units', 'Invalid units field: expected an array')
+    }
+    if (v2File.cities !== undefined && !Array.isArray(v2File.cities)) {
+      fail('/cities', 'Invalid cities field: expected an array')
+    }
+    if (v2File.factions !== undefined && !Array.isArray(v2File.factions)) {
+      fail('/factions', 'Invalid factions field: expected an array')
+    }
+    if (v2File.regions !== undefined && !Array.isArray(v2File.regions)) {
+      fail('/regions', 'Invalid regions field: expected an array')
     }
 
     if (!file.metadata) {
-      errors.push('Missing metadata field')
+      fail('/metadata', 'Missing metadata field')
     } else {
       if (!file.metadata.mapSize) {
-        errors.push('Missing mapSize in metadata')
+        fail('/metadata/mapSize', 'Missing mapSize in metadata')
+      }
+    }
+
+    // The schema describes the 2.0 layout; 3.0 hexes are checked layer by layer in validateV3,
+    // 1.0 files are migrated
+    if (file.version !== '1.0') {
+      const document = MapSerializer.isV3(file.version) ? { ...file, hexes: {} } : file
+      const reported = issues.map(issue => issue.path)
+      for (const issue of validateSchema(document)) {
+        if (!reported.some(path => isPointerWithin(issue.path, path))) {
+          failAt(issue)
+        }
       }
     }
 
     return {
       valid: errors.length === 0,
       errors,
+      issues,
     }
   }
+
+  /**
+   * Check the palette and hex rows of a 3.0 file
+   */
+  private static validateV3(file: Partial<MapFileFormatV3>): SchemaIssue[] {
+    const issues: SchemaIssue[] = []
+
+    if (!Array.isArray(file.palette)) {
+      issues.push({ path: '/palette', message: 'Invalid palette field: expected an array' })
+    } else {
+      file.palette.forEach((entry, index) => {
+        if (MapSerializer.isValidPaletteEntry(entry)) return
+        issues.push({
+          path: toJsonPointer(['palette', index]),
+          message:
+            typeof entry === 'string'
+              ? `Unknown tile id "${entry}" at palette[${index}]`
+              : `Invalid model data at palette[${index}]`,
+        })
+      })
+    }
+
+    if (!Array.isArray(file.rows) || !file.rows.every(row => MapSerializer.isRowV3(row))) {
+      issues.push({ path: '/rows', message: 'Missing or invalid rows field' })
+      return issues
+    }
+
+    const invalidRow = file.rows.findIndex(row => !row.cells.every(entry => MapSerializer.isCellV3(entry)))
+    if (invalidRow !== -1) {
+      issues.push({
+        path: toJsonPointer(['rows', invalidRow]),
+        message: `Invalid cell in row r=${file.rows[invalidRow].r}`,
+      })
+      return issues
+    }
+
+    const paletteSize = Array.isArray(file.palette) ? file.palette.length : 0
+    const terrainIds = Array.isArray(file.terrainTypes)
+      ? file.terrainTypes.map(definition => definition?.id)
+      : []
+    // Each layer is checked as the 2.0 hex it decodes to
+    const hexSchema = { $defs: MAP_FILE_SCHEMA.$defs, $ref: '#/$defs/hex' }
+
+    MapSerializer.forEachCellV3(file.rows, (q, r, cell, cellPath) => {
+      const heights = new Set<unknown>()
+      cell.forEach((layer, index) => {
+        const path = [...cellPath, index]
+        if (!Array.isArray(layer) || typeof layer[2] !== 'number') {
+          issues.push({ path: toJsonPointer(path), message: `Invalid hex layer at hex ${q},${r}` })
+          return
+        }
+        const [tile, terrain, height, rotation, river, owner, properties] = layer
+        if (tile !== MapSerializer.NO_TILE && !(tile >= 0 && tile < paletteSize)) {
+          issues.push({
+            path: toJsonPointer([...path, 0]),
+            message: `Unknown palette index ${tile} at hex ${q},${r}`,
+          })
+          return
+        }
+        if (!(terrain >= 0 && terrain < terrainIds.length)) {
+          issues.push({
+            path: toJsonPointer([...path, 1]),
+            message: `Unknown terrain index ${terrain} at hex ${q},${r}`,
+          })
+          return
+        }
+        if (river !== undefined && river !== 0 && river !== 1) {
+          issues.push({
+            path: toJsonPointer([...path, 4]),
+            message: `Invalid river flag at hex ${q},${r}: expected 0 or 1`,
+          })
+        }
+        if (heights.has(height)) {
+          issues.push({
+            path: toJsonPointer([...path, 2]),
+            message: `duplicate height ${height} at hex ${q},${r}`,
+          })
+        }
+        heights.add(height)
+
+        const hexData = {
+          q,
+          r,
+          terrain: terrainIds[terrain],
+          height,
+          ...(rotation !== undefined && { rotation }),
+          ...(owner !== undefined && owner !== null && { owner }),
+          ...(properties !== undefined && { properties }),
+        }
+        for (const issue of validateSchema(hexData, hexSchema)) {
+          // "/height" of the hex is "/2" of the layer tuple
+          const [, field, ...rest] = issue.path.split('/')
+          const fieldIndex = LAYER_FIELDS_V3.indexOf(field)
+          issues.push({
+            path: fieldIndex === -1 ? toJsonPointer(path) : [toJsonPointer(path), fieldIndex, ...rest].join('/'),
+            message: `Invalid ${field || 'layer'} at hex ${q},${r}: ${issue.message}`,
+          })
+        }
+      })
+    })
+    return issues
+  }
 }
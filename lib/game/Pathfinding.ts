@@ -0,0 +1,298 @@
+/**
+ * Pathfinding - Terrain-aware A* search and movement ranges on the hex map
+ * Works on the topmost hex of every stack (the surface a unit stands on)
+ */
+
+import type { Hex, TerrainType } from './Hex'
+import { axialDistance } from './HexCoordinateConverter'
+import type { Map as GameMap } from './Map'
+import { terrainRegistry } from './TerrainRegistry'
+
+export interface AxialCoord {
+  q: number
+  r: number
+}
+
+/**
+ * Movement rules for a unit. Every field is optional: an empty profile moves
+ * with the terrain costs and passability declared in the terrain registry.
+ */
+export interface UnitProfile {
+  // Per-terrain cost overrides. Overriding a cost also makes the terrain passable.
+  terrainCosts?: Partial<Record<TerrainType, number>>
+  // Terrains this unit can never enter, regardless of their configuration
+  impassableTerrains?: TerrainType[]
+  // Maximum height difference between neighbouring surfaces (default: 1)
+  maxClimb?: number
+  // Extra cost added per level climbed upwards (default: 0)
+  climbCost?: number
+}
+
+export interface PathResult {
+  path: AxialCoord[] // Includes start and goal
+  cost: number // Total movement cost (start hex is free)
+}
+
+export interface ReachableHex extends AxialCoord {
+  cost: number // Cheapest cost to reach this hex from the start
+}
+
+const DEFAULT_MAX_CLIMB = 1
+
+/**
+ * Sloped tiles (hex_grass_sloped_*, hex_road_A_sloped_*) connect two height levels
+ */
+export function isSlopedHex(hex: Hex): boolean {
+  if (!hex.modelData) return false
+  return /sloped/i.test(hex.modelData.name) || /sloped/i.test(hex.modelData.obj)
+}
+
+/**
+ * Get the walkable surface (topmost hex) at a position
+ */
+export function getSurfaceHex(map: GameMap, q: number, r: number): Hex | null {
+  return map.getHex(q, r)
+}
+
+/**
+ * Cost of entering a hex, or null when the unit cannot stand on it
+ */
+export function getEnterCost(hex: Hex, profile: UnitProfile = {}): number | null {
+  if (profile.impassableTerrains?.includes(hex.terrain)) {
+    return null
+  }
+
+  const override = profile.terrainCosts?.[hex.terrain]
+  if (override !== undefined) {
+    return override
+  }
+
+  if (!hex.isPassable()) {
+    return null
+  }
+  return hex.getMovementCost(profile)
+}
+
+/**
+ * Check whether a unit can step between two neighbouring surfaces.
+ * Climbing more than maxClimb levels is only allowed when one side is a sloped tile,
+ * which bridges one additional level.
+ */
+export function canStep(from: Hex, to: Hex, profile: UnitProfile = {}): boolean {
+  const maxClimb = profile.maxClimb ?? DEFAULT_MAX_CLIMB
+  const diff = Math.abs(to.height - from.height)
+  if (diff <= maxClimb) {
+    return true
+  }
+  return diff <= maxClimb + 1 && (isSlopedHex(from) || isSlopedHex(to))
+}
+
+/**
+ * Cost of a single step between neighbouring surfaces, or null if the step is not allowed
+ */
+export function getStepCost(from: Hex, to: Hex, profile: UnitProfile = {}): number | null {
+  if (!canStep(from, to, profile)) {
+    return null
+  }
+  const enterCost = getEnterCost(to, profile)
+  if (enterCost === null) {
+    return null
+  }
+  const climb = Math.max(0, to.height - from.height)
+  return enterCost + climb * (profile.climbCost ?? 0)
+}
+
+/**
+ * Find the cheapest path between two hexes using A*.
+ * Returns null when the goal cannot be reached.
+ */
+export function findPath(
+  map: GameMap,
+  start: AxialCoord,
+  goal: AxialCoord,
+  profile: UnitProfile = {}
+): PathResult | null {
+  const startHex = getSurfaceHex(map, start.q, start.r)
+  const goalHex = getSurfaceHex(map, goal.q, goal.r)
+  if (!startHex || !goalHex) {
+    return null
+  }
+
+  if (start.q === goal.q && start.r === goal.r) {
+    return { path: [{ q: start.q, r: start.r }], cost: 0 }
+  }
+
+  // Heuristic must never overestimate: scale distance by the cheapest possible step
+  const minStepCost = getMinimumStepCost(profile)
+  const heuristic = (coord: AxialCoord) => axialDistance(coord, goal) * minStepCost
+
+  const startKey = map.getKey(start.q, start.r)
+  const goalKey = map.getKey(goal.q, goal.r)
+  const costSoFar = new globalThis.Map<string, number>([[startKey, 0]])
+  const cameFrom = new globalThis.Map<string, string>()
+  const coords = new globalThis.Map<string, AxialCoord>([[startKey, start]])
+  const open = new MinHeap()
+  open.push(startKey, heuristic(start))
+
+  while (open.size > 0) {
+    const currentKey = open.pop() as string
+    if (currentKey === goalKey) {
+      break
+    }
+
+    const current = coords.get(currentKey) as AxialCoord
+    const currentHex = getSurfaceHex(map, current.q, current.r) as Hex
+    const currentCost = costSoFar.get(currentKey) as number
+
+    for (const next of map.getNeighborCoordinates(current.q, current.r)) {
+      const nextHex = getSurfaceHex(map, next.q, next.r)
+      if (!nextHex) continue
+
+      const stepCost = getStepCost(currentHex, nextHex, profile)
+      if (stepCost === null) continue
+
+      const nextKey = map.getKey(next.q, next.r)
+      const newCost = currentCost + stepCost
+      const known = costSoFar.get(nextKey)
+      if (known === undefined || newCost < known) {
+        costSoFar.set(nextKey, newCost)
+        cameFrom.set(nextKey, currentKey)
+        coords.set(nextKey, next)
+        open.push(nextKey, newCost + heuristic(next))
+      }
+    }
+  }
+
+  const totalCost = costSoFar.get(goalKey)
+  if (totalCost === undefined) {
+    return null
+  }
+
+  const path: AxialCoord[] = []
+  let key: string | undefined = goalKey
+  while (key !== undefined) {
+    const coord = coords.get(key) as AxialCoord
+    path.push({ q: coord.q, r: coord.r })
+    key = cameFrom.get(key)
+  }
+  path.reverse()
+
+  return { path, cost: totalCost }
+}
+
+/**
+ * Get every hex reachable from the start within a movement budget (Dijkstra).
+ * The start hex is always included with cost 0.
+ */
+export function getReachableHexes(
+  map: GameMap,
+  start: AxialCoord,
+  budget: number,
+  profile: UnitProfile = {}
+): ReachableHex[] {
+  const startHex = getSurfaceHex(map, start.q, start.r)
+  if (!startHex) {
+    return []
+  }
+
+  const startKey = map.getKey(start.q, start.r)
+  const costSoFar = new globalThis.Map<string, number>([[startKey, 0]])
+  const coords = new globalThis.Map<string, AxialCoord>([[startKey, start]])
+  const open = new MinHeap()
+  open.push(startKey, 0)
+
+  while (open.size > 0) {
+    const currentKey = open.pop() as string
+    const current = coords.get(currentKey) as AxialCoord
+    const currentHex = getSurfaceHex(map, current.q, current.r) as Hex
+    const currentCost = costSoFar.get(currentKey) as number
+
+    for (const next of map.getNeighborCoordinates(current.q, current.r)) {
+      const nextHex = getSurfaceHex(map, next.q, next.r)
+      if (!nextHex) continue
+
+      const stepCost = getStepCost(currentHex, nextHex, profile)
+      if (stepCost === null) continue
+
+      const newCost = currentCost + stepCost
+      if (newCost > budget) continue
+
+      const nextKey = map.getKey(next.q, next.r)
+      const known = costSoFar.get(nextKey)
+      if (known === undefined || newCost < known) {
+        costSoFar.set(nextKey, newCost)
+        coords.set(nextKey, next)
+        open.push(nextKey, newCost)
+      }
+    }
+  }
+
+  return Array.from(costSoFar.entries()).map(([key, cost]) => {
+    const coord = coords.get(key) as AxialCoord
+    return { q: coord.q, r: coord.r, cost }
+  })
+}
+
+/**
+ * Lowest cost any single step can have for this profile (used by the A* heuristic)
+ */
+function getMinimumStepCost(profile: UnitProfile): number {
+  const costs: number[] = Object.values(profile.terrainCosts ?? {}).filter(
+    (cost): cost is number => typeof cost === 'number'
+  )
+  for (const config of terrainRegistry.getAll()) {
+    if (config.passable) costs.push(config.movementCost)
+  }
+  const min = Math.min(...costs)
+  return Number.isFinite(min) && min > 0 ? min : 0
+}
+
+/**
+ * Binary min-heap keyed by priority
+ */
+class MinHeap {
+  private items: Array<{ key: string; priority: number }> = []
+
+  get size(): number {
+    return this.items.length
+  }
+
+  push(key: string, priority: number) {
+    this.items.push({ key, priority })
+    let index = this.items.length - 1
+    while (index > 0) {
+      const parent = (index - 1) >> 1
+      if (this.items[parent].priority <= this.items[index].priority) break
+      ;[this.items[parent], this.items[index]] = [this.items[index], this.items[parent]]
+      index = parent
+    }
+  }
+
+  pop(): string | undefined {
+    if (this.items.length === 0) return undefined
+    const top = this.items[0]
+    const last = this.items.pop() as { key: string; priority: number }
+    if (this.items.length > 0) {
+      this.items[0] = last
+      let index = 0
+      while (true) {
+        const left = index * 2 + 1
+        const right = left + 1
+        let smallest = index
+        if (left < this.items.length && this.items[left].priority < this.items[smallest].priority) {
+          smallest = left
+        }
+        if (
+          right < this.items.length &&
+          this.items[right].priority < this.items[smallest].priority
+        ) {
+          smallest = right
+        }
+        if (smallest === index) break
+        ;[this.items[smallest], this.items[index]] = [this.items[index], this.items[smallest]]
+        index = smallest
+      }
+    }
+    return top.key
+  }
+}
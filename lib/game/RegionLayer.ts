@@ -0,0 +1,174 @@
+/**
+ * RegionLayer - Named, colored sets of axial coordinates painted over the map
+ * (provinces, kingdoms, spawn zones). Regions may overlap; hexes are stored as "q,r" keys.
+ */
+
+import { getAxialNeighbors } from './HexCoordinateConverter'
+
+export const REGION_KINDS = {
+  PROVINCE: 'PROVINCE',
+  KINGDOM: 'KINGDOM',
+  SPAWN_ZONE: 'SPAWN_ZONE',
+} as const
+
+export type RegionKind = (typeof REGION_KINDS)[keyof typeof REGION_KINDS]
+
+export const REGION_KIND_NAMES: Record<RegionKind, string> = {
+  [REGION_KINDS.PROVINCE]: 'Province',
+  [REGION_KINDS.KINGDOM]: 'Kingdom',
+  [REGION_KINDS.SPAWN_ZONE]: 'Spawn zone',
+}
+
+// Default colors handed out to new regions, cycled in order
+export const REGION_PALETTE = [
+  '#c084fc',
+  '#f97316',
+  '#22d3ee',
+  '#a3e635',
+  '#f43f5e',
+  '#facc15',
+  '#2dd4bf',
+  '#818cf8',
+]
+
+export class Region {
+  id: string
+  name: string
+  color: string // CSS hex color, e.g. '#c084fc'
+  kind: RegionKind
+  hexes: Set<string> = new Set() // "q,r" keys
+
+  constructor(id: string, name: string, color: string, kind: RegionKind = REGION_KINDS.PROVINCE) {
+    this.id = id
+    this.name = name
+    this.color = color
+    this.kind = kind
+  }
+
+  has(q: number, r: number): boolean {
+    return this.hexes.has(`${q},${r}`)
+  }
+
+  getCoordinates(): Array<{ q: number; r: number }> {
+    return Array.from(this.hexes, (key) => {
+      const [q, r] = key.split(',').map(Number)
+      return { q, r }
+    })
+  }
+}
+
+/**
+ * One hex edge on a region border: the hex inside the region and the
+ * neighbour direction (index into getAxialNeighbors) that leaves it
+ */
+export interface BorderEdge {
+  q: number
+  r: number
+  direction: number
+}
+
+export class RegionLayer {
+  private regions: globalThis.Map<string, Region> = new globalThis.Map()
+
+  getRegions(): Region[] {
+    return Array.from(this.regions.values())
+  }
+
+  getRegion(id: string): Region | null {
+    return this.regions.get(id) ?? null
+  }
+
+  findByName(name: string): Region | null {
+    const lower = name.toLowerCase()
+    return this.getRegions().find((region) => region.name.toLowerCase() === lower) ?? null
+  }
+
+  addRegion(region: Region) {
+    if (this.regions.has(region.id)) {
+      throw new Error(`Region already exists: ${region.id}`)
+    }
+    this.regions.set(region.id, region)
+  }
+
+  removeRegion(id: string) {
+    this.regions.delete(id)
+  }
+
+  /**
+   * Add a hex to a region. Returns true when the region changed.
+   */
+  paint(regionId: string, q: number, r: number): boolean {
+    const region = this.requireRegion(regionId)
+    const key = `${q},${r}`
+    if (region.hexes.has(key)) return false
+    region.hexes.add(key)
+    return true
+  }
+
+  /**
+   * Remove a hex from a region. Returns true when the region changed.
+   */
+  erase(regionId: string, q: number, r: number): boolean {
+    return this.requireRegion(regionId).hexes.delete(`${q},${r}`)
+  }
+
+  /**
+   * Get all regions containing a hex
+   */
+  getRegionsAt(q: number, r: number): Region[] {
+    return this.getRegions().filter((region) => region.has(q, r))
+  }
+
+  /**
+   * Edges where the region ends (the neighbour in that direction is outside the region)
+   */
+  getBorderEdges(regionId: string): BorderEdge[] {
+    const region = this.requireRegion(regionId)
+    const edges: BorderEdge[] = []
+    for (const { q, r } of region.getCoordinates()) {
+      getAxialNeighbors(q, r).forEach((neighbor, direction) => {
+        if (!region.has(neighbor.q, neighbor.r)) {
+          edges.push({ q, r, direction })
+        }
+      })
+    }
+    return edges
+  }
+
+  /**
+   * Regions sharing at least one hex edge with the given region
+   * ("which provinces border Elmwood?"). Optionally filtered by kind.
+   */
+  getAdjacentRegions(regionId: string, kind?: RegionKind): Region[] {
+    const region = this.requireRegion(regionId)
+    const neighborKeys = new Set<string>()
+    for (const edge of this.getBorderEdges(regionId)) {
+      const neighbor = getAxialNeighbors(edge.q, edge.r)[edge.direction]
+      neighborKeys.add(`${neighbor.q},${neighbor.r}`)
+    }
+
+    return this.getRegions().filter((other) => {
+      if (other.id === region.id) return false
+      if (kind && other.kind !== kind) return false
+      for (const key of neighborKeys) {
+        if (other.hexes.has(key)) return true
+      }
+      return false
+    })
+  }
+
+  /**
+   * Check whether two regions share a border
+   */
+  areAdjacent(regionIdA: string, regionIdB: string): boolean {
+    return this.getAdjacentRegions(regionIdA).some((region) => region.id === regionIdB)
+  }
+
+  private requireRegion(id: string): Region {
+    const region = this.regions.get(id)
+    if (!region) {
+      throw new Error(`Unknown region: ${id}`)
+    }
+    return region
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * TerrainMapping - Derives a hex's terrain from the tile model placed on it
+ * Exact matches come from the terrain defaultTiles, everything else from category rules
+ */
+
+import type { TileDescriptor } from '../llm/AssetAnalyzer'
+import { findTileByModelPath } from '../llm/tile-registry'
+import { type Hex, TERRAIN_TYPES, type TerrainType } from './Hex'
+import type { Map } from './Map'
+import { type TerrainRegistry, terrainRegistry } from './TerrainRegistry'
+
+interface TerrainRule {
+  matches: (tile: TileDescriptor) => boolean
+  terrain: TerrainType
+}
+
+const isWaterless = (tile: TileDescriptor) => tile.tile_id.endsWith('_waterless')
+
+// Checked in order, first match wins. Tiles matching no rule (props, rocks, most buildings) keep
+// whatever terrain the hex already has.
+const TERRAIN_RULES: TerrainRule[] = [
+  { matches: (tile) => tile.tile_id.includes('bridge'), terrain: TERRAIN_TYPES.BRIDGE },
+  { matches: (tile) => tile.subcategory === 'roads', terrain: TERRAIN_TYPES.ROAD },
+  {
+    matches: (tile) => tile.subcategory === 'rivers' && tile.tile_id.includes('crossing'),
+    terrain: TERRAIN_TYPES.ROAD,
+  },
+  {
+    matches: (tile) => tile.category === 'tiles' && isWaterless(tile),
+    terrain: TERRAIN_TYPES.PLAINS,
+  },
+  {
+    matches: (tile) => tile.category === 'tiles' && tile.biome === 'water',
+    terrain: TERRAIN_TYPES.WATER,
+  },
+  { matches: (tile) => tile.subcategory === 'base', terrain: TERRAIN_TYPES.PLAINS },
+  {
+    matches: (tile) => tile.subcategory === 'nature' && tile.tile_id.includes('_hill'),
+    terrain: TERRAIN_TYPES.HILLS,
+  },
+  {
+    matches: (tile) => tile.subcategory === 'nature' && tile.biome === 'mountain',
+    terrain: TERRAIN_TYPES.MOUNTAIN,
+  },
+  {
+    matches: (tile) => tile.subcategory === 'nature' && tile.biome === 'forest',
+    terrain: TERRAIN_TYPES.FOREST,
+  },
+  {
+    matches: (tile) => tile.subcategory === 'nature' && tile.biome === 'water',
+    terrain: TERRAIN_TYPES.WATER,
+  },
+]
+
+export interface TerrainMismatch {
+  q: number
+  r: number
+  height: number
+  tileId: string
+  terrain: TerrainType // Terrain stored on the hex
+  expected: TerrainType // Terrain derived from its model
+}
+
+/**
+ * Terrain implied by a registry tile, or null when the tile does not determine terrain
+ */
+export function getTerrainForTile(
+  tile: TileDescriptor,
+  registry: TerrainRegistry = terrainRegistry
+): TerrainType | null {
+  const exact = registry
+    .getAll()
+    .find((definition) => definition.defaultTiles.includes(tile.tile_id))
+  if (exact) {
+    return exact.id
+  }
+
+  const rule = TERRAIN_RULES.find((candidate) => candidate.matches(tile))
+  return rule && registry.has(rule.terrain) ? rule.terrain : null
+}
+
+/**
+ * Terrain implied by a hex model, or null for unknown models and tiles without a mapping
+ */
+export function getTerrainForModel(
+  modelData: Hex['modelData'],
+  registry: TerrainRegistry = terrainRegistry
+): TerrainType | null {
+  const tile = modelData ? findTileByModelPath(modelData.obj) : undefined
+  return tile ? getTerrainForTile(tile, registry) : null
+}
+
+/**
+ * Set hex.terrain from its model. Returns true if the terrain changed.
+ */
+export function applyModelTerrain(hex: Hex, registry: TerrainRegistry = terrainRegistry): boolean {
+  const expected = getTerrainForModel(hex.modelData, registry)
+  if (!expected || expected === hex.terrain) {
+    return false
+  }
+  hex.terrain = expected
+  return true
+}
+
+/**
+ * List every hex whose terrain disagrees with its model, without changing the map
+ */
+export function findTerrainMismatches(
+  map: Map,
+  registry: TerrainRegistry = terrainRegistry
+): TerrainMismatch[] {
+  const mismatches: TerrainMismatch[] = []
+  for (const stack of map.hexes.values()) {
+    for (const hex of stack) {
+      const tile = hex.modelData ? findTileByModelPath(hex.modelData.obj) : undefined
+      const expected = tile ? getTerrainForTile(tile, registry) : null
+      if (tile && expected && expected !== hex.terrain) {
+        mismatches.push({
+          q: hex.q,
+          r: hex.r,
+          height: hex.height,
+          tileId: tile.tile_id,
+          terrain: hex.terrain,
+          expected,
+        })
+      }
+    }
+  }
+  return mismatches
+}
+
+/**
+ * Fix every mismatched hex and return the report of what was changed
+ */
+export function reconcileTerrain(
+  map: Map,
+  registry: TerrainRegistry = terrainRegistry
+): TerrainMismatch[] {
+  const mismatches = findTerrainMismatches(map, registry)
+  for (const mismatch of mismatches) {
+    const hex = map.getHex(mismatch.q, mismatch.r, mismatch.height)
+    if (hex) {
+      hex.terrain = mismatch.expected
+    }
+  }
+  return mismatches
+}
@@ -0,0 +1,129 @@
+/**
+ * TerrainRegistry - Data-driven terrain types (movement, defense, passability, default tiles)
+ * Built-in definitions are loaded from terrain-types.json; maps can embed additional ones
+ */
+
+import terrainTypesData from './terrain-types.json'
+
+export interface TerrainDefinition {
+  id: string
+  name: string
+  color: string // CSS hex color, used for fallbacks and overlays
+  movementCost: number
+  defenseBonus: number
+  passable: boolean
+  defaultTiles: string[] // tile_id values from the tile registry
+}
+
+/**
+ * Check a terrain definition and describe every problem found (empty = valid)
+ */
+export function validateTerrainDefinition(value: unknown): string[] {
+  if (!value || typeof value !== 'object') {
+    return ['expected an object']
+  }
+
+  const definition = value as Partial<TerrainDefinition>
+  const errors: string[] = []
+  if (typeof definition.id !== 'string' || !/^[A-Z][A-Z0-9_]*$/.test(definition.id)) {
+    errors.push('id must be an upper-case identifier')
+  }
+  if (typeof definition.name !== 'string' || definition.name.length === 0) {
+    errors.push('name must be a non-empty string')
+  }
+  if (typeof definition.color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(definition.color)) {
+    errors.push('color must be a #rrggbb string')
+  }
+  if (typeof definition.movementCost !== 'number' || !(definition.movementCost >= 0)) {
+    errors.push('movementCost must be a non-negative number')
+  }
+  if (typeof definition.defenseBonus !== 'number' || !Number.isFinite(definition.defenseBonus)) {
+    errors.push('defenseBonus must be a number')
+  }
+  if (typeof definition.passable !== 'boolean') {
+    errors.push('passable must be a boolean')
+  }
+  if (
+    !Array.isArray(definition.defaultTiles) ||
+    !definition.defaultTiles.every((tile) => typeof tile === 'string')
+  ) {
+    errors.push('defaultTiles must be an array of tile ids')
+  }
+  return errors
+}
+
+export class TerrainRegistry {
+  private definitions: Map<string, TerrainDefinition> = new Map()
+  private builtInIds: Set<string>
+
+  constructor(definitions: TerrainDefinition[] = []) {
+    for (const definition of definitions) {
+      this.register(definition)
+    }
+    this.builtInIds = new Set(this.definitions.keys())
+  }
+
+  /**
+   * Add a terrain type, replacing any existing definition with the same id
+   */
+  register(definition: TerrainDefinition) {
+    const errors = validateTerrainDefinition(definition)
+    if (errors.length > 0) {
+      throw new Error(`Invalid terrain definition "${definition?.id}": ${errors.join(', ')}`)
+    }
+    this.definitions.set(definition.id, {
+      ...definition,
+      defaultTiles: [...definition.defaultTiles],
+    })
+  }
+
+  has(id: string): boolean {
+    return this.definitions.has(id)
+  }
+
+  get(id: string): TerrainDefinition | null {
+    return this.definitions.get(id) ?? null
+  }
+
+  getAll(): TerrainDefinition[] {
+    return Array.from(this.definitions.values())
+  }
+
+  getIds(): string[] {
+    return Array.from(this.definitions.keys())
+  }
+
+  /**
+   * Ids of the definitions the registry was created with (terrain-types.json for the shared one)
+   */
+  getBuiltInIds(): string[] {
+    return Array.from(this.builtInIds)
+  }
+
+  /**
+   * Definitions added after construction, i.e. the terrain types embedded in the loaded map
+   */
+  getMapTerrains(): TerrainDefinition[] {
+    return this.getAll().filter((definition) => !this.builtInIds.has(definition.id))
+  }
+
+  /**
+   * Replace the terrain types of the previously loaded map with those of another one, so they
+   * do not leak from map to map (built-in definitions take precedence)
+   */
+  setMapTerrains(definitions: TerrainDefinition[]) {
+    for (const { id } of this.getMapTerrains()) {
+      this.definitions.delete(id)
+    }
+    for (const definition of definitions) {
+      if (!this.builtInIds.has(definition.id)) {
+        this.register(definition)
+      }
+    }
+  }
+}
+
+// Shared registry used by Hex, pathfinding and the serializer
+export const terrainRegistry = new TerrainRegistry(
+  terrainTypesData.terrainTypes as TerrainDefinition[]
+)
@@ -0,0 +1,461 @@
+/**
+ * TiledFormat - Export and import of hexagonal Tiled (https://www.mapeditor.org) JSON maps
+ * Our odd-q offset layout is Tiled's "hexagonal, stagger axis X, stagger index odd".
+ * Each height level becomes one tile layer and the tileset is generated from the tile
+ * registry, so designers can keep painting with the same tiles in Tiled.
+ *
+ * Only hex stacks are exchanged; factions, units, cities and regions stay in our own map files.
+ * Hex data a tile layer cannot hold (terrain that differs from the tile's, rivers, owners,
+ * custom properties, rotations that are not 60 degree steps, hexes without a model) is
+ * written to a "hexData" layer property, keyed by Tiled cell "x,y". The custom property
+ * schema and map-level values are kept in the "propertySchema" and "properties" map properties.
+ */
+
+import type { TileDescriptor } from '../llm/AssetAnalyzer'
+import { findTileById, findTileByModelPath, tileRegistry } from '../llm/tile-registry'
+import { type CustomProperties, type PropertyDefinition, PropertySchema } from './CustomProperties'
+import { Hex, TERRAIN_TYPES, type TerrainType } from './Hex'
+import { axialToOffset, offsetToAxial } from './HexCoordinateConverter'
+import { Map as GameMap, MAP_SHAPE_TYPES, type MapShape } from './Map'
+import type { ModelData } from './MapSerializer'
+import { getTerrainForTile } from './TerrainMapping'
+import { terrainRegistry } from './TerrainRegistry'
+
+export const TILED_FORMAT_VERSION = '1.10'
+export const TILED_TILESET_NAME = 'medieval-hexagon'
+
+// Flat-topped hex of roughly the same proportions as our models (height = width * sqrt(3) / 2)
+const TILE_WIDTH = 64
+const TILE_HEIGHT = 56
+const HEX_SIDE_LENGTH = 32
+
+const MAX_HEIGHT = 4
+const ROTATION_STEP = Math.PI / 3
+// Turning a hex adds or subtracts ROTATION_STEP, so whole steps drift by float rounding
+const ROTATION_TOLERANCE = 1e-6
+
+// High bits of a gid (https://doc.mapeditor.org/en/stable/reference/global-tile-ids/)
+const FLIPPED_HORIZONTALLY = 0x80000000
+const FLIPPED_VERTICALLY = 0x40000000
+const ROTATED_HEXAGONAL_60 = 0x20000000 // The anti-diagonal flip bit on hexagonal maps
+const ROTATED_HEXAGONAL_120 = 0x10000000
+const GID_MASK = 0x0fffffff
+
+export interface TiledProperty {
+  name: string
+  type: 'string' | 'int' | 'float' | 'bool'
+  value: string | number | boolean
+}
+
+export interface TiledTile {
+  id: number
+  image: string
+  imagewidth: number
+  imageheight: number
+  type?: string
+  properties?: TiledProperty[]
+}
+
+export interface TiledTileset {
+  firstgid: number
+  source?: string // External tilesets (.tsj) are not supported on import
+  name?: string
+  tilewidth?: number
+  tileheight?: number
+  tilecount?: number
+  columns?: number
+  tiles?: TiledTile[]
+}
+
+export interface TiledLayer {
+  id: number
+  name: string
+  type: string // Only "tilelayer" layers are read, object and image layers are ignored
+  x: number
+  y: number
+  width?: number
+  height?: number
+  opacity: number
+  visible: boolean
+  data?: number[] | string
+  encoding?: 'csv' | 'base64'
+  properties?: TiledProperty[]
+}
+
+export interface TiledMap {
+  type: 'map'
+  version: string
+  tiledversion?: string
+  orientation: string
+  renderorder: string
+  width: number
+  height: number
+  tilewidth: number
+  tileheight: number
+  hexsidelength?: number
+  staggeraxis?: 'x' | 'y'
+  staggerindex?: 'odd' | 'even'
+  infinite: boolean
+  nextlayerid: number
+  nextobjectid: number
+  layers: TiledLayer[]
+  tilesets: TiledTileset[]
+  properties?: TiledProperty[]
+}
+
+// Per-cell data stored in the "hexData" layer property
+interface TiledHexData {
+  terrain?: TerrainType
+  rotation?: number // Radians, only when not a whole 60 degree step
+  hasRiver?: boolean
+  owner?: string
+  properties?: CustomProperties
+}
+
+const stringProperty = (name: string, value: string): TiledProperty => ({
+  name,
+  type: 'string',
+  value,
+})
+const intProperty = (name: string, value: number): TiledProperty => ({ name, type: 'int', value })
+
+function getProperty(properties: TiledProperty[] | undefined, name: string) {
+  return properties?.find((property) => property.name === name)?.value
+}
+
+// Whole 60 degree step (0-5) of a rotation, or null; -PI / 3 from a clockwise turn is step 5
+function rotationToStep(rotation: number): number | null {
+  const step = Math.round(rotation / ROTATION_STEP)
+  if (
+    !Number.isFinite(rotation) ||
+    Math.abs(rotation - step * ROTATION_STEP) > ROTATION_TOLERANCE
+  ) {
+    return null
+  }
+  return ((step % 6) + 6) % 6
+}
+
+// 0-5 rotation steps as gid flags: 60 and 120 degree bits, plus both flips for another 180 degrees
+function rotationToFlags(step: number): number {
+  const flags = [0, ROTATED_HEXAGONAL_60, ROTATED_HEXAGONAL_120][step % 3]
+  return step >= 3 ? flags + FLIPPED_HORIZONTALLY + FLIPPED_VERTICALLY : flags
+}
+
+// Inverse of rotationToFlags. A single flip is a mirror image, which hexes cannot show; it is ignored.
+function flagsToRotation(gid: number): number {
+  const step =
+    (gid & ROTATED_HEXAGONAL_60 ? 1 : 0) +
+    (gid & ROTATED_HEXAGONAL_120 ? 2 : 0) +
+    (gid & FLIPPED_HORIZONTALLY && gid & FLIPPED_VERTICALLY ? 3 : 0)
+  return (step % 6) * ROTATION_STEP
+}
+
+function parseKey(key: string): { q: number; r: number } {
+  const [q, r] = key.split(',').map(Number)
+  return { q, r }
+}
+
+// Registry tile for a model, unless the model was renamed (then it is exported as a custom tile)
+function getRegistryTile(modelData: ModelData): TileDescriptor | undefined {
+  const tile = findTileByModelPath(modelData.obj)
+  return tile?.name === modelData.name ? tile : undefined
+}
+
+/**
+ * Convert a map into a Tiled JSON map (hexagonal, staggered odd columns)
+ */
+export function exportToTiled(map: GameMap): TiledMap {
+  const registryTiles = tileRegistry.tiles as TileDescriptor[]
+  const tiles: TiledTile[] = registryTiles.map((tile, id) => {
+    const terrain = getTerrainForTile(tile)
+    return {
+      id,
+      image: tile.obj_path,
+      imagewidth: TILE_WIDTH,
+      imageheight: TILE_HEIGHT,
+      type: tile.category,
+      properties: [
+        stringProperty('tile_id', tile.tile_id),
+        ...(terrain ? [stringProperty('terrain', terrain)] : []),
+      ],
+    }
+  })
+  const tileIds = new globalThis.Map(registryTiles.map((tile, id) => [tile.tile_id, id]))
+
+  // Models that are not in the registry get their own tiles after the registry ones
+  const customTileIds = new globalThis.Map<string, number>()
+  const getTileId = (modelData: ModelData): number => {
+    const tile = getRegistryTile(modelData)
+    if (tile) {
+      return tileIds.get(tile.tile_id) as number
+    }
+
+    const key = JSON.stringify([modelData.obj, modelData.mtl, modelData.name])
+    let id = customTileIds.get(key)
+    if (id === undefined) {
+      id = tiles.length
+      customTileIds.set(key, id)
+      tiles.push({
+        id,
+        image: modelData.obj,
+        imagewidth: TILE_WIDTH,
+        imageheight: TILE_HEIGHT,
+        properties: [
+          stringProperty('obj', modelData.obj),
+          stringProperty('mtl', modelData.mtl),
+          stringProperty('name', modelData.name),
+        ],
+      })
+    }
+    return id
+  }
+
+  // Tiled grids start at 0,0; shapes reaching left of or above the bounding box are shifted in
+  let minX = 0
+  let minY = 0
+  let maxX = map.width - 1
+  let maxY = map.height - 1
+  const coordinates = [...map.getAllCoordinates(), ...Array.from(map.hexes.keys(), parseKey)]
+  for (const { q, r } of coordinates) {
+    const { x, y } = axialToOffset(q, r)
+    minX = Math.min(minX, x)
+    minY = Math.min(minY, y)
+    maxX = Math.max(maxX, x)
+    maxY = Math.max(maxY, y)
+  }
+  // Keep column parity so odd columns stay the staggered ones
+  const originX = minX - (minX & 1)
+  const originY = minY
+  const width = maxX + 1 - originX
+  const height = maxY + 1 - originY
+
+  const layers: TiledLayer[] = []
+  for (let level = 0; level <= MAX_HEIGHT; level++) {
+    const data = new Array<number>(width * height).fill(0)
+    const hexData: Record<string, TiledHexData> = {}
+
+    for (const hexStack of map.hexes.values()) {
+      const hex = hexStack.find((candidate) => candidate.height === level)
+      if (!hex) continue
+
+      const offset = axialToOffset(hex.q, hex.r)
+      const x = offset.x - originX
+      const y = offset.y - originY
+      const extra: TiledHexData = {}
+      const step = rotationToStep(hex.rotation)
+
+      if (hex.modelData) {
+        const tileId = getTileId(hex.modelData)
+        data[y * width + x] = tileId + 1 + (step !== null ? rotationToFlags(step) : 0)
+      }
+
+      const tile = hex.modelData ? getRegistryTile(hex.modelData) : undefined
+      const tileTerrain = (tile && getTerrainForTile(tile)) || TERRAIN_TYPES.PLAINS
+      if (!hex.modelData || hex.terrain !== tileTerrain) extra.terrain = hex.terrain
+      if (step === null) extra.rotation = hex.rotation
+      if (hex.hasRiver) extra.hasRiver = true
+      if (hex.owner) extra.owner = hex.owner
+      if (hex.properties) extra.properties = { ...hex.properties }
+      if (!hex.modelData || Object.keys(extra).length > 0) {
+        hexData[`${x},${y}`] = extra
+      }
+    }
+
+    const properties = [intProperty('height', level)]
+    if (Object.keys(hexData).length > 0) {
+      properties.push(stringProperty('hexData', JSON.stringify(hexData)))
+    }
+    layers.push({
+      id: level + 1,
+      name: `Height ${level}`,
+      type: 'tilelayer',
+      x: 0,
+      y: 0,
+      width,
+      height,
+      opacity: 1,
+      visible: true,
+      data,
+      properties,
+    })
+  }
+
+  return {
+    type: 'map',
+    version: TILED_FORMAT_VERSION,
+    tiledversion: '1.10.2',
+    orientation: 'hexagonal',
+    renderorder: 'right-down',
+    width,
+    height,
+    tilewidth: TILE_WIDTH,
+    tileheight: TILE_HEIGHT,
+    hexsidelength: HEX_SIDE_LENGTH,
+    staggeraxis: 'x',
+    staggerindex: 'odd',
+    infinite: false,
+    nextlayerid: layers.length + 1,
+    nextobjectid: 1,
+    layers,
+    tilesets: [
+      {
+        firstgid: 1,
+        name: TILED_TILESET_NAME,
+        tilewidth: TILE_WIDTH,
+        tileheight: TILE_HEIGHT,
+        tilecount: tiles.length,
+        columns: 0,
+        tiles,
+      },
+    ],
+    properties: [
+      stringProperty('format', 'warlords-map'),
+      intProperty('mapWidth', map.width),
+      intProperty('mapHeight', map.height),
+      stringProperty('shape', JSON.stringify(map.shape)),
+      intProperty('originX', originX),
+      intProperty('originY', originY),
+      ...(map.propertySchema.getDefinitions().length > 0
+        ? [stringProperty('propertySchema', JSON.stringify(map.propertySchema.getDefinitions()))]
+        : []),
+      ...(Object.keys(map.properties).length > 0
+        ? [stringProperty('properties', JSON.stringify(map.properties))]
+        : []),
+    ],
+  }
+}
+
+/**
+ * Read a Tiled hexagonal map back into a map.
+ * Maps drawn from scratch in Tiled work too: without our map properties the Tiled grid
+ * becomes a rectangle map, and terrain comes from each tile's "terrain" property.
+ */
+export function importFromTiled(input: TiledMap | string): GameMap {
+  const tiled: TiledMap = typeof input === 'string' ? JSON.parse(input) : input
+  if (tiled.orientation !== 'hexagonal' || tiled.staggeraxis !== 'x') {
+    throw new Error(
+      `Unsupported Tiled map: expected a hexagonal map staggered along X, got ${tiled.orientation}`
+    )
+  }
+  if (tiled.staggerindex !== 'odd') {
+    throw new Error('Unsupported Tiled map: stagger index must be "odd"')
+  }
+  if (tiled.infinite) {
+    throw new Error('Unsupported Tiled map: infinite maps are not supported')
+  }
+
+  const models = new globalThis.Map<number, { modelData: ModelData; terrain: TerrainType }>()
+  for (const tileset of tiled.tilesets) {
+    if (tileset.source) {
+      throw new Error(`Unsupported Tiled map: external tileset ${tileset.source} must be embedded`)
+    }
+    for (const tile of tileset.tiles ?? []) {
+      const gid = tileset.firstgid + tile.id
+      const tileId = getProperty(tile.properties, 'tile_id')
+      const obj = getProperty(tile.properties, 'obj')
+      if (typeof tileId === 'string') {
+        const registryTile = findTileById(tileId)
+        if (!registryTile) {
+          throw new Error(`Tile ${gid} refers to unknown tile_id "${tileId}"`)
+        }
+        models.set(gid, {
+          modelData: {
+            obj: registryTile.obj_path,
+            mtl: registryTile.mtl_path,
+            name: registryTile.name,
+          },
+          terrain: getTerrainForTile(registryTile) ?? TERRAIN_TYPES.PLAINS,
+        })
+      } else if (typeof obj === 'string') {
+        const terrain = getProperty(tile.properties, 'terrain')
+        models.set(gid, {
+          modelData: {
+            obj,
+            mtl: String(getProperty(tile.properties, 'mtl') ?? ''),
+            name: String(getProperty(tile.properties, 'name') ?? ''),
+          },
+          terrain: typeof terrain === 'string' ? terrain : TERRAIN_TYPES.PLAINS,
+        })
+      }
+    }
+  }
+
+  const mapWidth = getProperty(tiled.properties, 'mapWidth')
+  const mapHeight = getProperty(tiled.properties, 'mapHeight')
+  const shape = getProperty(tiled.properties, 'shape')
+  const originX = Number(getProperty(tiled.properties, 'originX') ?? 0)
+  const originY = Number(getProperty(tiled.properties, 'originY') ?? 0)
+  const map = new GameMap(
+    typeof mapWidth === 'number' ? mapWidth : tiled.width,
+    typeof mapHeight === 'number' ? mapHeight : tiled.height,
+    typeof shape === 'string'
+      ? (JSON.parse(shape) as MapShape)
+      : { type: MAP_SHAPE_TYPES.RECTANGLE }
+  )
+  const propertySchema = getProperty(tiled.properties, 'propertySchema')
+  if (typeof propertySchema === 'string') {
+    map.propertySchema = new PropertySchema(JSON.parse(propertySchema) as PropertyDefinition[])
+  }
+  const properties = getProperty(tiled.properties, 'properties')
+  if (typeof properties === 'string') {
+    map.properties = JSON.parse(properties) as CustomProperties
+  }
+
+  const tileLayers = tiled.layers.filter((layer) => layer.type === 'tilelayer')
+  tileLayers.forEach((layer, index) => {
+    const height = Number(getProperty(layer.properties, 'height') ?? index)
+    if (!Number.isInteger(height) || height < 0 || height > MAX_HEIGHT) {
+      throw new Error(
+        `Layer "${layer.name}" has height ${height}; heights 0-${MAX_HEIGHT} are supported`
+      )
+    }
+    if (!Array.isArray(layer.data)) {
+      throw new Error(`Layer "${layer.name}" must be saved with CSV tile layer format`)
+    }
+
+    const width = layer.width ?? tiled.width
+    const hexDataProperty = getProperty(layer.properties, 'hexData')
+    const hexData: Record<string, TiledHexData> =
+      typeof hexDataProperty === 'string' ? JSON.parse(hexDataProperty) : {}
+    const cellKeys = new Set(Object.keys(hexData))
+    layer.data.forEach((gid, cell) => {
+      if (gid !== 0) cellKeys.add(`${cell % width},${Math.floor(cell / width)}`)
+    })
+
+    for (const cellKey of cellKeys) {
+      const [x, y] = cellKey.split(',').map(Number)
+      const gid = layer.data[y * width + x] ?? 0
+      const tile = models.get((gid & GID_MASK) >>> 0)
+      if (gid !== 0 && !tile) {
+        throw new Error(
+          `Layer "${layer.name}" cell ${cellKey} uses tile ${gid & GID_MASK} without a model`
+        )
+      }
+
+      const extra = hexData[cellKey] ?? {}
+      const { q, r } = offsetToAxial(x + originX, y + originY)
+      const terrain = extra.terrain ?? tile?.terrain ?? TERRAIN_TYPES.PLAINS
+      if (!terrainRegistry.has(terrain)) {
+        throw new Error(`Layer "${layer.name}" cell ${cellKey} has unknown terrain "${terrain}"`)
+      }
+      if (!map.isValidCoordinate(q, r)) {
+        throw new Error(`Layer "${layer.name}" cell ${cellKey} is outside the map shape`)
+      }
+
+      const hex = new Hex(q, r, terrain)
+      hex.height = height
+      hex.rotation = extra.rotation ?? flagsToRotation(gid)
+      hex.hasRiver = extra.hasRiver ?? false
+      hex.owner = extra.owner ?? null
+      if (extra.properties) {
+        hex.properties = { ...extra.properties }
+      }
+      if (tile) {
+        hex.modelData = { ...tile.modelData }
+      }
+      map.setHex(q, r, hex)
+    }
+  })
+
+  return map
+}
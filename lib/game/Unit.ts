@@ -0,0 +1,97 @@
+/**
+ * Unit - An army placed on the map (starting armies, garrisons, heroes)
+ * Units stand on the topmost hex of a stack and belong to a faction
+ */
+
+export const UNIT_TYPES = {
+  INFANTRY: 'INFANTRY',
+  ARCHERS: 'ARCHERS',
+  CAVALRY: 'CAVALRY',
+  SIEGE: 'SIEGE',
+  HERO: 'HERO',
+} as const
+
+export type UnitType = (typeof UNIT_TYPES)[keyof typeof UNIT_TYPES]
+
+export interface UnitStats {
+  strength: number
+  defense: number
+  movement: number
+  hitPoints: number
+}
+
+export const UNIT_CONFIG: Record<UnitType, { name: string; stats: UnitStats }> = {
+  [UNIT_TYPES.INFANTRY]: {
+    name: 'Infantry',
+    stats: { strength: 3, defense: 3, movement: 4, hitPoints: 10 },
+  },
+  [UNIT_TYPES.ARCHERS]: {
+    name: 'Archers',
+    stats: { strength: 4, defense: 2, movement: 4, hitPoints: 8 },
+  },
+  [UNIT_TYPES.CAVALRY]: {
+    name: 'Cavalry',
+    stats: { strength: 4, defense: 2, movement: 8, hitPoints: 10 },
+  },
+  [UNIT_TYPES.SIEGE]: {
+    name: 'Siege',
+    stats: { strength: 6, defense: 1, movement: 2, hitPoints: 6 },
+  },
+  [UNIT_TYPES.HERO]: {
+    name: 'Hero',
+    stats: { strength: 5, defense: 4, movement: 6, hitPoints: 15 },
+  },
+}
+
+/**
+ * Facing as an index into getAxialNeighbors directions:
+ * 0 = East, 1 = North East, 2 = North West, 3 = West, 4 = South West, 5 = South East
+ */
+export type Facing = 0 | 1 | 2 | 3 | 4 | 5
+
+/**
+ * Normalize any integer to a valid facing (wraps around, handles negatives)
+ */
+export function normalizeFacing(facing: number): Facing {
+  return (((Math.round(facing) % 6) + 6) % 6) as Facing
+}
+
+/**
+ * Generate a short unique id for map entities (units, cities)
+ */
+export function createEntityId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+export class Unit {
+  id: string
+  type: UnitType
+  name: string
+  faction: string // Faction id (e.g. 'red', 'blue')
+  stats: UnitStats
+  facing: Facing = 0
+
+  constructor(
+    type: UnitType,
+    faction: string,
+    options: { id?: string; name?: string; stats?: Partial<UnitStats>; facing?: number } = {}
+  ) {
+    const config = UNIT_CONFIG[type]
+    if (!config) {
+      throw new Error(`Invalid unit type: ${type}`)
+    }
+
+    this.id = options.id ?? createEntityId('unit')
+    this.type = type
+    this.name = options.name ?? config.name
+    this.faction = faction
+    this.stats = { ...config.stats, ...options.stats }
+    if (options.facing !== undefined) {
+      this.facing = normalizeFacing(options.facing)
+    }
+  }
+
+  getTypeName(): string {
+    return UNIT_CONFIG[this.type]?.name ?? 'Unknown'
+  }
+}
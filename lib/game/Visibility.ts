@@ -0,0 +1,100 @@
+/**
+ * Visibility - Line of sight and field of view across hex stacks
+ * A hex blocks the view when its surface (plus terrain cover) rises above the sight line
+ */
+
+import { type Hex, TERRAIN_TYPES, type TerrainType } from './Hex'
+import { axialDistance, axialLine } from './HexCoordinateConverter'
+import type { Map as GameMap } from './Map'
+import type { AxialCoord } from './Pathfinding'
+
+export interface VisibilityOptions {
+  // Eye height of the viewer above its surface, in levels (default: 0.5)
+  viewerHeight?: number
+  // Height above the target surface that has to be seen (default: 0, the ground)
+  targetHeight?: number
+}
+
+/**
+ * Extra height (in levels) that terrain adds on top of its surface when it lies
+ * between the viewer and the target
+ */
+export const TERRAIN_OCCLUSION: Partial<Record<TerrainType, number>> = {
+  [TERRAIN_TYPES.MOUNTAIN]: 2,
+  [TERRAIN_TYPES.FOREST]: 1,
+}
+
+const DEFAULT_VIEWER_HEIGHT = 0.5
+
+/**
+ * Height of the top of whatever occupies a hex: its surface level plus terrain cover
+ */
+export function getOcclusionHeight(hex: Hex): number {
+  return hex.height + (TERRAIN_OCCLUSION[hex.terrain] ?? 0)
+}
+
+/**
+ * Check whether the target hex can be seen from the viewer hex.
+ * Only hexes strictly between the two can block; empty positions never block.
+ * Returns false when either position has no hex.
+ */
+export function hasLineOfSight(
+  map: GameMap,
+  from: AxialCoord,
+  to: AxialCoord,
+  options: VisibilityOptions = {}
+): boolean {
+  const viewer = map.getHex(from.q, from.r)
+  const target = map.getHex(to.q, to.r)
+  if (!viewer || !target) {
+    return false
+  }
+
+  const eye = viewer.height + (options.viewerHeight ?? DEFAULT_VIEWER_HEIGHT)
+  const aim = target.height + (options.targetHeight ?? 0)
+
+  const line = axialLine(from, to)
+  const steps = line.length - 1
+  for (let i = 1; i < steps; i++) {
+    const hex = map.getHex(line[i].q, line[i].r)
+    if (!hex) continue
+
+    const sightHeight = eye + (aim - eye) * (i / steps)
+    if (getOcclusionHeight(hex) > sightHeight) {
+      return false
+    }
+  }
+
+  return true
+}
+
+/**
+ * Compute every hex visible from the viewer within a range (in hexes).
+ * The viewer hex is always included; empty positions are never returned.
+ */
+export function computeFieldOfView(
+  map: GameMap,
+  viewer: AxialCoord,
+  range: number,
+  options: VisibilityOptions = {}
+): AxialCoord[] {
+  if (!map.getHex(viewer.q, viewer.r)) {
+    return []
+  }
+
+  const visible: AxialCoord[] = []
+  for (let dq = -range; dq <= range; dq++) {
+    const minDr = Math.max(-range, -dq - range)
+    const maxDr = Math.min(range, -dq + range)
+    for (let dr = minDr; dr <= maxDr; dr++) {
+      const target = { q: viewer.q + dq, r: viewer.r + dr }
+      if (!map.getHex(target.q, target.r)) continue
+
+      if (axialDistance(viewer, target) === 0 || hasLineOfSight(map, viewer, target, options)) {
+        visible.push(target)
+      }
+    }
+  }
+
+  return visible
+}
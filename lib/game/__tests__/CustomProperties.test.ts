@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getDefaultValue,
+  getSharedValue,
+  parsePropertyValue,
+  PROPERTY_TARGETS,
+  PROPERTY_TYPES,
+  type PropertyDefinition,
+  PropertySchema,
+  validatePropertyDefinition,
+  withPropertyValue,
+} from '../CustomProperties'
+
+const spawnWeight: PropertyDefinition = {
+  name: 'spawnWeight',
+  type: PROPERTY_TYPES.NUMBER,
+  targets: [PROPERTY_TARGETS.HEX],
+  default: 1,
+}
+
+const loot: PropertyDefinition = {
+  name: 'loot',
+  type: PROPERTY_TYPES.ENUM,
+  targets: [PROPERTY_TARGETS.HEX, PROPERTY_TARGETS.BUILDING],
+  options: ['none', 'gold', 'relic'],
+}
+
+describe('CustomProperties', () => {
+  it('should validate property definitions', () => {
+    expect(validatePropertyDefinition(spawnWeight)).toEqual([])
+    expect(validatePropertyDefinition(loot)).toEqual([])
+    expect(validatePropertyDefinition({ ...spawnWeight, name: 'spawn weight' })).toHaveLength(1)
+    expect(validatePropertyDefinition({ ...spawnWeight, targets: [] })).toHaveLength(1)
+    expect(validatePropertyDefinition({ ...spawnWeight, default: 'high' })).toEqual([
+      'default: expected a number',
+    ])
+    expect(validatePropertyDefinition({ ...loot, options: ['gold', 'gold'] })).toEqual([
+      'options must be a list of distinct non-empty strings',
+    ])
+    expect(validatePropertyDefinition({ ...spawnWeight, options: ['a'] })).toEqual([
+      'options are only allowed for enum properties',
+    ])
+  })
+
+  it('should parse typed text and fall back to type defaults', () => {
+    expect(parsePropertyValue(spawnWeight, '2.5')).toBe(2.5)
+    expect(parsePropertyValue(spawnWeight, '')).toBeNull()
+    expect(parsePropertyValue(spawnWeight, 'many')).toBeNull()
+    expect(parsePropertyValue(loot, 'relic')).toBe('relic')
+    expect(parsePropertyValue(loot, 'sword')).toBeNull()
+
+    expect(getDefaultValue(spawnWeight)).toBe(1)
+    expect(getDefaultValue(loot)).toBe('none')
+    expect(
+      getDefaultValue({ name: 'visited', type: PROPERTY_TYPES.BOOLEAN, targets: ['hex'] })
+    ).toBe(false)
+  })
+
+  it('should set and clear values without keeping empty bags', () => {
+    const properties = withPropertyValue(undefined, 'loot', 'gold')
+    expect(properties).toEqual({ loot: 'gold' })
+    expect(withPropertyValue(properties, 'spawnWeight', 3)).toEqual({
+      loot: 'gold',
+      spawnWeight: 3,
+    })
+    expect(withPropertyValue(properties, 'loot', null)).toBeUndefined()
+    expect(properties).toEqual({ loot: 'gold' }) // Copies, never mutates
+  })
+
+  it('should report the shared value of a multi-selection', () => {
+    expect(getSharedValue([{ loot: 'gold' }, { loot: 'gold' }], 'loot')).toBe('gold')
+    expect(getSharedValue([{ loot: 'gold' }, undefined], 'loot')).toBe('mixed')
+    expect(getSharedValue([undefined, {}], 'loot')).toBeUndefined()
+  })
+
+  it('should check values against the schema for each target', () => {
+    const schema = new PropertySchema([spawnWeight, loot])
+
+    expect(schema.validate({ spawnWeight: 2, loot: 'relic' }, PROPERTY_TARGETS.HEX)).toEqual([])
+    expect(schema.validate({ spawnWeight: 2 }, PROPERTY_TARGETS.BUILDING)).toEqual([
+      'property "spawnWeight" cannot be set on buildings',
+    ])
+    expect(schema.validate({ loot: 'sword', trigger: 'a' }, PROPERTY_TARGETS.HEX)).toEqual([
+      'property "loot": expected one of none, gold, relic',
+      'property "trigger" is not declared in the property schema',
+    ])
+  })
+
+  it('should keep definitions in order and reject duplicates', () => {
+    const schema = new PropertySchema([spawnWeight])
+    schema.add(loot)
+
+    expect(schema.getDefinitions().map((definition) => definition.name)).toEqual([
+      'spawnWeight',
+      'loot',
+    ])
+    expect(schema.getDefinitions(PROPERTY_TARGETS.BUILDING)).toEqual([loot])
+    expect(() => schema.add(loot)).toThrow('Property already exists: loot')
+    expect(() => schema.update({ ...loot, name: 'trigger' })).toThrow('Unknown property')
+
+    schema.update({ ...loot, options: ['gold'] })
+    expect(schema.get('loot')?.options).toEqual(['gold'])
+    schema.remove('spawnWeight')
+    expect(schema.has('spawnWeight')).toBe(false)
+  })
+})
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Map as GameMap } from '../Map'
+import { Hex, TERRAIN_TYPES } from '../Hex'
+import { City } from '../City'
+import { Faction, getModelColor, isBuildingHex, setHexOwner } from '../Faction'
+import { findColorVariant, findTileByModelPath, normalizeAssetPath } from '../../llm/tile-registry'
+
+const CASTLE_RED = {
+  obj: '/assets/terrain/buildings/red/building_castle_red.obj',
+  mtl: '/assets/terrain/buildings/red/building_castle_red.mtl',
+  name: 'Building Castle Red',
+}
+
+const WALL = {
+  obj: '/assets/terrain/buildings/neutral/wall_straight.obj',
+  mtl: '/assets/terrain/buildings/neutral/wall_straight.mtl',
+  name: 'Wall Straight',
+}
+
+function buildingHex(modelData: { obj: string; mtl: string; name: string }): Hex {
+  const hex = new Hex(1, 1, TERRAIN_TYPES.PLAINS)
+  hex.modelData = { ...modelData }
+  return hex
+}
+
+describe('tile registry lookups', () => {
+  it('should strip deployment prefixes from asset paths', () => {
+    expect(normalizeAssetPath('/Medieval-Hexagon-Map-Editor/assets/a/b.obj')).toBe('/assets/a/b.obj')
+    expect(normalizeAssetPath('/assets/a/b.obj')).toBe('/assets/a/b.obj')
+  })
+
+  it('should find the colored variant of a multi-part building', () => {
+    const tile = findTileByModelPath(
+      '/assets/terrain/buildings/red/building_tower_A_red_building_tower_A_top_red.obj'
+    )
+    expect(tile).toBeDefined()
+    const variant = tile && findColorVariant(tile, 'yellow')
+    expect(variant?.obj_path).toBe(
+      '/assets/terrain/buildings/yellow/building_tower_A_yellow_building_tower_A_top_yellow.obj'
+    )
+  })
+
+  it('should not find variants for neutral buildings', () => {
+    const tile = findTileByModelPath(WALL.obj)
+    expect(tile && findColorVariant(tile, 'blue')).toBeUndefined()
+  })
+})
+
+describe('Faction', () => {
+  it('should reject unknown colors', () => {
+    expect(() => new Faction('p1', 'Player 1', 'purple' as never)).toThrow('Invalid faction color')
+  })
+
+  it('should detect building hexes and their colors', () => {
+    expect(isBuildingHex(buildingHex(CASTLE_RED))).toBe(true)
+    expect(isBuildingHex(new Hex(0, 0, TERRAIN_TYPES.PLAINS))).toBe(false)
+    expect(getModelColor(CASTLE_RED)).toBe('red')
+    expect(getModelColor(WALL)).toBeNull()
+  })
+
+  describe('setHexOwner', () => {
+    it('should swap a colored building to the owner color set', () => {
+      const hex = buildingHex(CASTLE_RED)
+      const changed = setHexOwner(hex, new Faction('p2', 'Blue Kingdom', 'blue'))
+
+      expect(changed).toBe(true)
+      expect(hex.owner).toBe('p2')
+      expect(hex.modelData).toEqual({
+        obj: '/assets/terrain/buildings/blue/building_castle_blue.obj',
+        mtl: '/assets/terrain/buildings/blue/building_castle_blue.mtl',
+        name: 'Building Castle Blue',
+      })
+    })
+
+    it('should accept prefixed model paths', () => {
+      const hex = buildingHex({ ...CASTLE_RED, obj: `/Medieval-Hexagon-Map-Editor${CASTLE_RED.obj}` })
+      expect(setHexOwner(hex, new Faction('p3', 'Green', 'green'))).toBe(true)
+      expect(hex.modelData?.obj).toBe('/assets/terrain/buildings/green/building_castle_green.obj')
+    })
+
+    it('should keep the model when the color already matches', () => {
+      const hex = buildingHex(CASTLE_RED)
+      expect(setHexOwner(hex, new Faction('p1', 'Red', 'red'))).toBe(false)
+      expect(hex.owner).toBe('p1')
+      expect(hex.modelData?.obj).toBe(CASTLE_RED.obj)
+    })
+
+    it('should keep neutral building models', () => {
+      const hex = buildingHex(WALL)
+      expect(setHexOwner(hex, new Faction('p1', 'Red', 'red'))).toBe(false)
+      expect(hex.owner).toBe('p1')
+      expect(hex.modelData?.obj).toBe(WALL.obj)
+    })
+
+    it('should clear ownership without touching the model', () => {
+      const hex = buildingHex(CASTLE_RED)
+      hex.owner = 'p1'
+      expect(setHexOwner(hex, null)).toBe(false)
+      expect(hex.owner).toBeNull()
+      expect(hex.modelData?.obj).toBe(CASTLE_RED.obj)
+    })
+  })
+})
+
+describe('Map factions', () => {
+  let map: GameMap
+
+  beforeEach(() => {
+    map = new GameMap(10, 10)
+    map.addFaction(new Faction('p1', 'Red', 'red'))
+    map.addFaction(new Faction('p2', 'Blue', 'blue'))
+  })
+
+  it('should reject duplicate faction ids', () => {
+    expect(() => map.addFaction(new Faction('p1', 'Again', 'green'))).toThrow(
+      'Faction already exists: p1'
+    )
+  })
+
+  it('should list owned hexes', () => {
+    const hex = new Hex(2, 0, TERRAIN_TYPES.PLAINS)
+    hex.owner = 'p2'
+    map.setHex(2, 0, hex)
+    map.setHex(3, 0, new Hex(3, 0, TERRAIN_TYPES.PLAINS))
+
+    expect(map.getOwnedHexes('p2')).toEqual([hex])
+    expect(map.getOwnedHexes('p1')).toEqual([])
+  })
+
+  it('should release hexes and cities when a faction is removed', () => {
+    const hex = new Hex(2, 0, TERRAIN_TYPES.PLAINS)
+    hex.owner = 'p1'
+    hex.city = new City('Redhold', 'p1')
+    map.setHex(2, 0, hex)
+
+    map.removeFaction('p1')
+
+    expect(map.getFaction('p1')).toBeNull()
+    expect(map.factions.map(f => f.id)).toEqual(['p2'])
+    expect(hex.owner).toBeNull()
+    expect(hex.city?.faction).toBeNull()
+  })
+})
@@ -7,6 +7,9 @@ import {
   roundAxial,
   axialDistance,
   getAxialNeighbors,
+  axialLine,
+  axialRange,
+  axialRing,
   axialToWorld,
   worldToAxial,
 } from '../HexCoordinateConverter'
@@ -195,6 +198,68 @@ describe('HexCoordinateConverter', () => {
     })
   })
 
+  describe('axialLine', () => {
+    it('should return a single hex for identical endpoints', () => {
+      expect(axialLine({ q: 2, r: -1 }, { q: 2, r: -1 })).toEqual([{ q: 2, r: -1 }])
+    })
+
+    it('should include both endpoints and have distance + 1 hexes', () => {
+      const a = { q: 0, r: 0 }
+      const b = { q: 4, r: -1 }
+      const line = axialLine(a, b)
+      expect(line).toHaveLength(axialDistance(a, b) + 1)
+      expect(line[0]).toEqual(a)
+      expect(line[line.length - 1]).toEqual(b)
+    })
+
+    it('should follow a straight axis', () => {
+      expect(axialLine({ q: 0, r: 0 }, { q: 3, r: 0 })).toEqual([
+        { q: 0, r: 0 },
+        { q: 1, r: 0 },
+        { q: 2, r: 0 },
+        { q: 3, r: 0 },
+      ])
+    })
+
+    it('should produce a connected line (each step is a neighbor)', () => {
+      const line = axialLine({ q: -3, r: 5 }, { q: 4, r: -2 })
+      for (let i = 1; i < line.length; i++) {
+        expect(axialDistance(line[i - 1], line[i])).toBe(1)
+      }
+    })
+  })
+
+  describe('axialRange', () => {
+    it('should return only the center for radius 0', () => {
+      expect(axialRange({ q: 3, r: -2 }, 0)).toEqual([{ q: 3, r: -2 }])
+    })
+
+    it('should return every hex within the radius exactly once', () => {
+      const center = { q: 1, r: 1 }
+      const range = axialRange(center, 2)
+      expect(range).toHaveLength(19)
+      expect(new Set(range.map(h => `${h.q},${h.r}`)).size).toBe(19)
+      for (const hex of range) {
+        expect(axialDistance(center, hex)).toBeLessThanOrEqual(2)
+      }
+    })
+  })
+
+  describe('axialRing', () => {
+    it('should return only the center for radius 0', () => {
+      expect(axialRing({ q: 3, r: -2 }, 0)).toEqual([{ q: 3, r: -2 }])
+    })
+
+    it('should return the hexes at exactly the radius', () => {
+      const center = { q: 1, r: 1 }
+      const ring = axialRing(center, 2)
+      expect(ring).toHaveLength(12)
+      for (const hex of ring) {
+        expect(axialDistance(center, hex)).toBe(2)
+      }
+    })
+  })
+
   describe('axialToWorld', () => {
     it('should convert axial to world coordinates', () => {
       const [x, z] = axialToWorld(0, 0, 10, 10, 3.5)
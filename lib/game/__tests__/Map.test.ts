@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest'
+import { Map as GameMap, MAP_SHAPE_TYPES, createMapShape } from '../Map'
+import { Hex, TERRAIN_TYPES } from '../Hex'
+import { Faction } from '../Faction'
+import { Region } from '../RegionLayer'
+import { Unit, UNIT_TYPES } from '../Unit'
+import { axialDistance, axialToOffset } from '../HexCoordinateConverter'
+
+describe('Map shapes', () => {
+  it('should default to a rectangle of exactly width x height offset cells', () => {
+    const map = new GameMap(6, 4)
+    const coords = map.getAllCoordinates()
+    expect(map.shape.type).toBe(MAP_SHAPE_TYPES.RECTANGLE)
+    expect(coords).toHaveLength(24)
+    for (const { q, r } of coords) {
+      const { x, y } = axialToOffset(q, r)
+      expect(x).toBeGreaterThanOrEqual(0)
+      expect(x).toBeLessThan(6)
+      expect(y).toBeGreaterThanOrEqual(0)
+      expect(y).toBeLessThan(4)
+    }
+  })
+
+  it('should reject coordinates outside the rectangle', () => {
+    const map = new GameMap(6, 4)
+    expect(map.isValidCoordinate(0, 0)).toBe(true)
+    expect(map.isValidCoordinate(5, 1)).toBe(true) // offset (5, 3)
+    expect(map.isValidCoordinate(5, 2)).toBe(false) // offset (5, 4)
+    expect(map.isValidCoordinate(0, -1)).toBe(false)
+    expect(map.isValidCoordinate(6, 0)).toBe(false)
+    expect(map.isValidCoordinate(0.5, 0)).toBe(false)
+  })
+
+  it('should contain exactly the hexes within the radius for hexagon maps', () => {
+    const map = new GameMap(10, 10, createMapShape(MAP_SHAPE_TYPES.HEXAGON, 10, 10))
+    expect(map.shape).toEqual({ type: MAP_SHAPE_TYPES.HEXAGON, radius: 4 })
+
+    const coords = map.getAllCoordinates()
+    expect(coords).toHaveLength(1 + 3 * 4 * 5)
+    const center = map.getCenter()
+    for (const coord of coords) {
+      expect(axialDistance(center, coord)).toBeLessThanOrEqual(4)
+    }
+    expect(map.isValidCoordinate(center.q + 5, center.r)).toBe(false)
+  })
+
+  it('should fit every hexagon inside its offset box', () => {
+    for (let size = 1; size <= 12; size++) {
+      const map = new GameMap(size, size, createMapShape(MAP_SHAPE_TYPES.HEXAGON, size, size))
+      const radius = Math.floor((size - 1) / 2)
+      expect(map.getAllCoordinates()).toHaveLength(1 + 3 * radius * (radius + 1))
+    }
+  })
+
+  it('should reject hexagons that do not fit', () => {
+    expect(() => new GameMap(5, 5, { type: MAP_SHAPE_TYPES.HEXAGON, radius: 3 })).toThrow(
+      'Invalid map shape: hexagon of radius 3 does not fit in 5x5'
+    )
+  })
+
+  it('should use axial bounds for parallelogram maps', () => {
+    const map = new GameMap(4, 3, { type: MAP_SHAPE_TYPES.PARALLELOGRAM })
+    expect(map.getAllCoordinates()).toHaveLength(12)
+    expect(map.isValidCoordinate(3, 2)).toBe(true)
+    expect(map.isValidCoordinate(3, -1)).toBe(false)
+    expect(map.isValidCoordinate(3, 3)).toBe(false)
+  })
+
+  it('should only accept masked coordinates', () => {
+    const map = new GameMap(5, 5, { type: MAP_SHAPE_TYPES.MASK, cells: ['0,0', '1,0', '2,-1'] })
+    expect(map.getAllCoordinates()).toEqual([
+      { q: 0, r: 0 },
+      { q: 1, r: 0 },
+      { q: 2, r: -1 },
+    ])
+    expect(map.isValidCoordinate(2, -1)).toBe(true)
+    expect(map.isValidCoordinate(1, 1)).toBe(false)
+    expect(() => map.setHex(1, 1, new Hex(1, 1, TERRAIN_TYPES.PLAINS))).toThrow(
+      'Invalid coordinates: (1, 1)'
+    )
+  })
+
+  it('should fill only the shape when initializing terrain', () => {
+    const map = new GameMap(7, 7, createMapShape(MAP_SHAPE_TYPES.HEXAGON, 7, 7))
+    map.initializeTerrain()
+    expect(map.hexes.size).toBe(37)
+  })
+})
+
+describe('Map.resize', () => {
+  it('should keep stacks in place when growing from the top-left', () => {
+    const map = new GameMap(4, 4)
+    map.setHex(1, 1, new Hex(1, 1, TERRAIN_TYPES.FOREST))
+
+    const plan = map.resize(8, 6, 'top-left')
+    expect(plan.shift).toEqual({ q: 0, r: 0 })
+    expect(plan.croppedStacks).toBe(0)
+    expect(map.width).toBe(8)
+    expect(map.height).toBe(6)
+    expect(map.getHex(1, 1)?.terrain).toBe(TERRAIN_TYPES.FOREST)
+    expect(map.isValidCoordinate(7, 2)).toBe(true)
+  })
+
+  it('should shift stacks by an axial translation when anchored bottom-right', () => {
+    const map = new GameMap(4, 4)
+    map.initializeTerrain()
+    map.setHex(0, 0, new Hex(0, 0, TERRAIN_TYPES.WATER))
+
+    const plan = map.resize(6, 6, 'bottom-right')
+    expect(plan.shift).toEqual({ q: 2, r: 1 }) // Offset (2, 2)
+    expect(map.getHex(2, 1)?.terrain).toBe(TERRAIN_TYPES.WATER)
+    expect(map.getHex(2, 1)?.q).toBe(2)
+    expect(map.hexes.size).toBe(16)
+    expect(map.hasHex(0, 0)).toBe(false)
+  })
+
+  it('should crop stacks outside the new bounds and report them', () => {
+    const map = new GameMap(6, 6)
+    map.initializeTerrain()
+    const edge = map.getHex(5, 3) as Hex // Offset (5, 5)
+    edge.unit = new Unit(UNIT_TYPES.INFANTRY, 'red')
+
+    const preview = map.planResize(4, 4, 'top-left')
+    expect(map.width).toBe(6) // Planning does not change the map
+    expect(preview.croppedStacks).toBe(20)
+    expect(preview.croppedEntities).toBe(1)
+
+    const plan = map.resize(4, 4, 'top-left')
+    expect(plan.croppedHexes).toBe(20)
+    expect(map.hexes.size).toBe(16)
+  })
+
+  it('should move faction start positions and region hexes with the map', () => {
+    const map = new GameMap(4, 4)
+    map.addFaction(new Faction('p1', 'West', 'red', { q: 0, r: 0 }))
+    map.addFaction(new Faction('p2', 'East', 'blue', { q: 3, r: 0 }))
+    map.regions.addRegion(new Region('coast', 'Coast', '#22d3ee'))
+    map.regions.paint('coast', 0, 0)
+    map.regions.paint('coast', 3, 0)
+
+    map.resize(2, 4, 'left')
+    expect(map.getFaction('p1')?.startHex).toEqual({ q: 0, r: 0 })
+    expect(map.getFaction('p2')?.startHex).toBeNull()
+    expect(map.regions.getRegion('coast')?.getCoordinates()).toEqual([{ q: 0, r: 0 }])
+  })
+
+  it('should recompute the hexagon radius for the new bounds', () => {
+    const map = new GameMap(5, 5, createMapShape(MAP_SHAPE_TYPES.HEXAGON, 5, 5))
+    map.resize(9, 9)
+    expect(map.shape).toEqual({ type: MAP_SHAPE_TYPES.HEXAGON, radius: 4 })
+  })
+
+  it('should reject invalid dimensions', () => {
+    const map = new GameMap(4, 4)
+    expect(() => map.resize(0, 4)).toThrow('Invalid map dimensions')
+  })
+})
+
+describe('Map custom properties', () => {
+  it('should drop every value of a removed property definition', () => {
+    const map = new GameMap(4, 4)
+    map.propertySchema.add({ name: 'loot', type: 'string', targets: ['hex', 'map'] })
+    map.propertySchema.add({ name: 'visited', type: 'boolean', targets: ['hex'] })
+    map.properties = { loot: 'chest' }
+    const hex = new Hex(1, 1, TERRAIN_TYPES.PLAINS)
+    hex.properties = { loot: 'gold', visited: true }
+    map.setHex(1, 1, hex)
+    const other = new Hex(2, 1, TERRAIN_TYPES.PLAINS)
+    other.properties = { loot: 'relic' }
+    map.setHex(2, 1, other)
+
+    map.removePropertyDefinition('loot')
+    expect(map.propertySchema.has('loot')).toBe(false)
+    expect(map.properties).toEqual({})
+    expect(hex.properties).toEqual({ visited: true })
+    expect(other.properties).toBeUndefined()
+  })
+})
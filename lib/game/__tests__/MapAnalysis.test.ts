@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  analyzeMap,
+  findWalkableComponents,
+  POINT_OF_INTEREST_KINDS,
+  reportToCSV,
+  reportToJSON,
+} from '../MapAnalysis'
+import { Map as GameMap } from '../Map'
+import { Hex, TERRAIN_TYPES, type TerrainType } from '../Hex'
+import { Faction } from '../Faction'
+import { City } from '../City'
+import { findTileById } from '../../llm/tile-registry'
+
+function placeHex(map: GameMap, q: number, r: number, terrain: TerrainType, height = 0): Hex {
+  const hex = new Hex(q, r, terrain)
+  hex.height = height
+  map.setHex(q, r, hex)
+  return hex
+}
+
+function placeTile(map: GameMap, q: number, tileId: string): Hex {
+  const tile = findTileById(tileId)
+  if (!tile) throw new Error(`Missing test tile: ${tileId}`)
+  const hex = placeHex(map, q, 0, TERRAIN_TYPES.PLAINS, 1)
+  hex.modelData = { obj: tile.obj_path, mtl: tile.mtl_path, name: tile.name }
+  return hex
+}
+
+// Corridor along r = 0: plains q = 0..6 split by water at q = 3,
+// lumber at q = 2, a red castle at q = 5 and a neutral barn at q = 4
+function buildIslands(map: GameMap) {
+  for (let q = 0; q <= 6; q++) {
+    placeHex(map, q, 0, q === 3 ? TERRAIN_TYPES.WATER : TERRAIN_TYPES.PLAINS)
+  }
+  placeTile(map, 2, 'decoration_props_resource_lumber')
+  placeTile(map, 5, 'buildings_red_building_castle_red')
+  placeTile(map, 4, 'buildings_neutral_building_grain')
+  map.addFaction(new Faction('p1', 'West', 'red', { q: 0, r: 0 }))
+  map.addFaction(new Faction('p2', 'East', 'blue', { q: 6, r: 0 }))
+}
+
+describe('MapAnalysis', () => {
+  let map: GameMap
+
+  beforeEach(() => {
+    map = new GameMap(10, 10)
+    buildIslands(map)
+  })
+
+  it('should count terrain, levels and buildings', () => {
+    const report = analyzeMap(map)
+    expect(report.positions).toBe(100)
+    expect(report.filledPositions).toBe(7)
+    expect(report.totalHexes).toBe(10)
+    expect(report.terrain).toEqual({ PLAINS: 6, WATER: 1 })
+    expect(report.levels).toEqual([7, 3, 0, 0, 0])
+    expect(report.buildings).toEqual({ red: 1, neutral: 1 })
+  })
+
+  it('should split walkable areas at impassable terrain', () => {
+    const components = findWalkableComponents(map)
+    expect(components.map((component) => component.length)).toEqual([3, 3])
+    expect(analyzeMap(map).components).toEqual([3, 3])
+  })
+
+  it('should measure movement costs from every start position', () => {
+    const report = analyzeMap(map)
+    expect(report.players).toEqual([
+      {
+        factionId: 'p1',
+        name: 'West',
+        color: 'red',
+        start: { q: 0, r: 0 },
+        reachableHexes: 3,
+        nearestResource: 2,
+        nearestStructure: null,
+      },
+      {
+        factionId: 'p2',
+        name: 'East',
+        color: 'blue',
+        start: { q: 6, r: 0 },
+        reachableHexes: 3,
+        nearestResource: null,
+        nearestStructure: 1,
+      },
+    ])
+
+    const castle = report.pointsOfInterest.find((point) => point.q === 5)
+    expect(castle).toEqual({
+      q: 5,
+      r: 0,
+      kind: POINT_OF_INTEREST_KINDS.STRUCTURE,
+      label: 'buildings_red_building_castle_red',
+      costs: { p1: null, p2: 1 },
+    })
+  })
+
+  it('should treat cities as structures and use profile costs', () => {
+    ;(map.getHex(1, 0) as Hex).city = new City('Westhold', 'p1')
+    const report = analyzeMap(map, { terrainCosts: { PLAINS: 2 } })
+    expect(report.players[0].nearestStructure).toBe(2)
+    expect(report.players[0].nearestResource).toBe(4)
+  })
+
+  it('should leave players without a start position unmeasured', () => {
+    map.addFaction(new Faction('p3', 'Nomads', 'green'))
+    const nomads = analyzeMap(map).players[2]
+    expect(nomads.start).toBeNull()
+    expect(nomads.reachableHexes).toBe(0)
+    expect(nomads.nearestResource).toBeNull()
+  })
+
+  it('should export the report as JSON and long-format CSV', () => {
+    const report = analyzeMap(map)
+    expect(JSON.parse(reportToJSON(report))).toEqual(report)
+
+    const lines = reportToCSV(report).trim().split('\n')
+    expect(lines[0]).toBe('section,item,player,value')
+    expect(lines).toContain('terrain,WATER,,1')
+    expect(lines).toContain('buildings,red,,1')
+    expect(lines).toContain('player,start,p1,"0,0"')
+    expect(lines).toContain('player,nearest_structure,p1,')
+    expect(lines).toContain('distance,"resource 2,0 decoration_props_resource_lumber",p1,2')
+  })
+})
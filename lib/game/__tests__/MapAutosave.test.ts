@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import {
+  AUTOSAVE_MAX_AGE,
+  type AutosaveRecord,
+  createSessionId,
+  LIVE_SESSION_TIMEOUT,
+  MAX_RECOVERABLE_SESSIONS,
+  pickAutosaveSlot,
+  planRecovery,
+} from '../MapAutosave'
+
+const NOW = 1_000_000
+
+function record(slot: number, sessionId: string, savedAt: number): AutosaveRecord {
+  return {
+    slot,
+    sessionId,
+    savedAt,
+    mapName: '',
+    mapPath: '',
+    fileMetadata: null,
+    data: '{}',
+    selection: [],
+    camera: { target: { x: 0, y: 0, z: 0 }, angleX: 0, angleY: 0, distance: 150 },
+  }
+}
+
+describe('MapAutosave', () => {
+  it('fills free slots before overwriting', () => {
+    expect(pickAutosaveSlot([], 'a', 3)).toBe(0)
+    expect(pickAutosaveSlot([record(0, 'a', 1), record(2, 'a', 2)], 'a', 3)).toBe(1)
+  })
+
+  it('overwrites the slot written longest ago once all are used', () => {
+    const records = [record(0, 'a', 30), record(1, 'a', 10), record(2, 'a', 20)]
+    expect(pickAutosaveSlot(records, 'a', 3)).toBe(1)
+  })
+
+  it('keeps the slots of a crashed session while the current one autosaves', () => {
+    let records = [record(0, 'crashed', 10), record(1, 'crashed', 20), record(2, 'crashed', 30)]
+    for (let savedAt = 100; savedAt < 110; savedAt++) {
+      const slot = pickAutosaveSlot(records, 'current', 3)
+      records = [...records.filter((r) => r.slot !== slot), record(slot, 'current', savedAt)]
+    }
+
+    expect(records.filter((r) => r.sessionId === 'crashed').map((r) => r.slot)).toEqual([0, 1, 2])
+    expect(
+      records
+        .filter((r) => r.sessionId === 'current')
+        .map((r) => r.slot)
+        .sort()
+    ).toEqual([3, 4, 5])
+    expect(planRecovery(records, 'next', NOW).records.map((r) => r.sessionId)).toEqual([
+      'current',
+      'current',
+      'current',
+    ])
+    expect(planRecovery(records, 'current', NOW).records.map((r) => r.slot)).toEqual([2, 1, 0])
+  })
+
+  it('offers the newest session other than the current one', () => {
+    const records = [
+      record(0, 'old', 10),
+      record(1, 'crashed', 20),
+      record(2, 'crashed', 30),
+      record(3, 'current', 40),
+    ]
+    const plan = planRecovery(records, 'current', NOW)
+    expect(plan.records.map((r) => r.slot)).toEqual([2, 1])
+    expect(plan.staleSessions).toEqual([])
+  })
+
+  it('has nothing to recover when only the current session autosaved', () => {
+    expect(planRecovery([record(0, 'current', 10)], 'current', NOW)).toEqual({
+      records: [],
+      staleSessions: [],
+    })
+    expect(planRecovery([], 'current', NOW).records).toEqual([])
+  })
+
+  it('leaves sessions running in another tab alone', () => {
+    const idle = { ...record(1, 'idle', NOW - 10 * LIVE_SESSION_TIMEOUT), aliveAt: NOW - 1000 }
+    const records = [record(0, 'crashed', 20), idle, record(2, 'busy', NOW - 1000)]
+
+    const plan = planRecovery(records, 'current', NOW)
+    expect(plan.records.map((r) => r.sessionId)).toEqual(['crashed'])
+    expect(plan.staleSessions).toEqual([])
+    expect(planRecovery(records, 'current', NOW + LIVE_SESSION_TIMEOUT).records[0].sessionId).toBe(
+      'idle'
+    )
+  })
+
+  it('deletes sessions beyond the cap or too old to keep', () => {
+    const records = Array.from({ length: MAX_RECOVERABLE_SESSIONS + 1 }, (_, i) =>
+      record(i, `s${i}`, NOW - LIVE_SESSION_TIMEOUT - i)
+    )
+    records.push(record(10, 'ancient', NOW - AUTOSAVE_MAX_AGE - 1))
+
+    const plan = planRecovery(records, 'current', NOW)
+    expect(plan.records.map((r) => r.sessionId)).toEqual(['s0'])
+    expect(plan.staleSessions).toEqual([`s${MAX_RECOVERABLE_SESSIONS}`, 'ancient'])
+  })
+
+  it('creates distinct session ids', () => {
+    expect(createSessionId()).not.toBe(createSessionId())
+  })
+})
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  convertBinaryToJson,
+  convertJsonToBinary,
+  decodeMap,
+  decodeMapFile,
+  encodeMap,
+  encodeMapFile,
+  isBinaryMapFile,
+} from '../MapBinaryCodec'
+import { type MapFileFormat, MapSerializer } from '../MapSerializer'
+import { Map as GameMap } from '../Map'
+import { Hex, TERRAIN_TYPES } from '../Hex'
+import { Faction } from '../Faction'
+import { Unit, UNIT_TYPES } from '../Unit'
+
+function buildMap(): GameMap {
+  const map = new GameMap(12, 12)
+  for (const { q, r } of map.getAllCoordinates()) {
+    const hex = new Hex(q, r, (q + r) % 3 === 0 ? TERRAIN_TYPES.FOREST : TERRAIN_TYPES.PLAINS)
+    hex.modelData = { obj: '/assets/grass.obj', mtl: '/assets/grass.mtl', name: 'grass' }
+    hex.rotation = ((q + r) % 6) * (Math.PI / 3)
+    map.setHex(q, r, hex)
+  }
+
+  const castle = new Hex(2, 2, TERRAIN_TYPES.PLAINS)
+  castle.height = 1
+  castle.rotation = -Math.PI / 3
+  castle.owner = 'p1'
+  castle.modelData = { obj: '/assets/castle.obj', mtl: '/assets/castle.mtl', name: 'castle' }
+  castle.unit = new Unit(UNIT_TYPES.INFANTRY, 'p1', { id: 'u1', facing: 2 })
+  castle.properties = { garrison: 40, capital: true }
+  map.setHex(2, 2, castle)
+  map.propertySchema.add({ name: 'garrison', type: 'number', targets: ['hex'] })
+  map.propertySchema.add({ name: 'capital', type: 'boolean', targets: ['hex'] })
+
+  const river = map.getHex(3, 3) as Hex
+  river.hasRiver = true
+  river.terrain = TERRAIN_TYPES.WATER
+
+  map.addFaction(new Faction('p1', 'West', 'red', { q: 0, r: 0 }))
+  return map
+}
+
+describe('MapBinaryCodec', () => {
+  let map: GameMap
+
+  beforeEach(() => {
+    map = buildMap()
+  })
+
+  it('should detect binary files by their magic header', async () => {
+    const bytes = await encodeMap(map, 'small')
+    expect(isBinaryMapFile(bytes)).toBe(true)
+    expect(isBinaryMapFile(new TextEncoder().encode('{"format":"warlords-map"}'))).toBe(false)
+  })
+
+  it('should round-trip the file structure with and without compression', async () => {
+    const mapFile = MapSerializer.toMapFile(map, 'medium', { name: 'Test' })
+    expect(await decodeMapFile(await encodeMapFile(mapFile))).toEqual(mapFile)
+    expect(await decodeMapFile(await encodeMapFile(mapFile, { compress: false }))).toEqual(mapFile)
+  })
+
+  it('should restore an equivalent map', async () => {
+    const { map: restored, mapSize } = await decodeMap(await encodeMap(map, 'large'))
+    expect(mapSize).toBe('large')
+    expect(MapSerializer.toMapFile(restored, 'large').hexes).toEqual(
+      MapSerializer.toMapFile(map, 'large').hexes
+    )
+    expect(restored.getHexStack(2, 2)[1].owner).toBe('p1')
+    expect(restored.getHexStack(2, 2)[1].unit?.id).toBe('u1')
+    expect(restored.getHexStack(2, 2)[1].properties).toEqual({ garrison: 40, capital: true })
+    expect(restored.propertySchema.has('garrison')).toBe(true)
+  })
+
+  it('should keep rotations that are not 60 degree steps exactly', async () => {
+    ;(map.getHex(0, 0) as Hex).rotation = Math.PI / 4
+    const mapFile = MapSerializer.toMapFile(map, 'small')
+    const decoded = await decodeMapFile(await encodeMapFile(mapFile, { compress: false }))
+    expect(decoded.hexes['0,0'][0].rotation).toBe(Math.PI / 4)
+  })
+
+  it('should convert between JSON and binary losslessly', async () => {
+    const json = MapSerializer.serialize(map, 'small')
+    const binary = await convertJsonToBinary(json)
+    expect(MapSerializer.parse(await convertBinaryToJson(binary))).toEqual(
+      MapSerializer.parse(json)
+    )
+    expect(await convertBinaryToJson(binary, '2.0')).toBe(
+      MapSerializer.stringify(MapSerializer.parse(json) as MapFileFormat, '2.0')
+    )
+  })
+
+  it('should keep the terrain of 2.0 files written before terrainTypes', async () => {
+    const legacy = MapSerializer.toMapFile(map, 'small')
+    delete legacy.terrainTypes
+    const binary = await convertJsonToBinary(MapSerializer.stringify(legacy, '2.0'))
+    const json = await convertBinaryToJson(binary)
+
+    const { map: restored } = MapSerializer.deserialize(json)
+    expect(restored.getHex(0, 0)?.terrain).toBe(TERRAIN_TYPES.FOREST)
+    expect(restored.getHex(1, 0)?.terrain).toBe(TERRAIN_TYPES.PLAINS)
+  })
+
+  it('should be smaller than the compact JSON format', async () => {
+    const json = MapSerializer.serialize(map, 'small')
+    const binary = await encodeMap(map, 'small')
+    expect(binary.length).toBeLessThan(new TextEncoder().encode(json).length)
+  })
+
+  it('should reject invalid data', async () => {
+    await expect(decodeMapFile(new Uint8Array([1, 2, 3, 4, 5, 6]))).rejects.toThrow(
+      'Invalid binary map: missing WMAP header'
+    )
+    const bytes = await encodeMap(map, 'small', { compress: false })
+    await expect(decodeMapFile(bytes.slice(0, 40))).rejects.toThrow('unexpected end of data')
+    await expect(
+      convertJsonToBinary(JSON.stringify({ version: '1.0', format: 'warlords-map' }))
+    ).rejects.toThrow('Version 1.0')
+
+    const unknown = MapSerializer.toMapFile(map, 'small')
+    unknown.hexes['0,0'][0].terrain = 'LAVA' as never
+    await expect(decodeMapFile(await encodeMapFile(unknown))).rejects.toThrow(
+      'unknown terrain type "LAVA"'
+    )
+    unknown.hexes['0,0'][0].terrain = null as never
+    await expect(encodeMapFile(unknown)).rejects.toThrow('Invalid terrain null at hex 0,0')
+  })
+})
@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CHANGE_TYPES,
+  diffMaps,
+  getChangedPositions,
+  isDiffEmpty,
+  isSameData,
+  MERGE_CONFLICT_KINDS,
+  mergeMaps,
+  restoreStack,
+  snapshotStack,
+} from '../MapDiff'
+import { Faction } from '../Faction'
+import { Hex, TERRAIN_TYPES } from '../Hex'
+import { Map as GameMap } from '../Map'
+import { MapSerializer } from '../MapSerializer'
+import { Unit, UNIT_TYPES } from '../Unit'
+
+function buildMap(): GameMap {
+  const map = new GameMap(6, 6)
+  map.setHex(1, 1, new Hex(1, 1, TERRAIN_TYPES.PLAINS))
+  map.setHex(2, 1, new Hex(2, 1, TERRAIN_TYPES.FOREST))
+  const hill = new Hex(2, 1, TERRAIN_TYPES.HILLS)
+  hill.height = 1
+  map.setHex(2, 1, hill)
+  map.setHex(3, 2, new Hex(3, 2, TERRAIN_TYPES.WATER))
+  map.addFaction(new Faction('player_1', 'Red', 'red'))
+  return map
+}
+
+// Independent copy of a map, as if loaded from the same file
+function copyMap(map: GameMap): GameMap {
+  return MapSerializer.fromMapFile(MapSerializer.toMapFile(map, 'tiny')).map
+}
+
+const castle = { obj: 'assets/castle.obj', mtl: 'assets/castle.mtl', name: 'castle' }
+
+describe('MapDiff', () => {
+  it('should compare data regardless of key order', () => {
+    expect(isSameData({ a: 1, b: [1, { c: 2 }] }, { b: [1, { c: 2 }], a: 1 })).toBe(true)
+    expect(isSameData({ a: 1, b: undefined }, { a: 1 })).toBe(true)
+    expect(isSameData({ a: [1, 2] }, { a: [2, 1] })).toBe(false)
+  })
+
+  it('should report nothing for identical maps', () => {
+    const map = buildMap()
+    expect(isDiffEmpty(diffMaps({ map }, { map: copyMap(map) }))).toBe(true)
+  })
+
+  it('should list added, removed and modified hexes with field-level changes', () => {
+    const before = buildMap()
+    const after = copyMap(before)
+    after.setHex(4, 1, new Hex(4, 1, TERRAIN_TYPES.DESERT))
+    after.removeHex(2, 1, 1)
+    const water = after.getHex(3, 2) as Hex
+    water.hasRiver = true
+    water.unit = new Unit(UNIT_TYPES.INFANTRY, 'player_1', { id: 'u1' })
+
+    const diff = diffMaps({ map: before }, { map: after })
+    expect(diff.hexes.map(({ type, q, r, height }) => ({ type, q, r, height }))).toEqual([
+      { type: CHANGE_TYPES.REMOVED, q: 2, r: 1, height: 1 },
+      { type: CHANGE_TYPES.MODIFIED, q: 3, r: 2, height: 0 },
+      { type: CHANGE_TYPES.ADDED, q: 4, r: 1, height: 0 },
+    ])
+    const modified = diff.hexes[1]
+    expect(modified.fields.map((change) => change.field)).toEqual(['hasRiver', 'unit'])
+    expect(modified.fields[0]).toEqual({ field: 'hasRiver', before: undefined, after: true })
+    expect(diff.hexes[2].after).toMatchObject({ terrain: TERRAIN_TYPES.DESERT })
+    expect(diff.map).toEqual([])
+  })
+
+  it('should compare buildings and map-level state', () => {
+    const before = buildMap()
+    const after = copyMap(before)
+    ;(after.getFaction('player_1') as Faction).name = 'Crimson'
+    after.properties = { season: 'winter' }
+
+    const diff = diffMaps(
+      { map: before, buildings: [{ q: 1, r: 1, modelData: castle }] },
+      {
+        map: after,
+        buildings: [
+          { q: 1, r: 1, modelData: castle, properties: { loot: 'gold' } },
+          { q: 3, r: 2, modelData: castle },
+        ],
+      }
+    )
+    expect(diff.buildings.map(({ type, key }) => ({ type, key }))).toEqual([
+      { type: CHANGE_TYPES.MODIFIED, key: '1,1' },
+      { type: CHANGE_TYPES.ADDED, key: '3,2' },
+    ])
+    expect(diff.map.map((change) => change.field)).toEqual(['factions', 'properties'])
+  })
+
+  it('should summarize changes per position', () => {
+    const before = buildMap()
+    const after = copyMap(before)
+    after.removeHex(2, 1, 1)
+    const forest = after.getHex(2, 1) as Hex
+    forest.terrain = TERRAIN_TYPES.SWAMP
+    after.removeHex(1, 1)
+
+    expect(getChangedPositions(diffMaps({ map: before }, { map: after }))).toEqual([
+      { q: 1, r: 1, type: CHANGE_TYPES.REMOVED },
+      { q: 2, r: 1, type: CHANGE_TYPES.MODIFIED },
+    ])
+  })
+
+  it('should restore a stack from its snapshot', () => {
+    const map = buildMap()
+    const snapshot = snapshotStack(map, 2, 1)
+    restoreStack(map, 2, 1, [])
+    expect(map.hasHex(2, 1)).toBe(false)
+
+    restoreStack(map, 2, 1, snapshot)
+    expect(map.getHexStack(2, 1).map((hex) => hex.terrain)).toEqual([
+      TERRAIN_TYPES.FOREST,
+      TERRAIN_TYPES.HILLS,
+    ])
+  })
+})
+
+describe('mergeMaps', () => {
+  it('should combine edits on different positions, levels and fields', () => {
+    const base = buildMap()
+    const ours = copyMap(base)
+    const theirs = copyMap(base)
+    ours.setTerrain(1, 1, TERRAIN_TYPES.SNOW)
+    ours.removeHex(2, 1, 1)
+    ;(ours.getHex(3, 2) as Hex).hasRiver = true
+    theirs.setHex(4, 1, new Hex(4, 1, TERRAIN_TYPES.DESERT))
+    ;(theirs.getHex(3, 2) as Hex).rotation = Math.PI / 3
+    theirs.addFaction(new Faction('player_2', 'Blue', 'blue'))
+
+    const { map, conflicts } = mergeMaps({ map: base }, { map: ours }, { map: theirs })
+    expect(conflicts).toEqual([])
+    expect(map.getHex(1, 1)?.terrain).toBe(TERRAIN_TYPES.SNOW)
+    expect(map.getHexStack(2, 1)).toHaveLength(1)
+    expect(map.getHex(3, 2)).toMatchObject({ hasRiver: true, rotation: Math.PI / 3 })
+    expect(map.getHex(4, 1)?.terrain).toBe(TERRAIN_TYPES.DESERT)
+    expect(map.factions.map((faction) => faction.id)).toEqual(['player_1', 'player_2'])
+  })
+
+  it('should report overlapping edits per coordinate and keep ours', () => {
+    const base = buildMap()
+    const ours = copyMap(base)
+    const theirs = copyMap(base)
+    ours.setTerrain(1, 1, TERRAIN_TYPES.SNOW)
+    theirs.setTerrain(1, 1, TERRAIN_TYPES.DESERT)
+    ours.removeHex(3, 2)
+    ;(theirs.getHex(3, 2) as Hex).hasRiver = true
+    ;(ours.getFaction('player_1') as Faction).name = 'Crimson'
+    ;(theirs.getFaction('player_1') as Faction).name = 'Scarlet'
+
+    const { map, conflicts } = mergeMaps({ map: base }, { map: ours }, { map: theirs })
+    expect(conflicts).toEqual([
+      { kind: MERGE_CONFLICT_KINDS.MAP, key: 'factions', fields: ['player_1'] },
+      { kind: MERGE_CONFLICT_KINDS.HEX, key: '1,1', height: 0, fields: ['terrain'] },
+      { kind: MERGE_CONFLICT_KINDS.HEX, key: '3,2', height: 0, fields: ['hex'] },
+    ])
+    expect(map.getHex(1, 1)?.terrain).toBe(TERRAIN_TYPES.SNOW)
+    expect(map.hasHex(3, 2)).toBe(false)
+    expect(map.getFaction('player_1')?.name).toBe('Crimson')
+  })
+
+  it('should merge buildings by position', () => {
+    const map = buildMap()
+    const base = [{ q: 1, r: 1, modelData: castle }]
+
+    const { buildings, conflicts } = mergeMaps(
+      { map, buildings: base },
+      { map, buildings: [...base, { q: 3, r: 2, modelData: castle }] },
+      { map, buildings: [{ ...base[0], properties: { loot: 'gold' } }] }
+    )
+    expect(conflicts).toEqual([])
+    expect(buildings).toEqual([
+      { q: 1, r: 1, modelData: castle, properties: { loot: 'gold' } },
+      { q: 3, r: 2, modelData: castle },
+    ])
+  })
+})
@@ -0,0 +1,240 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { MapHistory } from '../MapHistory'
+import { Faction } from '../Faction'
+import { TERRAIN_TYPES, type TerrainType } from '../Hex'
+import { Map as GameMap } from '../Map'
+
+function terrains(map: GameMap): Record<string, string> {
+  const result: Record<string, string> = {}
+  for (const [key, hexStack] of map.hexes) {
+    result[key] = hexStack.map((hex) => hex.terrain).join('/')
+  }
+  return result
+}
+
+describe('MapHistory', () => {
+  let map: GameMap
+  let history: MapHistory
+
+  beforeEach(() => {
+    map = new GameMap(8, 8)
+    map.initializeTerrain()
+    history = new MapHistory()
+  })
+
+  it('should undo and redo only the touched stacks', () => {
+    history.begin('Paint')
+    history.touch(map, 1, 1)
+    history.touch(map, 2, 1) // Touched but left unchanged
+    map.setTerrain(1, 1, TERRAIN_TYPES.FOREST)
+    const step = history.commit(map)
+
+    expect(step?.stacks).toHaveLength(1)
+    expect(step?.stacks[0]).toMatchObject({ q: 1, r: 1 })
+
+    const undone = history.undo(map)
+    expect(undone?.positions).toEqual([{ q: 1, r: 1 }])
+    expect(map.getHex(1, 1)?.terrain).toBe(TERRAIN_TYPES.PLAINS)
+    expect(history.canUndo()).toBe(false)
+
+    history.redo(map)
+    expect(map.getHex(1, 1)?.terrain).toBe(TERRAIN_TYPES.FOREST)
+    expect(history.canRedo()).toBe(false)
+  })
+
+  it('should group nested steps into one', () => {
+    history.begin('Delete 2 hexes')
+    for (const [q, r] of [
+      [1, 1],
+      [3, 2],
+    ]) {
+      history.begin('Delete hex')
+      history.touch(map, q, r)
+      map.removeHex(q, r)
+      expect(history.commit(map)).toBeNull() // Still open
+    }
+    const step = history.commit(map)
+
+    expect(step?.label).toBe('Delete 2 hexes')
+    expect(step?.stacks).toHaveLength(2)
+    history.undo(map)
+    expect(map.hasHex(1, 1) && map.hasHex(3, 2)).toBe(true)
+  })
+
+  it('should keep overlapping recordings in steps of their own', () => {
+    const slow = history.record('Place castle')
+    slow.touch(map, 1, 1)
+    const fast = history.record('Paint forest')
+    fast.touch(map, 2, 1)
+    map.setTerrain(2, 1, TERRAIN_TYPES.FOREST)
+    history.commitRecording(fast, map)
+    map.setTerrain(1, 1, TERRAIN_TYPES.SNOW) // The castle model finished loading
+    history.commitRecording(slow, map)
+
+    expect(history.getSteps().map((step) => step.label)).toEqual(['Paint forest', 'Place castle'])
+    history.undo(map)
+    expect(map.getHex(1, 1)?.terrain).toBe(TERRAIN_TYPES.PLAINS)
+    expect(map.getHex(2, 1)?.terrain).toBe(TERRAIN_TYPES.FOREST)
+  })
+
+  it('should skip steps that changed nothing and branch on a new edit after undo', () => {
+    history.begin('Nothing')
+    history.touch(map, 1, 1)
+    expect(history.commit(map)).toBeNull()
+    expect(history.canUndo()).toBe(false)
+
+    for (const terrain of [TERRAIN_TYPES.FOREST, TERRAIN_TYPES.SNOW]) {
+      history.begin('Paint')
+      history.touch(map, 1, 1)
+      map.setTerrain(1, 1, terrain)
+      history.commit(map)
+    }
+    history.undo(map)
+    history.begin('Paint')
+    history.touch(map, 1, 1)
+    map.setTerrain(1, 1, TERRAIN_TYPES.DESERT)
+    history.commit(map)
+
+    expect(history.getSteps()).toHaveLength(2)
+    expect(history.canRedo()).toBe(false)
+    // The undone SNOW step is kept as an abandoned branch
+    const entries = history.getEntries()
+    expect(entries).toHaveLength(4)
+    expect(entries.filter((entry) => !entry.active)).toHaveLength(1)
+  })
+
+  it('should jump between branches and continue redo along the branch jumped to', () => {
+    const paint = (q: number, terrain: TerrainType) => {
+      history.begin(`Paint ${q}`)
+      history.touch(map, q, 1)
+      map.setTerrain(q, 1, terrain)
+      history.commit(map)
+    }
+    paint(1, TERRAIN_TYPES.FOREST)
+    paint(2, TERRAIN_TYPES.FOREST)
+    const forestId = history.getCurrentId()
+    history.undo(map)
+    paint(3, TERRAIN_TYPES.SNOW)
+
+    const change = history.jumpTo(map, forestId)
+    expect(change?.label).toBe('Paint 2')
+    expect(change?.positions).toEqual(
+      expect.arrayContaining([
+        { q: 3, r: 1 },
+        { q: 2, r: 1 },
+      ])
+    )
+    expect(map.getHex(2, 1)?.terrain).toBe(TERRAIN_TYPES.FOREST)
+    expect(map.getHex(3, 1)?.terrain).toBe(TERRAIN_TYPES.PLAINS)
+
+    const root = history.getEntries()[0]
+    history.jumpTo(map, root.id)
+    expect(map.getHex(1, 1)?.terrain).toBe(TERRAIN_TYPES.PLAINS)
+    history.redo(map)
+    history.redo(map)
+    expect(history.getCurrentId()).toBe(forestId)
+  })
+
+  it('should save checkpoints as patches and restore them as branches', () => {
+    history.begin('Paint')
+    history.touch(map, 1, 1)
+    history.touchMapState(map)
+    map.setTerrain(1, 1, TERRAIN_TYPES.SWAMP)
+    map.addFaction(new Faction('player_1', 'Red', 'red'))
+    history.commit(map)
+    history.addCheckpoint('Swamp')
+    history.undo(map)
+
+    const saved = history.exportCheckpoints()
+    expect(saved).toHaveLength(1)
+    expect(Object.keys(saved[0].stacks)).toEqual(['1,1'])
+    expect(saved[0].mapState?.factions).toHaveLength(1)
+
+    const loaded = new GameMap(8, 8)
+    loaded.initializeTerrain()
+    const restored = new MapHistory()
+    restored.importCheckpoints(loaded, saved)
+    expect(restored.canRedo()).toBe(false)
+
+    const [checkpoint] = restored.getCheckpoints()
+    expect(checkpoint.name).toBe('Swamp')
+    restored.jumpTo(loaded, checkpoint.entryId)
+    expect(loaded.getHex(1, 1)?.terrain).toBe(TERRAIN_TYPES.SWAMP)
+    expect(loaded.getFaction('player_1')).toBeDefined()
+  })
+
+  it('should restore the map state and moved stacks of a resize', () => {
+    map.addFaction(new Faction('player_1', 'Red', 'red', { q: 2, r: 2 }))
+    map.setTerrain(2, 2, TERRAIN_TYPES.HILLS)
+    const before = terrains(map)
+
+    history.begin('Resize')
+    history.touchMapState(map)
+    history.touchAll(map)
+    map.resize(10, 10, 'center')
+    const step = history.commit(map)
+    expect(step?.mapState?.after.width).toBe(10)
+
+    const undone = history.undo(map)
+    expect(undone?.boundsChanged).toBe(true)
+    expect(map.width).toBe(8)
+    expect(terrains(map)).toEqual(before)
+    expect(map.getFaction('player_1')?.startHex).toEqual({ q: 2, r: 2 })
+  })
+
+  it('should record buildings through the lookup given to commit', () => {
+    const castle = {
+      q: 1,
+      r: 1,
+      modelData: { obj: 'castle.obj', mtl: 'castle.mtl', name: 'castle' },
+    }
+    history.begin('Set loot')
+    history.touchBuilding('1,1', castle)
+    const step = history.commit(map, () => ({ ...castle, properties: { loot: 'gold' } }))
+    expect(step?.buildings).toHaveLength(1)
+
+    expect(history.undo(map)?.buildings).toEqual([{ key: '1,1', building: castle }])
+  })
+
+  it('should drop the oldest steps when over the size budget', () => {
+    const bounded = new MapHistory({ maxSteps: 3 })
+    for (let q = 0; q < 5; q++) {
+      bounded.begin('Paint')
+      bounded.touch(map, q, 2)
+      map.setTerrain(q, 2, TERRAIN_TYPES.FOREST)
+      bounded.commit(map)
+    }
+    expect(bounded.getSteps()).toHaveLength(3)
+
+    const step = bounded.getSteps()[0]
+    const tight = new MapHistory({ maxBytes: step.size * 2 })
+    for (let q = 0; q < 5; q++) {
+      tight.begin('Paint')
+      tight.touch(map, q, 3)
+      map.setTerrain(q, 3, TERRAIN_TYPES.SNOW)
+      tight.commit(map)
+    }
+    expect(tight.getSteps()).toHaveLength(2)
+    expect(tight.getSize()).toBeLessThanOrEqual(step.size * 2)
+  })
+
+  it('should keep checkpointed states when dropping steps', () => {
+    const bounded = new MapHistory({ maxSteps: 3 })
+    const paint = (q: number) => {
+      bounded.begin('Paint')
+      bounded.touch(map, q, 2)
+      map.setTerrain(q, 2, TERRAIN_TYPES.FOREST)
+      bounded.commit(map)
+    }
+    paint(0)
+    const checkpoint = bounded.addCheckpoint('First')
+    for (let q = 1; q < 6; q++) paint(q)
+
+    // The checkpoint is kept as a branch off the oldest state left and counts toward the limit
+    expect(bounded.getEntries()).toHaveLength(4)
+    expect(bounded.getSteps()).toHaveLength(2)
+    bounded.jumpTo(map, checkpoint.entryId)
+    expect(terrains(map)['0,2']).toBe(TERRAIN_TYPES.FOREST)
+    expect(terrains(map)['1,2']).toBe(TERRAIN_TYPES.PLAINS)
+  })
+})
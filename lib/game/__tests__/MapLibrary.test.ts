@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getCopyName,
+  getRecentEntries,
+  type LibraryEntry,
+  renameMapFile,
+  searchLibrary,
+  summarizeMapFile,
+} from '../MapLibrary'
+import { Map as GameMap } from '../Map'
+import { Hex, TERRAIN_TYPES } from '../Hex'
+import { MapSerializer } from '../MapSerializer'
+
+function entry(id: string, fields: Partial<LibraryEntry> = {}): LibraryEntry {
+  return {
+    id,
+    fileName: `${id}.json`,
+    name: id,
+    description: '',
+    mapSize: 'small',
+    width: 10,
+    height: 10,
+    tags: [],
+    modifiedAt: 0,
+    size: 0,
+    ...fields,
+  }
+}
+
+describe('MapLibrary', () => {
+  const map = new GameMap(12, 8)
+  map.setHex(0, 0, new Hex(0, 0, TERRAIN_TYPES.PLAINS))
+  const text = MapSerializer.serialize(map, 'small', {
+    name: 'Elmwood',
+    description: 'River valley',
+    tags: ['pvp', 'island'],
+    thumbnail: 'data:image/png;base64,iVBORw0KGgo=',
+  })
+
+  it('summarizes a map file from its metadata', () => {
+    const summary = summarizeMapFile('map_1', 'elmwood.json', text)
+
+    expect(summary).toMatchObject({
+      id: 'map_1',
+      fileName: 'elmwood.json',
+      name: 'Elmwood',
+      description: 'River valley',
+      mapSize: 'small',
+      width: 12,
+      height: 8,
+      tags: ['pvp', 'island'],
+      thumbnail: 'data:image/png;base64,iVBORw0KGgo=',
+      size: text.length,
+    })
+  })
+
+  it('rejects text that is not a map file', () => {
+    expect(() => summarizeMapFile('map_1', 'notes.json', '{"format":"other"}')).toThrow()
+  })
+
+  it('renames the map in the file and keeps its version', () => {
+    const renamed = renameMapFile(text, 'Oakmere')
+    expect(JSON.parse(renamed).version).toBe('3.0')
+    expect(MapSerializer.deserialize(renamed).metadata?.name).toBe('Oakmere')
+
+    const v2 = MapSerializer.serialize(map, 'small', { name: 'Elmwood', version: '2.0' })
+    expect(JSON.parse(renameMapFile(v2, 'Oakmere'))).toMatchObject({
+      version: '2.0',
+      metadata: { name: 'Oakmere' },
+    })
+
+    const v31 = JSON.stringify({ ...JSON.parse(text), version: '3.1' })
+    expect(renameMapFile(v31, 'Oakmere')).not.toContain('\n')
+  })
+
+  it('searches names, tags and descriptions, newest first', () => {
+    const entries = [
+      entry('a', { name: 'Elmwood', tags: ['pvp'], modifiedAt: 1 }),
+      entry('b', { name: 'Oakmere', description: 'PvP arena', modifiedAt: 2 }),
+      entry('c', { name: 'Stonefield', modifiedAt: 3 }),
+    ]
+
+    expect(searchLibrary(entries, 'pvp').map((e) => e.id)).toEqual(['b', 'a'])
+    expect(searchLibrary(entries, 'oak arena').map((e) => e.id)).toEqual(['b'])
+    expect(searchLibrary(entries, '  ').map((e) => e.id)).toEqual(['c', 'b', 'a'])
+  })
+
+  it('lists recently opened maps', () => {
+    const entries = [entry('a', { openedAt: 5 }), entry('b'), entry('c', { openedAt: 9 })]
+    expect(getRecentEntries(entries).map((e) => e.id)).toEqual(['c', 'a'])
+    expect(getRecentEntries(entries, 1).map((e) => e.id)).toEqual(['c'])
+  })
+
+  it('names duplicates after the original', () => {
+    const entries = [entry('a', { name: 'Elmwood' }), entry('b', { name: 'Elmwood (copy)' })]
+    expect(getCopyName(entries, 'Oakmere')).toBe('Oakmere (copy)')
+    expect(getCopyName(entries, 'Elmwood')).toBe('Elmwood (copy 2)')
+    expect(getCopyName(entries, 'Elmwood (copy)')).toBe('Elmwood (copy 2)')
+  })
+})
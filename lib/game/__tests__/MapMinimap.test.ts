@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { getTileColor, MINIMAP_COLOR_MODES, renderMinimapSVG } from '../MapMinimap'
+import { Map as GameMap } from '../Map'
+import { Hex, TERRAIN_TYPES, type TerrainType } from '../Hex'
+import { FACTION_COLORS } from '../Faction'
+import { terrainRegistry } from '../TerrainRegistry'
+import { findTileById } from '../../llm/tile-registry'
+
+function placeHex(map: GameMap, q: number, r: number, terrain: TerrainType, height = 0): Hex {
+  const hex = new Hex(q, r, terrain)
+  hex.height = height
+  map.setHex(q, r, hex)
+  return hex
+}
+
+function placeTile(map: GameMap, q: number, r: number, tileId: string, height = 1): Hex {
+  const tile = findTileById(tileId)
+  if (!tile) throw new Error(`Missing test tile: ${tileId}`)
+  const hex = placeHex(map, q, r, TERRAIN_TYPES.PLAINS, height)
+  hex.modelData = { obj: tile.obj_path, mtl: tile.mtl_path, name: tile.name }
+  return hex
+}
+
+const countOf = (svg: string, pattern: RegExp) => svg.match(pattern)?.length ?? 0
+
+describe('MapMinimap', () => {
+  it('should draw one hexagon per position of the map shape', () => {
+    const map = new GameMap(4, 3)
+    placeHex(map, 0, 0, TERRAIN_TYPES.WATER)
+    placeHex(map, 1, 0, TERRAIN_TYPES.PLAINS)
+    placeHex(map, 1, 0, TERRAIN_TYPES.FOREST, 2)
+
+    const svg = renderMinimapSVG(map)
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true)
+    expect(countOf(svg, /<polygon /g)).toBe(12)
+    expect(svg).toContain(`fill="${terrainRegistry.get('WATER')?.color}"`)
+    // Topmost hex wins, lighter with height
+    expect(svg).not.toContain(`fill="${terrainRegistry.get('PLAINS')?.color}"`)
+    expect(svg).not.toContain(`fill="${terrainRegistry.get('FOREST')?.color}"`)
+  })
+
+  it('should color buildings by faction in tile mode', () => {
+    const map = new GameMap(3, 3)
+    placeHex(map, 1, 1, TERRAIN_TYPES.PLAINS)
+    placeTile(map, 1, 1, 'buildings_blue_building_castle_blue', 0)
+
+    const terrainSvg = renderMinimapSVG(map, { showBuildings: false })
+    const tileSvg = renderMinimapSVG(map, {
+      colorMode: MINIMAP_COLOR_MODES.TILE,
+      showBuildings: false,
+    })
+    expect(terrainSvg).not.toContain(FACTION_COLORS.blue.hex)
+    expect(tileSvg).toContain(`fill="${FACTION_COLORS.blue.hex}"`)
+  })
+
+  it('should derive tile colors from the terrain a tile implies', () => {
+    const water = findTileById('tiles_base_hex_water')
+    const lumber = findTileById('decoration_props_resource_lumber')
+
+    expect(water && getTileColor(water)).toBe(terrainRegistry.get('WATER')?.color)
+    expect(lumber && getTileColor(lumber)).toBeNull()
+  })
+
+  it('should add building icons, river and road overlays', () => {
+    const map = new GameMap(5, 3)
+    for (const { q, r } of map.getAllCoordinates()) {
+      placeHex(map, q, r, TERRAIN_TYPES.PLAINS)
+    }
+    placeTile(map, 0, 0, 'buildings_red_building_castle_red')
+    ;(map.getHex(2, 0) as Hex).hasRiver = true
+    ;(map.getHex(2, 1) as Hex).hasRiver = true
+    ;(map.getHex(4, 0) as Hex).terrain = TERRAIN_TYPES.ROAD
+    const neutral = findTileById('buildings_neutral_building_grain')
+    if (!neutral) throw new Error('Missing test tile')
+
+    const svg = renderMinimapSVG(map, {
+      buildings: [
+        {
+          q: 3,
+          r: 1,
+          modelData: { obj: neutral.obj_path, mtl: neutral.mtl_path, name: neutral.name },
+        },
+      ],
+    })
+    // 15 hexes + 2 building icons
+    expect(countOf(svg, /<polygon /g)).toBe(17)
+    expect(svg).toContain(`fill="${FACTION_COLORS.red.hex}"`)
+    expect(countOf(svg, /<line /g)).toBe(1) // The two river hexes are neighbours
+    expect(countOf(svg, /<circle /g)).toBe(1) // The lone road hex
+
+    const plain = renderMinimapSVG(map, {
+      showBuildings: false,
+      showRivers: false,
+      showRoads: false,
+    })
+    expect(countOf(plain, /<polygon /g)).toBe(15)
+    expect(plain).not.toContain('<line')
+  })
+
+  it('should label coordinates on request', () => {
+    const map = new GameMap(2, 2)
+    map.initializeTerrain()
+
+    expect(renderMinimapSVG(map)).not.toContain('<text')
+    const svg = renderMinimapSVG(map, { showCoordinates: true })
+    expect(countOf(svg, /<text /g)).toBe(4)
+    expect(svg).toContain('>1,0</text>')
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  FILL_BOUNDS,
+  getBrushArea,
+  getFillArea,
+  getLineArea,
+  getRingArea,
+  PAINT_OVERLAP,
+  planPaint,
+} from '../MapPaint'
+import { Hex, TERRAIN_TYPES } from '../Hex'
+import { Map as GameMap } from '../Map'
+
+const keys = (coords: Array<{ q: number; r: number }>) =>
+  coords.map(({ q, r }) => `${q},${r}`).sort()
+
+describe('MapPaint', () => {
+  let map: GameMap
+
+  const place = (q: number, r: number, height = 0, obj = 'grass.obj') => {
+    const hex = new Hex(q, r, TERRAIN_TYPES.PLAINS)
+    hex.height = height
+    hex.modelData = { obj, mtl: '', name: obj }
+    map.setHex(q, r, hex)
+  }
+
+  beforeEach(() => {
+    map = new GameMap(8, 8)
+  })
+
+  it('keeps brush, line and ring areas on the map', () => {
+    expect(getBrushArea(map, { q: 3, r: 3 }, 1)).toHaveLength(7)
+    // Corner brush loses the positions off the map
+    expect(getBrushArea(map, { q: 0, r: 0 }, 1).length).toBeLessThan(7)
+
+    expect(keys(getLineArea(map, { q: 1, r: 2 }, { q: 4, r: 2 }))).toEqual([
+      '1,2',
+      '2,2',
+      '3,2',
+      '4,2',
+    ])
+
+    expect(getRingArea(map, { q: 3, r: 3 }, 1, false)).toHaveLength(6)
+    expect(getRingArea(map, { q: 3, r: 3 }, 1, true)).toHaveLength(7)
+  })
+
+  it('fills positions with the same tile on the level', () => {
+    place(1, 1)
+    place(2, 1)
+    place(3, 1, 0, 'sand.obj')
+    place(2, 2, 1) // Same tile, but on another level
+
+    expect(keys(getFillArea(map, { q: 1, r: 1 }, 0, FILL_BOUNDS.TILE))).toEqual(['1,1', '2,1'])
+    // An empty start spreads through the empty positions
+    const empty = getFillArea(map, { q: 5, r: 5 }, 0, FILL_BOUNDS.TILE)
+    expect(empty).toHaveLength(map.getAllCoordinates().length - 3)
+  })
+
+  it('fills positions with the same stack height', () => {
+    place(1, 1, 0)
+    place(1, 1, 1)
+    place(2, 1, 1, 'sand.obj')
+    place(3, 1, 0)
+
+    expect(keys(getFillArea(map, { q: 1, r: 1 }, 0, FILL_BOUNDS.HEIGHT))).toEqual(['1,1', '2,1'])
+  })
+
+  it('replaces, skips or stacks on positions that are taken', () => {
+    place(1, 1, 0, 'sand.obj')
+    place(2, 1, 0, 'stone.obj')
+    place(2, 1, 1, 'stone.obj')
+    place(3, 1, 0, 'grass.obj')
+    const positions = [
+      { q: 0, r: 1 },
+      { q: 1, r: 1 },
+      { q: 2, r: 1 },
+      { q: 3, r: 1 },
+      { q: 1, r: 1 }, // Painted twice in one stroke
+    ]
+
+    expect(planPaint(map, positions, 0, PAINT_OVERLAP.REPLACE, 'grass.obj')).toEqual([
+      { q: 0, r: 1, height: 0 },
+      { q: 1, r: 1, height: 0 },
+      { q: 2, r: 1, height: 0 },
+    ])
+    expect(planPaint(map, positions, 0, PAINT_OVERLAP.SKIP, 'grass.obj')).toEqual([
+      { q: 0, r: 1, height: 0 },
+    ])
+    expect(planPaint(map, positions, 0, PAINT_OVERLAP.STACK, 'grass.obj')).toEqual([
+      { q: 0, r: 1, height: 0 },
+      { q: 1, r: 1, height: 1 },
+      { q: 2, r: 1, height: 2 },
+      { q: 3, r: 1, height: 1 },
+    ])
+  })
+
+  it('paints at the current height level and stops at the top level', () => {
+    place(1, 1, 4)
+
+    expect(planPaint(map, [{ q: 0, r: 1 }], 2, PAINT_OVERLAP.REPLACE, 'grass.obj')).toEqual([
+      { q: 0, r: 1, height: 2 },
+    ])
+    expect(planPaint(map, [{ q: 1, r: 1 }], 2, PAINT_OVERLAP.STACK, 'sand.obj')).toEqual([])
+  })
+})
@@ -0,0 +1,240 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { REPAIR_ACTIONS, repairMapFile } from '../MapRepair'
+import { MapSerializer, type MapFileFormat, type MapFileFormatV3 } from '../MapSerializer'
+import { Map as GameMap } from '../Map'
+import { Hex, TERRAIN_TYPES } from '../Hex'
+import { Unit, UNIT_TYPES } from '../Unit'
+import { City } from '../City'
+import { Faction } from '../Faction'
+import { findTileById } from '../../llm/tile-registry'
+
+function buildFile(): MapFileFormat {
+  const map = new GameMap(10, 10)
+  map.setHex(1, 1, new Hex(1, 1, TERRAIN_TYPES.PLAINS))
+  map.setHex(2, 1, new Hex(2, 1, TERRAIN_TYPES.FOREST))
+  return MapSerializer.toMapFile(map, 'small')
+}
+
+describe('MapRepair', () => {
+  let file: MapFileFormat
+
+  beforeEach(() => {
+    file = buildFile()
+  })
+
+  it('should leave a valid file unchanged', () => {
+    const { mapFile, repairs } = repairMapFile(file)
+    expect(repairs).toEqual([])
+    expect(mapFile).toEqual(file)
+  })
+
+  it('should skip invalid hexes and keep the rest of the stack', () => {
+    file.hexes['1,1'].push(
+      { q: 1, r: 1, terrain: 'PLAINS', height: '2' } as never,
+      { q: 1, r: 1, terrain: 'LAVA', height: 3 },
+      { q: 4, r: 4, terrain: 'PLAINS', height: 4 }
+    )
+    file.hexes['x,y'] = []
+
+    const { mapFile, repairs } = repairMapFile(file)
+    expect(repairs).toEqual([
+      {
+        action: REPAIR_ACTIONS.SKIPPED_HEX,
+        path: '/hexes/1,1/1',
+        message: 'height expected integer, got string',
+      },
+      {
+        action: REPAIR_ACTIONS.SKIPPED_HEX,
+        path: '/hexes/1,1/2',
+        message: 'unknown terrain type "LAVA"',
+      },
+      {
+        action: REPAIR_ACTIONS.SKIPPED_HEX,
+        path: '/hexes/1,1/3',
+        message: 'coordinates 4,4 do not match key',
+      },
+      { action: REPAIR_ACTIONS.SKIPPED_HEX, path: '/hexes/x,y', message: 'invalid hex stack' },
+    ])
+    expect(mapFile.hexes['1,1']).toEqual([{ q: 1, r: 1, terrain: 'PLAINS', height: 0 }])
+    expect(mapFile.hexes).not.toHaveProperty('x,y')
+  })
+
+  it('should clamp heights, snap rotations and drop duplicate heights', () => {
+    file.hexes['2,1'][0].rotation = 1
+    file.hexes['2,1'].push(
+      { q: 2, r: 1, terrain: 'PLAINS', height: 9 },
+      { q: 2, r: 1, terrain: 'PLAINS', height: 0 }
+    )
+
+    const { mapFile, repairs } = repairMapFile(file)
+    expect(repairs.map((repair) => [repair.action, repair.path])).toEqual([
+      [REPAIR_ACTIONS.SNAPPED_ROTATION, '/hexes/2,1/0/rotation'],
+      [REPAIR_ACTIONS.CLAMPED_HEIGHT, '/hexes/2,1/1/height'],
+      [REPAIR_ACTIONS.DROPPED_DUPLICATE, '/hexes/2,1/2'],
+    ])
+    expect(repairs[1].message).toBe('height 9 changed to 4')
+    expect(mapFile.hexes['2,1'].map((hex) => hex.height)).toEqual([0, 4])
+    expect(mapFile.hexes['2,1'][0].rotation).toBe(Math.PI / 3)
+  })
+
+  it('should keep rotations read back from degrees', () => {
+    file.hexes['2,1'][0].rotation = (120 * Math.PI) / 180
+    expect(repairMapFile(file).repairs).toEqual([])
+  })
+
+  it('should drop buildings with models outside the tile registry', () => {
+    const tile = findTileById('buildings_red_building_castle_red')
+    const castle = { obj: tile?.obj_path ?? '', mtl: tile?.mtl_path ?? '', name: tile?.name ?? '' }
+    file.buildings = [
+      { q: 1, r: 1, modelData: castle },
+      { q: 2, r: 1, modelData: { obj: '/assets/missing.obj', mtl: '', name: 'missing' } },
+    ]
+
+    const { mapFile, repairs } = repairMapFile(file)
+    expect(mapFile.buildings).toEqual([{ q: 1, r: 1, modelData: castle }])
+    expect(repairs).toEqual([
+      {
+        action: REPAIR_ACTIONS.DROPPED_BUILDING,
+        path: '/buildings/1',
+        message: 'model /assets/missing.obj is not in the tile registry',
+      },
+    ])
+  })
+
+  it('should drop property definitions and values that do not fit the schema', () => {
+    file.propertySchema = [
+      { name: 'loot', type: 'enum', targets: ['hex'], options: ['gold'] },
+      { name: 'loot', type: 'string', targets: ['map'] },
+    ]
+    file.hexes['1,1'][0].properties = { loot: 'gold', spawnWeight: 2 }
+    file.hexes['2,1'][0].properties = { loot: 'silver' }
+    file.metadata.properties = { loot: 'gold' }
+
+    const { mapFile, repairs } = repairMapFile(file)
+    expect(mapFile.propertySchema).toHaveLength(1)
+    expect(mapFile.hexes['1,1'][0].properties).toEqual({ loot: 'gold' })
+    expect(mapFile.hexes['2,1'][0]).not.toHaveProperty('properties')
+    expect(mapFile.metadata).not.toHaveProperty('properties')
+    expect(repairs.map((repair) => [repair.action, repair.path])).toEqual([
+      [REPAIR_ACTIONS.DROPPED_PROPERTY_DEFINITION, '/propertySchema/1'],
+      [REPAIR_ACTIONS.DROPPED_PROPERTY, '/hexes/1,1/0/properties/spawnWeight'],
+      [REPAIR_ACTIONS.DROPPED_PROPERTY, '/hexes/2,1/0/properties/loot'],
+      [REPAIR_ACTIONS.DROPPED_PROPERTY, '/metadata/properties/loot'],
+    ])
+  })
+
+  it('should load a damaged file in repair mode', () => {
+    file.hexes['1,1'].push({ q: 4, r: 4, terrain: 'PLAINS', height: 1 })
+    file.hexes['40,40'] = [{ q: 40, r: 40, terrain: 'PLAINS', height: 0 }]
+    const json = MapSerializer.stringify(file, '2.0')
+
+    expect(() => MapSerializer.deserialize(json)).toThrow('do not match position')
+    expect(MapSerializer.deserialize(MapSerializer.stringify(buildFile())).repairs).toBeUndefined()
+
+    const { map, repairs } = MapSerializer.deserialize(json, { repair: true })
+    expect(repairs?.map((repair) => repair.path)).toEqual(['/hexes/1,1/1', '/hexes/40,40'])
+    expect(repairs?.[1].message).toBe('outside the map shape')
+    expect(map.getHexStack(1, 1)).toHaveLength(1)
+    expect(map.getHex(2, 1)?.terrain).toBe(TERRAIN_TYPES.FOREST)
+  })
+
+  it('should drop invalid factions, units and cities', () => {
+    const map = new GameMap(10, 10)
+    map.addFaction(new Faction('p1', 'North', 'red'))
+    const hex = new Hex(1, 1, TERRAIN_TYPES.PLAINS)
+    hex.unit = new Unit(UNIT_TYPES.INFANTRY, 'p1', { id: 'u1' })
+    hex.city = new City('Keep', 'p1', { id: 'c1' })
+    map.setHex(1, 1, hex)
+    const damaged = MapSerializer.toMapFile(map, 'small')
+    damaged.factions?.push(
+      { id: 'p1', name: 'Copy', color: 'red' },
+      { id: 'p2', name: 'South', color: 'purple' as never }
+    )
+    damaged.units?.push({ ...damaged.units[0], id: 'u2', type: 'DRAGON' as never })
+    damaged.cities?.push({ ...damaged.cities[0], id: 'c2', q: 6, r: 6 })
+
+    const { mapFile, repairs } = repairMapFile(damaged)
+    expect(mapFile.factions?.map((faction) => faction.id)).toEqual(['p1'])
+    expect(mapFile.units?.map((unit) => unit.id)).toEqual(['u1'])
+    expect(repairs.map((repair) => [repair.action, repair.path])).toEqual([
+      [REPAIR_ACTIONS.DROPPED_FACTION, '/factions/1'],
+      [REPAIR_ACTIONS.DROPPED_FACTION, '/factions/2'],
+      [REPAIR_ACTIONS.DROPPED_UNIT, '/units/1'],
+    ])
+
+    // The city on an empty position is only found missing while building the map
+    const json = MapSerializer.stringify(damaged, '2.0')
+    expect(() => MapSerializer.deserialize(json)).toThrow('Faction already exists: p1')
+    const loaded = MapSerializer.deserialize(json, { repair: true })
+    expect(loaded.repairs?.at(-1)).toEqual({
+      action: REPAIR_ACTIONS.DROPPED_CITY,
+      path: '/cities/1',
+      message: 'no hex at (6, 6)',
+    })
+    expect(loaded.map.getHex(1, 1)?.unit?.id).toBe('u1')
+    expect(loaded.map.getHex(1, 1)?.city?.id).toBe('c1')
+  })
+
+  describe('version 3.0', () => {
+    const damage = (change: (file: MapFileFormatV3) => void) => {
+      const data = JSON.parse(MapSerializer.serialize(buildMap(), 'small')) as MapFileFormatV3
+      change(data)
+      return JSON.stringify(data)
+    }
+
+    function buildMap() {
+      const map = new GameMap(10, 10)
+      const grass = findTileById('tiles_base_hex_grass')
+      for (const q of [1, 2, 3]) {
+        const hex = new Hex(q, 1, TERRAIN_TYPES.PLAINS)
+        hex.modelData = {
+          obj: grass?.obj_path ?? '',
+          mtl: grass?.mtl_path ?? '',
+          name: grass?.name ?? '',
+        }
+        map.setHex(q, 1, hex)
+      }
+      map.setHex(5, 1, new Hex(5, 1, TERRAIN_TYPES.FOREST))
+      return map
+    }
+
+    it('should drop unknown palette entries and the layers using them', () => {
+      const json = damage((file) => {
+        file.palette[0] = 'no_such_tile'
+      })
+      expect(() => MapSerializer.deserialize(json)).toThrow(
+        'Unknown tile id in palette: no_such_tile'
+      )
+
+      const { map, repairs } = MapSerializer.deserialize(json, { repair: true })
+      expect(repairs?.map((repair) => [repair.action, repair.path])).toEqual([
+        [REPAIR_ACTIONS.DROPPED_PALETTE_ENTRY, '/palette/0'],
+        [REPAIR_ACTIONS.SKIPPED_HEX, '/rows/0/cells/0/cell/0'],
+        [REPAIR_ACTIONS.SKIPPED_HEX, '/rows/0/cells/0/cell/0'],
+        [REPAIR_ACTIONS.SKIPPED_HEX, '/rows/0/cells/0/cell/0'],
+      ])
+      expect(repairs?.[0].message).toBe('unknown tile id "no_such_tile"')
+      expect(map.hasHex(1, 1)).toBe(false)
+      expect(map.getHex(5, 1)?.terrain).toBe(TERRAIN_TYPES.FOREST)
+    })
+
+    it('should drop malformed layers, cells and rows', () => {
+      const json = damage((file) => {
+        file.rows[0].cells.push(7 as never, [[0, 9, 0], 3 as never, [-1, 0, 6]])
+        file.rows.push({ r: 2 } as never)
+      })
+      expect(() => MapSerializer.deserialize(json)).toThrow()
+
+      const { map, repairs } = MapSerializer.deserialize(json, { repair: true })
+      expect(repairs?.map((repair) => [repair.action, repair.path])).toEqual([
+        [REPAIR_ACTIONS.SKIPPED_HEX, '/rows/0/cells/3'],
+        [REPAIR_ACTIONS.SKIPPED_HEX, '/rows/1'],
+        [REPAIR_ACTIONS.SKIPPED_HEX, '/rows/0/cells/4/0'],
+        [REPAIR_ACTIONS.SKIPPED_HEX, '/rows/0/cells/4/1'],
+        [REPAIR_ACTIONS.CLAMPED_HEIGHT, '/hexes/7,1/0/height'],
+      ])
+      expect(map.getHex(7, 1)?.height).toBe(4)
+      expect(map.getHexStack(1, 1)).toHaveLength(1)
+    })
+  })
+})
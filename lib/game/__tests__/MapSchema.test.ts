@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatSchemaIssue,
+  isPointerWithin,
+  type JsonSchema,
+  toJsonPointer,
+  validateSchema,
+} from '../MapSchema'
+
+describe('MapSchema', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    required: ['points'],
+    properties: {
+      points: { type: 'array', items: { $ref: '#/$defs/point' } },
+      lookup: { type: 'object', propertyNames: { pattern: '^[a-z]+$' } },
+    },
+    $defs: {
+      point: {
+        type: 'object',
+        required: ['x'],
+        additionalProperties: false,
+        properties: { x: { type: 'integer', minimum: 0 }, tag: { enum: ['a', 'b'] } },
+      },
+    },
+  }
+
+  it('should escape JSON pointer segments', () => {
+    expect(toJsonPointer(['hexes', '3,4', 0, 'height'])).toBe('/hexes/3,4/0/height')
+    expect(toJsonPointer(['a/b', 'c~d'])).toBe('/a~1b/c~0d')
+    expect(isPointerWithin('/hexes/3,4/0', '/hexes')).toBe(true)
+    expect(isPointerWithin('/hexesOld', '/hexes')).toBe(false)
+  })
+
+  it('should accept a valid document', () => {
+    expect(validateSchema({ points: [{ x: 1, tag: 'a' }], lookup: { abc: 1 } }, schema)).toEqual([])
+  })
+
+  it('should report violations at their paths', () => {
+    const issues = validateSchema(
+      { points: [{ x: 1.5 }, { x: -1, tag: 'c', y: 0 }, {}], lookup: { ABC: 1 } },
+      schema
+    )
+    expect(issues.map(formatSchemaIssue)).toEqual([
+      '/points/0/x: expected integer, got number',
+      '/points/1/x: must be >= 0',
+      '/points/1/tag: expected one of "a", "b"',
+      '/points/1/y: is not allowed',
+      '/points/2/x: is required',
+      '/lookup/ABC: key must match ^[a-z]+$',
+    ])
+    expect(validateSchema(null, schema)).toEqual([
+      { path: '', message: 'expected object, got null' },
+    ])
+  })
+
+  it('should reject unresolved references', () => {
+    expect(() => validateSchema({}, { $ref: '#/$defs/missing' })).toThrow(
+      'Unresolved schema reference: #/$defs/missing'
+    )
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  combineSelection,
+  getSelectionMode,
+  isPointInPolygon,
+  SELECTION_MODES,
+  selectConnected,
+  selectInPolygon,
+  selectInRadius,
+  SIMILARITY,
+} from '../MapSelection'
+import { Hex, TERRAIN_TYPES, type TerrainType } from '../Hex'
+import { axialToWorld } from '../HexCoordinateConverter'
+import { Map as GameMap } from '../Map'
+
+const keys = (coords: Array<{ q: number; r: number }>) =>
+  coords.map(({ q, r }) => `${q},${r}`).sort()
+
+describe('MapSelection', () => {
+  let map: GameMap
+
+  const place = (q: number, r: number, terrain: TerrainType, height = 0, obj?: string) => {
+    const hex = new Hex(q, r, terrain)
+    hex.height = height
+    if (obj) hex.modelData = { obj, mtl: '', name: obj }
+    map.setHex(q, r, hex)
+  }
+
+  beforeEach(() => {
+    map = new GameMap(8, 8)
+  })
+
+  it('maps modifier keys to selection modes', () => {
+    expect(getSelectionMode({ shiftKey: false, altKey: false })).toBe(SELECTION_MODES.REPLACE)
+    expect(getSelectionMode({ shiftKey: true, altKey: false })).toBe(SELECTION_MODES.ADD)
+    expect(getSelectionMode({ shiftKey: false, altKey: true })).toBe(SELECTION_MODES.SUBTRACT)
+    expect(getSelectionMode({ shiftKey: true, altKey: true })).toBe(SELECTION_MODES.INTERSECT)
+    expect(getSelectionMode({ shiftKey: false, altKey: false }, SELECTION_MODES.ADD)).toBe(
+      SELECTION_MODES.ADD
+    )
+  })
+
+  it('combines picked positions with the current selection', () => {
+    const current = [
+      { q: 0, r: 0 },
+      { q: 1, r: 0 },
+    ]
+    const picked = [
+      { q: 1, r: 0 },
+      { q: 2, r: 0 },
+    ]
+
+    expect(keys(combineSelection(current, picked, SELECTION_MODES.REPLACE))).toEqual(['1,0', '2,0'])
+    expect(keys(combineSelection(current, picked, SELECTION_MODES.ADD))).toEqual([
+      '0,0',
+      '1,0',
+      '2,0',
+    ])
+    expect(keys(combineSelection(current, picked, SELECTION_MODES.SUBTRACT))).toEqual(['0,0'])
+    expect(keys(combineSelection(current, picked, SELECTION_MODES.INTERSECT))).toEqual(['1,0'])
+  })
+
+  it('tests points against a polygon', () => {
+    const square = [
+      { x: 0, z: 0 },
+      { x: 10, z: 0 },
+      { x: 10, z: 10 },
+      { x: 0, z: 10 },
+    ]
+    expect(isPointInPolygon({ x: 5, z: 5 }, square)).toBe(true)
+    expect(isPointInPolygon({ x: 15, z: 5 }, square)).toBe(false)
+  })
+
+  it('selects hexes whose centers lie in the polygon on the chosen level', () => {
+    place(2, 2, TERRAIN_TYPES.PLAINS)
+    place(3, 2, TERRAIN_TYPES.PLAINS, 1)
+    place(6, 1, TERRAIN_TYPES.PLAINS)
+
+    // A box around the centers of (2,2) and (3,2) only
+    const centers = [axialToWorld(2, 2, 8, 8), axialToWorld(3, 2, 8, 8)]
+    const xs = centers.map(([x]) => x)
+    const zs = centers.map(([, z]) => z)
+    const box = [
+      { x: Math.min(...xs) - 1, z: Math.min(...zs) - 1 },
+      { x: Math.max(...xs) + 1, z: Math.min(...zs) - 1 },
+      { x: Math.max(...xs) + 1, z: Math.max(...zs) + 1 },
+      { x: Math.min(...xs) - 1, z: Math.max(...zs) + 1 },
+    ]
+
+    expect(keys(selectInPolygon(map, box, null))).toEqual(['2,2', '3,2'])
+    expect(keys(selectInPolygon(map, box, 1))).toEqual(['3,2'])
+  })
+
+  it('selects hexes within a radius', () => {
+    place(3, 3, TERRAIN_TYPES.PLAINS)
+    place(4, 3, TERRAIN_TYPES.PLAINS)
+    place(6, 3, TERRAIN_TYPES.PLAINS)
+
+    expect(keys(selectInRadius(map, { q: 3, r: 3 }, 1, null))).toEqual(['3,3', '4,3'])
+    expect(keys(selectInRadius(map, { q: 3, r: 3 }, 3, null))).toEqual(['3,3', '4,3', '6,3'])
+  })
+
+  it('flood-fills connected hexes by terrain or tile', () => {
+    place(1, 1, TERRAIN_TYPES.FOREST, 0, 'pine.obj')
+    place(2, 1, TERRAIN_TYPES.FOREST, 0, 'oak.obj')
+    place(3, 1, TERRAIN_TYPES.FOREST, 0, 'pine.obj')
+    place(5, 1, TERRAIN_TYPES.FOREST, 0, 'pine.obj') // Not connected
+
+    expect(keys(selectConnected(map, { q: 1, r: 1 }, 0, SIMILARITY.TERRAIN))).toEqual([
+      '1,1',
+      '2,1',
+      '3,1',
+    ])
+    expect(keys(selectConnected(map, { q: 1, r: 1 }, 0, SIMILARITY.TILE))).toEqual(['1,1'])
+    expect(selectConnected(map, { q: 1, r: 1 }, 2, SIMILARITY.TERRAIN)).toEqual([])
+  })
+})
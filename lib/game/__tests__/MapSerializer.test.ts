@@ -1,7 +1,20 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { MapSerializer, type MapFileFormat, type MapFileFormatV1 } from '../MapSerializer'
-import { Map as GameMap } from '../Map'
+import {
+  MapSerializer,
+  type MapFileFormat,
+  type MapFileFormatV1,
+  type HexLayerV3,
+  type MapFileFormatV3,
+} from '../MapSerializer'
+import { Map as GameMap, MAP_SHAPE_TYPES } from '../Map'
 import { Hex, TERRAIN_TYPES } from '../Hex'
+import { Unit, UNIT_TYPES } from '../Unit'
+import { City } from '../City'
+import { Faction } from '../Faction'
+import { Region, REGION_KINDS } from '../RegionLayer'
+import { terrainRegistry } from '../TerrainRegistry'
+import { PROPERTY_TARGETS, PROPERTY_TYPES, type PropertyDefinition } from '../CustomProperties'
+import { findTileById } from '../../llm/tile-registry'
 
 describe('MapSerializer', () => {
   let map: GameMap
@@ -12,7 +25,7 @@ describe('MapSerializer', () => {
 
   describe('serialize', () => {
     it('should serialize empty map', () => {
-      const jsonString = MapSerializer.serialize(map, 'small')
+      const jsonString = MapSerializer.serialize(map, 'small', { version: '2.0' })
       const parsed = JSON.parse(jsonString) as MapFileFormat
 
       expect(parsed.version).toBe('2.0')
@@ -33,7 +46,7 @@ describe('MapSerializer', () => {
       hex2.rotation = Math.PI / 3
       map.setHex(5, 0, hex2)
 
-      const jsonString = MapSerializer.serialize(map, 'medium')
+      const jsonString = MapSerializer.serialize(map, 'medium', { version: '2.0' })
       const parsed = JSON.parse(jsonString) as MapFileFormat
 
       expect(parsed.hexes['0,0']).toBeDefined()
@@ -59,7 +72,7 @@ describe('MapSerializer', () => {
       hex2.height = 1
       map.setHex(3, 0, hex2)
 
-      const jsonString = MapSerializer.serialize(map, 'small')
+      const jsonString = MapSerializer.serialize(map, 'small', { version: '2.0' })
       const parsed = JSON.parse(jsonString) as MapFileFormat
 
       expect(parsed.hexes['3,0']).toBeDefined()
@@ -78,7 +91,7 @@ describe('MapSerializer', () => {
       }
       map.setHex(1, 0, hex)
 
-      const jsonString = MapSerializer.serialize(map, 'small')
+      const jsonString = MapSerializer.serialize(map, 'small', { version: '2.0' })
       const parsed = JSON.parse(jsonString) as MapFileFormat
 
       expect(parsed.hexes['1,0'][0].modelData).toBeDefined()
@@ -477,6 +490,131 @@ describe('MapSerializer', () => {
       expect(validation.valid).toBe(false)
       expect(validation.errors).toContain('Missing metadata field')
     })
+
+    it('should accept everything the serializer writes', () => {
+      map.addFaction(new Faction('p1', 'West', 'red', { q: 1, r: 0 }))
+      const hex = new Hex(1, 0, TERRAIN_TYPES.PLAINS)
+      hex.owner = 'p1'
+      hex.rotation = Math.PI / 3
+      hex.hasRiver = true
+      hex.modelData = { obj: '/assets/tile.obj', mtl: '/assets/tile.mtl', name: 'tile_01' }
+      hex.unit = new Unit(UNIT_TYPES.INFANTRY, 'p1', { id: 'u1', facing: 2 })
+      hex.city = new City('Redhold', null, { id: 'c1' })
+      map.setHex(1, 0, hex)
+      map.regions.addRegion(new Region('west', 'West', '#c084fc', REGION_KINDS.PROVINCE))
+      map.regions.paint('west', 1, 0)
+
+      for (const version of ['2.0', '3.0'] as const) {
+        const data = JSON.parse(MapSerializer.serialize(map, 'small', { version }))
+        expect(MapSerializer.validate(data)).toEqual({ valid: true, errors: [], issues: [] })
+      }
+    })
+
+    it('should report hex fields with JSON pointer paths', () => {
+      map.setHex(3, 4, new Hex(3, 4, TERRAIN_TYPES.PLAINS))
+      const data = JSON.parse(MapSerializer.serialize(map, 'small', { version: '2.0' }))
+      data.hexes['3,4'][0].height = '1'
+      data.hexes['3,4'][0].color = 'red'
+      data.hexes['5,5'] = [{ q: 5, r: 6, terrain: 'PLAINS', height: 0 }]
+
+      const result = MapSerializer.validate(data)
+      expect(result.valid).toBe(false)
+      expect(result.issues).toEqual([
+        { path: '/hexes/5,5/0', message: 'coordinates 5,6 do not match key "5,5"' },
+        { path: '/hexes/3,4/0/height', message: 'expected integer, got string' },
+        { path: '/hexes/3,4/0/color', message: 'is not allowed' },
+      ])
+      expect(result.errors).toContain('/hexes/3,4/0/height: expected integer, got string')
+    })
+
+    it('should validate buildings and metadata fields', () => {
+      const data = JSON.parse(MapSerializer.serialize(map, 'small', { version: '2.0' }))
+      data.metadata.mapSize = 'huge'
+      data.metadata.createdAt = 'yesterday'
+      data.buildings = [{ q: 0, r: 0 }]
+
+      expect(MapSerializer.validate(data).errors).toEqual([
+        '/metadata/createdAt: expected number, got string',
+        '/metadata/mapSize: expected one of "tiny", "small", "medium", "large", "very-large"',
+        '/buildings/0/modelData: is required',
+      ])
+    })
+
+    it('should report each problem once', () => {
+      const data = JSON.parse(MapSerializer.serialize(map, 'small', { version: '2.0' }))
+      data.map.width = -1
+      data.hexes['0,0'] = [{ q: 0, r: 0, terrain: 'LAVA', height: 0 }]
+
+      expect(MapSerializer.validate(data).errors).toEqual([
+        'Invalid map width',
+        'Unknown terrain type "LAVA" at hex 0,0',
+      ])
+    })
+  })
+
+  describe('metadata history', () => {
+    it('should start the history on the first save', () => {
+      vi.spyOn(Date, 'now').mockReturnValue(1000)
+      const { metadata } = MapSerializer.toMapFile(map, 'small', {
+        name: 'Elmwood',
+        author: 'Anna',
+        tags: ['pvp'],
+        changeNote: '  First draft ',
+      })
+      vi.restoreAllMocks()
+
+      expect(metadata).toMatchObject({
+        createdAt: 1000,
+        modifiedAt: 1000,
+        author: 'Anna',
+        revision: 1,
+        tags: ['pvp'],
+        changelog: [{ revision: 1, date: 1000, author: 'Anna', note: 'First draft' }],
+      })
+      expect(metadata.editorVersion).toMatch(/^\d+\.\d+\.\d+/)
+    })
+
+    it('should keep createdAt and append to the changelog of the loaded file', () => {
+      vi.spyOn(Date, 'now').mockReturnValue(1000)
+      const first = MapSerializer.serialize(map, 'small', { author: 'Anna', tags: ['pvp'] })
+      const { metadata } = MapSerializer.deserialize(first)
+
+      vi.spyOn(Date, 'now').mockReturnValue(5000)
+      const second = MapSerializer.serialize(map, 'small', { previousMetadata: metadata })
+      vi.restoreAllMocks()
+
+      const restored = MapSerializer.deserialize(second).metadata
+      expect(restored?.createdAt).toBe(1000)
+      expect(restored?.modifiedAt).toBe(5000)
+      expect(restored?.revision).toBe(2)
+      expect(restored?.author).toBe('Anna')
+      expect(restored?.tags).toEqual(['pvp'])
+      expect(restored?.changelog).toEqual([
+        { revision: 1, date: 1000, author: 'Anna' },
+        { revision: 2, date: 5000, author: 'Anna' },
+      ])
+      expect(MapSerializer.validate(JSON.parse(second)).valid).toBe(true)
+    })
+
+    it('should store a thumbnail only when one is given', () => {
+      const thumbnail = 'data:image/png;base64,iVBORw0KGgo='
+      const withThumbnail = MapSerializer.serialize(map, 'small', { thumbnail })
+      const { metadata } = MapSerializer.deserialize(withThumbnail)
+      const resaved = MapSerializer.toMapFile(map, 'small', { previousMetadata: metadata })
+
+      expect(metadata?.thumbnail).toBe(thumbnail)
+      expect(MapSerializer.validate(JSON.parse(withThumbnail)).valid).toBe(true)
+      expect(resaved.metadata.thumbnail).toBeUndefined()
+    })
+
+    it('should continue files saved before revisions existed', () => {
+      const { metadata } = MapSerializer.toMapFile(map, 'small', {
+        previousMetadata: { createdAt: 42, modifiedAt: 42, mapSize: 'small' },
+      })
+      expect(metadata.createdAt).toBe(42)
+      expect(metadata.revision).toBe(1)
+      expect(metadata.changelog).toHaveLength(1)
+    })
   })
 
   describe('estimateSize', () => {
@@ -487,6 +625,7 @@ describe('MapSerializer', () => {
     })
 
     it('should estimate size for map with hexes', () => {
+      const emptySize = MapSerializer.estimateSize(map)
       for (let i = 0; i < 5; i++) {
         const hex = new Hex(i, 0, TERRAIN_TYPES.PLAINS)
         hex.height = 0
@@ -494,7 +633,16 @@ describe('MapSerializer', () => {
       }
 
       const size = MapSerializer.estimateSize(map)
-      expect(size).toBeGreaterThan(500) // Base + 5 hexes
+      expect(size).toBeGreaterThan(emptySize)
+    })
+
+    it('should report the real encoded size', () => {
+      const hex = new Hex(0, 0, TERRAIN_TYPES.PLAINS)
+      hex.modelData = { obj: '/assets/tile.obj', mtl: '/assets/tile.mtl', name: 'tile_01' }
+      map.setHex(0, 0, hex)
+      expect(MapSerializer.estimateSize(map, 'small')).toBe(
+        new TextEncoder().encode(MapSerializer.serialize(map, 'small')).length
+      )
     })
   })
 
@@ -533,5 +681,620 @@ describe('MapSerializer', () => {
       expect(deserializedHex2?.terrain).toBe(TERRAIN_TYPES.FOREST)
       expect(deserializedHex2?.height).toBe(1)
     })
+
+    it('should preserve units and cities through serialize/deserialize', () => {
+      const ground = new Hex(2, 1, TERRAIN_TYPES.PLAINS)
+      map.setHex(2, 1, ground)
+      const hill = new Hex(2, 1, TERRAIN_TYPES.MOUNTAIN)
+      hill.height = 1
+      hill.unit = new Unit(UNIT_TYPES.CAVALRY, 'blue', {
+        id: 'unit_1',
+        name: 'Riders of Elmwood',
+        stats: { movement: 10 },
+        facing: 4,
+      })
+      map.setHex(2, 1, hill)
+
+      const town = new Hex(4, 0, TERRAIN_TYPES.PLAINS)
+      town.city = new City('Elmwood', null, { id: 'city_1', stats: { size: 3, income: 12 } })
+      map.setHex(4, 0, town)
+
+      const { map: deserializedMap } = MapSerializer.deserialize(MapSerializer.serialize(map, 'small'))
+
+      const unit = deserializedMap.getHex(2, 1, 1)?.unit
+      expect(deserializedMap.getHex(2, 1, 0)?.unit).toBeNull()
+      expect(unit).toBeInstanceOf(Unit)
+      expect(unit?.id).toBe('unit_1')
+      expect(unit?.type).toBe(UNIT_TYPES.CAVALRY)
+      expect(unit?.name).toBe('Riders of Elmwood')
+      expect(unit?.faction).toBe('blue')
+      expect(unit?.stats.movement).toBe(10)
+      expect(unit?.stats.strength).toBe(4) // Cavalry default
+      expect(unit?.facing).toBe(4)
+
+      const city = deserializedMap.getHex(4, 0)?.city
+      expect(city).toBeInstanceOf(City)
+      expect(city?.id).toBe('city_1')
+      expect(city?.name).toBe('Elmwood')
+      expect(city?.isNeutral()).toBe(true)
+      expect(city?.stats).toEqual({ size: 3, income: 12, defense: 1 })
+      expect(city?.facing).toBe(0)
+    })
+  })
+
+  describe('units and cities', () => {
+    it('should store units and cities as top-level sections', () => {
+      const hex = new Hex(1, 0, TERRAIN_TYPES.PLAINS)
+      hex.height = 0
+      hex.unit = new Unit(UNIT_TYPES.INFANTRY, 'red', { id: 'u1', facing: 2 })
+      hex.city = new City('Redhold', 'red', { id: 'c1' })
+      map.setHex(1, 0, hex)
+
+      const parsed = JSON.parse(MapSerializer.serialize(map, 'small', { version: '2.0' })) as MapFileFormat
+
+      expect(parsed.units).toEqual([
+        {
+          id: 'u1',
+          q: 1,
+          r: 0,
+          height: 0,
+          type: UNIT_TYPES.INFANTRY,
+          name: 'Infantry',
+          faction: 'red',
+          stats: { strength: 3, defense: 3, movement: 4, hitPoints: 10 },
+          facing: 2,
+        },
+      ])
+      expect(parsed.cities?.[0]).toMatchObject({ id: 'c1', q: 1, r: 0, name: 'Redhold', faction: 'red' })
+      expect(parsed.cities?.[0].facing).toBeUndefined() // Default value omitted
+      // Entities are not duplicated inside hex data
+      expect(parsed.hexes['1,0'][0]).not.toHaveProperty('unit')
+    })
+
+    it('should omit the sections when the map has no units or cities', () => {
+      map.setHex(0, 0, new Hex(0, 0, TERRAIN_TYPES.PLAINS))
+      const parsed = JSON.parse(MapSerializer.serialize(map, 'small')) as MapFileFormat
+      expect(parsed.units).toBeUndefined()
+      expect(parsed.cities).toBeUndefined()
+    })
+
+    it('should place entities on the top hex when the saved height is missing', () => {
+      const mapFile = JSON.parse(MapSerializer.serialize(map, 'small', { version: '2.0' })) as MapFileFormat
+      mapFile.hexes['3,0'] = [
+        { q: 3, r: 0, terrain: TERRAIN_TYPES.PLAINS, height: 0 },
+        { q: 3, r: 0, terrain: TERRAIN_TYPES.FOREST, height: 1 },
+      ]
+      mapFile.units = [
+        {
+          id: 'u1',
+          q: 3,
+          r: 0,
+          height: 4,
+          type: UNIT_TYPES.ARCHERS,
+          name: 'Archers',
+          faction: 'green',
+          stats: { strength: 4, defense: 2, movement: 4, hitPoints: 8 },
+        },
+      ]
+
+      const { map: deserializedMap } = MapSerializer.deserialize(JSON.stringify(mapFile))
+      expect(deserializedMap.getHex(3, 0, 1)?.unit?.id).toBe('u1')
+    })
+
+    it('should skip entities on empty positions', () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const mapFile = JSON.parse(MapSerializer.serialize(map, 'small')) as MapFileFormat
+      mapFile.cities = [
+        {
+          id: 'c1',
+          q: 5,
+          r: 5,
+          height: 0,
+          name: 'Nowhere',
+          faction: null,
+          stats: { size: 1, income: 5, defense: 1 },
+        },
+      ]
+
+      const { map: deserializedMap } = MapSerializer.deserialize(JSON.stringify(mapFile))
+      expect(deserializedMap.hexes.size).toBe(0)
+      expect(consoleSpy).toHaveBeenCalled()
+      consoleSpy.mockRestore()
+    })
+
+    it('should reject non-array units or cities in validate', () => {
+      const mapFile = JSON.parse(MapSerializer.serialize(map, 'small'))
+      mapFile.units = {}
+      const result = MapSerializer.validate(mapFile)
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain('Invalid units field: expected an array')
+    })
+  })
+
+  describe('factions', () => {
+    it('should round-trip factions and hex ownership', () => {
+      map.addFaction(new Faction('p1', 'Kingdom of Elmwood', 'red', { q: 1, r: 2 }))
+      map.addFaction(new Faction('p2', 'Blue Coast', 'blue'))
+
+      const castle = new Hex(1, 2, TERRAIN_TYPES.PLAINS)
+      castle.owner = 'p1'
+      map.setHex(1, 2, castle)
+      map.setHex(3, 0, new Hex(3, 0, TERRAIN_TYPES.PLAINS))
+
+      const jsonString = MapSerializer.serialize(map, 'small', { version: '2.0' })
+      const parsed = JSON.parse(jsonString) as MapFileFormat
+      expect(parsed.factions).toEqual([
+        { id: 'p1', name: 'Kingdom of Elmwood', color: 'red', startHex: { q: 1, r: 2 } },
+        { id: 'p2', name: 'Blue Coast', color: 'blue' },
+      ])
+      expect(parsed.hexes['1,2'][0].owner).toBe('p1')
+      expect(parsed.hexes['3,0'][0].owner).toBeUndefined()
+
+      const { map: deserializedMap } = MapSerializer.deserialize(jsonString)
+      expect(deserializedMap.factions).toHaveLength(2)
+      expect(deserializedMap.getFaction('p1')).toBeInstanceOf(Faction)
+      expect(deserializedMap.getFaction('p1')?.startHex).toEqual({ q: 1, r: 2 })
+      expect(deserializedMap.getFaction('p2')?.startHex).toBeNull()
+      expect(deserializedMap.getHex(1, 2)?.owner).toBe('p1')
+      expect(deserializedMap.getHex(3, 0)?.owner).toBeNull()
+    })
+
+    it('should omit the factions section when there are none', () => {
+      const parsed = JSON.parse(MapSerializer.serialize(map, 'small')) as MapFileFormat
+      expect(parsed.factions).toBeUndefined()
+    })
+  })
+
+  describe('regions', () => {
+    it('should round-trip regions with their hexes', () => {
+      const region = new Region('elmwood', 'Elmwood', '#c084fc', REGION_KINDS.KINGDOM)
+      map.regions.addRegion(region)
+      map.regions.paint('elmwood', 1, 1)
+      map.regions.paint('elmwood', 2, 1)
+
+      const jsonString = MapSerializer.serialize(map, 'small')
+      const parsed = JSON.parse(jsonString) as MapFileFormat
+      expect(parsed.regions).toEqual([
+        { id: 'elmwood', name: 'Elmwood', color: '#c084fc', kind: 'KINGDOM', hexes: ['1,1', '2,1'] },
+      ])
+
+      const { map: deserializedMap } = MapSerializer.deserialize(jsonString)
+      const restored = deserializedMap.regions.getRegion('elmwood')
+      expect(restored).toBeInstanceOf(Region)
+      expect(restored?.kind).toBe(REGION_KINDS.KINGDOM)
+      expect(restored?.has(2, 1)).toBe(true)
+      expect(restored?.hexes.size).toBe(2)
+    })
+
+    it('should omit the regions section when there are none', () => {
+      const parsed = JSON.parse(MapSerializer.serialize(map, 'small')) as MapFileFormat
+      expect(parsed.regions).toBeUndefined()
+    })
+
+    it('should reject a non-array regions field in validate', () => {
+      const data = JSON.parse(MapSerializer.serialize(map, 'small'))
+      data.regions = {}
+      const result = MapSerializer.validate(data)
+      expect(result.errors).toContain('Invalid regions field: expected an array')
+    })
+  })
+
+  describe('custom properties', () => {
+    const schema: PropertyDefinition[] = [
+      { name: 'spawnWeight', type: PROPERTY_TYPES.NUMBER, targets: [PROPERTY_TARGETS.HEX] },
+      {
+        name: 'loot',
+        type: PROPERTY_TYPES.ENUM,
+        targets: [PROPERTY_TARGETS.HEX, PROPERTY_TARGETS.BUILDING],
+        options: ['gold', 'relic'],
+        default: 'gold',
+      },
+      { name: 'chapter', type: PROPERTY_TYPES.STRING, targets: [PROPERTY_TARGETS.MAP] },
+    ]
+
+    beforeEach(() => {
+      for (const definition of schema) map.propertySchema.add(definition)
+      map.properties = { chapter: 'The Siege' }
+      const hex = new Hex(1, 1, TERRAIN_TYPES.PLAINS)
+      hex.properties = { spawnWeight: 2.5, loot: 'relic' }
+      map.setHex(1, 1, hex)
+      map.setHex(2, 1, new Hex(2, 1, TERRAIN_TYPES.FOREST))
+    })
+
+    it.each(['2.0', '3.0'] as const)('should round-trip the schema and values in %s files', version => {
+      const jsonString = MapSerializer.serialize(map, 'small', {
+        version,
+        includeBuildings: true,
+        buildingData: new Map([['2,1', { obj: '/castle.obj', mtl: '/castle.mtl', name: 'castle' }]]),
+        buildingProperties: new Map([['2,1', { loot: 'gold' }]]),
+      })
+      const parsed = MapSerializer.parse(jsonString) as MapFileFormat
+      expect(parsed.propertySchema).toEqual(schema)
+      expect(parsed.metadata.properties).toEqual({ chapter: 'The Siege' })
+      expect(MapSerializer.validate(JSON.parse(jsonString)).errors).toEqual([])
+
+      const { map: restored, buildings } = MapSerializer.deserialize(jsonString)
+      expect(restored.propertySchema.getDefinitions()).toEqual(schema)
+      expect(restored.properties).toEqual({ chapter: 'The Siege' })
+      expect(restored.getHex(1, 1)?.properties).toEqual({ spawnWeight: 2.5, loot: 'relic' })
+      expect(restored.getHex(2, 1)?.properties).toBeUndefined()
+      expect(buildings?.[0].properties).toEqual({ loot: 'gold' })
+    })
+
+    it('should omit the schema and empty property bags', () => {
+      const parsed = JSON.parse(
+        MapSerializer.serialize(new GameMap(4, 4), 'small', { version: '2.0' })
+      ) as MapFileFormat
+      expect(parsed.propertySchema).toBeUndefined()
+      expect(parsed.metadata.properties).toBeUndefined()
+    })
+
+    it('should report values that do not match the schema in validate', () => {
+      const data = JSON.parse(MapSerializer.serialize(map, 'small', { version: '2.0' }))
+      data.hexes['1,1'][0].properties = { spawnWeight: 'high', chapter: 'One', trigger: 'x' }
+      data.metadata.properties.chapter = 3
+
+      expect(MapSerializer.validate(data).issues).toEqual([
+        {
+          path: '/hexes/1,1/0/properties/spawnWeight',
+          message: 'property "spawnWeight": expected a number',
+        },
+        {
+          path: '/hexes/1,1/0/properties/chapter',
+          message: 'property "chapter" cannot be set on hexes',
+        },
+        {
+          path: '/hexes/1,1/0/properties/trigger',
+          message: 'property "trigger" is not declared in the property schema',
+        },
+        {
+          path: '/metadata/properties/chapter',
+          message: 'property "chapter": expected a string',
+        },
+      ])
+    })
+
+    it('should check hex properties of 3.0 files and reject invalid definitions', () => {
+      const data = JSON.parse(MapSerializer.serialize(map, 'small')) as MapFileFormatV3
+      data.propertySchema = [...schema, { name: 'bad name', type: 'string', targets: ['hex'] }]
+      expect(MapSerializer.validate(data).errors).toEqual([
+        'Invalid property definition at propertySchema[3]: name must be an identifier (letters, digits and underscores)',
+      ])
+
+      data.propertySchema = schema.slice(1)
+      expect(MapSerializer.validate(data).errors).toEqual([
+        'Invalid hex 1,1: property "spawnWeight" is not declared in the property schema',
+      ])
+    })
+  })
+
+  describe('map shapes', () => {
+    it('should round-trip a hexagon shape', () => {
+      const hexMap = new GameMap(9, 9, { type: MAP_SHAPE_TYPES.HEXAGON, radius: 4 })
+      hexMap.initializeTerrain()
+
+      const jsonString = MapSerializer.serialize(hexMap, 'tiny')
+      const parsed = JSON.parse(jsonString) as MapFileFormat
+      expect(parsed.map.shape).toEqual({ type: 'hexagon', radius: 4 })
+
+      const { map: deserializedMap } = MapSerializer.deserialize(jsonString)
+      expect(deserializedMap.shape).toEqual({ type: 'hexagon', radius: 4 })
+      expect(deserializedMap.hexes.size).toBe(61)
+    })
+
+    it('should omit the shape for rectangular maps', () => {
+      const parsed = JSON.parse(MapSerializer.serialize(map, 'small')) as MapFileFormat
+      expect(parsed.map.shape).toBeUndefined()
+    })
+
+    it('should reject hexes outside the map shape', () => {
+      const data = JSON.parse(MapSerializer.serialize(map, 'small', { version: '2.0' })) as MapFileFormat
+      data.map.shape = { type: MAP_SHAPE_TYPES.MASK, cells: ['0,0'] }
+      data.hexes = {
+        '0,0': [{ q: 0, r: 0, terrain: TERRAIN_TYPES.PLAINS, height: 0 }],
+        '1,0': [{ q: 1, r: 0, terrain: TERRAIN_TYPES.PLAINS, height: 0 }],
+      }
+
+      expect(() => MapSerializer.deserialize(JSON.stringify(data))).toThrow(
+        'Hexes at (1, 0) are outside the map shape'
+      )
+
+      const { map: deserializedMap, repairs } = MapSerializer.deserialize(JSON.stringify(data), {
+        repair: true,
+      })
+      expect(deserializedMap.hasHex(0, 0)).toBe(true)
+      expect(deserializedMap.hasHex(1, 0)).toBe(false)
+      expect(repairs?.map(repair => repair.path)).toEqual(['/hexes/1,0'])
+    })
+
+    it('should keep hexes of files without a shape in the range older editors allowed', () => {
+      // Written before map shapes: 10x10 rectangle plus hexes above and below it
+      const data = JSON.parse(MapSerializer.serialize(map, 'small', { version: '2.0' })) as MapFileFormat
+      data.hexes = {
+        '0,0': [{ q: 0, r: 0, terrain: TERRAIN_TYPES.PLAINS, height: 0 }],
+        '2,-3': [{ q: 2, r: -3, terrain: TERRAIN_TYPES.FOREST, height: 0 }],
+        '3,15': [{ q: 3, r: 15, terrain: TERRAIN_TYPES.HILLS, height: 1 }],
+      }
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      const { map: restored } = MapSerializer.deserialize(JSON.stringify(data))
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('2 hex positions outside'))
+      expect(restored.shape.type).toBe(MAP_SHAPE_TYPES.MASK)
+      expect(restored.getAllCoordinates()).toHaveLength(102)
+      expect(restored.getHex(2, -3)?.terrain).toBe(TERRAIN_TYPES.FOREST)
+      expect(restored.getHex(3, 15, 1)?.terrain).toBe(TERRAIN_TYPES.HILLS)
+
+      // Past the old range they are still rejected
+      data.hexes['3,30'] = [{ q: 3, r: 30, terrain: TERRAIN_TYPES.PLAINS, height: 0 }]
+      expect(() => MapSerializer.deserialize(JSON.stringify(data))).toThrow(
+        'Hexes at (3, 30) are outside the map shape'
+      )
+      consoleSpy.mockRestore()
+    })
+
+    it('should reject unknown shapes in validate', () => {
+      const data = JSON.parse(MapSerializer.serialize(map, 'small'))
+      data.map.shape = { type: 'triangle' }
+      expect(MapSerializer.validate(data).errors).toContain('Invalid map shape')
+    })
+  })
+
+  describe('terrain types', () => {
+    it('should embed the definitions of the terrains in use', () => {
+      map.setHex(0, 0, new Hex(0, 0, TERRAIN_TYPES.DESERT))
+      map.setHex(1, 0, new Hex(1, 0, TERRAIN_TYPES.DESERT))
+      map.setHex(2, 0, new Hex(2, 0, TERRAIN_TYPES.SNOW))
+
+      const parsed = JSON.parse(MapSerializer.serialize(map, 'small')) as MapFileFormat
+      expect(parsed.terrainTypes?.map(definition => definition.id)).toEqual(['DESERT', 'SNOW'])
+      expect(parsed.terrainTypes?.[0].movementCost).toBe(1.5)
+    })
+
+    it('should register custom terrain types carried by the file', () => {
+      const data = JSON.parse(MapSerializer.serialize(map, 'small', { version: '2.0' })) as MapFileFormat
+      data.terrainTypes = [
+        {
+          id: 'TUNDRA_TEST',
+          name: 'Tundra',
+          color: '#B0C4DE',
+          movementCost: 2,
+          defenseBonus: 0,
+          passable: true,
+          defaultTiles: [],
+        },
+      ]
+      data.hexes = { '0,0': [{ q: 0, r: 0, terrain: 'TUNDRA_TEST', height: 0 }] }
+
+      expect(MapSerializer.validate(data).valid).toBe(true)
+      const { map: deserializedMap } = MapSerializer.deserialize(JSON.stringify(data))
+      expect(deserializedMap.getHex(0, 0)?.getTerrainName()).toBe('Tundra')
+
+      // The next map loaded does not inherit them, and other files cannot rely on them
+      const other = JSON.parse(MapSerializer.serialize(map, 'small', { version: '2.0' })) as MapFileFormat
+      MapSerializer.deserialize(JSON.stringify(other))
+      expect(terrainRegistry.has('TUNDRA_TEST')).toBe(false)
+
+      other.hexes = { '0,0': [{ q: 0, r: 0, terrain: 'TUNDRA_TEST', height: 0 }] }
+      MapSerializer.deserialize(JSON.stringify(data))
+      expect(MapSerializer.validate(other).errors).toContain('Unknown terrain type "TUNDRA_TEST" at hex 0,0')
+      terrainRegistry.setMapTerrains([])
+    })
+
+    it('should reject unknown terrain ids in validate', () => {
+      const data = JSON.parse(MapSerializer.serialize(map, 'small', { version: '2.0' })) as MapFileFormat
+      data.hexes = { '2,1': [{ q: 2, r: 1, terrain: 'LAVA', height: 0 }] }
+
+      const result = MapSerializer.validate(data)
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain('Unknown terrain type "LAVA" at hex 2,1')
+    })
+
+    it('should reject invalid embedded definitions', () => {
+      const data = JSON.parse(MapSerializer.serialize(map, 'small'))
+      data.terrainTypes = [{ id: 'BAD' }]
+      const result = MapSerializer.validate(data)
+      expect(result.errors[0]).toMatch(/^Invalid terrain definition at terrainTypes\[0\]: name must be/)
+    })
+  })
+  describe('version 3.0', () => {
+    const grass = findTileById('tiles_base_hex_grass')
+    const grassModel = { obj: grass?.obj_path ?? '', mtl: grass?.mtl_path ?? '', name: grass?.name ?? '' }
+
+    // Every cell of the map filled with grass, like a freshly created editor map
+    function fillWithGrass(target: GameMap) {
+      for (const { q, r } of target.getAllCoordinates()) {
+        const hex = new Hex(q, r, TERRAIN_TYPES.PLAINS)
+        hex.modelData = { ...grassModel }
+        target.setHex(q, r, hex)
+      }
+    }
+
+    // Re-export through 2.0 to compare every stored field of two maps
+    const hexesOf = (target: GameMap) =>
+      (JSON.parse(MapSerializer.serialize(target, 'small', { version: '2.0' })) as MapFileFormat).hexes
+
+    it('should write compact 3.0 files by default', () => {
+      map.setHex(0, 0, new Hex(0, 0, TERRAIN_TYPES.PLAINS))
+      const jsonString = MapSerializer.serialize(map, 'small')
+      const parsed = JSON.parse(jsonString) as MapFileFormatV3
+
+      expect(parsed.version).toBe('3.0')
+      expect(parsed).not.toHaveProperty('hexes')
+      expect(parsed.rows).toEqual([{ r: 0, q: 0, cells: [[[-1, 0, 0]]] }])
+      expect(jsonString).not.toContain('\n')
+    })
+
+    it('should store registry models by tile id in the palette', () => {
+      const custom = new Hex(1, 0, TERRAIN_TYPES.FOREST)
+      custom.modelData = { obj: '/assets/tile.obj', mtl: '/assets/tile.mtl', name: 'tile_01' }
+      map.setHex(1, 0, custom)
+      const field = new Hex(2, 0, TERRAIN_TYPES.PLAINS)
+      field.modelData = { ...grassModel }
+      map.setHex(2, 0, field)
+
+      const parsed = JSON.parse(MapSerializer.serialize(map, 'small')) as MapFileFormatV3
+      expect(parsed.palette).toEqual([
+        { obj: '/assets/tile.obj', mtl: '/assets/tile.mtl', name: 'tile_01' },
+        'tiles_base_hex_grass',
+      ])
+      expect(parsed.rows[0].cells).toEqual([[[0, 0, 0]], [[1, 1, 0]]])
+    })
+
+    it('should run-length encode uniform rows', () => {
+      fillWithGrass(map)
+      const parsed = JSON.parse(MapSerializer.serialize(map, 'small')) as MapFileFormatV3
+      const uniformRow = parsed.rows.find(row => row.r === 0)
+      expect(uniformRow?.cells).toEqual([{ run: 10, cell: [[0, 0, 0]] }])
+
+      const plain = JSON.parse(MapSerializer.serialize(map, 'small', { rle: false })) as MapFileFormatV3
+      expect(plain.rows.find(row => row.r === 0)?.cells).toHaveLength(10)
+    })
+
+    it('should round-trip every hex field', () => {
+      map.addFaction(new Faction('p1', 'North', 'red'))
+      fillWithGrass(map)
+      const base = map.getHex(4, 1) as Hex
+      base.rotation = Math.PI / 3
+      base.hasRiver = true
+      const tower = new Hex(4, 1, TERRAIN_TYPES.MOUNTAIN)
+      tower.height = 2
+      tower.rotation = -Math.PI / 4
+      tower.owner = 'p1'
+      tower.modelData = { obj: '/assets/tower.obj', mtl: '/assets/tower.mtl', name: 'tower' }
+      map.setHex(4, 1, tower)
+      map.removeHex(6, 1)
+
+      for (const rle of [true, false]) {
+        const { map: restored } = MapSerializer.deserialize(MapSerializer.serialize(map, 'small', { rle }))
+        expect(hexesOf(restored)).toEqual(hexesOf(map))
+        expect(restored.getHex(4, 1, 0)?.rotation).toBeCloseTo(Math.PI / 3)
+        expect(restored.getHex(4, 1, 2)?.owner).toBe('p1')
+        expect(restored.hasHex(6, 1)).toBe(false)
+      }
+    })
+
+    it('should keep loading 2.0 files without a version warning', () => {
+      fillWithGrass(map)
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const { map: restored } = MapSerializer.deserialize(
+        MapSerializer.serialize(map, 'small', { version: '2.0' })
+      )
+      expect(consoleSpy).not.toHaveBeenCalled()
+      expect(hexesOf(restored)).toEqual(hexesOf(map))
+      consoleSpy.mockRestore()
+    })
+
+    it('should convert 2.0 files written before terrainTypes without losing terrain', () => {
+      map.setHex(0, 0, new Hex(0, 0, TERRAIN_TYPES.FOREST))
+      map.setHex(1, 0, new Hex(1, 0, TERRAIN_TYPES.WATER))
+      const legacy = JSON.parse(MapSerializer.serialize(map, 'small', { version: '2.0' })) as MapFileFormat
+      delete legacy.terrainTypes
+
+      const json = MapSerializer.stringify(MapSerializer.parse(JSON.stringify(legacy)) as MapFileFormat, '3.0')
+      const converted = JSON.parse(json) as MapFileFormatV3
+      expect(converted.terrainTypes?.map(definition => definition.id)).toEqual([
+        TERRAIN_TYPES.FOREST,
+        TERRAIN_TYPES.WATER,
+      ])
+      expect(MapSerializer.validate(converted).valid).toBe(true)
+      const { map: restored } = MapSerializer.deserialize(json)
+      expect(restored.getHex(0, 0)?.terrain).toBe(TERRAIN_TYPES.FOREST)
+      expect(restored.getHex(1, 0)?.terrain).toBe(TERRAIN_TYPES.WATER)
+
+      legacy.hexes['0,0'][0].terrain = 'NO_SUCH_TERRAIN' as never
+      expect(() => MapSerializer.stringify(legacy, '3.0')).toThrow('Unknown terrain type "NO_SUCH_TERRAIN"')
+    })
+
+    it('should reject layers with unknown terrain or palette indices', () => {
+      map.setHex(0, 0, new Hex(0, 0, TERRAIN_TYPES.FOREST))
+      const data = JSON.parse(MapSerializer.serialize(map, 'small')) as MapFileFormatV3
+      for (const [layer, message] of [
+        [[-1, null, 0], 'Unknown terrain index null at hex 0,0'],
+        [[-1, 1, 0], 'Unknown terrain index 1 at hex 0,0'],
+        [[-1, 0.5, 0], 'Unknown terrain index 0.5 at hex 0,0'],
+        [[2, 0, 0], 'Unknown palette index 2 at hex 0,0'],
+      ] as const) {
+        data.rows = [{ r: 0, q: 0, cells: [[layer as unknown as HexLayerV3]] }]
+        expect(() => MapSerializer.deserialize(JSON.stringify(data))).toThrow(message)
+      }
+    })
+
+    it('should validate palette and row references', () => {
+      fillWithGrass(map)
+      const data = JSON.parse(MapSerializer.serialize(map, 'small')) as MapFileFormatV3
+      expect(MapSerializer.validate(data)).toEqual({ valid: true, errors: [], issues: [] })
+
+      data.palette.push('tiles_missing')
+      data.rows = [{ r: 0, q: 0, cells: [[[5, 0, 0]], [[0, 3, 0]]] }]
+      expect(MapSerializer.validate(data).errors).toEqual([
+        'Unknown tile id "tiles_missing" at palette[1]',
+        'Unknown palette index 5 at hex 0,0',
+        'Unknown terrain index 3 at hex 1,0',
+      ])
+
+      data.rows = {} as MapFileFormatV3['rows']
+      expect(MapSerializer.validate(data).errors).toContain('Missing or invalid rows field')
+    })
+
+    it('should validate 3.0 hex layers against the hex schema', () => {
+      map.setHex(0, 0, new Hex(0, 0, TERRAIN_TYPES.PLAINS))
+      const data = JSON.parse(MapSerializer.serialize(map, 'small')) as MapFileFormatV3
+      const paths = (rows: MapFileFormatV3['rows']) =>
+        MapSerializer.validate({ ...data, rows }).issues.map(issue => issue.path)
+
+      expect(paths([{ r: 0, q: 0, cells: [[[-1, 0, 7]], [[-1, 0, -3]], [[-1, 0, 1.5]]] }])).toEqual([
+        '/rows/0/cells/0/0/2',
+        '/rows/0/cells/1/0/2',
+        '/rows/0/cells/2/0/2',
+      ])
+      // Two layers at the same level, repeated by a run
+      expect(paths([{ r: 1, q: 0, cells: [{ run: 2, cell: [[-1, 0, 1], [-1, 0, 1]] }] }])).toEqual([
+        '/rows/0/cells/0/cell/1/2',
+        '/rows/0/cells/0/cell/1/2',
+      ])
+      // Wrong types for rotation, river flag and owner
+      const badLayer = [-1, 0, 0, 'north', 2, 7] as unknown as HexLayerV3
+      expect(paths([{ r: 0, q: 0, cells: [[badLayer]] }])).toEqual([
+        '/rows/0/cells/0/0/4',
+        '/rows/0/cells/0/0/3',
+        '/rows/0/cells/0/0/5',
+      ])
+
+      const result = MapSerializer.validate({ ...data, rows: [{ r: 0, q: 0, cells: [[[-1, 0, 7]]] }] })
+      expect(result.valid).toBe(false)
+      expect(result.errors[0]).toMatch(/^Invalid height at hex 0,0: /)
+
+      const v2 = JSON.parse(MapSerializer.serialize(map, 'small', { version: '2.0' })) as MapFileFormat
+      v2.hexes['0,0'].push({ ...v2.hexes['0,0'][0] })
+      expect(MapSerializer.validate(v2).issues.map(issue => issue.path)).toEqual(['/hexes/0,0/1/height'])
+    })
+
+    describe('size regression', () => {
+      it('should shrink the serialize fixtures', () => {
+        const hex1 = new Hex(0, 0, TERRAIN_TYPES.PLAINS)
+        hex1.rotation = Math.PI / 4
+        hex1.modelData = { obj: '/assets/tile.obj', mtl: '/assets/tile.mtl', name: 'tile_01' }
+        hex1.hasRiver = true
+        map.setHex(0, 0, hex1)
+        const hex2 = new Hex(0, 0, TERRAIN_TYPES.FOREST)
+        hex2.height = 1
+        map.setHex(0, 0, hex2)
+        map.setHex(5, 0, new Hex(5, 0, TERRAIN_TYPES.FOREST))
+
+        const v2 = MapSerializer.serialize(map, 'small', { version: '2.0' })
+        const v3 = MapSerializer.serialize(map, 'small')
+        expect(v3.length).toBeLessThan(v2.length)
+      })
+
+      it('should store a filled 100x100 map in a few kilobytes', () => {
+        const large = new GameMap(100, 100)
+        fillWithGrass(large)
+
+        const v2Size = MapSerializer.serialize(large, 'very-large', { version: '2.0' }).length
+        const v3Size = MapSerializer.estimateSize(large, 'very-large')
+        expect(v2Size).toBeGreaterThan(1_000_000)
+        expect(v3Size).toBeLessThan(10_000)
+      })
+    })
   })
 })
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Map as GameMap } from '../Map'
+import { Hex, TERRAIN_TYPES, type TerrainType } from '../Hex'
+import { canStep, findPath, getReachableHexes, getStepCost } from '../Pathfinding'
+
+function placeHex(map: GameMap, q: number, r: number, terrain: TerrainType, height = 0): Hex {
+  const hex = new Hex(q, r, terrain)
+  hex.height = height
+  map.setHex(q, r, hex)
+  return hex
+}
+
+// Straight corridor along r = 0 from q = 0 to q = length - 1
+function buildCorridor(map: GameMap, length: number, terrain: TerrainType = TERRAIN_TYPES.PLAINS) {
+  for (let q = 0; q < length; q++) {
+    placeHex(map, q, 0, terrain)
+  }
+}
+
+describe('Pathfinding', () => {
+  let map: GameMap
+
+  beforeEach(() => {
+    map = new GameMap(10, 10)
+  })
+
+  describe('findPath', () => {
+    it('should return a single-hex path when start equals goal', () => {
+      placeHex(map, 2, 0, TERRAIN_TYPES.PLAINS)
+      expect(findPath(map, { q: 2, r: 0 }, { q: 2, r: 0 })).toEqual({
+        path: [{ q: 2, r: 0 }],
+        cost: 0,
+      })
+    })
+
+    it('should find a straight path with terrain costs', () => {
+      buildCorridor(map, 4)
+      placeHex(map, 2, 0, TERRAIN_TYPES.FOREST)
+
+      const result = findPath(map, { q: 0, r: 0 }, { q: 3, r: 0 })
+      expect(result).not.toBeNull()
+      expect(result?.path).toEqual([
+        { q: 0, r: 0 },
+        { q: 1, r: 0 },
+        { q: 2, r: 0 },
+        { q: 3, r: 0 },
+      ])
+      // plains (1) + forest (2) + plains (1)
+      expect(result?.cost).toBe(4)
+    })
+
+    it('should prefer cheaper roads over a shorter expensive route', () => {
+      // Direct route through mountains: (0,0) -> (1,0) -> (2,0)
+      placeHex(map, 0, 0, TERRAIN_TYPES.PLAINS)
+      placeHex(map, 1, 0, TERRAIN_TYPES.MOUNTAIN)
+      placeHex(map, 2, 0, TERRAIN_TYPES.PLAINS)
+      // Detour over roads: (0,0) -> (0,1) -> (1,1) -> (2,0)
+      placeHex(map, 0, 1, TERRAIN_TYPES.ROAD)
+      placeHex(map, 1, 1, TERRAIN_TYPES.ROAD)
+
+      const result = findPath(map, { q: 0, r: 0 }, { q: 2, r: 0 })
+      expect(result?.path).toEqual([
+        { q: 0, r: 0 },
+        { q: 0, r: 1 },
+        { q: 1, r: 1 },
+        { q: 2, r: 0 },
+      ])
+      expect(result?.cost).toBe(2)
+    })
+
+    it('should not cross impassable terrain', () => {
+      placeHex(map, 0, 0, TERRAIN_TYPES.PLAINS)
+      placeHex(map, 1, 0, TERRAIN_TYPES.WATER)
+      placeHex(map, 2, 0, TERRAIN_TYPES.PLAINS)
+
+      expect(findPath(map, { q: 0, r: 0 }, { q: 2, r: 0 })).toBeNull()
+    })
+
+    it('should allow unit profiles to override terrain costs', () => {
+      placeHex(map, 0, 0, TERRAIN_TYPES.PLAINS)
+      placeHex(map, 1, 0, TERRAIN_TYPES.WATER)
+      placeHex(map, 2, 0, TERRAIN_TYPES.PLAINS)
+
+      const boat = { terrainCosts: { [TERRAIN_TYPES.WATER]: 1 } }
+      expect(findPath(map, { q: 0, r: 0 }, { q: 2, r: 0 }, boat)?.cost).toBe(2)
+    })
+
+    it('should respect impassable terrains from the profile', () => {
+      placeHex(map, 0, 0, TERRAIN_TYPES.PLAINS)
+      placeHex(map, 1, 0, TERRAIN_TYPES.FOREST)
+      placeHex(map, 2, 0, TERRAIN_TYPES.PLAINS)
+
+      const cavalry = { impassableTerrains: [TERRAIN_TYPES.FOREST] }
+      expect(findPath(map, { q: 0, r: 0 }, { q: 2, r: 0 }, cavalry)).toBeNull()
+    })
+
+    it('should return null for empty start or goal positions', () => {
+      placeHex(map, 0, 0, TERRAIN_TYPES.PLAINS)
+      expect(findPath(map, { q: 0, r: 0 }, { q: 5, r: 0 })).toBeNull()
+      expect(findPath(map, { q: 5, r: 0 }, { q: 0, r: 0 })).toBeNull()
+    })
+  })
+
+  describe('height rules', () => {
+    it('should use the top hex of a stack as the surface', () => {
+      placeHex(map, 0, 0, TERRAIN_TYPES.PLAINS)
+      placeHex(map, 1, 0, TERRAIN_TYPES.PLAINS, 0)
+      placeHex(map, 1, 0, TERRAIN_TYPES.PLAINS, 1)
+      placeHex(map, 1, 0, TERRAIN_TYPES.PLAINS, 2)
+
+      // Two levels up is too steep for the default profile
+      expect(findPath(map, { q: 0, r: 0 }, { q: 1, r: 0 })).toBeNull()
+      expect(findPath(map, { q: 0, r: 0 }, { q: 1, r: 0 }, { maxClimb: 2 })?.cost).toBe(1)
+    })
+
+    it('should let sloped tiles bridge one extra level', () => {
+      const low = placeHex(map, 0, 0, TERRAIN_TYPES.PLAINS, 0)
+      const high = placeHex(map, 1, 0, TERRAIN_TYPES.PLAINS, 2)
+      expect(canStep(low, high)).toBe(false)
+
+      high.modelData = {
+        name: 'hex_grass_sloped_high',
+        obj: '/assets/terrain/tiles/base/hex_grass_sloped_high.obj',
+        mtl: '/assets/terrain/tiles/base/hex_grass_sloped_high.mtl',
+      }
+      expect(canStep(low, high)).toBe(true)
+    })
+
+    it('should add climb cost only when going up', () => {
+      const low = placeHex(map, 0, 0, TERRAIN_TYPES.PLAINS, 0)
+      const high = placeHex(map, 1, 0, TERRAIN_TYPES.PLAINS, 1)
+      expect(getStepCost(low, high, { climbCost: 2 })).toBe(3)
+      expect(getStepCost(high, low, { climbCost: 2 })).toBe(1)
+    })
+  })
+
+  describe('getReachableHexes', () => {
+    it('should include the start hex with cost 0', () => {
+      placeHex(map, 0, 0, TERRAIN_TYPES.PLAINS)
+      expect(getReachableHexes(map, { q: 0, r: 0 }, 3)).toEqual([{ q: 0, r: 0, cost: 0 }])
+    })
+
+    it('should stop at the movement budget', () => {
+      buildCorridor(map, 6)
+
+      const reachable = getReachableHexes(map, { q: 0, r: 0 }, 3)
+      const reachedQ = reachable.map(h => h.q).sort((a, b) => a - b)
+      expect(reachedQ).toEqual([0, 1, 2, 3])
+      expect(reachable.find(h => h.q === 3)?.cost).toBe(3)
+    })
+
+    it('should account for terrain costs', () => {
+      buildCorridor(map, 4, TERRAIN_TYPES.FOREST)
+
+      const reachable = getReachableHexes(map, { q: 0, r: 0 }, 4)
+      expect(reachable.map(h => h.q).sort((a, b) => a - b)).toEqual([0, 1, 2])
+    })
+
+    it('should return an empty list for an empty start position', () => {
+      expect(getReachableHexes(map, { q: 0, r: 0 }, 5)).toEqual([])
+    })
+  })
+})
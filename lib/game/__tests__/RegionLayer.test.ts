@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Region, RegionLayer, REGION_KINDS } from '../RegionLayer'
+import { getAxialNeighbors } from '../HexCoordinateConverter'
+
+describe('RegionLayer', () => {
+  let layer: RegionLayer
+
+  beforeEach(() => {
+    layer = new RegionLayer()
+    layer.addRegion(new Region('elmwood', 'Elmwood', '#c084fc'))
+    layer.addRegion(new Region('stonefield', 'Stonefield', '#f97316'))
+    layer.addRegion(new Region('north', 'Northern Kingdom', '#22d3ee', REGION_KINDS.KINGDOM))
+  })
+
+  it('should reject duplicate region ids', () => {
+    expect(() => layer.addRegion(new Region('elmwood', 'Other', '#000000'))).toThrow(
+      'Region already exists: elmwood'
+    )
+  })
+
+  it('should find regions by name case-insensitively', () => {
+    expect(layer.findByName('ELMWOOD')?.id).toBe('elmwood')
+    expect(layer.findByName('Nowhere')).toBeNull()
+  })
+
+  it('should report whether painting and erasing changed the region', () => {
+    expect(layer.paint('elmwood', 0, 0)).toBe(true)
+    expect(layer.paint('elmwood', 0, 0)).toBe(false)
+    expect(layer.getRegion('elmwood')?.has(0, 0)).toBe(true)
+
+    expect(layer.erase('elmwood', 0, 0)).toBe(true)
+    expect(layer.erase('elmwood', 0, 0)).toBe(false)
+    expect(layer.getRegion('elmwood')?.hexes.size).toBe(0)
+  })
+
+  it('should throw for unknown regions', () => {
+    expect(() => layer.paint('missing', 0, 0)).toThrow('Unknown region: missing')
+  })
+
+  it('should allow overlapping regions', () => {
+    layer.paint('elmwood', 2, 2)
+    layer.paint('north', 2, 2)
+    expect(layer.getRegionsAt(2, 2).map((region) => region.id)).toEqual(['elmwood', 'north'])
+  })
+
+  describe('getBorderEdges', () => {
+    it('should give a single hex six border edges', () => {
+      layer.paint('elmwood', 3, 3)
+      expect(layer.getBorderEdges('elmwood')).toHaveLength(6)
+    })
+
+    it('should not count edges shared between hexes of the same region', () => {
+      layer.paint('elmwood', 3, 3)
+      layer.paint('elmwood', 4, 3) // East neighbour
+      const edges = layer.getBorderEdges('elmwood')
+      expect(edges).toHaveLength(10)
+      for (const edge of edges) {
+        const neighbor = getAxialNeighbors(edge.q, edge.r)[edge.direction]
+        expect(layer.getRegion('elmwood')?.has(neighbor.q, neighbor.r)).toBe(false)
+      }
+    })
+  })
+
+  describe('adjacency', () => {
+    beforeEach(() => {
+      layer.paint('elmwood', 0, 0)
+      layer.paint('elmwood', 1, 0)
+      layer.paint('stonefield', 2, 0) // Touches elmwood
+      layer.paint('north', 1, 1) // Touches elmwood (south east of 1,0)
+    })
+
+    it('should list regions sharing an edge', () => {
+      const adjacent = layer.getAdjacentRegions('elmwood').map((region) => region.id)
+      expect(adjacent).toEqual(['stonefield', 'north'])
+    })
+
+    it('should filter adjacent regions by kind', () => {
+      const provinces = layer.getAdjacentRegions('elmwood', REGION_KINDS.PROVINCE)
+      expect(provinces.map((region) => region.id)).toEqual(['stonefield'])
+    })
+
+    it('should not treat distant regions as adjacent', () => {
+      layer.erase('stonefield', 2, 0)
+      layer.paint('stonefield', 5, 0)
+      expect(layer.areAdjacent('elmwood', 'stonefield')).toBe(false)
+      expect(layer.areAdjacent('elmwood', 'north')).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyModelTerrain,
+  findTerrainMismatches,
+  getTerrainForModel,
+  getTerrainForTile,
+  reconcileTerrain,
+} from '../TerrainMapping'
+import { TerrainRegistry, terrainRegistry } from '../TerrainRegistry'
+import { Hex, TERRAIN_TYPES } from '../Hex'
+import { Map as GameMap } from '../Map'
+import { findTileById } from '../../llm/tile-registry'
+
+function modelFor(tileId: string) {
+  const tile = findTileById(tileId)
+  if (!tile) throw new Error(`Missing test tile: ${tileId}`)
+  return { obj: tile.obj_path, mtl: tile.mtl_path, name: tile.name }
+}
+
+function terrainOf(tileId: string) {
+  const tile = findTileById(tileId)
+  return tile ? getTerrainForTile(tile) : undefined
+}
+
+describe('TerrainMapping', () => {
+  it('should use the default tiles of each terrain for exact matches', () => {
+    expect(terrainOf('tiles_base_hex_water')).toBe(TERRAIN_TYPES.WATER)
+    expect(terrainOf('tiles_base_hex_grass')).toBe(TERRAIN_TYPES.PLAINS)
+    expect(terrainOf('decoration_nature_hills_A')).toBe(TERRAIN_TYPES.HILLS)
+    expect(terrainOf('buildings_neutral_building_bridge_A')).toBe(TERRAIN_TYPES.BRIDGE)
+  })
+
+  it('should map the remaining tiles by category', () => {
+    expect(terrainOf('tiles_roads_hex_road_F')).toBe(TERRAIN_TYPES.ROAD)
+    expect(terrainOf('tiles_coast_hex_coast_B')).toBe(TERRAIN_TYPES.WATER)
+    expect(terrainOf('tiles_coast_hex_coast_B_waterless')).toBe(TERRAIN_TYPES.PLAINS)
+    expect(terrainOf('tiles_rivers_hex_river_C')).toBe(TERRAIN_TYPES.WATER)
+    expect(terrainOf('tiles_rivers_hex_river_crossing_A')).toBe(TERRAIN_TYPES.ROAD)
+    expect(terrainOf('decoration_nature_mountain_C_grass')).toBe(TERRAIN_TYPES.MOUNTAIN)
+    expect(terrainOf('decoration_nature_trees_A_small')).toBe(TERRAIN_TYPES.FOREST)
+    expect(terrainOf('decoration_nature_hill_single_B')).toBe(TERRAIN_TYPES.HILLS)
+  })
+
+  it('should not decide terrain for props and buildings', () => {
+    expect(terrainOf('decoration_props_barrel')).toBeNull()
+    expect(terrainOf('buildings_red_building_castle_red')).toBeNull()
+    expect(getTerrainForModel({ obj: '/assets/unknown.obj', mtl: '', name: 'Unknown' })).toBeNull()
+    expect(getTerrainForModel(undefined)).toBeNull()
+  })
+
+  it('should honor the default tiles of custom registries', () => {
+    const registry = new TerrainRegistry([
+      ...terrainRegistry.getAll(),
+      {
+        id: 'SHALLOWS',
+        name: 'Shallows',
+        color: '#7FDBFF',
+        movementCost: 2,
+        defenseBonus: -1,
+        passable: true,
+        defaultTiles: ['tiles_coast_hex_coast_A'],
+      },
+    ])
+    expect(getTerrainForModel(modelFor('tiles_coast_hex_coast_A'), registry)).toBe('SHALLOWS')
+  })
+
+  it('should set hex terrain from the model', () => {
+    const hex = new Hex(0, 0, TERRAIN_TYPES.PLAINS)
+    hex.modelData = modelFor('tiles_base_hex_water')
+    expect(applyModelTerrain(hex)).toBe(true)
+    expect(hex.terrain).toBe(TERRAIN_TYPES.WATER)
+    expect(applyModelTerrain(hex)).toBe(false)
+  })
+
+  it('should report and fix every mismatched hex in a stack', () => {
+    const map = new GameMap(4, 4)
+    const water = new Hex(1, 0, TERRAIN_TYPES.PLAINS)
+    water.modelData = modelFor('tiles_base_hex_water')
+    const forest = new Hex(1, 0, TERRAIN_TYPES.PLAINS)
+    forest.modelData = modelFor('decoration_nature_trees_B_large')
+    forest.height = 1
+    const grass = new Hex(2, 0, TERRAIN_TYPES.PLAINS)
+    grass.modelData = modelFor('tiles_base_hex_grass')
+    map.setHex(1, 0, water)
+    map.setHex(1, 0, forest)
+    map.setHex(2, 0, grass)
+
+    expect(findTerrainMismatches(map)).toEqual([
+      {
+        q: 1,
+        r: 0,
+        height: 0,
+        tileId: 'tiles_base_hex_water',
+        terrain: TERRAIN_TYPES.PLAINS,
+        expected: TERRAIN_TYPES.WATER,
+      },
+      {
+        q: 1,
+        r: 0,
+        height: 1,
+        tileId: 'decoration_nature_trees_B_large',
+        terrain: TERRAIN_TYPES.PLAINS,
+        expected: TERRAIN_TYPES.FOREST,
+      },
+    ])
+    expect(water.terrain).toBe(TERRAIN_TYPES.PLAINS) // Reporting does not change the map
+
+    expect(reconcileTerrain(map)).toHaveLength(2)
+    expect(map.getHex(1, 0, 0)?.terrain).toBe(TERRAIN_TYPES.WATER)
+    expect(map.getHex(1, 0, 1)?.terrain).toBe(TERRAIN_TYPES.FOREST)
+    expect(findTerrainMismatches(map)).toEqual([])
+  })
+})
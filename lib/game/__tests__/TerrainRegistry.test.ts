@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import {
+  TerrainRegistry,
+  terrainRegistry,
+  validateTerrainDefinition,
+  type TerrainDefinition,
+} from '../TerrainRegistry'
+import { Hex, TERRAIN_CONFIG, TERRAIN_TYPES } from '../Hex'
+
+const LAVA: TerrainDefinition = {
+  id: 'LAVA',
+  name: 'Lava',
+  color: '#FF4500',
+  movementCost: 5,
+  defenseBonus: -2,
+  passable: false,
+  defaultTiles: [],
+}
+
+describe('TerrainRegistry', () => {
+  it('should load every built-in terrain from the definition file', () => {
+    for (const id of Object.values(TERRAIN_TYPES)) {
+      expect(terrainRegistry.has(id)).toBe(true)
+    }
+    expect(terrainRegistry.get(TERRAIN_TYPES.WATER)?.passable).toBe(false)
+    expect(terrainRegistry.get(TERRAIN_TYPES.HILLS)?.defenseBonus).toBe(1)
+  })
+
+  it('should register and replace definitions', () => {
+    const registry = new TerrainRegistry([LAVA])
+    expect(registry.getIds()).toEqual(['LAVA'])
+
+    registry.register({ ...LAVA, movementCost: 8 })
+    expect(registry.get('LAVA')?.movementCost).toBe(8)
+    expect(registry.get('ICE')).toBeNull()
+  })
+
+  it('should replace the terrains of the previous map and keep the built-in ones', () => {
+    const registry = new TerrainRegistry([LAVA])
+    const ice = { ...LAVA, id: 'ICE', name: 'Ice' }
+    registry.setMapTerrains([ice, { ...LAVA, movementCost: 8 }])
+    expect(registry.getIds()).toEqual(['LAVA', 'ICE'])
+    expect(registry.get('LAVA')?.movementCost).toBe(5)
+    expect(registry.getMapTerrains()).toEqual([ice])
+
+    registry.setMapTerrains([])
+    expect(registry.getIds()).toEqual(['LAVA'])
+    expect(registry.getBuiltInIds()).toEqual(['LAVA'])
+  })
+
+  it('should reject invalid definitions with a clear error', () => {
+    const registry = new TerrainRegistry()
+    expect(() => registry.register({ ...LAVA, color: 'red' })).toThrow(
+      'Invalid terrain definition "LAVA": color must be a #rrggbb string'
+    )
+  })
+
+  it('should describe every problem of a definition', () => {
+    expect(validateTerrainDefinition(LAVA)).toEqual([])
+    expect(validateTerrainDefinition({ ...LAVA, id: 'lava', passable: 'no' })).toEqual([
+      'id must be an upper-case identifier',
+      'passable must be a boolean',
+    ])
+    expect(validateTerrainDefinition(null)).toEqual(['expected an object'])
+  })
+})
+
+describe('Hex terrain lookups', () => {
+  it('should accept the new built-in terrains', () => {
+    const swamp = new Hex(0, 0, TERRAIN_TYPES.SWAMP)
+    expect(swamp.getMovementCost()).toBe(3)
+    expect(swamp.getTerrainName()).toBe('Swamp')
+    expect(new Hex(0, 0, TERRAIN_TYPES.BRIDGE).isPassable()).toBe(true)
+  })
+
+  it('should keep the deprecated TERRAIN_CONFIG lookups working', () => {
+    expect(TERRAIN_CONFIG[TERRAIN_TYPES.FOREST].color).toBe(terrainRegistry.get('FOREST')?.color)
+    expect(TERRAIN_TYPES.SNOW in TERRAIN_CONFIG).toBe(true)
+    expect(Object.keys(TERRAIN_CONFIG)).toEqual(terrainRegistry.getIds())
+  })
+
+  it('should reject unregistered terrain ids', () => {
+    expect(() => new Hex(0, 0, 'QUICKSAND')).toThrow('Invalid terrain type: QUICKSAND')
+  })
+})
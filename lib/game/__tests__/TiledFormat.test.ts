@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest'
+import { exportToTiled, importFromTiled, TILED_TILESET_NAME, type TiledMap } from '../TiledFormat'
+import { Map as GameMap, MAP_SHAPE_TYPES, createMapShape } from '../Map'
+import { Hex, TERRAIN_TYPES, type TerrainType } from '../Hex'
+import { axialToOffset } from '../HexCoordinateConverter'
+import { findTileById } from '../../llm/tile-registry'
+
+function placeTile(
+  map: GameMap,
+  q: number,
+  r: number,
+  tileId: string | null,
+  terrain: TerrainType,
+  height = 0
+): Hex {
+  const hex = new Hex(q, r, terrain)
+  hex.height = height
+  if (tileId) {
+    const tile = findTileById(tileId)
+    if (!tile) throw new Error(`Missing test tile: ${tileId}`)
+    hex.modelData = { obj: tile.obj_path, mtl: tile.mtl_path, name: tile.name }
+  }
+  map.setHex(q, r, hex)
+  return hex
+}
+
+// Rectangle of grass and water with a castle stack and rotated tiles
+function buildRectangleFixture(): GameMap {
+  const map = new GameMap(8, 6)
+  for (const { q, r } of map.getAllCoordinates()) {
+    const water = (q + r) % 5 === 0
+    const hex = placeTile(
+      map,
+      q,
+      r,
+      water ? 'tiles_base_hex_water' : 'tiles_base_hex_grass',
+      water ? TERRAIN_TYPES.WATER : TERRAIN_TYPES.PLAINS
+    )
+    hex.rotation = ((q * 3 + r) % 6) * (Math.PI / 3)
+  }
+  const castle = placeTile(map, 3, 1, 'buildings_red_building_castle_red', TERRAIN_TYPES.PLAINS, 1)
+  castle.owner = 'p1'
+  castle.rotation = 4 * (Math.PI / 3)
+  placeTile(map, 3, 1, 'decoration_props_resource_lumber', TERRAIN_TYPES.PLAINS, 4)
+  return map
+}
+
+// Hexagon shape with data a tile layer cannot hold
+function buildHexagonFixture(): GameMap {
+  const map = new GameMap(7, 7, createMapShape(MAP_SHAPE_TYPES.HEXAGON, 7, 7))
+  for (const { q, r } of map.getAllCoordinates()) {
+    placeTile(map, q, r, 'tiles_base_hex_grass', TERRAIN_TYPES.PLAINS)
+  }
+  const river = map.getHex(3, 0, 0) as Hex
+  river.hasRiver = true
+  river.terrain = TERRAIN_TYPES.FOREST
+  ;(map.getHex(2, 1, 0) as Hex).rotation = -Math.PI / 3
+  ;(map.getHex(4, -1, 0) as Hex).rotation = 0.25
+  placeTile(map, 3, 0, null, TERRAIN_TYPES.HILLS, 2)
+  const custom = placeTile(map, 2, 2, null, TERRAIN_TYPES.MOUNTAIN, 1)
+  custom.modelData = { obj: '/assets/custom/peak.obj', mtl: '/assets/custom/peak.mtl', name: 'Peak' }
+  custom.properties = { trigger: 'summit' }
+  map.propertySchema.add({ name: 'trigger', type: 'string', targets: ['hex', 'map'] })
+  map.properties = { trigger: 'intro' }
+  return map
+}
+
+// Parallelogram shape, which leans past the bottom of its bounding box
+function buildParallelogramFixture(): GameMap {
+  const map = new GameMap(5, 3, createMapShape(MAP_SHAPE_TYPES.PARALLELOGRAM, 5, 3))
+  for (const { q, r } of map.getAllCoordinates()) {
+    placeTile(map, q, r, 'tiles_base_hex_grass', TERRAIN_TYPES.PLAINS)
+  }
+  return map
+}
+
+// Rotations compared as angles: whole steps come back from the gid flags within 0-2PI
+const normalizeRotation = (rotation: number) =>
+  Number((((rotation % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI)).toFixed(6))
+
+function describeHexes(map: GameMap) {
+  return Array.from(map.hexes.values())
+    .flat()
+    .map(hex => ({
+      q: hex.q,
+      r: hex.r,
+      height: hex.height,
+      terrain: hex.terrain,
+      rotation: normalizeRotation(hex.rotation),
+      hasRiver: hex.hasRiver,
+      owner: hex.owner,
+      modelData: hex.modelData,
+      properties: hex.properties,
+    }))
+    .sort((a, b) => a.q - b.q || a.r - b.r || a.height - b.height)
+}
+
+describe('TiledFormat', () => {
+  describe('exportToTiled', () => {
+    it('should write a staggered hexagonal map with one layer per height', () => {
+      const tiled = exportToTiled(buildRectangleFixture())
+
+      expect(tiled.orientation).toBe('hexagonal')
+      expect(tiled.staggeraxis).toBe('x')
+      expect(tiled.staggerindex).toBe('odd')
+      expect(tiled.width).toBe(8)
+      expect(tiled.height).toBe(6)
+      expect(tiled.layers.map(layer => layer.name)).toEqual([
+        'Height 0',
+        'Height 1',
+        'Height 2',
+        'Height 3',
+        'Height 4',
+      ])
+      expect(tiled.layers.every(layer => layer.data?.length === 8 * 6)).toBe(true)
+    })
+
+    it('should generate the tileset from the tile registry with tile_id properties', () => {
+      const tiled = exportToTiled(buildRectangleFixture())
+      const [tileset] = tiled.tilesets
+      const grass = tileset.tiles?.find(tile =>
+        tile.properties?.some(p => p.name === 'tile_id' && p.value === 'tiles_base_hex_grass')
+      )
+
+      expect(tileset.name).toBe(TILED_TILESET_NAME)
+      expect(tileset.tilecount).toBe(tileset.tiles?.length)
+      expect(grass?.properties).toContainEqual({ name: 'terrain', type: 'string', value: 'PLAINS' })
+    })
+
+    it('should place stacks with axialToOffset and keep rotations in the gid flags', () => {
+      const map = buildRectangleFixture()
+      const tiled = exportToTiled(map)
+      const castleTile = tiled.tilesets[0].tiles?.find(tile =>
+        tile.properties?.some(p => p.value === 'buildings_red_building_castle_red')
+      )
+      const { x, y } = axialToOffset(3, 1)
+      const gid = tiled.layers[1].data?.[y * tiled.width + x] as number
+
+      expect(gid & 0x0fffffff).toBe((castleTile?.id ?? -1) + 1)
+      expect(gid).toBeGreaterThan(0x0fffffff) // Rotated by 240 degrees
+    })
+
+    it('should store clockwise and repeatedly turned rotations in the gid flags', () => {
+      const map = buildParallelogramFixture()
+      ;(map.getHex(0, 0) as Hex).rotation = -Math.PI / 3
+      const turned = map.getHex(1, 0) as Hex
+      for (let i = 0; i < 6; i++) turned.rotation += Math.PI / 3
+      expect(turned.rotation).not.toBe(2 * Math.PI)
+
+      const tiled = exportToTiled(map)
+      const gidAt = (q: number, r: number) => {
+        const { x, y } = axialToOffset(q, r)
+        return tiled.layers[0].data?.[y * tiled.width + x] as number
+      }
+      const grassGid = gidAt(2, 0)
+      expect(gidAt(0, 0)).toBe(grassGid + 0x10000000 + 0x80000000 + 0x40000000) // 300 degrees
+      expect(gidAt(1, 0)).toBe(grassGid)
+      expect(tiled.layers[0].properties?.some(property => property.name === 'hexData')).toBe(false)
+
+      const restored = importFromTiled(tiled)
+      expect(restored.getHex(0, 0)?.rotation).toBeCloseTo((5 * Math.PI) / 3)
+      expect(restored.getHex(1, 0)?.rotation).toBe(0)
+    })
+  })
+
+  describe('importFromTiled', () => {
+    it.each([
+      ['rectangle', buildRectangleFixture],
+      ['hexagon', buildHexagonFixture],
+      ['parallelogram', buildParallelogramFixture],
+    ])('should round-trip the %s fixture', (_name, buildFixture) => {
+      const map = buildFixture()
+      const restored = importFromTiled(JSON.stringify(exportToTiled(map)))
+
+      expect(restored.width).toBe(map.width)
+      expect(restored.height).toBe(map.height)
+      expect(restored.shape).toEqual(map.shape)
+      expect(describeHexes(restored)).toEqual(describeHexes(map))
+      expect(restored.propertySchema.getDefinitions()).toEqual(map.propertySchema.getDefinitions())
+      expect(restored.properties).toEqual(map.properties)
+    })
+
+    it('should read a map drawn in Tiled without our map properties', () => {
+      const tiled = exportToTiled(buildParallelogramFixture())
+      const grassGid = (tiled.layers[0].data as number[]).find(gid => gid !== 0) as number
+      const drawn: TiledMap = {
+        ...tiled,
+        width: 2,
+        height: 2,
+        properties: undefined,
+        layers: [{ ...tiled.layers[0], width: 2, height: 2, data: [grassGid, 0, 0, grassGid] }],
+      }
+
+      const map = importFromTiled(drawn)
+      expect(map.shape).toEqual({ type: MAP_SHAPE_TYPES.RECTANGLE })
+      expect(map.getHex(0, 0)?.modelData?.name).toBe('Hex Grass')
+      expect(map.getHex(1, 1)?.terrain).toBe(TERRAIN_TYPES.PLAINS)
+      expect(map.getHex(1, 0)).toBeNull()
+    })
+
+    it('should reject maps with another hex layout', () => {
+      const tiled = exportToTiled(buildParallelogramFixture())
+
+      expect(() => importFromTiled({ ...tiled, staggeraxis: 'y' })).toThrow('staggered along X')
+      expect(() => importFromTiled({ ...tiled, staggerindex: 'even' })).toThrow('stagger index')
+      expect(() => importFromTiled({ ...tiled, orientation: 'orthogonal' })).toThrow(
+        'Unsupported Tiled map'
+      )
+    })
+  })
+})
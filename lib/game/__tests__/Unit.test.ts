@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { Unit, UNIT_CONFIG, UNIT_TYPES, normalizeFacing } from '../Unit'
+import { City } from '../City'
+
+describe('Unit', () => {
+  it('should use type defaults for name and stats', () => {
+    const unit = new Unit(UNIT_TYPES.ARCHERS, 'red')
+    expect(unit.name).toBe('Archers')
+    expect(unit.stats).toEqual(UNIT_CONFIG[UNIT_TYPES.ARCHERS].stats)
+    expect(unit.facing).toBe(0)
+    expect(unit.id).toMatch(/^unit_/)
+  })
+
+  it('should merge stat overrides with defaults', () => {
+    const unit = new Unit(UNIT_TYPES.HERO, 'blue', { stats: { strength: 9 } })
+    expect(unit.stats.strength).toBe(9)
+    expect(unit.stats.hitPoints).toBe(UNIT_CONFIG[UNIT_TYPES.HERO].stats.hitPoints)
+  })
+
+  it('should not share stats objects between units', () => {
+    const a = new Unit(UNIT_TYPES.INFANTRY, 'red')
+    const b = new Unit(UNIT_TYPES.INFANTRY, 'red')
+    a.stats.hitPoints = 1
+    expect(b.stats.hitPoints).toBe(UNIT_CONFIG[UNIT_TYPES.INFANTRY].stats.hitPoints)
+  })
+
+  it('should throw for unknown unit types', () => {
+    expect(() => new Unit('DRAGON' as never, 'red')).toThrow('Invalid unit type: DRAGON')
+  })
+
+  it('should normalize facing into 0-5', () => {
+    expect(normalizeFacing(6)).toBe(0)
+    expect(normalizeFacing(-1)).toBe(5)
+    expect(new Unit(UNIT_TYPES.SIEGE, 'red', { facing: 8 }).facing).toBe(2)
+  })
+})
+
+describe('City', () => {
+  it('should be neutral without a faction', () => {
+    expect(new City('Elmwood').isNeutral()).toBe(true)
+    expect(new City('Redhold', 'red').isNeutral()).toBe(false)
+  })
+
+  it('should clamp city size to 1-5', () => {
+    expect(new City('Tiny', null, { stats: { size: 0 } }).stats.size).toBe(1)
+    expect(new City('Huge', null, { stats: { size: 9 } }).stats.size).toBe(5)
+  })
+})
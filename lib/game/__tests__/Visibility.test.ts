@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Map as GameMap } from '../Map'
+import { Hex, TERRAIN_TYPES, type TerrainType } from '../Hex'
+import { computeFieldOfView, getOcclusionHeight, hasLineOfSight } from '../Visibility'
+
+function placeHex(map: GameMap, q: number, r: number, terrain: TerrainType, height = 0): Hex {
+  const hex = new Hex(q, r, terrain)
+  hex.height = height
+  map.setHex(q, r, hex)
+  return hex
+}
+
+// Straight row along r = 0 from q = 0 to q = length - 1
+function buildRow(map: GameMap, length: number) {
+  for (let q = 0; q < length; q++) {
+    placeHex(map, q, 0, TERRAIN_TYPES.PLAINS)
+  }
+}
+
+describe('Visibility', () => {
+  let map: GameMap
+
+  beforeEach(() => {
+    map = new GameMap(10, 10)
+  })
+
+  describe('getOcclusionHeight', () => {
+    it('should add terrain cover to the surface height', () => {
+      expect(getOcclusionHeight(placeHex(map, 0, 0, TERRAIN_TYPES.PLAINS, 1))).toBe(1)
+      expect(getOcclusionHeight(placeHex(map, 1, 0, TERRAIN_TYPES.FOREST, 1))).toBe(2)
+      expect(getOcclusionHeight(placeHex(map, 2, 0, TERRAIN_TYPES.MOUNTAIN, 0))).toBe(2)
+    })
+  })
+
+  describe('hasLineOfSight', () => {
+    it('should see across flat open terrain', () => {
+      buildRow(map, 5)
+      expect(hasLineOfSight(map, { q: 0, r: 0 }, { q: 4, r: 0 })).toBe(true)
+    })
+
+    it('should be blocked by a forest between viewer and target', () => {
+      buildRow(map, 5)
+      placeHex(map, 2, 0, TERRAIN_TYPES.FOREST)
+      expect(hasLineOfSight(map, { q: 0, r: 0 }, { q: 4, r: 0 })).toBe(false)
+    })
+
+    it('should always see the forest or mountain hex itself', () => {
+      buildRow(map, 3)
+      placeHex(map, 1, 0, TERRAIN_TYPES.MOUNTAIN)
+      expect(hasLineOfSight(map, { q: 0, r: 0 }, { q: 1, r: 0 })).toBe(true)
+    })
+
+    it('should be blocked by a raised stack', () => {
+      buildRow(map, 5)
+      placeHex(map, 2, 0, TERRAIN_TYPES.PLAINS, 1)
+      expect(hasLineOfSight(map, { q: 0, r: 0 }, { q: 4, r: 0 })).toBe(false)
+    })
+
+    it('should let an elevated viewer see over low cover', () => {
+      buildRow(map, 5)
+      placeHex(map, 0, 0, TERRAIN_TYPES.PLAINS, 3)
+      placeHex(map, 1, 0, TERRAIN_TYPES.FOREST)
+      expect(hasLineOfSight(map, { q: 0, r: 0 }, { q: 4, r: 0 })).toBe(true)
+    })
+
+    it('should be symmetric for viewers of equal height', () => {
+      buildRow(map, 5)
+      placeHex(map, 3, 0, TERRAIN_TYPES.FOREST)
+      expect(hasLineOfSight(map, { q: 0, r: 0 }, { q: 4, r: 0 })).toBe(
+        hasLineOfSight(map, { q: 4, r: 0 }, { q: 0, r: 0 })
+      )
+    })
+
+    it('should return false when a position is empty', () => {
+      placeHex(map, 0, 0, TERRAIN_TYPES.PLAINS)
+      expect(hasLineOfSight(map, { q: 0, r: 0 }, { q: 3, r: 0 })).toBe(false)
+    })
+  })
+
+  describe('computeFieldOfView', () => {
+    it('should include the viewer and respect the range', () => {
+      buildRow(map, 6)
+      const visible = computeFieldOfView(map, { q: 0, r: 0 }, 3)
+      expect(visible.map(c => c.q).sort((a, b) => a - b)).toEqual([0, 1, 2, 3])
+    })
+
+    it('should exclude hexes hidden behind a mountain', () => {
+      buildRow(map, 6)
+      placeHex(map, 2, 0, TERRAIN_TYPES.MOUNTAIN)
+      const visible = computeFieldOfView(map, { q: 0, r: 0 }, 5)
+      expect(visible.map(c => c.q).sort((a, b) => a - b)).toEqual([0, 1, 2])
+    })
+
+    it('should return an empty list for an empty viewer position', () => {
+      expect(computeFieldOfView(map, { q: 0, r: 0 }, 5)).toEqual([])
+    })
+  })
+})
@@ -1,5 +1,60 @@
 // Static export of tile registry data for better compatibility with Next.js builds
+import type { TileDescriptor } from './AssetAnalyzer'
 import registryData from './tile-registry.json'
 
 export const tileRegistry = registryData
 export default registryData
+
+const registryTiles = registryData.tiles as TileDescriptor[]
+
+let tilesByObjPath: Map<string, TileDescriptor> | null = null
+let tilesById: Map<string, TileDescriptor> | null = null
+
+/**
+ * Strip any deployment prefix (e.g. GitHub Pages base path) so paths match the registry
+ * "/Medieval-Hexagon-Map-Editor/assets/terrain/..." -> "/assets/terrain/..."
+ */
+export function normalizeAssetPath(path: string): string {
+  const index = path.indexOf('/assets/')
+  return index > 0 ? path.slice(index) : path
+}
+
+/**
+ * Find a registry tile by its OBJ path (with or without deployment prefix)
+ */
+export function findTileByModelPath(objPath: string): TileDescriptor | undefined {
+  if (!tilesByObjPath) {
+    tilesByObjPath = new Map(registryTiles.map((tile) => [tile.obj_path, tile]))
+  }
+  return tilesByObjPath.get(normalizeAssetPath(objPath))
+}
+
+/**
+ * Find a registry tile by its tile_id
+ */
+export function findTileById(tileId: string): TileDescriptor | undefined {
+  if (!tilesById) {
+    tilesById = new Map(registryTiles.map((tile) => [tile.tile_id, tile]))
+  }
+  return tilesById.get(tileId)
+}
+
+/**
+ * Find the same building in another color set (buildings/red -> buildings/blue).
+ * Returns undefined for neutral buildings and tiles that have no colored variants.
+ */
+export function findColorVariant(tile: TileDescriptor, color: string): TileDescriptor | undefined {
+  const fromColor = tile.subcategory
+  if (tile.category !== 'buildings' || !fromColor || fromColor === 'neutral') {
+    return undefined
+  }
+  if (fromColor === color) {
+    return tile
+  }
+
+  // Color appears both as folder and as suffix of every part: building_tower_A_red_building_tower_A_top_red.obj
+  const variantPath = tile.obj_path
+    .replace(`/buildings/${fromColor}/`, `/buildings/${color}/`)
+    .replace(new RegExp(`_${fromColor}(?=[_.])`, 'g'), `_${color}`)
+  return findTileByModelPath(variantPath)
+}
@@ -0,0 +1,116 @@
+/**
+ * EntityMarkers - Simple 3D markers for units and cities placed on the map
+ * Markers are colored by faction and point towards the entity's facing
+ */
+
+import * as THREE from 'three'
+import type { City } from '../game/City'
+import { FACTION_COLORS, type FactionColor } from '../game/Faction'
+import { getAxialNeighbors } from '../game/HexCoordinateConverter'
+import type { Unit } from '../game/Unit'
+import type { OverlayPlacement } from './HexOverlay'
+
+const NEUTRAL_COLOR = '#9ca3af'
+
+/**
+ * Marker color for a faction color (neutral/unknown factions are gray)
+ */
+function getMarkerColor(color: FactionColor | null): string {
+  return color ? FACTION_COLORS[color].hex : NEUTRAL_COLOR
+}
+
+/**
+ * World-space angle (around Y) from a hex towards its neighbour in the facing direction
+ */
+function getFacingAngle(q: number, r: number, facing: number, placement: OverlayPlacement): number {
+  const neighbor = getAxialNeighbors(q, r)[facing]
+  const [x, z] = placement.toWorld(q, r)
+  const [nx, nz] = placement.toWorld(neighbor.q, neighbor.r)
+  return Math.atan2(nx - x, nz - z)
+}
+
+function createMarkerGroup(
+  name: string,
+  q: number,
+  r: number,
+  level: number,
+  placement: OverlayPlacement
+): THREE.Group {
+  const group = new THREE.Group()
+  group.name = name
+  const [x, z] = placement.toWorld(q, r)
+  group.position.set(x, (level + 1) * placement.levelHeight, z)
+  return group
+}
+
+/**
+ * Cone with a small arrow pointing in the unit's facing direction, in the owner's color
+ */
+export function createUnitMarker(
+  unit: Unit,
+  q: number,
+  r: number,
+  level: number,
+  placement: OverlayPlacement,
+  color: FactionColor | null
+): THREE.Group {
+  const group = createMarkerGroup(`unit_${unit.id}`, q, r, level, placement)
+  const material = new THREE.MeshStandardMaterial({ color: getMarkerColor(color) })
+
+  const body = new THREE.Mesh(new THREE.ConeGeometry(0.8, 2.4, 12), material)
+  body.position.y = 1.2
+  body.castShadow = true
+  group.add(body)
+
+  const arrow = new THREE.Mesh(new THREE.BoxGeometry(0.3, 0.15, 1.2), material)
+  arrow.position.set(0, 0.1, 1.1)
+  const facingPivot = new THREE.Group()
+  facingPivot.rotation.y = getFacingAngle(q, r, unit.facing, placement)
+  facingPivot.add(arrow)
+  group.add(facingPivot)
+
+  group.userData = { entity: 'unit', id: unit.id }
+  return group
+}
+
+/**
+ * Hexagonal keep whose height grows with city size
+ */
+export function createCityMarker(
+  city: City,
+  q: number,
+  r: number,
+  level: number,
+  placement: OverlayPlacement,
+  color: FactionColor | null
+): THREE.Group {
+  const group = createMarkerGroup(`city_${city.id}`, q, r, level, placement)
+  const material = new THREE.MeshStandardMaterial({ color: getMarkerColor(color) })
+
+  const height = 0.6 + city.stats.size * 0.5
+  const keep = new THREE.Mesh(new THREE.CylinderGeometry(1.2, 1.5, height, 6), material)
+  keep.position.y = height / 2
+  keep.rotation.y = getFacingAngle(q, r, city.facing, placement)
+  keep.castShadow = true
+  group.add(keep)
+
+  const flag = new THREE.Mesh(new THREE.BoxGeometry(0.1, 1.2, 0.1), material)
+  flag.position.y = height + 0.6
+  group.add(flag)
+
+  group.userData = { entity: 'city', id: city.id }
+  return group
+}
+
+/**
+ * Remove a marker from its parent and free its geometries and materials
+ */
+export function disposeEntityMarker(group: THREE.Group) {
+  group.parent?.remove(group)
+  group.traverse((child) => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose()
+      child.material.dispose()
+    }
+  })
+}
@@ -0,0 +1,157 @@
+/**
+ * HexOverlay - Flat translucent hexagons and hex edge outlines drawn on top of map surfaces
+ * Used by the editor for analysis overlays (movement range, paths, visibility, regions)
+ */
+
+import * as THREE from 'three'
+import { getAxialNeighbors } from '../game/HexCoordinateConverter'
+
+export interface OverlayCell {
+  q: number
+  r: number
+  level: number // Height level of the surface the overlay lies on
+  color: number
+  opacity?: number
+}
+
+export interface OverlayPlacement {
+  // Axial -> world [x, z], same as MapEditor's hexToWorld
+  toWorld: (q: number, r: number) => [number, number]
+  // Height of one tile level after scaling
+  levelHeight: number
+}
+
+const HEX_SCALE = 3.5
+const HEX_OUTER_RADIUS = 2 / Math.sqrt(3)
+
+let sharedGeometry: THREE.ShapeGeometry | null = null
+
+/**
+ * One flat-topped hexagon slightly smaller than a tile, shared by all overlay meshes
+ */
+function getOverlayGeometry(): THREE.ShapeGeometry {
+  if (!sharedGeometry) {
+    const radius = HEX_OUTER_RADIUS * HEX_SCALE * 0.92
+    const shape = new THREE.Shape()
+    for (let i = 0; i < 6; i++) {
+      const angle = i * 60 * (Math.PI / 180)
+      const x = radius * Math.cos(angle)
+      const y = radius * Math.sin(angle)
+      if (i === 0) shape.moveTo(x, y)
+      else shape.lineTo(x, y)
+    }
+    shape.closePath()
+    sharedGeometry = new THREE.ShapeGeometry(shape)
+    sharedGeometry.rotateX(-Math.PI / 2)
+  }
+  return sharedGeometry
+}
+
+/**
+ * Build a group of overlay hexagons. Materials are cached per color/opacity inside the group.
+ */
+export function createHexOverlayGroup(
+  name: string,
+  cells: OverlayCell[],
+  placement: OverlayPlacement
+): THREE.Group {
+  const group = new THREE.Group()
+  group.name = name
+  group.renderOrder = 1500
+
+  const materials = new globalThis.Map<string, THREE.MeshBasicMaterial>()
+  const geometry = getOverlayGeometry()
+
+  for (const cell of cells) {
+    const opacity = cell.opacity ?? 0.45
+    const materialKey = `${cell.color}_${opacity}`
+    let material = materials.get(materialKey)
+    if (!material) {
+      material = new THREE.MeshBasicMaterial({
+        color: cell.color,
+        transparent: true,
+        opacity,
+        side: THREE.DoubleSide,
+        depthWrite: false,
+      })
+      materials.set(materialKey, material)
+    }
+
+    const [x, z] = placement.toWorld(cell.q, cell.r)
+    const mesh = new THREE.Mesh(geometry, material)
+    // Surface of a level is the top of its tile
+    mesh.position.set(x, (cell.level + 1) * placement.levelHeight + 0.05, z)
+    mesh.renderOrder = 1500
+    mesh.name = `overlay_${cell.q}_${cell.r}`
+    group.add(mesh)
+  }
+
+  return group
+}
+
+export interface OverlayEdge {
+  q: number
+  r: number
+  direction: number // Index into getAxialNeighbors
+  level: number
+}
+
+/**
+ * Add outline segments along hex edges (e.g. region borders) to an overlay group.
+ * Each edge is the side shared by a hex and its neighbour in the given direction.
+ */
+export function addHexEdgeLines(
+  group: THREE.Group,
+  edges: OverlayEdge[],
+  placement: OverlayPlacement,
+  color: THREE.ColorRepresentation
+) {
+  if (edges.length === 0) return
+
+  const halfSide = (HEX_OUTER_RADIUS * HEX_SCALE) / 2
+  const positions: number[] = []
+  for (const edge of edges) {
+    const neighbor = getAxialNeighbors(edge.q, edge.r)[edge.direction]
+    const [x, z] = placement.toWorld(edge.q, edge.r)
+    const [nx, nz] = placement.toWorld(neighbor.q, neighbor.r)
+    const length = Math.hypot(nx - x, nz - z)
+    // Perpendicular to the center-to-center direction, through the midpoint
+    const px = -(nz - z) / length
+    const pz = (nx - x) / length
+    const mx = (x + nx) / 2
+    const mz = (z + nz) / 2
+    const y = (edge.level + 1) * placement.levelHeight + 0.08
+    positions.push(mx + px * halfSide, y, mz + pz * halfSide)
+    positions.push(mx - px * halfSide, y, mz - pz * halfSide)
+  }
+
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3))
+  const lines = new THREE.LineSegments(
+    geometry,
+    new THREE.LineBasicMaterial({ color, depthWrite: false })
+  )
+  lines.renderOrder = 1501
+  group.add(lines)
+}
+
+/**
+ * Remove an overlay group from its parent and free its materials.
+ * The shared hexagon geometry is kept for the next overlay.
+ */
+export function disposeHexOverlayGroup(group: THREE.Group) {
+  group.parent?.remove(group)
+  const disposed = new Set<THREE.Material>()
+  group.traverse((child) => {
+    if (child instanceof THREE.LineSegments) {
+      child.geometry.dispose()
+    }
+    if (
+      (child instanceof THREE.Mesh || child instanceof THREE.LineSegments) &&
+      !disposed.has(child.material)
+    ) {
+      disposed.add(child.material)
+      child.material.dispose()
+    }
+  })
+}
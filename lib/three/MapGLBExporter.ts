@@ -0,0 +1,373 @@
+/**
+ * MapGLBExporter - Exports the assembled 3D map as a single binary glTF (.glb) file
+ * Models are placed the same way the editor scene places them (createHexMesh, placeBuilding):
+ * axialToWorld positions, 3.5 scale, level offsets from the base tile height and Y rotations.
+ *
+ * Each tile type is written once as a glTF mesh; every placement is a node that references
+ * it, so Blender and game engines load them as instances of shared geometry.
+ * Works in the browser and in Node: assets are read through the readFile callback and
+ * textures are embedded as the original PNG/JPEG bytes (no canvas needed).
+ */
+
+import * as THREE from 'three'
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js'
+import { normalizeAssetPath } from '../llm/tile-registry'
+import { axialToWorld } from '../game/HexCoordinateConverter'
+import type { Map as GameMap } from '../game/Map'
+import type { BuildingData, ModelData } from '../game/MapSerializer'
+
+export const GLB_EXTENSION = '.glb'
+
+const MODEL_SCALE = 3.5
+// The editor turns every model by 90 degrees before applying the hex rotation
+const BASE_ROTATION = Math.PI / 2
+
+const GLB_MAGIC = 0x46546c67 // "glTF"
+const GLB_VERSION = 2
+const CHUNK_JSON = 0x4e4f534a // "JSON"
+const CHUNK_BIN = 0x004e4942 // "BIN"
+
+const ARRAY_BUFFER = 34962
+const FLOAT = 5126
+
+export interface GLBExportOptions {
+  // Read an asset by its registry path (/assets/...), e.g. fetch in the browser, fs in Node
+  readFile: (path: string) => Promise<Uint8Array>
+  buildings?: BuildingData[] // Buildings placed on top of hexes (see MapSerializer buildings)
+  levelHeight?: number // Height of one level in world units (default: measured from the first hex model)
+}
+
+interface LoadedModel {
+  mesh: number // glTF mesh index
+  minY: number // Bottom of the scaled model
+  height: number // Scaled model height
+}
+
+interface MaterialInfo {
+  color: [number, number, number]
+  opacity: number
+  texture?: string // Asset path of map_Kd
+}
+
+/**
+ * Minimal MTL reader: diffuse color, opacity and diffuse texture per material
+ */
+function parseMtl(text: string, mtlPath: string): Record<string, MaterialInfo> {
+  const directory = mtlPath.slice(0, mtlPath.lastIndexOf('/') + 1)
+  const materials: Record<string, MaterialInfo> = {}
+  let current: MaterialInfo | null = null
+
+  for (const line of text.split('\n')) {
+    const [keyword, ...values] = line.trim().split(/\s+/)
+    if (keyword === 'newmtl') {
+      current = { color: [1, 1, 1], opacity: 1 }
+      materials[values.join(' ')] = current
+    } else if (current && keyword === 'Kd') {
+      current.color = [Number(values[0]), Number(values[1]), Number(values[2])]
+    } else if (current && keyword === 'd') {
+      current.opacity = Number(values[0])
+    } else if (current && keyword === 'map_Kd') {
+      current.texture = `${directory}${values[values.length - 1]}`
+    }
+  }
+  return materials
+}
+
+function imageMimeType(path: string): string {
+  return /\.jpe?g$/i.test(path) ? 'image/jpeg' : 'image/png'
+}
+
+// Cheap content key so identical atlases from different folders are embedded once
+function contentKey(bytes: Uint8Array): string {
+  let hash = 0x811c9dc5
+  for (const byte of bytes) {
+    hash = Math.imul(hash ^ byte, 0x01000193)
+  }
+  return `${bytes.length}:${hash >>> 0}`
+}
+
+function yRotation(angle: number): [number, number, number, number] {
+  return [0, Math.sin(angle / 2), 0, Math.cos(angle / 2)]
+}
+
+/**
+ * Collects glTF JSON and binary buffer data and packs them into a GLB container
+ */
+class GLBBuilder {
+  readonly gltf = {
+    asset: { version: '2.0', generator: 'Warlords Map Editor' },
+    scene: 0,
+    scenes: [{ name: 'Map', nodes: [0] }],
+    nodes: [{ name: 'Map', children: [] as number[] }] as Array<Record<string, unknown>>,
+    meshes: [] as Array<Record<string, unknown>>,
+    materials: [] as Array<Record<string, unknown>>,
+    textures: [] as Array<Record<string, unknown>>,
+    images: [] as Array<Record<string, unknown>>,
+    samplers: [{ magFilter: 9729, minFilter: 9987, wrapS: 10497, wrapT: 10497 }],
+    accessors: [] as Array<Record<string, unknown>>,
+    bufferViews: [] as Array<Record<string, unknown>>,
+    buffers: [{ byteLength: 0 }],
+  }
+
+  private chunks: Uint8Array[] = []
+  private byteLength = 0
+
+  addBufferView(bytes: Uint8Array, target?: number): number {
+    const padding = (4 - (this.byteLength % 4)) % 4
+    if (padding > 0) {
+      this.chunks.push(new Uint8Array(padding))
+      this.byteLength += padding
+    }
+    this.gltf.bufferViews.push({
+      buffer: 0,
+      byteOffset: this.byteLength,
+      byteLength: bytes.byteLength,
+      ...(target && { target }),
+    })
+    this.chunks.push(bytes)
+    this.byteLength += bytes.byteLength
+    return this.gltf.bufferViews.length - 1
+  }
+
+  addAccessor(values: Float32Array, size: 2 | 3, withBounds = false): number {
+    const bufferView = this.addBufferView(
+      new Uint8Array(values.buffer, values.byteOffset, values.byteLength),
+      ARRAY_BUFFER
+    )
+    const accessor: Record<string, unknown> = {
+      bufferView,
+      componentType: FLOAT,
+      count: values.length / size,
+      type: size === 2 ? 'VEC2' : 'VEC3',
+    }
+    if (withBounds) {
+      const min = [Infinity, Infinity, Infinity]
+      const max = [-Infinity, -Infinity, -Infinity]
+      for (let i = 0; i < values.length; i += 3) {
+        for (let axis = 0; axis < 3; axis++) {
+          min[axis] = Math.min(min[axis], values[i + axis])
+          max[axis] = Math.max(max[axis], values[i + axis])
+        }
+      }
+      accessor.min = min
+      accessor.max = max
+    }
+    this.gltf.accessors.push(accessor)
+    return this.gltf.accessors.length - 1
+  }
+
+  addNode(node: Record<string, unknown>, parent = 0): number {
+    this.gltf.nodes.push(node)
+    const index = this.gltf.nodes.length - 1
+    const parentNode = this.gltf.nodes[parent]
+    parentNode.children = [...((parentNode.children as number[]) ?? []), index]
+    return index
+  }
+
+  toGLB(): Uint8Array<ArrayBuffer> {
+    this.gltf.buffers[0].byteLength = this.byteLength
+    const gltf: Record<string, unknown> = { ...this.gltf }
+    for (const key of ['meshes', 'materials', 'textures', 'images', 'accessors', 'bufferViews']) {
+      if ((gltf[key] as unknown[]).length === 0) delete gltf[key]
+    }
+    if (!gltf.textures) delete gltf.samplers
+
+    const json = new TextEncoder().encode(JSON.stringify(gltf))
+    const jsonLength = Math.ceil(json.length / 4) * 4
+    const binLength = Math.ceil(this.byteLength / 4) * 4
+    const total = 12 + 8 + jsonLength + (binLength > 0 ? 8 + binLength : 0)
+
+    const bytes = new Uint8Array(total)
+    const view = new DataView(bytes.buffer)
+    view.setUint32(0, GLB_MAGIC, true)
+    view.setUint32(4, GLB_VERSION, true)
+    view.setUint32(8, total, true)
+
+    view.setUint32(12, jsonLength, true)
+    view.setUint32(16, CHUNK_JSON, true)
+    bytes.fill(0x20, 20, 20 + jsonLength) // JSON chunk is padded with spaces
+    bytes.set(json, 20)
+
+    if (binLength > 0) {
+      let offset = 20 + jsonLength
+      view.setUint32(offset, binLength, true)
+      view.setUint32(offset + 4, CHUNK_BIN, true)
+      offset += 8
+      for (const chunk of this.chunks) {
+        bytes.set(chunk, offset)
+        offset += chunk.byteLength
+      }
+    }
+    return bytes
+  }
+}
+
+/**
+ * Build the map scene and encode it as GLB
+ */
+export async function exportMapToGLB(
+  map: GameMap,
+  options: GLBExportOptions
+): Promise<Uint8Array<ArrayBuffer>> {
+  const builder = new GLBBuilder()
+  const decoder = new TextDecoder()
+  const readText = async (path: string) => decoder.decode(await options.readFile(path))
+
+  const materialIndices = new Map<string, number>()
+  const imageIndices = new Map<string, number>()
+  const models = new Map<string, Promise<LoadedModel>>()
+
+  const addImage = async (path: string): Promise<number> => {
+    const bytes = await options.readFile(path)
+    const key = contentKey(bytes)
+    let texture = imageIndices.get(key)
+    if (texture === undefined) {
+      const bufferView = builder.addBufferView(bytes)
+      builder.gltf.images.push({ bufferView, mimeType: imageMimeType(path) })
+      builder.gltf.textures.push({ source: builder.gltf.images.length - 1, sampler: 0 })
+      texture = builder.gltf.textures.length - 1
+      imageIndices.set(key, texture)
+    }
+    return texture
+  }
+
+  const addMaterial = async (name: string, info: MaterialInfo | undefined, mtlPath: string) => {
+    const key = `${mtlPath}#${name}`
+    let index = materialIndices.get(key)
+    if (index === undefined) {
+      const texture = info?.texture ? await addImage(info.texture) : undefined
+      const [red, green, blue] = info?.color ?? [1, 1, 1]
+      builder.gltf.materials.push({
+        name,
+        pbrMetallicRoughness: {
+          baseColorFactor: [red, green, blue, info?.opacity ?? 1],
+          ...(texture !== undefined && { baseColorTexture: { index: texture } }),
+          metallicFactor: 0,
+          roughnessFactor: 1,
+        },
+        ...((info?.opacity ?? 1) < 1 && { alphaMode: 'BLEND' }),
+      })
+      index = builder.gltf.materials.length - 1
+      materialIndices.set(key, index)
+    }
+    return index
+  }
+
+  const loadModel = async (modelData: ModelData): Promise<LoadedModel> => {
+    const objPath = normalizeAssetPath(modelData.obj)
+    const mtlPath = modelData.mtl ? normalizeAssetPath(modelData.mtl) : ''
+    const group = new OBJLoader().parse(await readText(objPath))
+    const mtl = mtlPath ? parseMtl(await readText(mtlPath), mtlPath) : {}
+
+    const primitives: Array<Record<string, unknown>> = []
+    const bounds = new THREE.Box3()
+    const meshes: THREE.Mesh[] = []
+    group.traverse((child) => {
+      if (child instanceof THREE.Mesh) meshes.push(child)
+    })
+
+    for (const mesh of meshes) {
+      const source = mesh.geometry as THREE.BufferGeometry
+      const geometry = source.index ? source.toNonIndexed() : source
+      geometry.computeBoundingBox()
+      if (geometry.boundingBox) bounds.union(geometry.boundingBox)
+
+      const meshMaterials = Array.isArray(mesh.material) ? mesh.material : [mesh.material]
+      const vertexCount = geometry.getAttribute('position').count
+      const groups =
+        geometry.groups.length > 0
+          ? geometry.groups
+          : [{ start: 0, count: vertexCount, materialIndex: 0 }]
+
+      for (const { start, count, materialIndex = 0 } of groups) {
+        const end = Math.min(start + count, vertexCount)
+        const attribute = (name: string, size: number) => {
+          const values = geometry.getAttribute(name)?.array as Float32Array | undefined
+          return values?.slice(start * size, end * size)
+        }
+
+        const position = attribute('position', 3) as Float32Array
+        const normal = attribute('normal', 3)
+        const uv = attribute('uv', 2)
+        if (uv) {
+          // OBJ texture rows start at the bottom, glTF rows at the top
+          for (let i = 1; i < uv.length; i += 2) uv[i] = 1 - uv[i]
+        }
+
+        const materialName = meshMaterials[materialIndex]?.name ?? ''
+        primitives.push({
+          attributes: {
+            POSITION: builder.addAccessor(position, 3, true),
+            ...(normal && { NORMAL: builder.addAccessor(normal, 3) }),
+            ...(uv && { TEXCOORD_0: builder.addAccessor(uv, 2) }),
+          },
+          material: await addMaterial(materialName, mtl[materialName], mtlPath),
+        })
+      }
+    }
+
+    builder.gltf.meshes.push({ name: modelData.name, primitives })
+    return {
+      mesh: builder.gltf.meshes.length - 1,
+      minY: bounds.isEmpty() ? 0 : bounds.min.y * MODEL_SCALE,
+      height: bounds.isEmpty() ? 0 : (bounds.max.y - bounds.min.y) * MODEL_SCALE,
+    }
+  }
+
+  // One parent node per tile type keeps the outliner readable in Blender
+  const typeNodes = new Map<string, number>()
+  const getModel = async (modelData: ModelData) => {
+    const key = normalizeAssetPath(modelData.obj)
+    let model = models.get(key)
+    if (!model) {
+      model = loadModel(modelData)
+      models.set(key, model)
+      typeNodes.set(key, builder.addNode({ name: modelData.name, children: [] }))
+    }
+    return { model: await model, parent: typeNodes.get(key) as number }
+  }
+
+  const hexes = Array.from(map.hexes.values())
+    .flat()
+    .filter((hex) => hex.modelData)
+  // Same calibration as the editor: a level is as tall as the first base tile
+  let levelHeight = options.levelHeight
+  for (const hex of hexes) {
+    const { model, parent } = await getModel(hex.modelData as ModelData)
+    levelHeight ??= model.height || 1
+    const [worldX, worldZ] = axialToWorld(hex.q, hex.r, map.width, map.height, MODEL_SCALE)
+    builder.addNode(
+      {
+        name: `hex ${hex.q},${hex.r} level ${hex.height}`,
+        mesh: model.mesh,
+        translation: [worldX, hex.height * levelHeight - model.minY, worldZ],
+        rotation: yRotation(BASE_ROTATION + (hex.rotation || 0)),
+        scale: [MODEL_SCALE, MODEL_SCALE, MODEL_SCALE],
+      },
+      parent
+    )
+  }
+
+  for (const building of options.buildings ?? []) {
+    const { model, parent } = await getModel(building.modelData)
+    const [worldX, worldZ] = axialToWorld(
+      building.q,
+      building.r,
+      map.width,
+      map.height,
+      MODEL_SCALE
+    )
+    builder.addNode(
+      {
+        name: `building ${building.q},${building.r}`,
+        mesh: model.mesh,
+        translation: [worldX, 0, worldZ],
+        rotation: yRotation(BASE_ROTATION),
+        scale: [MODEL_SCALE, MODEL_SCALE, MODEL_SCALE],
+      },
+      parent
+    )
+  }
+
+  return builder.toGLB()
+}
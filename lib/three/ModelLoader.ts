@@ -4,6 +4,7 @@
  */
 
 import * as THREE from 'three'
+import { terrainRegistry } from '../game/TerrainRegistry'
 
 // Dynamic imports для Next.js
 type OBJLoaderType = typeof import('three/examples/jsm/loaders/OBJLoader.js').OBJLoader
@@ -201,15 +202,8 @@ export class ModelLoader {
     return new THREE.Mesh(geometry, material)
   }
 
-  private getTerrainColor(terrainType: string): number {
-    const colors: Record<string, number> = {
-      PLAINS: 0x90ee90,
-      FOREST: 0x228b22,
-      MOUNTAIN: 0x8b4513,
-      WATER: 0x4169e1,
-      ROAD: 0xd2b48c,
-    }
-    return colors[terrainType] ?? 0xffffff
+  private getTerrainColor(terrainType: string): string {
+    return terrainRegistry.get(terrainType)?.color ?? '#ffffff'
   }
 }
 
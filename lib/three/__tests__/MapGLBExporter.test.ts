@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { exportMapToGLB } from '../MapGLBExporter'
+import { Map as GameMap } from '../../game/Map'
+import { Hex, TERRAIN_TYPES } from '../../game/Hex'
+import { axialToWorld } from '../../game/HexCoordinateConverter'
+import { findTileById } from '../../llm/tile-registry'
+
+const readFile = async (assetPath: string) =>
+  new Uint8Array(fs.readFileSync(path.join(process.cwd(), 'public', assetPath)))
+
+function modelOf(tileId: string) {
+  const tile = findTileById(tileId)
+  if (!tile) throw new Error(`Missing test tile: ${tileId}`)
+  return { obj: tile.obj_path, mtl: tile.mtl_path, name: tile.name }
+}
+
+function buildMap(): GameMap {
+  const map = new GameMap(4, 3)
+  for (const { q, r } of map.getAllCoordinates()) {
+    const hex = new Hex(q, r, TERRAIN_TYPES.PLAINS)
+    hex.modelData = modelOf('tiles_base_hex_grass')
+    hex.rotation = q * (Math.PI / 3)
+    map.setHex(q, r, hex)
+  }
+  const castle = new Hex(1, 1, TERRAIN_TYPES.PLAINS)
+  castle.height = 2
+  castle.modelData = modelOf('buildings_red_building_castle_red')
+  map.setHex(1, 1, castle)
+  return map
+}
+
+function readGLB(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const jsonLength = view.getUint32(12, true)
+  return {
+    magic: new TextDecoder().decode(bytes.subarray(0, 4)),
+    version: view.getUint32(4, true),
+    length: view.getUint32(8, true),
+    json: JSON.parse(new TextDecoder().decode(bytes.subarray(20, 20 + jsonLength))),
+  }
+}
+
+describe('MapGLBExporter', () => {
+  it('should write a GLB container', async () => {
+    const bytes = await exportMapToGLB(buildMap(), { readFile })
+    const glb = readGLB(bytes)
+
+    expect(glb.magic).toBe('glTF')
+    expect(glb.version).toBe(2)
+    expect(glb.length).toBe(bytes.length)
+    expect(glb.json.asset.version).toBe('2.0')
+  })
+
+  it('should share one mesh per tile type and embed the texture atlas once', async () => {
+    const { json } = readGLB(await exportMapToGLB(buildMap(), { readFile }))
+    const placements = json.nodes.filter((node: { mesh?: number }) => node.mesh !== undefined)
+
+    expect(json.meshes.map((mesh: { name: string }) => mesh.name)).toEqual([
+      'Hex Grass',
+      'Building Castle Red',
+    ])
+    expect(placements).toHaveLength(13)
+    expect(json.images).toHaveLength(1)
+  })
+
+  it('should place hexes like the editor scene', async () => {
+    const map = buildMap()
+    const levelHeight = 0.7
+    const { json } = readGLB(await exportMapToGLB(map, { readFile, levelHeight }))
+    const castle = json.nodes.find((node: { name: string }) => node.name === 'hex 1,1 level 2')
+    const rotated = json.nodes.find((node: { name: string }) => node.name === 'hex 1,0 level 0')
+    const [worldX, worldZ] = axialToWorld(1, 1, map.width, map.height, 3.5)
+    const angle = Math.PI / 2 + Math.PI / 3
+
+    expect(castle.translation[0]).toBeCloseTo(worldX)
+    expect(castle.translation[2]).toBeCloseTo(worldZ)
+    expect(castle.translation[1]).toBeGreaterThanOrEqual(2 * levelHeight)
+    expect(castle.scale).toEqual([3.5, 3.5, 3.5])
+    expect(rotated.rotation[1]).toBeCloseTo(Math.sin(angle / 2))
+    expect(rotated.rotation[3]).toBeCloseTo(Math.cos(angle / 2))
+  })
+
+  it('should place buildings at ground level', async () => {
+    const map = buildMap()
+    const { json } = readGLB(
+      await exportMapToGLB(map, {
+        readFile,
+        buildings: [{ q: 2, r: 0, modelData: modelOf('buildings_red_building_castle_red') }],
+      })
+    )
+    const building = json.nodes.find((node: { name: string }) => node.name === 'building 2,0')
+    const [worldX, worldZ] = axialToWorld(2, 0, map.width, map.height, 3.5)
+
+    expect(building.translation).toEqual([worldX, 0, worldZ])
+    expect(json.meshes).toHaveLength(2)
+  })
+})
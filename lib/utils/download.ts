@@ -0,0 +1,18 @@
+/**
+ * Browser file downloads for exported data
+ */
+
+/**
+ * Offer content to the user as a file download
+ */
+export function downloadFile(content: BlobPart, filename: string, type: string) {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
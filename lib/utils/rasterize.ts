@@ -0,0 +1,40 @@
+/**
+ * Browser rasterization of SVG documents (minimap PNG exports and thumbnails)
+ */
+
+/**
+ * Draw an SVG document onto a canvas, scaled so the longer side is at most maxSize pixels
+ */
+export async function rasterizeSvg(svg: string, maxSize: number): Promise<HTMLCanvasElement> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }))
+  try {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+
+    const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale))
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale))
+    const context = canvas.getContext('2d')
+    if (!context) {
+      throw new Error('Canvas 2D context is not available')
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height)
+    return canvas
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+/**
+ * PNG file contents of a canvas
+ */
+export function canvasToPngBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))),
+      'image/png'
+    )
+  })
+}
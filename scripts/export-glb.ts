@@ -0,0 +1,50 @@
+/**
+ * Script to export a map file as a GLB scene without the editor
+ *
+ * Usage: bun run scripts/export-glb.ts <map.json|map.wmap> [output.glb]
+ *
+ * This script:
+ * 1. Loads the map file (JSON or binary .wmap)
+ * 2. Reads the tile models and textures from public/assets
+ * 3. Places them like the editor scene does and writes a single GLB file
+ */
+
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { decodeMap, isBinaryMapFile } from '../lib/game/MapBinaryCodec'
+import { MapSerializer } from '../lib/game/MapSerializer'
+import { exportMapToGLB, GLB_EXTENSION } from '../lib/three/MapGLBExporter'
+
+const PUBLIC_DIR = path.join(process.cwd(), 'public')
+
+async function main() {
+  const [inputPath, outputArg] = process.argv.slice(2)
+  if (!inputPath) {
+    console.error('Usage: bun run scripts/export-glb.ts <map.json|map.wmap> [output.glb]')
+    process.exit(1)
+  }
+
+  const data = new Uint8Array(fs.readFileSync(inputPath))
+  const { map, buildings } = isBinaryMapFile(data)
+    ? await decodeMap(data)
+    : MapSerializer.deserialize(new TextDecoder().decode(data))
+
+  console.log(`🗺️  Loaded ${inputPath} (${map.width}x${map.height}, ${map.hexes.size} stacks)`)
+
+  const glb = await exportMapToGLB(map, {
+    buildings,
+    readFile: async (assetPath) =>
+      new Uint8Array(fs.readFileSync(path.join(PUBLIC_DIR, assetPath))),
+  })
+
+  const outputPath =
+    outputArg ?? path.join(path.dirname(inputPath), `${path.parse(inputPath).name}${GLB_EXTENSION}`)
+  fs.writeFileSync(outputPath, glb)
+
+  console.log(`✅ GLB saved to ${outputPath} (${Math.ceil(glb.length / 1024)} KB)`)
+}
+
+main().catch((error) => {
+  console.error('❌ Export failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
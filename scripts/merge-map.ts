@@ -0,0 +1,98 @@
+/**
+ * Git merge driver for map files: merges two edited versions of a map stack by stack
+ *
+ * Usage: bun run scripts/merge-map.ts <base.json> <ours.json> <theirs.json> [output.json]
+ *
+ * Setup in a repository with maps:
+ *   .gitattributes:  maps/*.json merge=warlords-map
+ *   git config merge.warlords-map.name "Warlords map merge"
+ *   git config merge.warlords-map.driver "bun run scripts/merge-map.ts %O %A %B"
+ *
+ * This script:
+ * 1. Loads the common ancestor and both edited versions
+ * 2. Applies the edits of both sides to the ancestor (see mergeMaps in lib/game/MapDiff)
+ * 3. Writes the result over ours (what git expects from a driver) or to the output path
+ * 4. Lists the conflicts and exits with 1 when there are any, so git marks the file conflicted
+ */
+
+import * as fs from 'node:fs'
+import { Map as GameMap } from '../lib/game/Map'
+import { getBuildingKey, type MergeConflict, mergeMaps } from '../lib/game/MapDiff'
+import { MapSerializer } from '../lib/game/MapSerializer'
+import { type TerrainDefinition, terrainRegistry } from '../lib/game/TerrainRegistry'
+
+function describeConflict(conflict: MergeConflict): string {
+  const where =
+    conflict.height === undefined ? conflict.key : `${conflict.key} level ${conflict.height}`
+  return `${conflict.kind} ${where}: ${conflict.fields.join(', ')}`
+}
+
+function main() {
+  const [basePath, oursPath, theirsPath, outputArg] = process.argv.slice(2)
+  if (!basePath || !oursPath || !theirsPath) {
+    console.error(
+      'Usage: bun run scripts/merge-map.ts <base.json> <ours.json> <theirs.json> [output.json]'
+    )
+    process.exit(2)
+  }
+
+  // Each load replaces the terrain types of the one before; the merge needs all of them
+  const terrains: TerrainDefinition[] = []
+  const load = (text: string) => {
+    const loaded = MapSerializer.deserialize(text)
+    terrains.unshift(...terrainRegistry.getMapTerrains())
+    return loaded
+  }
+
+  const oursText = fs.readFileSync(oursPath, 'utf-8')
+  const ours = load(oursText)
+  const theirs = load(fs.readFileSync(theirsPath, 'utf-8'))
+  // Git passes an empty ancestor when both sides added the file
+  const baseText = fs.readFileSync(basePath, 'utf-8')
+  const base = baseText.trim()
+    ? load(baseText)
+    : { map: new GameMap(ours.map.width, ours.map.height, ours.map.shape), buildings: [] }
+  // Registered last, our definitions win
+  terrainRegistry.setMapTerrains(terrains)
+
+  const { map, buildings, conflicts } = mergeMaps(base, ours, theirs)
+
+  const mapFile = MapSerializer.toMapFile(map, ours.mapSize, {
+    includeBuildings: buildings.length > 0,
+    buildingData: new Map(
+      buildings.map((building) => [getBuildingKey(building), building.modelData])
+    ),
+    buildingProperties: new Map(
+      buildings.flatMap((building) =>
+        building.properties ? [[getBuildingKey(building), building.properties] as const] : []
+      )
+    ),
+  })
+  // A merge is not a save: keep our metadata (revision, changelog) with the merged properties.
+  // Our checkpoints are patches against our version, so they do not apply to the merge result.
+  if (ours.metadata) {
+    const { properties: _properties, checkpoints: _checkpoints, ...metadata } = ours.metadata
+    mapFile.metadata = {
+      ...metadata,
+      ...(mapFile.metadata.properties && { properties: mapFile.metadata.properties }),
+    }
+  }
+  const version = MapSerializer.parse(oursText).version === '2.0' ? '2.0' : '3.0'
+  fs.writeFileSync(outputArg ?? oursPath, MapSerializer.stringify(mapFile, version))
+
+  if (conflicts.length > 0) {
+    console.error(`⚠️  ${conflicts.length} conflicts, kept our version of:`)
+    for (const conflict of conflicts) {
+      console.error(`   ${describeConflict(conflict)}`)
+    }
+    process.exit(1)
+  }
+  console.log(`✅ Merged ${theirsPath} into ${outputArg ?? oursPath}`)
+}
+
+try {
+  main()
+} catch (error) {
+  console.error('❌ Merge failed:', error instanceof Error ? error.message : error)
+  process.exit(2)
+}